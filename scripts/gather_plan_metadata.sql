@@ -1368,7 +1368,8 @@ DECLARE
       fixed         VARCHAR2(3),
       origin        VARCHAR2(20),
       created       DATE,
-      last_modified DATE
+      last_modified DATE,
+      plan_hash     NUMBER
     );
     TYPE t_baseline_tab IS TABLE OF t_baseline;
     l_baselines t_baseline_tab := t_baseline_tab();
@@ -1427,7 +1428,7 @@ DECLARE
     BEGIN
       IF l_exact_sig IS NOT NULL THEN
         EXECUTE IMMEDIATE
-          'SELECT plan_name, sql_handle, enabled, accepted, fixed, origin, created, last_modified '
+          'SELECT plan_name, sql_handle, enabled, accepted, fixed, origin, created, last_modified, NULL '
           || 'FROM dba_sql_plan_baselines WHERE signature = :1'
           BULK COLLECT INTO l_baselines USING l_exact_sig;
       END IF;
@@ -1437,6 +1438,19 @@ DECLARE
         l_baselines := t_baseline_tab();
     END;
 
+    -- The dictionary doesn't expose the plan hash a baseline reproduces;
+    -- DISPLAY_SQL_PLAN_BASELINE prints it in its header. Best-effort per plan.
+    FOR i IN 1 .. l_baselines.COUNT LOOP
+      BEGIN
+        EXECUTE IMMEDIATE
+          'SELECT MAX(TO_NUMBER(REGEXP_SUBSTR(plan_table_output, ''^Plan hash value: ([0-9]+)'', 1, 1, NULL, 1))) '
+          || 'FROM TABLE(DBMS_XPLAN.DISPLAY_SQL_PLAN_BASELINE(:1, :2, ''BASIC''))'
+          INTO l_baselines(i).plan_hash USING l_baselines(i).sql_handle, l_baselines(i).plan_name;
+      EXCEPTION
+        WHEN OTHERS THEN l_baselines(i).plan_hash := NULL;
+      END;
+    END LOOP;
+
     -- Profiles
     BEGIN
       IF l_exact_sig IS NOT NULL OR l_force_sig IS NOT NULL OR l_sql_profile IS NOT NULL THEN
@@ -1531,6 +1545,7 @@ DECLARE
         || ',"enabled":' || js_bool(l_baselines(i).enabled = 'YES')
         || ',"accepted":' || js_bool(l_baselines(i).accepted = 'YES')
         || ',"fixed":' || js_bool(l_baselines(i).fixed = 'YES')
+        || ',"plan_hash_value":' || js_number(l_baselines(i).plan_hash)
         || ',"origin":' || js_string(l_baselines(i).origin)
         || ',"created":' || js_iso_ts(l_baselines(i).created)
         || ',"last_modified":' || js_iso_ts(l_baselines(i).last_modified)
@@ -9,8 +9,11 @@ import { NodeDetailPanel } from './components/NodeDetailPanel';
 import { CommandPalette } from './components/CommandPalette';
 import { ShortcutsOverlay } from './components/ShortcutsOverlay';
 import { ShareResultDialog } from './components/ShareResultDialog';
+import { ExecutionPickerDialog } from './components/ExecutionPickerDialog';
 import { PopoutWindow } from './components/PopoutWindow';
 import { BaselineScriptModal } from './components/BaselineScriptModal';
+import { AdvisorSettingsDialog } from './components/AdvisorSettingsDialog';
+import { CustomRulesDialog } from './components/CustomRulesDialog';
 import { MetadataExplorer } from './components/metadata/MetadataExplorer';
 import { SAMPLE_PLANS_BY_CATEGORY } from './examples';
 import type { SamplePlan } from './examples';
@@ -136,6 +139,8 @@ function AppContent() {
     plans, activePlanIndex, viewMode, visualizationMaximized, setVisualizationMaximized, loadAndParsePlan,
     metadataBundle, metadataPopoutOpen, setMetadataPopoutOpen,
     baselineDialogOpen, setBaselineDialogOpen,
+    advisorSettingsOpen, setAdvisorSettingsOpen,
+    customRulesOpen, setCustomRulesOpen,
   } = usePlan();
   const activeParsedPlan = plans[activePlanIndex]?.parsedPlan ?? null;
   const anyPlanParsed = plans.some(p => p.parsedPlan);
@@ -228,6 +233,7 @@ function AppContent() {
       <CommandPalette />
       <ShortcutsOverlay />
       <ShareResultDialog />
+      <ExecutionPickerDialog />
       {baselineDialogOpen && (
         <BaselineScriptModal
           initialSqlId={activeParsedPlan?.sqlId ?? ''}
@@ -235,6 +241,12 @@ function AppContent() {
           onClose={() => setBaselineDialogOpen(false)}
         />
       )}
+      {advisorSettingsOpen && (
+        <AdvisorSettingsDialog onClose={() => setAdvisorSettingsOpen(false)} />
+      )}
+      {customRulesOpen && (
+        <CustomRulesDialog onClose={() => setCustomRulesOpen(false)} />
+      )}
       {metadataPopoutOpen && metadataBundle && (
         <PopoutWindow title="Metadata Explorer" onClose={() => setMetadataPopoutOpen(false)}>
           <MetadataPopoutContent onReturn={() => setMetadataPopoutOpen(false)} />
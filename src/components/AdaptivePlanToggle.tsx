@@ -0,0 +1,35 @@
+import { usePlan } from '../hooks/usePlanContext';
+
+const OPTIONS: { full: boolean; label: string; title: string }[] = [
+  { full: false, label: 'Final plan', title: 'Show the plan that ran, without the rows the adaptive plan switched off' },
+  { full: true, label: 'Full adaptive plan', title: 'Also show inactive rows (statistics collector, unused join alternative), ghosted' },
+];
+
+/** Segmented switch between the final and the full adaptive plan, shared by the tree and table views. */
+export function AdaptivePlanToggle() {
+  const { showFullAdaptivePlan, setShowFullAdaptivePlan } = usePlan();
+
+  return (
+    <div className="inline-flex rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 shadow-sm overflow-hidden text-[11px] font-medium">
+      {OPTIONS.map((option) => {
+        const active = option.full === showFullAdaptivePlan;
+        return (
+          <button
+            key={option.label}
+            type="button"
+            onClick={() => setShowFullAdaptivePlan(option.full)}
+            title={option.title}
+            aria-pressed={active}
+            className={`px-2 py-1 transition-colors ${
+              active
+                ? 'bg-blue-50 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300'
+                : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+            }`}
+          >
+            {option.label}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+import { useEffect, useState } from 'react';
+import { usePlan } from '../hooks/usePlanContext';
+import {
+  THRESHOLD_FIELDS,
+  isBuiltinProfile,
+  profileDefaults,
+  validateThreshold,
+  validateThresholdPairs,
+  type AdvisorThresholdKey,
+  type AdvisorThresholds,
+  type ThresholdField,
+} from '../lib/advisor';
+import { formatBytes } from '../lib/format';
+
+type Draft = Record<AdvisorThresholdKey, string>;
+
+function toDraft(thresholds: AdvisorThresholds): Draft {
+  const draft = {} as Draft;
+  for (const field of THRESHOLD_FIELDS) draft[field.key] = String(thresholds[field.key]);
+  return draft;
+}
+
+/** Readable form of a threshold value next to its input (bytes and fractions are hard to eyeball). */
+function valueHint(field: ThresholdField, value: number): string | undefined {
+  if (!Number.isFinite(value)) return undefined;
+  if (field.unit === 'bytes') return formatBytes(value);
+  if (field.unit === 'fraction') return `${+(value * 100).toPrecision(4)}%`;
+  if (field.unit === 'percent') return '%';
+  return undefined;
+}
+
+const GROUPS = [...new Set(THRESHOLD_FIELDS.map((field) => field.group))];
+
+/**
+ * Edit the advisor thresholds of a named profile (the built-in Default, OLTP
+ * and DW, or user-defined ones), save edits as a new profile and pick the
+ * profile the advisor runs with.
+ */
+export function AdvisorSettingsDialog({ onClose }: { onClose: () => void }) {
+  const { advisorProfiles, advisorProfile, saveAdvisorProfile, deleteAdvisorProfile } = usePlan();
+  const [profileName, setProfileName] = useState(advisorProfile.name);
+  const [draft, setDraft] = useState<Draft>(() => toDraft(advisorProfile.thresholds));
+  const [newName, setNewName] = useState('');
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const defaults = profileDefaults(profileName);
+  const thresholds = {} as AdvisorThresholds;
+  const errors: Partial<Record<AdvisorThresholdKey, string>> = {};
+  for (const field of THRESHOLD_FIELDS) {
+    const text = draft[field.key].trim();
+    thresholds[field.key] = text === '' ? NaN : Number(text);
+    const error = validateThreshold(field.key, thresholds[field.key]);
+    if (error) errors[field.key] = error;
+  }
+  if (Object.keys(errors).length === 0) Object.assign(errors, validateThresholdPairs(thresholds));
+  const valid = Object.keys(errors).length === 0;
+
+  const trimmedName = newName.trim();
+  const nameTaken = advisorProfiles.some((profile) => profile.name === trimmedName);
+
+  const selectProfile = (name: string) => {
+    const profile = advisorProfiles.find((p) => p.name === name);
+    if (!profile) return;
+    setProfileName(name);
+    setDraft(toDraft(profile.thresholds));
+  };
+
+  const apply = () => {
+    if (!valid) return;
+    saveAdvisorProfile({ name: profileName, thresholds });
+    onClose();
+  };
+
+  const saveAsNew = () => {
+    if (!valid || !trimmedName || nameTaken) return;
+    saveAdvisorProfile({ name: trimmedName, thresholds });
+    setProfileName(trimmedName);
+    setNewName('');
+  };
+
+  const deleteProfile = () => {
+    deleteAdvisorProfile(profileName);
+    const fallback = advisorProfiles.find((p) => p.name !== profileName && isBuiltinProfile(p.name)) ?? advisorProfiles[0];
+    setProfileName(fallback.name);
+    setDraft(toDraft(fallback.thresholds));
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center bg-black/40 dark:bg-black/60 overflow-y-auto p-4"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Advisor settings"
+        className="bg-white dark:bg-neutral-900 rounded-lg shadow-xl border border-neutral-200 dark:border-neutral-700 w-[680px] max-w-[95vw] my-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-neutral-200 dark:border-neutral-800">
+          <h3 className="text-sm font-semibold text-neutral-900 dark:text-neutral-100">Advisor thresholds</h3>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-neutral-500 hover:text-neutral-700 dark:hover:text-neutral-200 text-lg leading-none px-1"
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div className="flex flex-wrap items-end gap-2">
+            <div>
+              <label htmlFor="advisor-profile" className="block text-[11px] font-medium text-neutral-600 dark:text-neutral-400 mb-1 uppercase tracking-wide">
+                Profile
+              </label>
+              <select
+                id="advisor-profile"
+                value={profileName}
+                onChange={(e) => selectProfile(e.target.value)}
+                className="px-2 py-1.5 text-xs rounded-md border border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-950 text-neutral-900 dark:text-neutral-100"
+              >
+                {advisorProfiles.map((profile) => (
+                  <option key={profile.name} value={profile.name}>
+                    {profile.name}{isBuiltinProfile(profile.name) ? '' : ' (custom)'}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <button
+              type="button"
+              onClick={() => setDraft(toDraft(defaults))}
+              className="px-2.5 py-1.5 text-xs font-medium rounded-md border border-neutral-300 dark:border-neutral-600 text-neutral-700 dark:text-neutral-200 hover:bg-neutral-100 dark:hover:bg-neutral-800"
+              title={isBuiltinProfile(profileName) ? `Restore the shipped ${profileName} values` : 'Restore the Default profile values'}
+            >
+              Reset to defaults
+            </button>
+            {!isBuiltinProfile(profileName) && (
+              <button
+                type="button"
+                onClick={deleteProfile}
+                className="px-2.5 py-1.5 text-xs font-medium rounded-md border border-red-300 dark:border-red-700 text-red-700 dark:text-red-300 hover:bg-red-50 dark:hover:bg-red-900/20"
+              >
+                Delete profile
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-[55vh] overflow-y-auto pr-1 space-y-3">
+            {GROUPS.map((group) => (
+              <fieldset key={group}>
+                <legend className="text-[10px] font-semibold uppercase tracking-wider text-neutral-400 dark:text-neutral-500 mb-1">{group}</legend>
+                <div className="space-y-1">
+                  {THRESHOLD_FIELDS.filter((field) => field.group === group).map((field) => {
+                    const error = errors[field.key];
+                    const changed = thresholds[field.key] !== defaults[field.key];
+                    const hint = valueHint(field, thresholds[field.key]);
+                    return (
+                      <div key={field.key} className="grid grid-cols-[1fr_9rem_4.5rem_1.25rem] items-center gap-2">
+                        <label htmlFor={`threshold-${field.key}`} className="text-xs text-neutral-700 dark:text-neutral-200" title={field.description}>
+                          {field.label}
+                          {error && <span className="block text-[10px] text-red-600 dark:text-red-400">{error}</span>}
+                        </label>
+                        <input
+                          id={`threshold-${field.key}`}
+                          type="text"
+                          inputMode="decimal"
+                          value={draft[field.key]}
+                          onChange={(e) => setDraft((current) => ({ ...current, [field.key]: e.target.value }))}
+                          spellCheck={false}
+                          aria-invalid={error ? true : undefined}
+                          className={`w-full px-2 py-1 text-xs font-mono text-right rounded-md bg-white dark:bg-neutral-950 text-neutral-900 dark:text-neutral-100 focus:outline-none focus:ring-2 ${
+                            error
+                              ? 'border border-red-400 dark:border-red-500 focus:ring-red-500/60'
+                              : 'border border-neutral-200 dark:border-neutral-700 focus:ring-blue-500/60'
+                          }`}
+                        />
+                        <span className="text-[10px] font-mono text-neutral-400 dark:text-neutral-500 truncate">{hint}</span>
+                        {changed ? (
+                          <button
+                            type="button"
+                            onClick={() => setDraft((current) => ({ ...current, [field.key]: String(defaults[field.key]) }))}
+                            className="text-xs text-neutral-400 hover:text-neutral-700 dark:hover:text-neutral-200"
+                            title={`Reset to ${defaults[field.key]}`}
+                            aria-label={`Reset ${field.label}`}
+                          >
+                            ↺
+                          </button>
+                        ) : <span />}
+                      </div>
+                    );
+                  })}
+                </div>
+              </fieldset>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 pt-3 border-t border-neutral-200 dark:border-neutral-800">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="New profile name"
+              aria-label="New profile name"
+              className="px-2 py-1.5 text-xs rounded-md border border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-950 text-neutral-900 dark:text-neutral-100 placeholder-neutral-400"
+            />
+            <button
+              type="button"
+              onClick={saveAsNew}
+              disabled={!valid || !trimmedName || nameTaken}
+              className="px-2.5 py-1.5 text-xs font-medium rounded-md border border-neutral-300 dark:border-neutral-600 text-neutral-700 dark:text-neutral-200 hover:bg-neutral-100 dark:hover:bg-neutral-800 disabled:opacity-50 disabled:cursor-not-allowed"
+              title={nameTaken ? 'A profile with this name already exists' : undefined}
+            >
+              Save as new profile
+            </button>
+            <span className="flex-1" />
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-3 py-1.5 text-xs font-medium rounded-md border border-neutral-300 dark:border-neutral-600 text-neutral-700 dark:text-neutral-200 hover:bg-neutral-100 dark:hover:bg-neutral-800"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={apply}
+              disabled={!valid}
+              className="px-3 py-1.5 text-xs font-semibold rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save &amp; use {profileName}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import type { BindVariable } from '../lib/types';
+
+/** Position / name / type / value table for a plan's bind variables. */
+export function BindVariablesTable({ binds }: { binds: BindVariable[] }) {
+  const showSource = binds.some((b) => b.source);
+  return (
+    <div className="overflow-auto">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-[10px] uppercase tracking-wider text-neutral-400 dark:text-neutral-500 border-b border-neutral-200 dark:border-neutral-700">
+            <th className="pb-1.5 pr-4 font-medium">#</th>
+            <th className="pb-1.5 pr-4 font-medium">Name</th>
+            <th className="pb-1.5 pr-4 font-medium">Type</th>
+            {showSource && <th className="pb-1.5 pr-4 font-medium">Source</th>}
+            <th className="pb-1.5 font-medium">Value</th>
+          </tr>
+        </thead>
+        <tbody>
+          {binds.map((b, i) => (
+            <tr key={`${b.source ?? ''}:${b.position ?? i}:${b.name}`} className={i % 2 === 0 ? '' : 'bg-neutral-50 dark:bg-neutral-800/30'}>
+              <td className="py-1 pr-4 font-mono text-neutral-400">{b.position ?? i + 1}</td>
+              <td className="py-1 pr-4 font-mono font-medium text-neutral-700 dark:text-neutral-300">{b.name}</td>
+              <td className="py-1 pr-4 text-neutral-500 dark:text-neutral-400">{b.type ?? '—'}</td>
+              {showSource && (
+                <td className="py-1 pr-4 text-neutral-500 dark:text-neutral-400">{b.source ?? '—'}</td>
+              )}
+              <td className="py-1 font-mono text-neutral-800 dark:text-neutral-200">{b.value ?? <span className="text-neutral-400 italic">null</span>}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
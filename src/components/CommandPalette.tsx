@@ -60,6 +60,8 @@ const VIEW_MODE_LABELS: Record<ViewMode, string> = {
   metadata: 'Metadata',
   compare: 'Compare',
   monitor: 'Monitor',
+  px: 'PX Skew',
+  joinorders: 'Join Orders',
   experimental: 'Experimental',
 };
 
@@ -126,6 +128,10 @@ function useCommands(onExportPng: () => void): Command[] {
     share,
     setBaselineDialogOpen,
     setConnectPanelOpen,
+    advisorReport,
+    exportFindings,
+    setAdvisorSettingsOpen,
+    setCustomRulesOpen,
   } = usePlan();
 
   const anyPlanParsed = plans.some(p => p.parsedPlan);
@@ -293,6 +299,8 @@ function useCommands(onExportPng: () => void): Command[] {
       { key: 'showSpillBadge', label: 'Spill to disk badge', keywords: ['spill', 'disk', 'temp', 'badge'] },
       { key: 'showCardinalityBadge', label: 'Cardinality mismatch badge', keywords: ['cardinality', 'mismatch', 'badge'], runtime: true },
       { key: 'showAdvisorBadge', label: 'Advisor findings badge', keywords: ['advisor', 'findings', 'badge'] },
+      { key: 'showLowImpactAdvisorBadge', label: 'Low-impact advisor findings badge', keywords: ['advisor', 'findings', 'impact', 'minor', 'badge'] },
+      { key: 'showOffloadBadge', label: 'Cell offload / In-Memory badge', keywords: ['exadata', 'smart scan', 'offload', 'inmemory', 'badge'], runtime: true },
     ];
 
     for (const item of warningItems) {
@@ -439,6 +447,15 @@ function useCommands(onExportPng: () => void): Command[] {
       isAvailable: () => parsedPlan !== null,
     });
 
+    commands.push({
+      id: 'export-findings',
+      label: 'Export advisor findings',
+      category: 'Export & Share',
+      keywords: ['advisor', 'findings', 'export', 'json', 'download', 'profile'],
+      execute: exportFindings,
+      isAvailable: () => (advisorReport?.findings.length ?? 0) > 0,
+    });
+
     commands.push({
       id: 'save-annotations',
       label: 'Save annotated plan',
@@ -506,6 +523,22 @@ function useCommands(onExportPng: () => void): Command[] {
       isAvailable: () => anyPlanParsed && hasActualStats,
     });
 
+    commands.push({
+      id: 'advisor-settings',
+      label: 'Edit advisor thresholds…',
+      category: 'Panels',
+      keywords: ['advisor', 'thresholds', 'profile', 'oltp', 'dw', 'settings', 'rules'],
+      execute: () => setAdvisorSettingsOpen(true),
+    });
+
+    commands.push({
+      id: 'custom-rules',
+      label: 'Manage custom advisor rules…',
+      category: 'Panels',
+      keywords: ['advisor', 'custom', 'rules', 'pack', 'import', 'export', 'house', 'json'],
+      execute: () => setCustomRulesOpen(true),
+    });
+
     // --- Node indicator metric ---
     for (const [metric, label] of Object.entries(NODE_INDICATOR_LABELS) as [NodeIndicatorMetric, string][]) {
       const isRuntime = metric !== 'cost';
@@ -548,6 +581,7 @@ function useCommands(onExportPng: () => void): Command[] {
     setInputPanelCollapsed, setFilterPanelCollapsed,
     setDetailPanelCollapsed, setHotspotsEnabled, setTreeCompareEnabled,
     exportAnnotatedPlan, clearAnnotations, share, onExportPng, setBaselineDialogOpen, setConnectPanelOpen,
+    advisorReport, exportFindings, setAdvisorSettingsOpen, setCustomRulesOpen,
     toggleNodeDisplayOption, enableAllDisplayOptions, disableAllDisplayOptions,
   ]);
 }
@@ -0,0 +1,229 @@
+import { useEffect, useRef, useState } from 'react';
+import { usePlan } from '../hooks/usePlanContext';
+import { SEVERITY_STYLES } from '../lib/severityStyles';
+
+/** Starting point offered in the import box: one rule per kind of condition. */
+const EXAMPLE_RULE_PACK = {
+  format: 'ora-plan-rules',
+  version: 1,
+  name: 'House rules',
+  description: 'Team conventions the built-in advisor does not know about',
+  rules: [
+    {
+      id: 'no-full-scan-orders',
+      severity: 'critical',
+      title: 'Full scan of {object}',
+      explanation: 'Line {id} reads all of {object}. ORDERS_* tables must always be reached through an index.',
+      suggestion: 'Add a predicate on an indexed column or ask the DBA team for an index.',
+      match: { operation: ['TABLE ACCESS FULL', 'TABLE ACCESS STORAGE FULL'], objectName: 'ORDERS_*' },
+    },
+    {
+      id: 'filter-many-starts',
+      severity: 'warning',
+      title: 'FILTER subquery started {child.starts} times',
+      explanation: 'The FILTER on line {id} re-runs {child.operation} for every row it checks.',
+      match: { operation: 'FILTER' },
+      child: { metrics: [{ metric: 'starts', op: '>', value: 1000 }] },
+    },
+  ],
+};
+
+/**
+ * Import, export and remove custom advisor rule packs — declarative JSON rules
+ * the advisor evaluates next to its built-in rules.
+ */
+export function CustomRulesDialog({ onClose }: { onClose: () => void }) {
+  const { customRulePacks, importRulePack, removeRulePack, exportRulePack } = usePlan();
+  const [packText, setPackText] = useState('');
+  const [message, setMessage] = useState<{ tone: 'ok' | 'error'; text: string } | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const importText = (text: string) => {
+    if (!text.trim()) {
+      setMessage({ tone: 'error', text: 'Nothing to import — paste a rule pack or load a file first.' });
+      return;
+    }
+    const result = importRulePack(text);
+    if (!result.ok) {
+      setMessage({ tone: 'error', text: result.error });
+      return;
+    }
+    const count = result.pack.rules.length;
+    setMessage({
+      tone: 'ok',
+      text: `${result.replaced ? 'Updated' : 'Imported'} "${result.pack.name}" with ${count} rule${count === 1 ? '' : 's'}.`,
+    });
+    setPackText('');
+  };
+
+  const handleFilePick = (file: File | undefined) => {
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => importText(typeof reader.result === 'string' ? reader.result : '');
+    reader.readAsText(file);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center bg-black/40 dark:bg-black/60 overflow-y-auto p-4"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Custom advisor rules"
+        className="bg-white dark:bg-neutral-900 rounded-lg shadow-xl border border-neutral-200 dark:border-neutral-700 w-[640px] max-w-[95vw] my-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-neutral-200 dark:border-neutral-800">
+          <h3 className="text-sm font-semibold text-neutral-900 dark:text-neutral-100">Custom advisor rules</h3>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-neutral-500 hover:text-neutral-700 dark:hover:text-neutral-200 text-lg leading-none px-1"
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div>
+            <span className="block text-[11px] font-medium text-neutral-600 dark:text-neutral-400 uppercase tracking-wide mb-1">
+              Rule packs
+            </span>
+            {customRulePacks.length === 0 ? (
+              <p className="text-xs text-neutral-500 dark:text-neutral-400">
+                No custom rules yet. Import a pack shared by your team, or start from the example below.
+              </p>
+            ) : (
+              <ul className="space-y-2">
+                {customRulePacks.map((pack) => (
+                  <li key={pack.name} className="p-2 rounded-md border border-neutral-200 dark:border-neutral-700">
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs font-semibold text-neutral-800 dark:text-neutral-100 truncate">{pack.name}</span>
+                      <span className="text-[10px] text-neutral-400 dark:text-neutral-500">
+                        {pack.rules.length} rule{pack.rules.length === 1 ? '' : 's'}
+                      </span>
+                      <span className="flex-1" />
+                      <button
+                        type="button"
+                        onClick={() => exportRulePack(pack.name)}
+                        className="text-[10px] px-1.5 py-0.5 rounded border border-neutral-200 dark:border-neutral-700 text-neutral-600 dark:text-neutral-300 hover:bg-neutral-50 dark:hover:bg-neutral-800"
+                      >
+                        Export
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => removeRulePack(pack.name)}
+                        className="text-[10px] px-1.5 py-0.5 rounded border border-red-300 dark:border-red-700 text-red-700 dark:text-red-300 hover:bg-red-50 dark:hover:bg-red-900/20"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                    {pack.description && (
+                      <p className="mt-0.5 text-[11px] text-neutral-500 dark:text-neutral-400 leading-snug">{pack.description}</p>
+                    )}
+                    <ul className="mt-1 space-y-0.5">
+                      {pack.rules.map((rule) => (
+                        <li key={rule.id} className="flex items-center gap-1.5 text-[11px] text-neutral-600 dark:text-neutral-300">
+                          <span className={`text-[9px] font-semibold uppercase ${SEVERITY_STYLES[rule.severity].text}`}>{rule.severity}</span>
+                          <span className="font-mono truncate">{rule.id}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-[11px] font-medium text-neutral-600 dark:text-neutral-400 uppercase tracking-wide">
+                Import a pack
+              </span>
+              <div className="flex items-center gap-1">
+                <button
+                  type="button"
+                  onClick={() => setPackText(JSON.stringify(EXAMPLE_RULE_PACK, null, 2))}
+                  className="text-[10px] px-1.5 py-0.5 rounded border border-neutral-200 dark:border-neutral-700 text-neutral-600 dark:text-neutral-300 hover:bg-neutral-50 dark:hover:bg-neutral-800"
+                >
+                  Insert example
+                </button>
+                <button
+                  type="button"
+                  onClick={() => fileRef.current?.click()}
+                  className="text-[10px] px-1.5 py-0.5 rounded border border-neutral-200 dark:border-neutral-700 text-neutral-600 dark:text-neutral-300 hover:bg-neutral-50 dark:hover:bg-neutral-800"
+                >
+                  Load file…
+                </button>
+              </div>
+              <input
+                ref={fileRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  handleFilePick(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+            <textarea
+              value={packText}
+              onChange={(e) => setPackText(e.target.value)}
+              placeholder='Paste a rule pack ({"format": "ora-plan-rules", "version": 1, "name": …, "rules": […]}) here…'
+              spellCheck={false}
+              rows={8}
+              className="w-full px-2.5 py-1.5 text-xs font-mono rounded-md bg-white dark:bg-neutral-950 text-neutral-900 dark:text-neutral-100 placeholder-neutral-400 focus:outline-none focus:ring-2 focus:ring-blue-500/60 border border-neutral-200 dark:border-neutral-700"
+            />
+            <p className="mt-1 text-[10px] text-neutral-500 dark:text-neutral-400 leading-snug">
+              Each rule matches a plan line by <code>operation</code> and <code>objectName</code> patterns (<code>*</code> wildcards) and
+              node <code>metrics</code>, optionally with <code>parent</code> and <code>child</code> conditions. Titles and explanations
+              can use <code>{'{id}'}</code>, <code>{'{object}'}</code>, <code>{'{starts}'}</code> or <code>{'{child.operation}'}</code>.
+              A pack with the name of an imported one replaces it.
+            </p>
+            {message && (
+              <div
+                className={`mt-1 p-2 text-[11px] rounded-md border ${
+                  message.tone === 'ok'
+                    ? 'bg-emerald-50 dark:bg-emerald-900/20 border-emerald-200 dark:border-emerald-800 text-emerald-700 dark:text-emerald-300'
+                    : 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-red-700 dark:text-red-400'
+                }`}
+              >
+                {message.text}
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center justify-end gap-2 pt-3 border-t border-neutral-200 dark:border-neutral-800">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-3 py-1.5 text-xs font-medium rounded-md border border-neutral-300 dark:border-neutral-600 text-neutral-700 dark:text-neutral-200 hover:bg-neutral-100 dark:hover:bg-neutral-800"
+            >
+              Close
+            </button>
+            <button
+              type="button"
+              onClick={() => importText(packText)}
+              disabled={!packText.trim()}
+              className="px-3 py-1.5 text-xs font-semibold rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Import
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
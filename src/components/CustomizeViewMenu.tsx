@@ -29,6 +29,8 @@ type NodeOptionKey =
   | 'showSpillBadge'
   | 'showCardinalityBadge'
   | 'showAdvisorBadge'
+  | 'showLowImpactAdvisorBadge'
+  | 'showOffloadBadge'
   | 'showStaleStatsBadge'
   | 'showMissingStatsBadge'
   | 'showMismatchNoHistogramBadge'
@@ -174,6 +176,19 @@ function buildCommands(hasActualStats: boolean): ViewCommand[] {
       label: 'Advisor findings',
       keywords: ['advisor', 'findings', 'rules', 'warning', 'badge'],
     },
+    {
+      key: 'showLowImpactAdvisorBadge',
+      section: 'Warning badges',
+      label: 'Low-impact advisor findings',
+      keywords: ['advisor', 'findings', 'impact', 'minor', 'badge'],
+    },
+    {
+      key: 'showOffloadBadge',
+      section: 'Warning badges',
+      label: 'Cell offload / In-Memory',
+      keywords: ['exadata', 'smart', 'scan', 'offload', 'inmemory', 'warning', 'badge'],
+      runtimeOnly: true,
+    },
     {
       key: 'showStaleStatsBadge',
       section: 'Metadata indicators',
@@ -0,0 +1,207 @@
+import { useEffect, useMemo, useState } from 'react';
+import { usePlan, type ExecutionPickerState } from '../hooks/usePlanContext';
+import { executionReportQuery, type MonitoredExecution } from '../lib/parser/sqlMonitorList';
+import { formatTimeDetailed } from '../lib/format';
+import { copyToClipboard } from '../lib/clipboard';
+
+/** List report entries carry no plan, so they can't be loaded. */
+function loadable(execution: MonitoredExecution): boolean {
+  return execution.report !== undefined;
+}
+
+/**
+ * App-level dialog for a pasted SQL Monitor document that covers several
+ * executions (a spool of reports, or a REPORT_SQL_MONITOR_LIST). Picks one
+ * execution for the active tab, or several (e.g. every execution of one
+ * sql_id) to open side by side for comparison.
+ */
+export function ExecutionPickerDialog() {
+  const { executionPicker, loadMonitoredExecutions, dismissExecutionPicker } = usePlan();
+
+  // Dismiss on Escape while the dialog is open.
+  useEffect(() => {
+    if (!executionPicker) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') dismissExecutionPicker();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [executionPicker, dismissExecutionPicker]);
+
+  if (!executionPicker) return null;
+  return (
+    <ExecutionPicker
+      // A new paste starts a fresh selection.
+      key={executionPicker.input}
+      picker={executionPicker}
+      onLoad={loadMonitoredExecutions}
+      onClose={dismissExecutionPicker}
+    />
+  );
+}
+
+function ExecutionPicker({ picker, onLoad, onClose }: {
+  picker: ExecutionPickerState;
+  onLoad: (indexes: number[]) => void;
+  onClose: () => void;
+}) {
+  const { executions } = picker;
+  const [selected, setSelected] = useState<Set<number>>(() => {
+    const first = executions.findIndex(loadable);
+    return new Set(first === -1 ? [] : [first]);
+  });
+  const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+
+  // sql_ids with more than one loadable execution, for "all executions of" shortcuts.
+  const repeatedSqlIds = useMemo(() => {
+    const counts = new Map<string, number[]>();
+    executions.forEach((execution, index) => {
+      if (!execution.sqlId || !loadable(execution)) return;
+      counts.set(execution.sqlId, [...(counts.get(execution.sqlId) ?? []), index]);
+    });
+    return [...counts].filter(([, indexes]) => indexes.length > 1);
+  }, [executions]);
+
+  const listOnly = executions.every((execution) => !loadable(execution));
+
+  const toggle = (index: number) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const copyQuery = async (index: number) => {
+    if (await copyToClipboard(executionReportQuery(executions[index]))) {
+      setCopiedIndex(index);
+      setTimeout(() => setCopiedIndex(null), 2000);
+    }
+  };
+
+  const selectedIndexes = [...selected].sort((a, b) => a - b);
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex items-center justify-center bg-black/30 dark:bg-black/50 p-4"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Pick SQL Monitor executions"
+        className="bg-white dark:bg-slate-900 rounded-lg shadow-xl border border-slate-200 dark:border-slate-700 p-4 w-[56rem] max-w-[95vw] max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between gap-3 mb-1">
+          <h2 className="text-sm font-semibold text-slate-800 dark:text-slate-100">
+            {executions.length} SQL Monitor execution{executions.length !== 1 ? 's' : ''}
+          </h2>
+          <button
+            onClick={onClose}
+            className="shrink-0 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200"
+            title="Close"
+            aria-label="Close"
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <p className="text-xs text-slate-500 dark:text-slate-400 mb-3">
+          {listOnly
+            ? 'This is a monitoring list: it has no plans. Copy the report query for an execution and paste its output here.'
+            : 'One execution loads into the current tab. Several open one tab each, replacing the open tabs, so they can be compared.'}
+        </p>
+
+        <div className="flex-1 min-h-0 overflow-auto rounded border border-slate-200 dark:border-slate-700">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-slate-50 dark:bg-slate-800">
+              <tr className="text-left text-[10px] uppercase tracking-wider text-slate-400 dark:text-slate-500">
+                <th className="px-2 py-1.5 w-6" />
+                <th className="px-2 py-1.5 font-medium">SQL ID</th>
+                <th className="px-2 py-1.5 font-medium">Exec ID</th>
+                <th className="px-2 py-1.5 font-medium">Started</th>
+                <th className="px-2 py-1.5 font-medium">Status</th>
+                <th className="px-2 py-1.5 font-medium text-right">Duration</th>
+                <th className="px-2 py-1.5 font-medium">User</th>
+                <th className="px-2 py-1.5 font-medium">Module</th>
+              </tr>
+            </thead>
+            <tbody>
+              {executions.map((execution, index) => {
+                const canLoad = loadable(execution);
+                return (
+                  <tr
+                    key={index}
+                    onClick={canLoad ? () => toggle(index) : undefined}
+                    title={execution.sqlText}
+                    className={`border-t border-slate-100 dark:border-slate-800 ${
+                      canLoad ? 'cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-800/60' : 'text-slate-400 dark:text-slate-500'
+                    } ${selected.has(index) ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}
+                  >
+                    <td className="px-2 py-1">
+                      {canLoad ? (
+                        <input
+                          type="checkbox"
+                          checked={selected.has(index)}
+                          onChange={() => toggle(index)}
+                          onClick={(e) => e.stopPropagation()}
+                          aria-label={`Select execution ${execution.sqlExecId ?? index + 1}`}
+                        />
+                      ) : (
+                        <button
+                          onClick={() => copyQuery(index)}
+                          className="text-[10px] font-medium text-blue-600 dark:text-blue-400 hover:underline whitespace-nowrap"
+                          title={executionReportQuery(execution)}
+                        >
+                          {copiedIndex === index ? 'Copied' : 'Copy query'}
+                        </button>
+                      )}
+                    </td>
+                    <td className="px-2 py-1 font-mono">{execution.sqlId ?? '—'}</td>
+                    <td className="px-2 py-1 font-mono">{execution.sqlExecId ?? '—'}</td>
+                    <td className="px-2 py-1 whitespace-nowrap">{execution.sqlExecStart ?? '—'}</td>
+                    <td className="px-2 py-1">{execution.status ?? '—'}</td>
+                    <td className="px-2 py-1 text-right font-mono">
+                      {formatTimeDetailed(execution.duration !== undefined ? execution.duration * 1000 : undefined, { empty: '—' })}
+                    </td>
+                    <td className="px-2 py-1">{execution.user ?? '—'}</td>
+                    <td className="px-2 py-1 truncate max-w-[12rem]">{execution.module ?? '—'}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-end gap-2 mt-3">
+          {repeatedSqlIds.map(([sqlId, indexes]) => (
+            <button
+              key={sqlId}
+              onClick={() => onLoad(indexes)}
+              className="px-3 py-1.5 text-xs font-medium rounded-md border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-800"
+              title={`Open every execution of ${sqlId} in its own tab`}
+            >
+              All {indexes.length} of <span className="font-mono">{sqlId}</span>
+            </button>
+          ))}
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 text-xs font-medium rounded-md border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-800"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onLoad(selectedIndexes)}
+            disabled={selectedIndexes.length === 0}
+            className="px-3 py-1.5 text-xs font-semibold rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {selectedIndexes.length > 1 ? `Load ${selectedIndexes.length} executions` : 'Load execution'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
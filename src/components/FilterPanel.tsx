@@ -82,6 +82,8 @@ const DEFAULT_NODE_DISPLAY_OPTIONS: NodeDisplayOptions = {
   showSpillBadge: true,
   showCardinalityBadge: true,
   showAdvisorBadge: true,
+  showLowImpactAdvisorBadge: false,
+  showOffloadBadge: true,
   showStaleStatsBadge: true,
   showMissingStatsBadge: true,
   showMismatchNoHistogramBadge: true,
@@ -1,7 +1,8 @@
 import { useState } from 'react';
 import { usePlan } from '../hooks/usePlanContext';
-import type { FindingSeverity, Finding } from '../lib/advisor';
+import { IMPACT_BASIS_LABELS, type FindingSeverity, type Finding, type FindingImpact } from '../lib/advisor';
 import { SEVERITY_STYLES } from '../lib/severityStyles';
+import { copyToClipboard } from '../lib/clipboard';
 
 const SEVERITY_ORDER: FindingSeverity[] = ['critical', 'warning', 'info'];
 const SEVERITY_LABELS: Record<FindingSeverity, { singular: string; plural: string }> = {
@@ -26,6 +27,60 @@ function SeverityDot({ severity }: { severity: FindingSeverity }) {
   return <span className={`w-1.5 h-1.5 rounded-full shrink-0 ${dotColor}`} aria-hidden="true" />;
 }
 
+/** Marks findings raised by an imported rule pack rather than a built-in rule. */
+function RulePackChip({ finding }: { finding: Finding }) {
+  if (!finding.rulePack) return null;
+  return (
+    <span
+      className="shrink-0 px-1 rounded text-[9px] font-sans font-medium bg-violet-100 dark:bg-violet-900/40 text-violet-700 dark:text-violet-300"
+      title={`Custom rule ${finding.ruleId} from the "${finding.rulePack}" rule pack`}
+    >
+      {finding.rulePack}
+    </span>
+  );
+}
+
+type FindingsSort = 'severity' | 'impact';
+
+/** Share of the statement's time (or cost) the finding's nodes account for. */
+function ImpactBar({ impact }: { impact: FindingImpact | undefined }) {
+  if (!impact) return null;
+  const percent = impact.share * 100;
+  const label = percent > 0 && percent < 1 ? '<1%' : `${Math.round(percent)}%`;
+  return (
+    <span className="shrink-0 flex items-center gap-1" title={`Affects about ${percent < 10 ? percent.toFixed(1) : Math.round(percent)}% ${IMPACT_BASIS_LABELS[impact.basis]}`}>
+      <span className="w-10 h-1.5 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden" aria-hidden="true">
+        <span className="block h-full rounded-full bg-slate-500 dark:bg-slate-400" style={{ width: `${Math.min(100, Math.max(percent, 2))}%` }} />
+      </span>
+      <span className="w-7 text-right text-[9px] font-mono tabular-nums text-slate-500 dark:text-slate-400">{label}</span>
+    </span>
+  );
+}
+
+/** Copyable SQL a finding proposes, such as a CREATE INDEX statement. */
+function FindingDdl({ ddl }: { ddl: string }) {
+  const [copied, setCopied] = useState(false);
+  return (
+    <div className="relative">
+      <pre className="text-[10px] font-mono p-1.5 pr-10 rounded border border-slate-200 dark:border-slate-700 bg-white/70 dark:bg-slate-950/60 text-slate-700 dark:text-slate-200 whitespace-pre-wrap break-all">
+        {ddl}
+      </pre>
+      <button
+        type="button"
+        onClick={async () => {
+          if (await copyToClipboard(ddl)) {
+            setCopied(true);
+            setTimeout(() => setCopied(false), 1500);
+          }
+        }}
+        className="absolute top-1 right-1 px-1 text-[9px] font-medium rounded text-blue-600 dark:text-blue-400 hover:bg-slate-100 dark:hover:bg-slate-800"
+      >
+        {copied ? 'Copied' : 'Copy'}
+      </button>
+    </div>
+  );
+}
+
 function FindingRow({ finding, onNavigate }: { finding: Finding; onNavigate: (nodeId: number) => void }) {
   const { showAdvisorSuggestions } = usePlan();
   const [expanded, setExpanded] = useState(false);
@@ -60,14 +115,17 @@ function FindingRow({ finding, onNavigate }: { finding: Finding; onNavigate: (no
             </span>
           )}
           <span className="truncate font-semibold text-slate-700 dark:text-slate-200">{finding.title}</span>
+          <RulePackChip finding={finding} />
         </button>
+        <ImpactBar impact={finding.impact} />
       </div>
       {expanded && (
         <div className="px-2 pb-2 pl-9 space-y-1">
           <p className="text-[11px] text-slate-600 dark:text-slate-300 leading-snug">{finding.explanation}</p>
-          {showAdvisorSuggestions && (
+          {showAdvisorSuggestions && finding.suggestion && (
             <p className={`text-[11px] italic leading-snug ${styles.text}`}>{finding.suggestion}</p>
           )}
+          {finding.ddl && <FindingDdl ddl={finding.ddl} />}
         </div>
       )}
     </div>
@@ -75,20 +133,49 @@ function FindingRow({ finding, onNavigate }: { finding: Finding; onNavigate: (no
 }
 
 export function FindingsList() {
-  const { advisorReport, selectNode } = usePlan();
+  const { advisorReport, selectNode, advisorProfile, exportFindings } = usePlan();
+  const [sortBy, setSortBy] = useState<FindingsSort>('severity');
   if (!advisorReport || advisorReport.findings.length === 0) return null;
 
   const countsLabel = severityCountsLabel(advisorReport.counts);
+  const hasImpact = advisorReport.findings.some((finding) => finding.impact);
+  // Stable sort: findings of equal impact keep their severity order.
+  const findings = sortBy === 'impact' && hasImpact
+    ? [...advisorReport.findings].sort((a, b) => (b.impact?.share ?? -1) - (a.impact?.share ?? -1))
+    : advisorReport.findings;
 
   return (
     <div>
-      {countsLabel && (
-        <div className="mb-1.5 text-[10px] font-semibold text-slate-500 dark:text-slate-400">
-          {countsLabel}
-        </div>
-      )}
+      <div className="mb-1.5 flex items-center gap-2 text-[10px]">
+        {countsLabel && <span className="font-semibold text-slate-500 dark:text-slate-400">{countsLabel}</span>}
+        <span className="text-slate-400 dark:text-slate-500" title="Threshold profile these findings were produced with">{advisorProfile.name} profile</span>
+        {hasImpact && (
+          <span className="flex items-center gap-0.5" role="group" aria-label="Sort findings">
+            {(['severity', 'impact'] as const).map((key) => (
+              <button
+                key={key}
+                type="button"
+                onClick={() => setSortBy(key)}
+                aria-pressed={sortBy === key}
+                className={`px-1 rounded capitalize ${sortBy === key ? 'bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-200 font-semibold' : 'text-slate-400 dark:text-slate-500 hover:text-slate-600 dark:hover:text-slate-300'}`}
+                title={key === 'impact' ? 'Sort by the share of time (or cost) each finding accounts for' : 'Sort by severity, then plan line'}
+              >
+                {key}
+              </button>
+            ))}
+          </span>
+        )}
+        <button
+          type="button"
+          onClick={exportFindings}
+          className="ml-auto font-medium text-blue-600 dark:text-blue-400 hover:underline"
+          title="Download the findings and the thresholds that produced them as JSON"
+        >
+          Export
+        </button>
+      </div>
       <div className="space-y-1">
-        {advisorReport.findings.map((finding, index) => (
+        {findings.map((finding, index) => (
           <FindingRow key={`${finding.ruleId}-${finding.nodeIds.join(',')}-${index}`} finding={finding} onNavigate={selectNode} />
         ))}
       </div>
@@ -110,11 +197,15 @@ export function NodeFindings({ nodeId }: { nodeId: number }) {
             key={`${finding.ruleId}-${index}`}
             className={`p-3 border-b border-neutral-200 dark:border-neutral-800 ${styles.banner}`}
           >
-            <div className={`text-xs font-semibold tracking-wide ${styles.text}`}>{finding.title}</div>
+            <div className={`flex items-center gap-1.5 text-xs font-semibold tracking-wide ${styles.text}`}>
+              <span className="min-w-0">{finding.title}</span>
+              <RulePackChip finding={finding} />
+            </div>
             <div className="mt-1 text-xs text-neutral-600 dark:text-neutral-400 leading-snug">{finding.explanation}</div>
-            {showAdvisorSuggestions && (
+            {showAdvisorSuggestions && finding.suggestion && (
               <div className={`mt-1 text-xs italic leading-snug ${styles.text}`}>{finding.suggestion}</div>
             )}
+            {finding.ddl && <div className="mt-1"><FindingDdl ddl={finding.ddl} /></div>}
           </div>
         );
       })}
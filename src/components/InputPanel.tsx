@@ -1,20 +1,21 @@
 import { useEffect, useRef, useState } from 'react';
 import { usePlan } from '../hooks/usePlanContext';
 import { getSourceDisplayName } from '../lib/parser';
+import { describePipelineProgress } from '../lib/pipeline';
 import { formatNumberShort } from '../lib/format';
 import { SAMPLE_PLANS_BY_CATEGORY, type SamplePlan } from '../examples';
 import { looksLikeMetadataBundle, type MetadataBundle } from '../lib/metadata/bundle';
 import { classifyDroppedFile } from '../lib/metadata/dropClassify';
 import { MetadataChip } from './MetadataChip';
 import { getDopDowngrade } from '../lib/planSignals';
-import type { ParsedPlan } from '../lib/types';
+import type { DiagnosticRepair, ParsedPlan, ParseDiagnostic } from '../lib/types';
 import { isDbAgentEnabled } from '../lib/agent/client';
 import { ConnectPanel } from './ConnectPanel';
 
 const dbAgentEnabled = isDbAgentEnabled();
 
 export function InputPanel() {
-  const { rawInput, setInput, parsePlan, loadAndParsePlan, loadMetadataBundle, attachMetadataBundleToSlot, clearPlan, removePlanSlot, error, parsedPlan, inputPanelCollapsed: isCollapsed, setInputPanelCollapsed: setIsCollapsed, hasMultiplePlans, plans, activePlanIndex, metadataBundle, metadataBundleWarning, detachMetadataBundle, connectPanelOpen: showConnectPanel, setConnectPanelOpen: setShowConnectPanel } = usePlan();
+  const { rawInput, setInput, parsePlan, loadAndParsePlan, loadMetadataBundle, attachMetadataBundleToSlot, clearPlan, removePlanSlot, error, diagnostics, parsing, repairAndParse, parsedPlan, inputPanelCollapsed: isCollapsed, setInputPanelCollapsed: setIsCollapsed, hasMultiplePlans, plans, activePlanIndex, metadataBundle, metadataBundleWarning, detachMetadataBundle, connectPanelOpen: showConnectPanel, setConnectPanelOpen: setShowConnectPanel } = usePlan();
   const [showSampleMenu, setShowSampleMenu] = useState(false);
   const [isDraggingFile, setIsDraggingFile] = useState(false);
   const [bundleMessage, setBundleMessage] = useState<{ tone: 'ok' | 'warn' | 'error'; text: string } | null>(null);
@@ -24,6 +25,8 @@ export function InputPanel() {
   >(null);
   const wasParsingRef = useRef(false);
   const menuRef = useRef<HTMLDivElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const problemCount = diagnostics.filter((d) => d.severity !== 'info').length;
 
   const handleBundleText = (text: string, opts?: { clearInputOnSuccess?: boolean }) => {
     const result = loadMetadataBundle(text);
@@ -58,13 +61,32 @@ export function InputPanel() {
     parsePlan();
   };
 
-  // Collapse panel when parsing succeeds
+  // Collapse panel when parsing succeeds; keep it open while there are
+  // warnings to read.
   useEffect(() => {
-    if (wasParsingRef.current && parsedPlan && !error) {
-      setIsCollapsed(true);
+    if (wasParsingRef.current && !parsing && parsedPlan && !error) {
+      if (problemCount === 0) setIsCollapsed(true);
       wasParsingRef.current = false;
     }
-  }, [error, parsedPlan, setIsCollapsed]);
+  }, [error, parsedPlan, parsing, problemCount, setIsCollapsed]);
+
+  // Select the lines a diagnostic points at so they stand out in the textarea.
+  const highlightLines = (line: number, endLine = line) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const lines = rawInput.split('\n');
+    const start = lines.slice(0, line - 1).reduce((sum, l) => sum + l.length + 1, 0);
+    const end = lines.slice(0, endLine).reduce((sum, l) => sum + l.length + 1, 0) - 1;
+    textarea.focus();
+    textarea.setSelectionRange(start, Math.max(start, end));
+    const lineHeight = parseFloat(getComputedStyle(textarea).lineHeight) || 16;
+    textarea.scrollTop = Math.max(0, (line - 3) * lineHeight);
+  };
+
+  const handleRepair = (repair: DiagnosticRepair) => {
+    wasParsingRef.current = true;
+    repairAndParse(repair);
+  };
 
   // Close menu when clicking outside
   useEffect(() => {
@@ -187,6 +209,22 @@ export function InputPanel() {
               <PlanNoteChips parsedPlan={parsedPlan} />
             </div>
           )}
+          {parsing && (
+            <span className="flex items-center gap-1.5 text-[11px] text-neutral-500 dark:text-neutral-400 whitespace-nowrap" role="status">
+              <span className="w-2 h-2 rounded-full bg-blue-500 animate-pulse" />
+              {describePipelineProgress(parsing)}
+            </span>
+          )}
+          {isCollapsed && problemCount > 0 && (
+            <button
+              type="button"
+              onClick={() => setIsCollapsed(false)}
+              title="Show the parse diagnostics"
+              className="px-2 py-0.5 border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300 rounded text-[11px] font-medium whitespace-nowrap"
+            >
+              {problemCount} parse warning{problemCount !== 1 ? 's' : ''}
+            </button>
+          )}
         </div>
         <div className="flex items-center gap-2">
           {dbAgentEnabled && (
@@ -292,6 +330,7 @@ export function InputPanel() {
       {!isCollapsed && (
         <div id="input-panel-content" className="flex flex-col gap-2 px-3 pb-3">
           <textarea
+            ref={textareaRef}
             value={rawInput}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={(e) => {
@@ -300,7 +339,7 @@ export function InputPanel() {
                 handleParse();
               }
             }}
-            placeholder={"Paste an Oracle execution plan here, drop a plan file onto this box, or click Load Example -->\n\nSupported formats:\n  \u2022 DBMS_XPLAN output\n  \u2022 SQL Monitor text report\n  \u2022 SQL Monitor XML report\n  \u2022 V$SQL_PLAN JSON\n  \u2022 Metadata bundle (gather_plan_metadata.sql output)\n\nMultiple plans in one paste are supported and are split into separate tabs."}
+            placeholder={"Paste an Oracle execution plan here, drop a plan file onto this box, or click Load Example -->\n\nSupported formats:\n  \u2022 DBMS_XPLAN output\n  \u2022 SQL Monitor text report\n  \u2022 SQL Monitor XML report\n  \u2022 SQL Monitor ACTIVE (HTML) report\n  \u2022 V$SQL_PLAN JSON, CSV or grid copy\n  \u2022 TKPROF report\n  \u2022 10053 optimizer trace\n  \u2022 Metadata bundle (gather_plan_metadata.sql output)\n\nMultiple plans in one paste are supported and are split into separate tabs."}
             className="w-full h-36 p-2.5 font-mono text-xs bg-neutral-50 dark:bg-neutral-950 border border-neutral-200 dark:border-neutral-700 rounded-md resize-y focus:outline-none focus:ring-2 focus:ring-blue-500/60 text-neutral-900 dark:text-neutral-100 placeholder-neutral-400 dark:placeholder-neutral-500"
           />
 
@@ -310,6 +349,14 @@ export function InputPanel() {
             </div>
           )}
 
+          {diagnostics.length > 0 && (
+            <ParseDiagnosticsList
+              diagnostics={diagnostics}
+              onSelectLines={highlightLines}
+              onRepair={handleRepair}
+            />
+          )}
+
           <div className="flex gap-2">
             <button
               onClick={handleParse}
@@ -421,6 +468,63 @@ export function InputPanel() {
 
 const NOTE_CHIP_CLASS = 'px-2 py-0.5 border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300 rounded text-[11px] font-medium';
 
+const SEVERITY_STYLES: Record<ParseDiagnostic['severity'], string> = {
+  error: 'border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400',
+  warning: 'border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300',
+  info: 'border-neutral-200 dark:border-neutral-700 bg-neutral-50 dark:bg-neutral-800 text-neutral-600 dark:text-neutral-300',
+};
+
+const REPAIR_LABELS: Record<DiagnosticRepair, string> = {
+  'rejoin-wrapped-rows': 'Rejoin wrapped rows',
+};
+
+function ParseDiagnosticsList({
+  diagnostics,
+  onSelectLines,
+  onRepair,
+}: {
+  diagnostics: ParseDiagnostic[];
+  onSelectLines: (line: number, endLine?: number) => void;
+  onRepair: (repair: DiagnosticRepair) => void;
+}) {
+  return (
+    <ul className="flex flex-col gap-1 text-xs" aria-label="Parse diagnostics">
+      {diagnostics.map((diagnostic, idx) => (
+        <li key={idx} className={`p-2 border rounded-md ${SEVERITY_STYLES[diagnostic.severity]}`}>
+          <div className="flex items-start gap-2">
+            <span className="uppercase text-[10px] font-semibold tracking-wide mt-px">{diagnostic.severity}</span>
+            {diagnostic.line !== undefined && (
+              <button
+                type="button"
+                onClick={() => onSelectLines(diagnostic.line!, diagnostic.endLine)}
+                title="Highlight in the pasted text"
+                className="font-mono underline decoration-dotted underline-offset-2 whitespace-nowrap hover:opacity-80"
+              >
+                {diagnostic.endLine !== undefined && diagnostic.endLine !== diagnostic.line
+                  ? `lines ${diagnostic.line}\u2013${diagnostic.endLine}`
+                  : `line ${diagnostic.line}`}
+              </button>
+            )}
+            <span className="flex-1 min-w-0">{diagnostic.message}</span>
+            {diagnostic.repair && (
+              <button
+                type="button"
+                onClick={() => onRepair(diagnostic.repair!)}
+                className="h-6 px-2 border border-current rounded font-semibold whitespace-nowrap hover:opacity-80"
+              >
+                {REPAIR_LABELS[diagnostic.repair]}
+              </button>
+            )}
+          </div>
+          {diagnostic.fix && (
+            <div className="mt-0.5 opacity-80">{diagnostic.fix}</div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 function PlanNoteChips({ parsedPlan }: { parsedPlan: ParsedPlan }) {
   const notes = parsedPlan.notes;
   const dopDowngrade = getDopDowngrade(parsedPlan.monitorMetadata);
@@ -468,6 +572,11 @@ function PlanNoteChips({ parsedPlan }: { parsedPlan: ParsedPlan }) {
           Outline "{notes.outline}"
         </span>
       )}
+      {notes?.dop !== undefined && (
+        <span className={NOTE_CHIP_CLASS} title={`Degree of parallelism ${notes.dop}${notes.dopReason ? `, set by ${notes.dopReason}` : ''}`}>
+          DOP {notes.dop}{notes.dopReason ? ` (${notes.dopReason})` : ''}
+        </span>
+      )}
       {dopDowngrade && (
         <span
           className="px-2 py-0.5 border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400 rounded text-[11px] font-medium"
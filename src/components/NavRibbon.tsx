@@ -1,7 +1,8 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useMemo } from 'react';
 import { usePlan } from '../hooks/usePlanContext';
 import { PlanTabs } from './PlanTabs';
 import type { ViewMode } from '../lib/types';
+import { computePxSkew } from '../lib/pxSkew';
 
 const tabs: { id: ViewMode; label: string; icon: React.ReactNode }[] = [
   {
@@ -85,6 +86,24 @@ const tabs: { id: ViewMode; label: string; icon: React.ReactNode }[] = [
       </svg>
     ),
   },
+  {
+    id: 'px',
+    label: 'PX Skew',
+    icon: (
+      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 10h10M4 14h6M4 18h13" />
+      </svg>
+    ),
+  },
+  {
+    id: 'joinorders',
+    label: 'Join Orders',
+    icon: (
+      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h4v4H4V6zm12 0h4v4h-4V6zM10 14h4v4h-4v-4zM8 8h8M6 10l6 4m6-4l-6 4" />
+      </svg>
+    ),
+  },
   {
     id: 'experimental',
     label: 'Experimental',
@@ -99,11 +118,14 @@ const tabs: { id: ViewMode; label: string; icon: React.ReactNode }[] = [
 export function NavRibbon() {
   const { viewMode, setViewMode, parsedPlan, plans, visualizationMaximized, setVisualizationMaximized } = usePlan();
 
+  const hasPxSkewData = useMemo(() => (parsedPlan ? computePxSkew(parsedPlan) !== null : false), [parsedPlan]);
   const comparablePlanCount = plans.filter((slot) => slot.parsedPlan).length;
   const compareEnabled = comparablePlanCount >= 2;
   const visibleTabs = tabs.filter((tab) => {
     if (tab.id === 'sql') return Boolean(parsedPlan?.sqlText);
-    if (tab.id === 'monitor') return parsedPlan?.source === 'sql_monitor_xml';
+    if (tab.id === 'monitor') return parsedPlan?.source === 'sql_monitor_xml' || Boolean(parsedPlan?.monitorMetadata);
+    if (tab.id === 'px') return hasPxSkewData;
+    if (tab.id === 'joinorders') return Boolean(parsedPlan?.cboTrace?.joinOrders.length);
     return true;
   });
 
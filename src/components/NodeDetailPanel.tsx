@@ -2,7 +2,7 @@ import { useState, useMemo, type PointerEvent as ReactPointerEvent } from 'react
 import { usePlan } from '../hooks/usePlanContext';
 import { getOperationCategory, getMetricColor, getOperationTooltip } from '../lib/types';
 import { formatBytes, formatNumberShort, formatTimeCompact, formatTimeDetailed } from '../lib/format';
-import type { PlanNode as PlanNodeType, NodeIndicatorMetric } from '../lib/types';
+import type { PlanNode as PlanNodeType, NodeIndicatorMetric, ParsedPlan, HintStatus, ColumnProjection } from '../lib/types';
 import { HighlightText } from './HighlightText';
 import { FormattedPredicate } from './FormattedPredicate';
 import { AnnotationEditor, BulkHighlightPicker } from './AnnotationEditor';
@@ -18,6 +18,9 @@ import { GatherScriptModal } from './GatherScriptModal';
 import { assessPartitionPruning, computeParallelSignals } from '../lib/planSignals';
 import type { ParallelSignal } from '../lib/planSignals';
 import { FindingsList, NodeFindings } from './FindingsPanel';
+import { outlineHintsForQueryBlock, hintReportEntriesForNode } from '../lib/parser/hintSections';
+import { cboTraceForNode } from '../lib/parser/cboTraceParser';
+import { isRemoteNode, isRemoteInOut } from '../lib/parser/remoteSql';
 import { DdlBlock, CopyButton, formatHistogramLabel, formatDateShort } from './metadata/shared';
 
 const HIGHLIGHT_COLORS_MAP: Record<HighlightColor, string> = Object.fromEntries(
@@ -37,6 +40,8 @@ export function NodeDetailPanel({ panelWidth, onResizeStart }: NodeDetailPanelPr
     addAnnotationGroup, updateAnnotationGroup, removeAnnotationGroup,
     hotspotsEnabled, setHotspotsEnabled,
     showAdvisorSuggestions, setShowAdvisorSuggestions,
+    advisorProfiles, advisorProfile, setAdvisorProfile, setAdvisorSettingsOpen,
+    customRulePacks, setCustomRulesOpen,
     detailPanelCollapsed: isCollapsed, setDetailPanelCollapsed: setIsCollapsed,
     highlightStyle, setHighlightStyle,
     metadataBundle, metadataBundleWarning,
@@ -159,6 +164,44 @@ export function NodeDetailPanel({ panelWidth, onResizeStart }: NodeDetailPanelPr
                 }`} />
               </button>
            </div>
+           <div className="flex items-center justify-between">
+              <span className="text-[10px] text-slate-400 dark:text-slate-500" title="Threshold profile the advisor judges the plan with">Thresholds</span>
+              <div className="flex items-center gap-1">
+                <select
+                  value={advisorProfile.name}
+                  onChange={(e) => setAdvisorProfile(e.target.value)}
+                  aria-label="Advisor threshold profile"
+                  className="max-w-[8rem] px-1 py-0.5 text-[10px] rounded border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-slate-600 dark:text-slate-300"
+                >
+                  {advisorProfiles.map((profile) => (
+                    <option key={profile.name} value={profile.name}>{profile.name}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => setAdvisorSettingsOpen(true)}
+                  className="p-0.5 text-slate-400 hover:text-slate-600 dark:hover:text-slate-300"
+                  title="Edit advisor thresholds"
+                  aria-label="Edit advisor thresholds"
+                >
+                  <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" />
+                  </svg>
+                </button>
+              </div>
+           </div>
+           <div className="flex items-center justify-between">
+              <span className="text-[10px] text-slate-400 dark:text-slate-500" title="House rules imported as JSON rule packs">Custom rules</span>
+              <button
+                type="button"
+                onClick={() => setCustomRulesOpen(true)}
+                className="text-[10px] font-medium text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                {customRulePacks.length === 0
+                  ? 'Import…'
+                  : `${customRulePacks.reduce((sum, pack) => sum + pack.rules.length, 0)} in ${customRulePacks.length} pack${customRulePacks.length === 1 ? '' : 's'}`}
+              </button>
+           </div>
         </div>
 
         {advisorReport && advisorReport.findings.length > 0 && (
@@ -553,7 +596,7 @@ export function NodeDetailPanel({ panelWidth, onResizeStart }: NodeDetailPanelPr
       </Accordion>
 
       {/* Parallel Execution */}
-      {(node.tq || node.inOut || node.pqDistrib) && (
+      {(node.tq || (node.inOut && !isRemoteInOut(node.inOut)) || node.pqDistrib) && (
         <Accordion title="Parallel Execution" defaultOpen={false}>
           <div className="grid grid-cols-2 gap-px bg-slate-200 dark:bg-slate-800 border border-slate-200 dark:border-slate-800 rounded-md overflow-hidden [&>*:last-child:nth-child(odd)]:col-span-2">
             <StatItem label="TQ" value={node.tq} />
@@ -575,6 +618,9 @@ export function NodeDetailPanel({ panelWidth, onResizeStart }: NodeDetailPanelPr
         </Accordion>
       )}
 
+      {/* Database link (distributed queries) */}
+      {isRemoteNode(node) && <RemoteSection node={node} />}
+
       {/* Predicates */}
       {(node.accessPredicates || node.filterPredicates) && (
         <Accordion title="Predicates">
@@ -608,6 +654,17 @@ export function NodeDetailPanel({ panelWidth, onResizeStart }: NodeDetailPanelPr
         </Accordion>
       )}
 
+      {/* Column projection (+PROJECTION) */}
+      {node.projection && node.projection.columns.length > 0 && (
+        <ProjectionSection projection={node.projection} />
+      )}
+
+      {/* Outline hints and Hint Report entries for this node's query block */}
+      <HintsSection node={node} plan={parsedPlan} />
+
+      {/* Base statistics and access path costing from a 10053 trace */}
+      <OptimizerTraceSection node={node} plan={parsedPlan} />
+
       {/* Metadata (schema bundle) */}
       <MetadataSection
         bundle={metadataBundle}
@@ -620,6 +677,9 @@ export function NodeDetailPanel({ panelWidth, onResizeStart }: NodeDetailPanelPr
         planSqlId={parsedPlan?.sqlId}
       />
 
+      {/* Exadata smart scan / In-Memory scan */}
+      {hasOffloadStats(node) && <OffloadSection node={node} />}
+
       {/* Memory & I/O */}
       {(node.memoryUsed !== undefined ||
         node.tempUsed !== undefined ||
@@ -659,6 +719,270 @@ export function NodeDetailPanel({ panelWidth, onResizeStart }: NodeDetailPanelPr
   );
 }
 
+function ProjectionSection({ projection }: { projection: ColumnProjection }) {
+  const { advisorProfile } = usePlan();
+  const isWide = projection.rowWidth !== undefined && projection.rowWidth >= advisorProfile.thresholds.wideRowBytes;
+  return (
+    <Accordion title="Projection" subtitle={`${projection.columns.length} col${projection.columns.length === 1 ? '' : 's'}`}>
+      <div className="flex items-center gap-2 mb-2 text-[10px]">
+        {projection.rowWidth !== undefined && (
+          <span className="text-slate-500 dark:text-slate-400">
+            Row width <span className="font-mono font-semibold text-slate-700 dark:text-slate-200">{formatBytes(projection.rowWidth)}</span>
+          </span>
+        )}
+        {projection.keys !== undefined && (
+          <span className="px-1.5 py-0.5 rounded bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 font-medium" title="Leading columns used as sort / hash / group keys">
+            #keys={projection.keys}
+          </span>
+        )}
+        {projection.rowset !== undefined && (
+          <span className="px-1.5 py-0.5 rounded bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 font-medium" title="Rowset (batched) row source">
+            rowset={projection.rowset}
+          </span>
+        )}
+        {isWide && (
+          <span className="px-1.5 py-0.5 rounded bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300 font-medium" title="Wide rows inflate hash join and sort workareas">
+            wide row
+          </span>
+        )}
+        <span className="ml-auto">
+          <CopyButton text={projection.raw} label="Copy projection" />
+        </span>
+      </div>
+      <table className="w-full text-[11px]">
+        <tbody>
+          {projection.columns.map((col, idx) => (
+            <tr key={`${col.expression}-${idx}`} className="border-b border-slate-100 dark:border-slate-800 last:border-0">
+              <td className="py-1 pr-2 font-mono text-slate-800 dark:text-slate-200 break-all">
+                {col.expression}
+                {projection.keys !== undefined && idx < projection.keys && (
+                  <span className="ml-1 text-[9px] font-sans font-semibold uppercase text-slate-400 dark:text-slate-500">key</span>
+                )}
+              </td>
+              <td className="py-1 pr-2 text-slate-500 dark:text-slate-400 whitespace-nowrap">{col.dataType ?? ''}</td>
+              <td className="py-1 text-right font-mono tabular-nums text-slate-600 dark:text-slate-300 whitespace-nowrap">
+                {formatBytes(col.width) ?? ''}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </Accordion>
+  );
+}
+
+function hasOffloadStats(node: PlanNodeType): boolean {
+  return (
+    node.cellOffloadEfficiency !== undefined ||
+    node.cellEligibleBytes !== undefined ||
+    node.cellInterconnectBytes !== undefined ||
+    node.storageIndexSavedBytes !== undefined ||
+    node.imScanRows !== undefined ||
+    node.imScanCus !== undefined
+  );
+}
+
+function OffloadSection({ node }: { node: PlanNodeType }) {
+  const smartScan = node.cellOffloadEfficiency !== undefined || node.cellEligibleBytes !== undefined || node.cellInterconnectBytes !== undefined;
+  const inMemory = node.imScanRows !== undefined || node.imScanCus !== undefined;
+  return (
+    <Accordion title="Offload" subtitle={[smartScan && 'smart scan', inMemory && 'in-memory'].filter(Boolean).join(' · ')}>
+      <div className="grid grid-cols-2 gap-px bg-slate-200 dark:bg-slate-800 border border-slate-200 dark:border-slate-800 rounded-md overflow-hidden [&>*:last-child:nth-child(odd)]:col-span-2">
+        <StatItem label="Cell Offload" value={node.cellOffloadEfficiency !== undefined ? `${node.cellOffloadEfficiency.toFixed(2)}%` : undefined} highlight="blue" />
+        <StatItem label="Offload Eligible" value={formatBytes(node.cellEligibleBytes)} />
+        <StatItem label="Interconnect" value={formatBytes(node.cellInterconnectBytes)} />
+        <StatItem label="Storage Index Saved" value={formatBytes(node.storageIndexSavedBytes)} />
+        <StatItem label="IM Rows" value={formatNumberShort(node.imScanRows)} highlight="blue" />
+        <StatItem label="IMCUs Scanned" value={formatNumberShort(node.imScanCus)} />
+        <StatItem label="IMCUs Pruned" value={formatNumberShort(node.imScanCusPruned)} />
+      </div>
+    </Accordion>
+  );
+}
+
+const REMOTE_IN_OUT_LABELS: Record<string, string> = {
+  'R->S': 'R->S (remote to local)',
+  'S->R': 'S->R (local to remote)',
+};
+
+function RemoteSection({ node }: { node: PlanNodeType }) {
+  const rows = node.actualRows ?? node.rows;
+  return (
+    <Accordion title="Remote" subtitle={node.remoteDbLink ?? node.inst}>
+      <div className="grid grid-cols-2 gap-px bg-slate-200 dark:bg-slate-800 border border-slate-200 dark:border-slate-800 rounded-md overflow-hidden [&>*:last-child:nth-child(odd)]:col-span-2">
+        <StatItem label="Inst" value={node.inst} />
+        <StatItem label="IN-OUT" value={node.inOut ? REMOTE_IN_OUT_LABELS[node.inOut] ?? node.inOut : undefined} />
+        <StatItem label={node.actualRows !== undefined ? 'Rows shipped' : 'Est. rows shipped'} value={formatNumberShort(rows)} />
+        <StatItem label="Database link" value={node.remoteDbLink} />
+      </div>
+      {node.remoteSql && (
+        <div className="mt-2">
+          <div className="flex items-center gap-2 mb-1">
+            <span className="text-[10px] font-semibold uppercase tracking-wider text-slate-500 dark:text-slate-400">
+              Remote SQL
+            </span>
+            <CopyButton text={node.remoteSql} label="Copy remote SQL" />
+          </div>
+          <code className="block text-[11px] font-mono bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-md p-2.5 text-slate-800 dark:text-slate-200 whitespace-pre-wrap break-words leading-relaxed">
+            {node.remoteSql}
+          </code>
+        </div>
+      )}
+    </Accordion>
+  );
+}
+
+const HINT_STATUS_STYLES: Record<HintStatus, { label: string; chip: string }> = {
+  used: { label: 'used', chip: 'bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300' },
+  unused: { label: 'unused', chip: 'bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300' },
+  unresolved: { label: 'unresolved', chip: 'bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300' },
+  error: { label: 'error', chip: 'bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300' },
+};
+
+function HintsSection({ node, plan }: { node: PlanNodeType; plan: ParsedPlan | null }) {
+  const outline = outlineHintsForQueryBlock(plan?.outlineHints, node.queryBlock);
+  const reported = hintReportEntriesForNode(plan?.hintReport, node.id, node.queryBlock);
+  if (outline.length === 0 && reported.length === 0) return null;
+
+  const ignoredCount = reported.filter((e) => e.status !== 'used').length;
+
+  return (
+    <Accordion
+      title="Hints"
+      subtitle={ignoredCount > 0 ? `${ignoredCount} not honoured` : node.queryBlock}
+      defaultOpen={ignoredCount > 0}
+    >
+      {reported.length > 0 && (
+        <div className="mb-3">
+          <div className="text-[10px] font-semibold uppercase tracking-wider text-slate-400 dark:text-slate-500 mb-1">Hint Report</div>
+          <div className="space-y-1">
+            {reported.map((entry, idx) => {
+              const style = HINT_STATUS_STYLES[entry.status];
+              return (
+                <div key={`${entry.lineId}-${entry.hint}-${idx}`} className="flex items-start gap-2 text-[11px]">
+                  <span className={`px-1.5 py-0.5 rounded text-[10px] font-medium shrink-0 ${style.chip}`}>{style.label}</span>
+                  <span className="min-w-0">
+                    <code className="font-mono text-slate-800 dark:text-slate-200 break-all">{entry.hint}</code>
+                    {entry.reason && (
+                      <span className="block text-slate-500 dark:text-slate-400 italic leading-snug">{entry.reason}</span>
+                    )}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+      {outline.length > 0 && (
+        <div>
+          <div className="flex items-center gap-2 mb-1">
+            <span className="text-[10px] font-semibold uppercase tracking-wider text-slate-400 dark:text-slate-500">
+              Outline ({node.queryBlock})
+            </span>
+            <CopyButton text={outline.map((h) => h.hint).join('\n')} label="Copy outline hints" />
+          </div>
+          <code className="block text-[11px] font-mono bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-md p-2.5 text-slate-800 dark:text-slate-200 whitespace-pre-wrap break-words leading-relaxed">
+            {outline.map((h) => h.hint).join('\n')}
+          </code>
+        </div>
+      )}
+    </Accordion>
+  );
+}
+
+function formatTraceCost(cost?: number): string {
+  return cost === undefined ? '—' : cost.toFixed(cost < 10 ? 2 : 0);
+}
+
+function OptimizerTraceSection({ node, plan }: { node: PlanNodeType; plan: ParsedPlan | null }) {
+  const { table, accessPath } = cboTraceForNode(plan?.cboTrace, node);
+  if (!table && !accessPath) return null;
+
+  const chosenStep = plan?.cboTrace?.joinOrders
+    .find((order) => order.chosen)
+    ?.steps.find((step) => step.alias === (accessPath?.alias ?? table?.alias));
+
+  return (
+    <Accordion title="Optimizer Trace" subtitle={accessPath?.best ? `best: ${accessPath.best.path}` : table?.table}>
+      {table && (
+        <div className="grid grid-cols-3 gap-px bg-slate-200 dark:bg-slate-800 border border-slate-200 dark:border-slate-800 rounded-md overflow-hidden mb-3">
+          <StatItem label="Table Rows" value={formatNumberShort(table.rows)} />
+          <StatItem label="Blocks" value={formatNumberShort(table.blocks)} />
+          <StatItem label="Avg Row Len" value={table.avgRowLen !== undefined ? String(table.avgRowLen) : undefined} />
+        </div>
+      )}
+      {accessPath && (
+        <div className="mb-3">
+          <div className="text-[10px] font-semibold uppercase tracking-wider text-slate-400 dark:text-slate-500 mb-1">
+            Access paths
+            {accessPath.cardinality !== undefined && (
+              <span className="ml-2 normal-case tracking-normal font-normal">
+                card {formatNumberShort(accessPath.cardinality)}
+                {accessPath.originalCardinality !== undefined && ` of ${formatNumberShort(accessPath.originalCardinality)}`}
+              </span>
+            )}
+          </div>
+          <table className="w-full text-[11px]">
+            <tbody>
+              {accessPath.candidates.map((candidate, idx) => {
+                const isBest = accessPath.best?.cost === candidate.cost && accessPath.best?.index === candidate.index;
+                return (
+                  <tr key={`${candidate.path}-${candidate.index ?? ''}-${idx}`} className="border-b border-slate-100 dark:border-slate-800 last:border-0">
+                    <td className="py-1 pr-2 text-slate-700 dark:text-slate-200">
+                      {candidate.path}
+                      {candidate.index && <span className="ml-1 font-mono text-slate-500 dark:text-slate-400">{candidate.index}</span>}
+                    </td>
+                    <td className="py-1 pr-2 text-right font-mono tabular-nums text-slate-600 dark:text-slate-300">{formatTraceCost(candidate.cost)}</td>
+                    <td className="py-1 w-10 text-right">
+                      {isBest && (
+                        <span className="px-1.5 py-0.5 rounded bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300 text-[10px] font-medium">best</span>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {table && table.indexes.length > 0 && (
+        <div className="mb-3">
+          <div className="text-[10px] font-semibold uppercase tracking-wider text-slate-400 dark:text-slate-500 mb-1">Index statistics</div>
+          <table className="w-full text-[11px]">
+            <thead>
+              <tr className="text-[10px] text-slate-400 dark:text-slate-500">
+                <th className="text-left font-medium pb-0.5">Index</th>
+                <th className="text-right font-medium pb-0.5" title="B-tree level">LVLS</th>
+                <th className="text-right font-medium pb-0.5" title="Leaf blocks">#LB</th>
+                <th className="text-right font-medium pb-0.5" title="Distinct keys">#DK</th>
+                <th className="text-right font-medium pb-0.5" title="Clustering factor">CLUF</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono tabular-nums text-slate-600 dark:text-slate-300">
+              {table.indexes.map((index) => (
+                <tr key={index.name} className="border-t border-slate-100 dark:border-slate-800">
+                  <td className="py-1 pr-2 text-slate-700 dark:text-slate-200 break-all">{index.name}</td>
+                  <td className="py-1 text-right">{index.levels ?? ''}</td>
+                  <td className="py-1 text-right">{formatNumberShort(index.leafBlocks) ?? ''}</td>
+                  <td className="py-1 text-right">{formatNumberShort(index.distinctKeys) ?? ''}</td>
+                  <td className="py-1 text-right">{formatNumberShort(index.clusteringFactor) ?? ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {chosenStep && (
+        <p className="text-[11px] text-slate-500 dark:text-slate-400">
+          {chosenStep.method
+            ? <>Joined by <span className="font-semibold text-slate-700 dark:text-slate-200">{chosenStep.method}</span> in the chosen join order; cost so far {formatTraceCost(chosenStep.cost)}, card {formatNumberShort(chosenStep.cardinality) ?? '—'}.</>
+            : <>Leading table of the chosen join order.</>}
+        </p>
+      )}
+    </Accordion>
+  );
+}
+
 function StatItem({ label, value, highlight }: { label: string; value?: string; highlight?: 'blue' | 'purple' | 'orange' }) {
   if (!value) return null;
 
@@ -1,6 +1,28 @@
 import { useState, useRef, useEffect } from 'react';
 import { usePlan } from '../hooks/usePlanContext';
 import { ComparePlanPicker } from './ComparePlanPicker';
+import { formatNumberShort, formatTimeCompact } from '../lib/format';
+import type { ParsedPlan, TkprofCallStats } from '../lib/types';
+import { describePipelineProgress } from '../lib/pipeline';
+
+/** Compact execute/fetch summary of a TKPROF statement, e.g. "exec 1 · fetch 2 · 0.02s". */
+function formatCallSummary(calls: TkprofCallStats): string {
+  const parts: string[] = [];
+  if (calls.execute) parts.push(`exec ${formatNumberShort(calls.execute.count)}`);
+  if (calls.fetch) parts.push(`fetch ${formatNumberShort(calls.fetch.count)}`);
+  if (calls.total) parts.push(formatTimeCompact(calls.total.elapsed * 1000) ?? '');
+  return parts.join(' · ');
+}
+
+function callStatsTitle(plan: ParsedPlan, calls: TkprofCallStats): string {
+  const rows = (['parse', 'execute', 'fetch', 'total'] as const).flatMap((key) => {
+    const call = calls[key];
+    return call
+      ? [`${key}: count ${call.count}, cpu ${call.cpu}s, elapsed ${call.elapsed}s, disk ${call.disk}, query ${call.query}, current ${call.current}, rows ${call.rows}`]
+      : [];
+  });
+  return [plan.sqlText, ...rows].filter(Boolean).join('\n');
+}
 
 function InlineRenameLabel({
   slot,
@@ -143,6 +165,14 @@ export function PlanTabs() {
                   PHV: {phv}
                 </span>
               )}
+              {slot.parsedPlan?.tkprofCalls && (
+                <span
+                  className={`font-mono text-[10px] ${isActive ? 'text-blue-200' : 'text-neutral-400 dark:text-neutral-500'}`}
+                  title={callStatsTitle(slot.parsedPlan, slot.parsedPlan.tkprofCalls)}
+                >
+                  {formatCallSummary(slot.parsedPlan.tkprofCalls)}
+                </span>
+              )}
               {phv && (
                 <button
                   onClick={(e) => {
@@ -162,7 +192,14 @@ export function PlanTabs() {
                   SPM
                 </button>
               )}
-              {!slot.parsedPlan && (
+              {slot.parsing ? (
+                <span
+                  className={`text-[10px] italic animate-pulse ${isActive ? 'text-blue-200' : 'text-neutral-400 dark:text-neutral-500'}`}
+                  title={describePipelineProgress(slot.parsing)}
+                >
+                  parsing…
+                </span>
+              ) : !slot.parsedPlan && (
                 <span className={`text-[10px] italic ${isActive ? 'text-blue-200' : 'text-neutral-400 dark:text-neutral-500'}`}>
                   (empty)
                 </span>
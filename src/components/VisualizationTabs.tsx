@@ -8,6 +8,8 @@ import { TabularCompareView } from './views/TabularCompareView';
 import { CompareView } from './views/CompareView';
 import { SqlTextView } from './views/SqlTextView';
 import { MonitorDetailsView } from './views/MonitorDetailsView';
+import { PxSkewView } from './views/PxSkewView';
+import { JoinOrderView } from './views/JoinOrderView';
 import { TreeCompareView } from './views/TreeCompareView';
 import { Legend } from './Legend';
 import { MetadataView } from './metadata/MetadataView';
@@ -50,6 +52,8 @@ export function VisualizationTabs() {
         {viewMode === 'sql' && <SqlTextView />}
         {viewMode === 'metadata' && <MetadataView />}
         {viewMode === 'monitor' && <MonitorDetailsView />}
+        {viewMode === 'px' && <PxSkewView />}
+        {viewMode === 'joinorders' && <JoinOrderView />}
         {viewMode === 'experimental' && <ExperimentalView />}
         {(viewMode === 'hierarchical' || viewMode === 'sankey' || viewMode === 'flame' || viewMode === 'tabular') && <Legend />}
       </div>
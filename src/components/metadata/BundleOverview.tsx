@@ -72,7 +72,11 @@ export function BundleOverview({ bundle }: { bundle: MetadataBundle }) {
                         {b.fixed && <Tag color="amber">Fixed</Tag>}
                       </div>
                     </div>
-                    {b.origin && <div className="text-slate-400 dark:text-slate-500 mt-0.5">{b.origin}</div>}
+                    {(b.origin || b.plan_hash_value != null) && (
+                      <div className="text-slate-400 dark:text-slate-500 mt-0.5">
+                        {[b.origin, b.plan_hash_value != null ? `PHV ${b.plan_hash_value}` : null].filter(Boolean).join(' · ')}
+                      </div>
+                    )}
                   </div>
                 ))}
               </SqlManagementGroup>
@@ -100,6 +100,8 @@ function PlanNodeComponent({ data }: PlanNodeProps) {
     showSpillBadge: true,
     showCardinalityBadge: true,
     showAdvisorBadge: true,
+    showLowImpactAdvisorBadge: false,
+    showOffloadBadge: true,
     showStaleStatsBadge: true,
     showMissingStatsBadge: true,
     showMismatchNoHistogramBadge: true,
@@ -124,6 +126,10 @@ function PlanNodeComponent({ data }: PlanNodeProps) {
   if (isFocusDimmed) {
     opacity = Math.min(opacity, 0.15);
   }
+  // Inactive adaptive-plan rows are only drawn in the full plan, ghosted
+  if (node.inactive) {
+    opacity = Math.min(opacity, 0.4);
+  }
   if (isSelected) {
     opacity = 1;
   }
@@ -138,6 +144,14 @@ function PlanNodeComponent({ data }: PlanNodeProps) {
   const showCardBadgeInRow =
     options.showCardinalityBadge && cardSeverity !== 'good' && !!cardLabel && !usesEstActGrid;
   const showAdvisorBadge = !!advisorSeverity && options.showAdvisorBadge;
+  const hasOffload = node.cellOffloadEfficiency !== undefined || node.imScanRows !== undefined;
+  const showOffloadInRow = hasOffload && options.showOffloadBadge && !isRail;
+  const offloadLabel = node.cellOffloadEfficiency !== undefined
+    ? `Offload ${Math.round(node.cellOffloadEfficiency)}%`
+    : `IM ${formatNumberShort(node.imScanRows)}`;
+  const offloadTitle = node.cellOffloadEfficiency !== undefined
+    ? `Smart scan: ${node.cellOffloadEfficiency.toFixed(2)}% of eligible bytes filtered in the storage cells${node.cellInterconnectBytes !== undefined ? ` — ${formatBytes(node.cellInterconnectBytes)} returned over the interconnect` : ''}`
+    : `In-Memory scan: ${node.imScanRows?.toLocaleString()} rows read from the column store`;
   const advisorBadgeClasses: Record<FindingSeverity, string> = {
     info: 'bg-sky-100 dark:bg-sky-900/40 text-sky-700 dark:text-sky-300',
     warning: 'bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300',
@@ -191,12 +205,13 @@ function PlanNodeComponent({ data }: PlanNodeProps) {
     <div
       className={`
         relative ${isTicker ? 'w-[240px]' : 'w-[260px]'} rounded-xl shadow-sm transition-all duration-300
-        ${colors.bg} ${colors.border}
+        ${colors.bg} ${colors.border} ${node.inactive ? 'border-dashed' : ''}
         ${isSelected ? 'ring-2 ring-blue-600 ring-offset-4 dark:ring-offset-slate-950 scale-105 z-30' : ''}
         ${isInFocusPath && !(highlightColor && showAnnotationsOverlay) ? 'ring-2 ring-blue-400/40' : ''}
         ${showHot && !isSelected ? 'ring-2 ring-red-600 ring-offset-2 dark:ring-offset-slate-950' : ''}
       `}
       style={{ opacity, ...glowStyle, ...tintStyle }}
+      title={node.inactive ? 'Inactive: switched off at runtime by the adaptive plan' : undefined}
     >
       {/* Circle: hand-drawn marker strokes (three overlapping passes) */}
       {showHighlight && highlightStyle === 'circle' && (
@@ -301,8 +316,8 @@ function PlanNodeComponent({ data }: PlanNodeProps) {
           {node.id}
         </div>
 
-        {/* Warning badges row (hot node, spill, cardinality, advisor, metadata, pruning, parallel) */}
-        {(showHotInRow || showSpillInRow || showCardBadgeInRow || showAdvisorBadge || (metadataBadges && metadataBadges.length > 0) || partitionPruning === 'none' || (parallelSignals && parallelSignals.length > 0)) && (
+        {/* Warning badges row (hot node, spill, cardinality, advisor, offload, metadata, pruning, parallel) */}
+        {(showHotInRow || showSpillInRow || showCardBadgeInRow || showAdvisorBadge || showOffloadInRow || (metadataBadges && metadataBadges.length > 0) || partitionPruning === 'none' || (parallelSignals && parallelSignals.length > 0)) && (
           <div className="flex flex-wrap gap-1 mb-1.5">
             {showAdvisorBadge && (
               <span
@@ -335,6 +350,11 @@ function PlanNodeComponent({ data }: PlanNodeProps) {
                 {cardLabel}
               </span>
             )}
+            {showOffloadInRow && (
+              <span className="px-1.5 py-0.5 bg-teal-100 dark:bg-teal-900/40 text-teal-700 dark:text-teal-300 text-[10px] rounded font-semibold" title={offloadTitle}>
+                {offloadLabel}
+              </span>
+            )}
             {metadataBadges?.map((badge) => (
               <span
                 key={badge.kind}
@@ -654,6 +674,7 @@ function PlanNodeComponent({ data }: PlanNodeProps) {
         {isRail &&
           (showHot ||
             (hasSpill && options.showSpillBadge) ||
+            (hasOffload && options.showOffloadBadge) ||
             (options.showPredicateIndicators && (node.accessPredicates || node.filterPredicates)) ||
             (options.showPartitionInfo && formatPartitionRange(node.pstart, node.pstop)) ||
             (options.showQueryBlockBadge && node.queryBlock)) && (
@@ -674,6 +695,14 @@ function PlanNodeComponent({ data }: PlanNodeProps) {
                   ▾
                 </span>
               )}
+              {hasOffload && options.showOffloadBadge && (
+                <span
+                  className="h-5 px-1 rounded bg-teal-100 dark:bg-teal-900/40 text-teal-700 dark:text-teal-300 flex items-center justify-center text-[10px] font-bold shrink-0"
+                  title={offloadTitle}
+                >
+                  {node.cellOffloadEfficiency !== undefined ? `${Math.round(node.cellOffloadEfficiency)}%` : 'IM'}
+                </span>
+              )}
               {options.showPredicateIndicators && node.accessPredicates && (
                 <span
                   className="w-5 h-5 rounded bg-green-100 dark:bg-green-900/40 text-green-700 dark:text-green-300 border border-green-300 dark:border-green-700 flex items-center justify-center text-[10px] font-extrabold shrink-0"
@@ -6,6 +6,7 @@ import { computeFlameLayout, getEffectiveFlameMetric } from '../../lib/flameLayo
 import type { FlameRect } from '../../lib/flameLayout';
 import { formatNumberShort, formatTimeCompact } from '../../lib/format';
 import { matchesSearch } from '../../lib/filtering';
+import { resolveAdaptivePlan } from '../../lib/adaptivePlan';
 
 const ROW_HEIGHT = 24;
 
@@ -60,7 +61,7 @@ export function FlameView() {
   const pendingTooltipRef = useRef<Tooltip | null>(null);
 
   const {
-    parsedPlan,
+    parsedPlan: fullPlan,
     selectedNodeIds,
     selectNode,
     filteredNodeIds,
@@ -69,6 +70,8 @@ export function FlameView() {
     filters,
     flameMetric,
   } = usePlan();
+  // Inactive rows of an adaptive plan did no work; lay out the final plan only.
+  const parsedPlan = useMemo(() => (fullPlan ? resolveAdaptivePlan(fullPlan) : null), [fullPlan]);
 
   const selectedNodeIdSet = useMemo(() => new Set(selectedNodeIds), [selectedNodeIds]);
   const searchText = filters.searchText;
@@ -13,7 +13,6 @@ import {
   getViewportForBounds,
 } from '@xyflow/react';
 import type { Node, Edge, NodeTypes } from '@xyflow/react';
-import dagre from '@dagrejs/dagre';
 import { toPng } from 'html-to-image';
 import '@xyflow/react/dist/style.css';
 
@@ -32,6 +31,10 @@ import { extractPredicateColumns } from '../../lib/metadata/predicateColumns';
 import { assessPartitionPruning, computeParallelSignals } from '../../lib/planSignals';
 import type { ParallelSignal } from '../../lib/planSignals';
 import { runAdvisor } from '../../lib/advisor';
+import { getDisplayedPlan, hasInactiveRows } from '../../lib/adaptivePlan';
+import { AdaptivePlanToggle } from '../AdaptivePlanToggle';
+import { computeTreeLayout, sameLayoutGraph, type LayoutGraph, type TreeLayout } from '../../lib/treeLayout';
+import { layoutInBackground, PipelineCancelledError } from '../../lib/pipeline';
 
 // Query block group component
 interface QueryBlockGroupData extends Record<string, unknown> {
@@ -105,13 +108,14 @@ function calculateNodeHeight(
 ): number {
   let height = NODE_BASE_HEIGHT;
 
-  // Warning badges row (hotspot, spill, cardinality mismatch, advisor)
+  // Warning badges row (hotspot, spill, cardinality mismatch, advisor, offload)
   const hasSpill = (node.tempUsed !== undefined && node.tempUsed > 0);
+  const hasOffloadBadge = displayOptions.showOffloadBadge && (node.cellOffloadEfficiency !== undefined || node.imScanRows !== undefined);
   const cardRatio = hasActualStats ? computeCardinalityRatio(node.rows, node.actualRows) : undefined;
   const hasCardBadge = cardinalityRatioSeverity(cardRatio) !== 'good' && !usesGrid;
   // We always add space for badges if there's a potential hot node (we don't know which is hottest at layout time)
   // Rail mode moves these badges into the footer rail, so no badge row.
-  if (!isRail && (hasSpill || hasCardBadge || hasAdvisorBadge || (hasActualStats && node.actualTime !== undefined))) {
+  if (!isRail && (hasSpill || hasCardBadge || hasAdvisorBadge || hasOffloadBadge || (hasActualStats && node.actualTime !== undefined))) {
     height += 24;
   }
 
@@ -205,201 +209,50 @@ function calculateNodeHeight(
 }
 
 
-// Horizontal and vertical spacing between nodes
-// Extra padding to ensure query block groups don't overlap
-const NODE_H_SPACING = 80;
-const NODE_V_SPACING = 80;
 const EMPTY_SELECTED_NODE_IDS: number[] = [];
 
-// Custom tree layout that ensures subtrees never overlap
-// Each subtree gets its own horizontal region based on its total width
-function getLayoutedElements(
-  nodes: Node[],
-  edges: Edge[],
-  nodeDimensions: Map<string, { width: number; height: number }>
-): { nodes: Node[]; edges: Edge[] } {
-  if (nodes.length === 0) {
-    return { nodes: [], edges };
+// Plans this large are laid out in the pipeline worker; below it the round
+// trip costs more than the layout itself.
+const BACKGROUND_LAYOUT_MIN_NODES = 400;
+
+/**
+ * `graph`, or the previous graph while only node content changed. Badges,
+ * colours and annotations rebuild the graph data without moving anything.
+ */
+function useStableLayoutGraph(graph: LayoutGraph): LayoutGraph {
+  const [stable, setStable] = useState(graph);
+  if (stable !== graph && !sameLayoutGraph(stable, graph)) {
+    setStable(graph);
+    return graph;
   }
-
-  // Build adjacency map: parent -> children
-  const childrenMap = new Map<string, string[]>();
-  const parentMap = new Map<string, string>();
-
-  for (const edge of edges) {
-    if (!childrenMap.has(edge.source)) {
-      childrenMap.set(edge.source, []);
-    }
-    childrenMap.get(edge.source)!.push(edge.target);
-    parentMap.set(edge.target, edge.source);
-  }
-
-  // Find root node (node with no parent)
-  const rootId = nodes.find(n => !parentMap.has(n.id))?.id;
-  if (!rootId) {
-    // Fallback to dagre if we can't find root
-    return fallbackDagreLayout(nodes, edges, nodeDimensions);
-  }
-
-  // Calculate subtree width for each node (width needed to display all descendants)
-  const subtreeWidths = new Map<string, number>();
-
-  function calculateSubtreeWidth(nodeId: string): number {
-    const dims = nodeDimensions.get(nodeId) || { width: NODE_WIDTH, height: NODE_BASE_HEIGHT };
-    const children = childrenMap.get(nodeId) || [];
-
-    if (children.length === 0) {
-      // Leaf node: width is just the node width
-      const width = dims.width;
-      subtreeWidths.set(nodeId, width);
-      return width;
-    }
-
-    // Sum of children subtree widths plus spacing between them
-    let totalChildrenWidth = 0;
-    for (const childId of children) {
-      totalChildrenWidth += calculateSubtreeWidth(childId);
-    }
-    totalChildrenWidth += (children.length - 1) * NODE_H_SPACING;
-
-    // Subtree width is max of node width and total children width
-    const width = Math.max(dims.width, totalChildrenWidth);
-    subtreeWidths.set(nodeId, width);
-    return width;
-  }
-
-  calculateSubtreeWidth(rootId);
-
-  // Assign depth and compute max node height per depth to avoid row overlaps
-  // when dynamic node content (e.g. predicate details) expands.
-  const depthByNodeId = new Map<string, number>();
-  const maxHeightByDepth = new Map<number, number>();
-
-  function assignDepth(nodeId: string, depth: number): void {
-    const existingDepth = depthByNodeId.get(nodeId);
-    if (existingDepth !== undefined && existingDepth <= depth) return;
-
-    depthByNodeId.set(nodeId, depth);
-    const dims = nodeDimensions.get(nodeId) || { width: NODE_WIDTH, height: NODE_BASE_HEIGHT };
-    maxHeightByDepth.set(depth, Math.max(maxHeightByDepth.get(depth) || 0, dims.height));
-
-    const children = childrenMap.get(nodeId) || [];
-    for (const childId of children) {
-      assignDepth(childId, depth + 1);
-    }
-  }
-
-  assignDepth(rootId, 0);
-
-  const levelYOffsets = new Map<number, number>();
-  levelYOffsets.set(0, 0);
-  const maxDepth = Math.max(...depthByNodeId.values(), 0);
-  for (let depth = 1; depth <= maxDepth; depth++) {
-    const prevY = levelYOffsets.get(depth - 1) || 0;
-    const prevHeight = maxHeightByDepth.get(depth - 1) || NODE_BASE_HEIGHT;
-    levelYOffsets.set(depth, prevY + prevHeight + NODE_V_SPACING);
-  }
-
-  // Position nodes: each node is centered over its subtree
-  const positions = new Map<string, { x: number; y: number }>();
-
-  function positionNode(nodeId: string, xStart: number): void {
-    const dims = nodeDimensions.get(nodeId) || { width: NODE_WIDTH, height: NODE_BASE_HEIGHT };
-    const subtreeWidth = subtreeWidths.get(nodeId) || dims.width;
-    const children = childrenMap.get(nodeId) || [];
-    const depth = depthByNodeId.get(nodeId) || 0;
-    const y = levelYOffsets.get(depth) || 0;
-
-    // Center the node within its allocated subtree width
-    const nodeX = xStart + (subtreeWidth - dims.width) / 2;
-    positions.set(nodeId, { x: nodeX, y });
-
-    // Position children
-    if (children.length > 0) {
-      if (children.length === 1) {
-        // Single child: align directly under parent (same X position)
-        const childId = children[0];
-        const childDims = nodeDimensions.get(childId) || { width: NODE_WIDTH, height: NODE_BASE_HEIGHT };
-        // Calculate xStart such that child node ends up at same X as parent
-        // childNodeX = childXStart + (childSubtreeWidth - childWidth) / 2 = nodeX
-        // childXStart = nodeX - (childSubtreeWidth - childWidth) / 2
-        const childSubtreeWidth = subtreeWidths.get(childId) || NODE_WIDTH;
-        const childXStart = nodeX - (childSubtreeWidth - childDims.width) / 2;
-        positionNode(childId, childXStart);
-      } else {
-        // Multiple children: center the group under the parent
-        let totalChildrenWidth = 0;
-        for (const childId of children) {
-          totalChildrenWidth += subtreeWidths.get(childId) || NODE_WIDTH;
-        }
-        totalChildrenWidth += (children.length - 1) * NODE_H_SPACING;
-
-        // Calculate parent's center position
-        const parentCenterX = nodeX + dims.width / 2;
-
-        // Start children such that their combined center aligns with parent's center
-        let childX = parentCenterX - totalChildrenWidth / 2;
-
-        for (const childId of children) {
-          const childSubtreeWidth = subtreeWidths.get(childId) || NODE_WIDTH;
-          positionNode(childId, childX);
-          childX += childSubtreeWidth + NODE_H_SPACING;
-        }
-      }
-    }
-  }
-
-  positionNode(rootId, 0);
-
-  // Apply positions to nodes
-  const layoutedNodes = nodes.map((node) => {
-    const pos = positions.get(node.id);
-    if (pos) {
-      return {
-        ...node,
-        position: { x: pos.x, y: pos.y },
-      };
-    }
-    return node;
-  });
-
-  return { nodes: layoutedNodes, edges };
+  return stable;
 }
 
-// Fallback to dagre layout for non-tree graphs
-function fallbackDagreLayout(
-  nodes: Node[],
-  edges: Edge[],
-  nodeDimensions: Map<string, { width: number; height: number }>
-): { nodes: Node[]; edges: Edge[] } {
-  const g = new dagre.graphlib.Graph();
-  g.setGraph({ rankdir: 'TB', nodesep: 120, ranksep: 120 });
-  g.setDefaultEdgeLabel(() => ({}));
-
-  nodes.forEach((node) => {
-    const dims = nodeDimensions.get(node.id) || { width: NODE_WIDTH, height: NODE_BASE_HEIGHT };
-    g.setNode(node.id, { width: dims.width, height: dims.height });
-  });
-
-  edges.forEach((edge) => {
-    g.setEdge(edge.source, edge.target);
-  });
-
-  dagre.layout(g);
-
-  const layoutedNodes = nodes.map((node) => {
-    const nodeWithPosition = g.node(node.id);
-    const dims = nodeDimensions.get(node.id) || { width: NODE_WIDTH, height: NODE_BASE_HEIGHT };
-    return {
-      ...node,
-      position: {
-        x: nodeWithPosition.x - dims.width / 2,
-        y: nodeWithPosition.y - dims.height / 2,
-      },
-    };
-  });
+/**
+ * Node positions for `graph`. A background layout keeps the previous
+ * positions on screen until the new ones arrive (`pending`); positions are
+ * null only before the first one lands.
+ */
+function useTreeLayout(graph: LayoutGraph): { positions: TreeLayout | null; pending: boolean } {
+  const stableGraph = useStableLayoutGraph(graph);
+  const inBackground = stableGraph.nodeIds.length >= BACKGROUND_LAYOUT_MIN_NODES;
+  const syncLayout = useMemo(() => (inBackground ? null : computeTreeLayout(stableGraph)), [stableGraph, inBackground]);
+  const [backgroundLayout, setBackgroundLayout] = useState<{ graph: LayoutGraph; layout: TreeLayout } | null>(null);
 
-  return { nodes: layoutedNodes, edges };
+  useEffect(() => {
+    if (!inBackground) return;
+    const controller = new AbortController();
+    layoutInBackground(stableGraph, { signal: controller.signal })
+      .then((layout) => setBackgroundLayout({ graph: stableGraph, layout }))
+      .catch((err) => {
+        // Cancelled runs were superseded by a newer graph.
+        if (!(err instanceof PipelineCancelledError)) setBackgroundLayout({ graph: stableGraph, layout: computeTreeLayout(stableGraph) });
+      });
+    return () => controller.abort();
+  }, [stableGraph, inBackground]);
+
+  if (!inBackground) return { positions: syncLayout, pending: false };
+  return { positions: backgroundLayout?.layout ?? null, pending: backgroundLayout?.graph !== stableGraph };
 }
 
 interface HierarchicalViewContentProps {
@@ -426,10 +279,16 @@ function HierarchicalViewContent({
     exportPngFnRef,
     hotspotsEnabled,
     highlightStyle,
+    showFullAdaptivePlan,
+    advisorProfile,
+    customRulePacks,
   } = usePlan();
   const resolvedPlanIndex = planIndex ?? activePlanIndex;
   const slot = plans[resolvedPlanIndex];
-  const parsedPlan = slot?.parsedPlan ?? null;
+  const parsedPlan = useMemo(
+    () => getDisplayedPlan(slot?.parsedPlan ?? null, showFullAdaptivePlan),
+    [slot?.parsedPlan, showFullAdaptivePlan]
+  );
   const selectedNodeId = slot?.selectedNodeId ?? null;
   const selectedNodeIds = slot?.selectedNodeIds ?? EMPTY_SELECTED_NODE_IDS;
   const containerRef = useRef<HTMLDivElement>(null);
@@ -451,9 +310,12 @@ function HierarchicalViewContent({
     (): number | null => (hotspotsEnabled ? computeHottestNodeId(parsedPlan) : null),
     [parsedPlan, hotspotsEnabled]
   );
+  // The advisor judges the final plan either way; asking for the slot's own
+  // plan reuses the report the pipeline worker already computed.
+  const advisorThresholds = advisorProfile.thresholds;
   const advisorReport = useMemo(
-    () => (parsedPlan ? runAdvisor(parsedPlan, slot?.metadataBundle ?? null) : null),
-    [parsedPlan, slot?.metadataBundle]
+    () => (slot?.parsedPlan ? runAdvisor(slot.parsedPlan, slot.metadataBundle ?? null, advisorThresholds, customRulePacks) : null),
+    [slot?.parsedPlan, slot?.metadataBundle, advisorThresholds, customRulePacks]
   );
   const planAnnotations = getAnnotationsForPlan(resolvedPlanIndex);
   const effectiveAnnotations = useMemo(
@@ -587,9 +449,15 @@ function HierarchicalViewContent({
     return { ...filters.nodeDisplayOptions, showCardinalityBadge: false };
   }, [filters.nodeDisplayOptions, hotspotsEnabled]);
 
-  const layoutData = useMemo(() => {
+  const graphData = useMemo(() => {
+    const planNodes: Node[] = [];
+    const edges: Edge[] = [];
+    const nodeQueryBlocks: Map<string, string> = new Map();
+    const nodeDimensions: Map<string, { width: number; height: number }> = new Map();
+    const nodeGroupDimensions: Map<string, { width: number; height: number }> = new Map();
+
     if (!parsedPlan?.rootNode) {
-      return { nodes: [] as Node[], edges: [] as Edge[] };
+      return { planNodes, edges, nodeQueryBlocks, nodeDimensions, nodeGroupDimensions };
     }
 
     const isRail = colorScheme === 'rail';
@@ -598,12 +466,6 @@ function HierarchicalViewContent({
     const usesGrid = ['estact', 'rail', 'contrast', 'semantic'].includes(colorScheme);
     const effectiveNodeWidth = isTicker ? 240 : NODE_WIDTH;
 
-    const planNodes: Node[] = [];
-    const edges: Edge[] = [];
-    const nodeQueryBlocks: Map<string, string> = new Map();
-    const nodeDimensions: Map<string, { width: number; height: number }> = new Map();
-    const nodeGroupDimensions: Map<string, { width: number; height: number }> = new Map();
-
     const bundle = slot?.metadataBundle ?? null;
     const enabledMetadata = {
       'stale-stats': effectiveDisplayOptions.showStaleStatsBadge,
@@ -623,7 +485,9 @@ function HierarchicalViewContent({
       const hasActualStats = parsedPlan!.hasActualStats || false;
       const hasAnnotation = effectiveAnnotations.nodeAnnotations.has(node.id);
       const nodeFindings = advisorReport?.findingsByNodeId.get(node.id);
-      const advisorSeverity = advisorReport?.maxSeverityByNodeId.get(node.id);
+      const advisorSeverity = effectiveDisplayOptions.showLowImpactAdvisorBadge
+        ? advisorReport?.maxSeverityByNodeId.get(node.id)
+        : advisorReport?.impactfulSeverityByNodeId.get(node.id);
       const advisorTitles = nodeFindings?.map((f) => f.title);
       const hasAdvisorBadge = effectiveDisplayOptions.showAdvisorBadge && !!advisorSeverity;
       // Calculate dynamic height for this node
@@ -713,6 +577,24 @@ function HierarchicalViewContent({
 
     traverse(parsedPlan.rootNode);
 
+    return { planNodes, edges, nodeQueryBlocks, nodeDimensions, nodeGroupDimensions };
+  }, [effectiveAnnotations.nodeAnnotations, effectiveDisplayOptions, parsedPlan, colorScheme, slot?.metadataBundle, advisorReport?.findingsByNodeId, advisorReport?.maxSeverityByNodeId, advisorReport?.impactfulSeverityByNodeId]);
+
+  const layoutGraph = useMemo((): LayoutGraph => ({
+    nodeIds: graphData.planNodes.map((node) => node.id),
+    edges: graphData.edges.map(({ source, target }) => ({ source, target })),
+    dimensions: graphData.nodeDimensions,
+    defaultSize: { width: NODE_WIDTH, height: NODE_BASE_HEIGHT },
+  }), [graphData]);
+  const { positions, pending: layoutPending } = useTreeLayout(layoutGraph);
+
+  const layoutData = useMemo(() => {
+    const { planNodes, edges, nodeQueryBlocks, nodeDimensions, nodeGroupDimensions } = graphData;
+    if (!positions || planNodes.length === 0) {
+      return { nodes: [] as Node[], edges: [] as Edge[] };
+    }
+
+
     // Calculate min and max row flow for edge thickness normalization
     const rowFlows = edges.map(e => (e.data as { rowFlow: number })?.rowFlow || 1);
     const minRowFlow = Math.min(...rowFlows);
@@ -720,7 +602,13 @@ function HierarchicalViewContent({
     const rowFlowRange = maxRowFlow - minRowFlow;
 
     // Apply layout to plan nodes with dynamic dimensions
-    const layoutedResult = getLayoutedElements(planNodes, edges, nodeDimensions);
+    const layoutedResult = {
+      nodes: planNodes.map((node) => {
+        const position = positions.get(node.id);
+        return position ? { ...node, position } : node;
+      }),
+      edges,
+    };
 
     // Edge thickness range
     const MIN_STROKE_WIDTH = 2;
@@ -875,7 +763,7 @@ function HierarchicalViewContent({
       nodes: [...groupNodes, ...annotationGroupNodes, ...adjustedPlanNodes],
       edges: edgesWithThickness,
     };
-  }, [effectiveAnnotations.groups, effectiveAnnotations.nodeAnnotations, effectiveDisplayOptions, parsedPlan, colorScheme, filters.scaleEdgeWidth, slot?.metadataBundle, advisorReport?.findingsByNodeId, advisorReport?.maxSeverityByNodeId]);
+  }, [graphData, positions, effectiveAnnotations.groups, effectiveDisplayOptions.showQueryBlockGrouping, filters.scaleEdgeWidth]);
 
   const [nodes, setNodes, onNodesChange] = useNodesState(layoutData.nodes);
   const [edges, setEdges, onEdgesChange] = useEdgesState(layoutData.edges);
@@ -1221,7 +1109,8 @@ function HierarchicalViewContent({
           color={theme === 'dark' ? '#374151' : '#e5e7eb'}
         />
         <Controls className="!bg-white dark:!bg-gray-800 !border-gray-200 dark:!border-gray-700" />
-        <Panel position="top-right">
+        <Panel position="top-right" className="flex items-center gap-2">
+          {hasInactiveRows(slot?.parsedPlan) && <AdaptivePlanToggle />}
           <button
             type="button"
             onClick={resetLayout}
@@ -1234,6 +1123,13 @@ function HierarchicalViewContent({
             </svg>
           </button>
         </Panel>
+        {layoutPending && (
+          <Panel position="top-center">
+            <div role="status" className="px-3 py-1.5 rounded-md bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-xs text-gray-600 dark:text-gray-300 shadow-sm animate-pulse">
+              Laying out {layoutGraph.nodeIds.length.toLocaleString()} operations…
+            </div>
+          </Panel>
+        )}
       </ReactFlow>
     </div>
   );
@@ -1250,9 +1146,9 @@ export function HierarchicalView({
   registerExport = true,
   showAnnotations = true,
 }: HierarchicalViewProps) {
-  const { plans, activePlanIndex, colorScheme } = usePlan();
+  const { plans, activePlanIndex, colorScheme, showFullAdaptivePlan } = usePlan();
   const resolvedPlanIndex = planIndex ?? activePlanIndex;
-  const parsedPlan = plans[resolvedPlanIndex]?.parsedPlan ?? null;
+  const parsedPlan = getDisplayedPlan(plans[resolvedPlanIndex]?.parsedPlan ?? null, showFullAdaptivePlan);
 
   // Create a unique key that changes when the plan or color scheme changes to force
   // complete remount. This ensures useNodesState/useEdgesState hooks are reset with
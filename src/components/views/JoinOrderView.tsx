@@ -0,0 +1,185 @@
+import { useMemo } from 'react';
+import { usePlan } from '../../hooks/usePlanContext';
+import type { CboJoinOrder, CboJoinStep } from '../../lib/types';
+import { planNodeForJoinStep } from '../../lib/parser/cboTraceParser';
+import { formatNumberShort } from '../../lib/format';
+
+const NEUTRAL_CHIP = 'bg-neutral-100 dark:bg-neutral-800 text-neutral-600 dark:text-neutral-300';
+const CHOSEN_CHIP = 'bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300';
+const ABORTED_CHIP = 'bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300';
+
+function formatCost(cost?: number): string {
+  return cost === undefined ? '—' : cost.toFixed(cost < 10 ? 2 : 0);
+}
+
+function Section({ title, subtitle, children }: { title: string; subtitle?: React.ReactNode; children: React.ReactNode }) {
+  return (
+    <div className="rounded-lg border border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-900 overflow-hidden">
+      <div className="flex items-center justify-between gap-3 px-4 py-2.5 border-b border-neutral-200 dark:border-neutral-700 bg-neutral-50 dark:bg-neutral-800/50">
+        <h3 className="text-sm font-semibold text-neutral-700 dark:text-neutral-200">{title}</h3>
+        {subtitle}
+      </div>
+      <div className="px-4 py-3">{children}</div>
+    </div>
+  );
+}
+
+/** One table of a join order; clicking it selects the matching plan line. */
+function StepChip({ step, nodeId, onSelect }: { step: CboJoinStep; nodeId?: number; onSelect: (nodeId: number) => void }) {
+  const label = step.alias && step.alias !== step.table ? `${step.table} ${step.alias}` : step.table;
+  return (
+    <button
+      type="button"
+      disabled={nodeId === undefined}
+      onClick={() => nodeId !== undefined && onSelect(nodeId)}
+      title={`cost ${formatCost(step.cost)} · card ${formatNumberShort(step.cardinality) ?? '—'}${nodeId !== undefined ? ` · plan line ${nodeId}` : ''}`}
+      className="inline-flex items-center gap-1 px-2 py-0.5 rounded border border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-900 font-mono text-[11px] text-neutral-700 dark:text-neutral-200 enabled:hover:border-neutral-400 dark:enabled:hover:border-neutral-500"
+    >
+      {label}
+      {nodeId !== undefined && <span className="text-neutral-400 dark:text-neutral-500">#{nodeId}</span>}
+    </button>
+  );
+}
+
+function JoinOrderRow({ order, resolveStep, onSelect }: {
+  order: CboJoinOrder;
+  resolveStep: (step: CboJoinStep) => number | undefined;
+  onSelect: (nodeId: number) => void;
+}) {
+  return (
+    <tr className={`border-t border-neutral-100 dark:border-neutral-800 ${order.aborted ? 'opacity-60' : ''}`}>
+      <td className="py-1.5 pr-3 font-mono text-neutral-500 dark:text-neutral-400 align-top">#{order.number}</td>
+      <td className="py-1.5 pr-3">
+        <div className="flex flex-wrap items-center gap-1">
+          {order.steps.map((step, idx) => (
+            <span key={`${step.table}-${idx}`} className="inline-flex items-center gap-1">
+              {step.method && (
+                <span className="text-[10px] uppercase tracking-wider text-neutral-400 dark:text-neutral-500">{step.method}</span>
+              )}
+              <StepChip step={step} nodeId={resolveStep(step)} onSelect={onSelect} />
+            </span>
+          ))}
+        </div>
+      </td>
+      <td className="py-1.5 pr-3 text-right font-mono tabular-nums text-neutral-600 dark:text-neutral-300 align-top">
+        {order.aborted ? `≥ ${formatCost(order.cost)}` : formatCost(order.cost)}
+      </td>
+      <td className="py-1.5 pr-3 text-right font-mono tabular-nums text-neutral-600 dark:text-neutral-300 align-top">
+        {formatNumberShort(order.cardinality) ?? '—'}
+      </td>
+      <td className="py-1.5 text-right align-top">
+        {order.chosen && <span className={`inline-block px-2 py-0.5 text-[11px] font-semibold rounded ${CHOSEN_CHIP}`}>chosen</span>}
+        {order.aborted && <span className={`inline-block px-2 py-0.5 text-[11px] font-semibold rounded ${ABORTED_CHIP}`} title="Costing stopped once it exceeded the best cost so far">aborted</span>}
+      </td>
+    </tr>
+  );
+}
+
+export function JoinOrderView() {
+  const { parsedPlan, selectNode, setViewMode } = usePlan();
+  const trace = parsedPlan?.cboTrace;
+
+  // Group join orders by query block, cheapest first, so the chosen order and
+  // its nearest competitors sit together.
+  const groups = useMemo(() => {
+    if (!trace) return [];
+    const byBlock = new Map<string, CboJoinOrder[]>();
+    for (const order of trace.joinOrders) {
+      const key = order.queryBlock ?? '';
+      byBlock.set(key, [...(byBlock.get(key) ?? []), order]);
+    }
+    return [...byBlock.entries()].map(([queryBlock, orders]) => ({
+      queryBlock,
+      result: trace.queryBlocks.find((qb) => qb.queryBlock === queryBlock),
+      orders: [...orders].sort((a, b) => (a.cost ?? Infinity) - (b.cost ?? Infinity) || a.number - b.number),
+    }));
+  }, [trace]);
+
+  if (!parsedPlan || !trace || trace.joinOrders.length === 0) {
+    return (
+      <div className="h-full flex items-center justify-center bg-neutral-50 dark:bg-neutral-950">
+        <p className="text-sm text-neutral-500 dark:text-neutral-400">
+          No join order costing in this plan. Load a 10053 trace to see it.
+        </p>
+      </div>
+    );
+  }
+
+  const handleSelect = (nodeId: number) => {
+    selectNode(nodeId);
+    setViewMode('hierarchical');
+  };
+  const resolveStep = (step: CboJoinStep) => planNodeForJoinStep(parsedPlan.allNodes, step)?.id;
+
+  return (
+    <div className="h-full overflow-auto bg-neutral-50 dark:bg-neutral-950 p-4 space-y-4">
+      {groups.map(({ queryBlock, result, orders }) => {
+        const chosen = orders.find((o) => o.chosen);
+        return (
+          <Section
+            key={queryBlock || 'default'}
+            title={queryBlock ? `Join Orders · ${queryBlock}` : 'Join Orders'}
+            subtitle={
+              <span className="flex items-center gap-2 text-[11px] text-neutral-500 dark:text-neutral-400">
+                <span className={`px-2 py-0.5 rounded ${NEUTRAL_CHIP}`}>{orders.length} permutations</span>
+                {orders.some((o) => o.aborted) && <span>{orders.filter((o) => o.aborted).length} aborted</span>}
+                {(result?.cost ?? chosen?.cost) !== undefined && (
+                  <span>final cost <span className="font-mono font-semibold">{formatCost(result?.cost ?? chosen?.cost)}</span></span>
+                )}
+              </span>
+            }
+          >
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-[10px] uppercase tracking-wider text-neutral-400 dark:text-neutral-500">
+                  <th className="py-1 pr-3 font-medium">Order</th>
+                  <th className="py-1 pr-3 font-medium">Tables and join methods</th>
+                  <th className="py-1 pr-3 font-medium text-right">Cost</th>
+                  <th className="py-1 pr-3 font-medium text-right">Card</th>
+                  <th className="py-1 font-medium" />
+                </tr>
+              </thead>
+              <tbody>
+                {orders.map((order) => (
+                  <JoinOrderRow key={order.number} order={order} resolveStep={resolveStep} onSelect={handleSelect} />
+                ))}
+              </tbody>
+            </table>
+          </Section>
+        );
+      })}
+
+      {trace.accessPaths.length > 0 && (
+        <Section title="Single Table Access Paths">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-[10px] uppercase tracking-wider text-neutral-400 dark:text-neutral-500">
+                <th className="py-1 pr-3 font-medium">Table</th>
+                <th className="py-1 pr-3 font-medium text-right" title="Rows before / after single-table predicates">Card</th>
+                <th className="py-1 pr-3 font-medium">Best access path</th>
+                <th className="py-1 font-medium text-right">Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {trace.accessPaths.map((path) => (
+                <tr key={`${path.table}-${path.alias ?? ''}`} className="border-t border-neutral-100 dark:border-neutral-800">
+                  <td className="py-1.5 pr-3 font-mono text-neutral-700 dark:text-neutral-200">
+                    {path.table}{path.alias && path.alias !== path.table ? ` ${path.alias}` : ''}
+                  </td>
+                  <td className="py-1.5 pr-3 text-right font-mono tabular-nums text-neutral-600 dark:text-neutral-300">
+                    {formatNumberShort(path.originalCardinality) ?? '—'} → {formatNumberShort(path.cardinality) ?? '—'}
+                  </td>
+                  <td className="py-1.5 pr-3 text-neutral-600 dark:text-neutral-300">
+                    {path.best?.path ?? '—'}
+                    {path.best?.index && <span className="ml-1 font-mono text-neutral-500 dark:text-neutral-400">{path.best.index}</span>}
+                  </td>
+                  <td className="py-1.5 text-right font-mono tabular-nums text-neutral-600 dark:text-neutral-300">{formatCost(path.best?.cost)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </Section>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { useMemo, useState } from 'react';
 import { usePlan } from '../../hooks/usePlanContext';
 import type { SqlMonitorMetadata } from '../../lib/types';
 import { formatNumberShort, formatBytes, formatTimeDetailed } from '../../lib/format';
+import { BindVariablesTable } from '../BindVariablesTable';
 import hljs from 'highlight.js/lib/core';
 import sql from 'highlight.js/lib/languages/sql';
 
@@ -223,28 +224,7 @@ export function MonitorDetailsView() {
       {/* Bind Variables */}
       {binds && binds.length > 0 && (
         <Section title="Bind Variables">
-          <div className="overflow-auto">
-            <table className="w-full text-xs">
-              <thead>
-                <tr className="text-left text-[10px] uppercase tracking-wider text-neutral-400 dark:text-neutral-500 border-b border-neutral-200 dark:border-neutral-700">
-                  <th className="pb-1.5 pr-4 font-medium">#</th>
-                  <th className="pb-1.5 pr-4 font-medium">Name</th>
-                  <th className="pb-1.5 pr-4 font-medium">Type</th>
-                  <th className="pb-1.5 font-medium">Value</th>
-                </tr>
-              </thead>
-              <tbody>
-                {binds.map((b, i) => (
-                  <tr key={b.name} className={i % 2 === 0 ? '' : 'bg-neutral-50 dark:bg-neutral-800/30'}>
-                    <td className="py-1 pr-4 font-mono text-neutral-400">{b.position ?? i + 1}</td>
-                    <td className="py-1 pr-4 font-mono font-medium text-neutral-700 dark:text-neutral-300">{b.name}</td>
-                    <td className="py-1 pr-4 text-neutral-500 dark:text-neutral-400">{b.type ?? '—'}</td>
-                    <td className="py-1 font-mono text-neutral-800 dark:text-neutral-200">{b.value ?? <span className="text-neutral-400 italic">null</span>}</td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
+          <BindVariablesTable binds={binds} />
         </Section>
       )}
 
@@ -0,0 +1,181 @@
+import { useMemo } from 'react';
+import { usePlan } from '../../hooks/usePlanContext';
+import type { PxServerStats } from '../../lib/types';
+import { computePxSkew, type DfoSkew, type PxSkewSeverity, type ServerSetSkew } from '../../lib/pxSkew';
+import { formatNumberShort, formatTimeCompact } from '../../lib/format';
+import { SEVERITY_STYLES } from '../../lib/severityStyles';
+
+const NEUTRAL_CHIP = 'bg-neutral-100 dark:bg-neutral-800 text-neutral-600 dark:text-neutral-300';
+
+function ScoreChip({ score, severity }: { score: number; severity: PxSkewSeverity }) {
+  const chip = severity === 'none' ? NEUTRAL_CHIP : SEVERITY_STYLES[severity].chip;
+  return (
+    <span className={`inline-block px-2 py-0.5 text-[11px] font-semibold rounded tabular-nums ${chip}`} title="0 = even split, 100 = one server did all the work">
+      skew {score}/100
+    </span>
+  );
+}
+
+function Section({ title, subtitle, children }: { title: string; subtitle?: React.ReactNode; children: React.ReactNode }) {
+  return (
+    <div className="rounded-lg border border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-900 overflow-hidden">
+      <div className="flex items-center justify-between gap-3 px-4 py-2.5 border-b border-neutral-200 dark:border-neutral-700 bg-neutral-50 dark:bg-neutral-800/50">
+        <h3 className="text-sm font-semibold text-neutral-700 dark:text-neutral-200">{title}</h3>
+        {subtitle}
+      </div>
+      <div className="px-4 py-3">{children}</div>
+    </div>
+  );
+}
+
+/** One server's elapsed time as a bar (CPU / user I/O / other), scaled to the busiest server. */
+function ServerBar({ server, scaleUs, isBusiest }: { server: PxServerStats; scaleUs: number; isBusiest: boolean }) {
+  const elapsed = server.elapsedTime ?? 0;
+  const cpu = server.cpuTime ?? 0;
+  const io = server.userIoWaitTime ?? 0;
+  const other = Math.max(0, elapsed - cpu - io);
+  const pct = (v: number) => (scaleUs > 0 ? (v / scaleUs) * 100 : 0);
+
+  return (
+    <div className="grid grid-cols-[4.5rem_1fr_5rem_4.5rem] items-center gap-2 text-[11px]">
+      <span className={`font-mono ${elapsed === 0 ? 'text-neutral-400 dark:text-neutral-500' : 'text-neutral-700 dark:text-neutral-200'} ${isBusiest ? 'font-semibold' : ''}`}>
+        {server.name}
+      </span>
+      <div
+        className="flex h-3 rounded-sm overflow-hidden bg-neutral-100 dark:bg-neutral-800"
+        title={`CPU ${formatTimeCompact(cpu / 1000)}, I/O ${formatTimeCompact(io / 1000)}, other ${formatTimeCompact(other / 1000)}`}
+      >
+        {cpu > 0 && <div className="bg-emerald-500 dark:bg-emerald-600" style={{ width: `${pct(cpu)}%` }} />}
+        {io > 0 && <div className="bg-sky-500 dark:bg-sky-600" style={{ width: `${pct(io)}%` }} />}
+        {other > 0 && <div className="bg-neutral-400 dark:bg-neutral-500" style={{ width: `${pct(other)}%` }} />}
+      </div>
+      <span className="text-right font-mono tabular-nums text-neutral-600 dark:text-neutral-300">
+        {elapsed > 0 ? formatTimeCompact(elapsed / 1000) : 'idle'}
+      </span>
+      <span className="text-right font-mono tabular-nums text-neutral-400 dark:text-neutral-500" title="Buffer gets">
+        {formatNumberShort(server.bufferGets) ?? ''}
+      </span>
+    </div>
+  );
+}
+
+function ServerSetCard({ set }: { set: ServerSetSkew }) {
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center gap-2">
+        <span className="text-xs font-semibold text-neutral-700 dark:text-neutral-200">Set {set.serverSet}</span>
+        <span className="text-[11px] text-neutral-500 dark:text-neutral-400">
+          {set.servers.length} servers · mean {formatTimeCompact(set.meanElapsed / 1000)} · max {formatTimeCompact(set.maxElapsed / 1000)}
+          {set.idleServers > 0 && ` · ${set.idleServers} idle`}
+        </span>
+        <span className="ml-auto"><ScoreChip score={set.score} severity={set.severity} /></span>
+      </div>
+      <div className="space-y-1">
+        {set.servers.map((server) => (
+          <ServerBar key={server.name} server={server} scaleUs={set.maxElapsed} isBusiest={server.name === set.busiest} />
+        ))}
+      </div>
+      {!set.significant && set.maxElapsed > 0 && (
+        <p className="text-[11px] text-neutral-400 dark:text-neutral-500 italic">Too little work for the imbalance to matter.</p>
+      )}
+    </div>
+  );
+}
+
+function DfoTable({ dfos, onSelect }: { dfos: DfoSkew[]; onSelect: (nodeId: number) => void }) {
+  return (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-left text-[10px] uppercase tracking-wider text-neutral-400 dark:text-neutral-500">
+          <th className="py-1 pr-3 font-medium">DFO</th>
+          <th className="py-1 pr-3 font-medium">Set</th>
+          <th className="py-1 pr-3 font-medium text-right">DOP</th>
+          <th className="py-1 pr-3 font-medium">Worst line</th>
+          <th className="py-1 pr-3 font-medium text-right" title="Busiest server's rows / per-server average">Max / avg rows</th>
+          <th className="py-1 font-medium text-right">Skew</th>
+        </tr>
+      </thead>
+      <tbody>
+        {dfos.map((dfo) => (
+          <tr key={dfo.sendNodeId} className="border-t border-neutral-100 dark:border-neutral-800">
+            <td className="py-1.5 pr-3 font-mono text-neutral-700 dark:text-neutral-200">
+              <button type="button" className="hover:underline" onClick={() => onSelect(dfo.sendNodeId)}>
+                {dfo.tqName ?? `line ${dfo.sendNodeId}`}
+              </button>
+            </td>
+            <td className="py-1.5 pr-3 text-neutral-600 dark:text-neutral-300">{dfo.serverSet ?? '—'}</td>
+            <td className="py-1.5 pr-3 text-right font-mono tabular-nums text-neutral-600 dark:text-neutral-300">{dfo.dop ?? '—'}</td>
+            <td className="py-1.5 pr-3 font-mono text-neutral-600 dark:text-neutral-300">
+              {dfo.worstNodeId !== undefined && (
+                <button type="button" className="hover:underline" onClick={() => onSelect(dfo.worstNodeId!)}>
+                  #{dfo.worstNodeId}
+                </button>
+              )}
+            </td>
+            <td className="py-1.5 pr-3 text-right font-mono tabular-nums text-neutral-600 dark:text-neutral-300">
+              {dfo.maxRowRatio !== undefined ? `${dfo.maxRowRatio.toFixed(2)}x` : '—'}
+            </td>
+            <td className="py-1.5 text-right"><ScoreChip score={dfo.score} severity={dfo.severity} /></td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export function PxSkewView() {
+  const { parsedPlan, selectNode, setViewMode } = usePlan();
+  const report = useMemo(() => (parsedPlan ? computePxSkew(parsedPlan) : null), [parsedPlan]);
+  const coordinator = parsedPlan?.monitorMetadata?.pxServers?.find((s) => s.isCoordinator);
+  const meta = parsedPlan?.monitorMetadata;
+
+  if (!parsedPlan || !report) {
+    return (
+      <div className="h-full flex items-center justify-center bg-neutral-50 dark:bg-neutral-950">
+        <p className="text-sm text-neutral-500 dark:text-neutral-400">
+          No per-server parallel execution data in this plan.
+        </p>
+      </div>
+    );
+  }
+
+  const handleSelect = (nodeId: number) => {
+    selectNode(nodeId);
+    setViewMode('hierarchical');
+  };
+
+  return (
+    <div className="h-full overflow-auto bg-neutral-50 dark:bg-neutral-950 p-4 space-y-4">
+      <Section title="Parallel Skew" subtitle={<ScoreChip score={report.score} severity={report.severity} />}>
+        <div className="flex flex-wrap gap-x-6 gap-y-2 text-xs text-neutral-600 dark:text-neutral-300">
+          {meta?.dop !== undefined && <span>DOP <span className="font-mono font-semibold">{meta.dop}</span></span>}
+          {meta?.pxServersRequested !== undefined && <span>Servers requested <span className="font-mono font-semibold">{meta.pxServersRequested}</span></span>}
+          {meta?.pxServersAllocated !== undefined && <span>Servers allocated <span className="font-mono font-semibold">{meta.pxServersAllocated}</span></span>}
+          {coordinator?.elapsedTime !== undefined && (
+            <span>QC elapsed <span className="font-mono font-semibold">{formatTimeCompact(coordinator.elapsedTime / 1000)}</span></span>
+          )}
+        </div>
+      </Section>
+
+      {report.serverSets.length > 0 && (
+        <Section title="Server Sets" subtitle={
+          <span className="flex items-center gap-3 text-[11px] text-neutral-500 dark:text-neutral-400">
+            <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-sm bg-emerald-500 dark:bg-emerald-600" />CPU</span>
+            <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-sm bg-sky-500 dark:bg-sky-600" />I/O</span>
+            <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-sm bg-neutral-400 dark:bg-neutral-500" />Other</span>
+          </span>
+        }>
+          <div className="space-y-5">
+            {report.serverSets.map((set) => <ServerSetCard key={set.serverSet} set={set} />)}
+          </div>
+        </Section>
+      )}
+
+      {report.dfos.length > 0 && (
+        <Section title="DFOs">
+          <DfoTable dfos={report.dfos} onSelect={handleSelect} />
+        </Section>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { COLOR_SCHEME_PALETTES, getOperationCategory } from '../../lib/types';
 import type { PlanNode } from '../../lib/types';
 import { formatNumberShort, formatTimeCompact } from '../../lib/format';
 import { matchesSearch } from '../../lib/filtering';
+import { resolveAdaptivePlan } from '../../lib/adaptivePlan';
 
 /** Minimum vertical pixels per operation before the diagram grows past the container and scrolls. */
 const MIN_PX_PER_NODE = 22;
@@ -32,7 +33,9 @@ export function SankeyView() {
   const tooltipStateRef = useRef<typeof tooltip>(null);
   const rafRef = useRef<number | null>(null);
   const pendingTooltipRef = useRef<typeof tooltip>(null);
-  const { parsedPlan, selectedNodeIds, selectNode, sankeyMetric, filteredNodeIds, theme, colorScheme, filters } = usePlan();
+  const { parsedPlan: fullPlan, selectedNodeIds, selectNode, sankeyMetric, filteredNodeIds, theme, colorScheme, filters } = usePlan();
+  // Inactive rows of an adaptive plan carried no rows; lay out the final plan only.
+  const parsedPlan = useMemo(() => (fullPlan ? resolveAdaptivePlan(fullPlan) : null), [fullPlan]);
   const selectedNodeIdSet = useMemo(() => new Set(selectedNodeIds), [selectedNodeIds]);
   // Vertical stretch factor — thin nodes on large plans become readable by growing the drawing height
   const [verticalZoom, setVerticalZoom] = useState(1);
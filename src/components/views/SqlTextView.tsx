@@ -2,14 +2,25 @@ import { useMemo, useState } from 'react';
 import { usePlan } from '../../hooks/usePlanContext';
 import hljs from 'highlight.js/lib/core';
 import sql from 'highlight.js/lib/languages/sql';
+import { inlineBindValues } from '../../lib/bindInlining';
+import { BindVariablesTable } from '../BindVariablesTable';
 
 hljs.registerLanguage('sql', sql);
 
 export function SqlTextView() {
   const { parsedPlan } = usePlan();
   const [copied, setCopied] = useState(false);
+  const [inlineBinds, setInlineBinds] = useState(false);
 
-  const sqlText = parsedPlan?.sqlText;
+  const rawSqlText = parsedPlan?.sqlText;
+  const binds = parsedPlan?.bindVariables;
+  const hasBinds = Boolean(binds && binds.length > 0);
+
+  const inlined = useMemo(
+    () => (rawSqlText && binds && binds.length > 0 ? inlineBindValues(rawSqlText, binds) : null),
+    [rawSqlText, binds],
+  );
+  const sqlText = inlineBinds && inlined ? inlined.sql : rawSqlText;
 
   const highlightedHtml = useMemo(() => {
     if (!sqlText) return '';
@@ -50,7 +61,32 @@ export function SqlTextView() {
 
   return (
     <div className="h-full flex flex-col bg-neutral-50 dark:bg-neutral-950">
-      <div className="flex justify-end px-4 pt-3 pb-1">
+      <div className="flex items-center justify-end gap-2 px-4 pt-3 pb-1">
+        {hasBinds && (
+          <>
+            {inlineBinds && inlined && inlined.unresolved.length > 0 && (
+              <span className="text-xs text-amber-600 dark:text-amber-400" title={inlined.unresolved.join(', ')}>
+                {inlined.unresolved.length} placeholder{inlined.unresolved.length !== 1 ? 's' : ''} without a value
+              </span>
+            )}
+            <div className="flex rounded-md border border-neutral-300 dark:border-neutral-600 overflow-hidden text-xs font-medium">
+              {([false, true] as const).map((value) => (
+                <button
+                  key={String(value)}
+                  onClick={() => setInlineBinds(value)}
+                  className={`px-3 py-1.5 transition-colors ${
+                    inlineBinds === value
+                      ? 'bg-neutral-200 dark:bg-neutral-700 text-neutral-800 dark:text-neutral-100'
+                      : 'text-neutral-600 dark:text-neutral-400 hover:bg-neutral-100 dark:hover:bg-neutral-800'
+                  }`}
+                  title={value ? 'Substitute peeked / captured bind values into the SQL text' : 'Show the SQL text as executed'}
+                >
+                  {value ? 'Inlined values' : 'Placeholders'}
+                </button>
+              ))}
+            </div>
+          </>
+        )}
         <button
           onClick={handleCopy}
           className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-md border transition-colors
@@ -81,6 +117,12 @@ export function SqlTextView() {
             dangerouslySetInnerHTML={{ __html: highlightedHtml }}
           />
         </pre>
+        {binds && binds.length > 0 && (
+          <div className="mt-4 pt-3 border-t border-neutral-200 dark:border-neutral-700">
+            <h3 className="mb-2 text-sm font-semibold text-neutral-700 dark:text-neutral-200">Bind Variables</h3>
+            <BindVariablesTable binds={binds} />
+          </div>
+        )}
       </div>
     </div>
   );
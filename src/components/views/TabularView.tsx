@@ -7,14 +7,16 @@ import type { AnnotationGroup } from '../../lib/annotations';
 import { matchesFilters } from '../../lib/filtering';
 import { computeHottestNodeId } from '../../lib/analysis';
 import { HighlightText } from '../HighlightText';
+import { getDisplayedPlan, hasInactiveRows } from '../../lib/adaptivePlan';
+import { AdaptivePlanToggle } from '../AdaptivePlanToggle';
 
 const EMPTY_SELECTED_NODE_IDS: number[] = [];
 
-type SortColumn = 'id' | 'cost' | 'rows' | 'actualRows' | 'actualTime' | 'activityPercent' | 'starts' | 'memoryUsed' | 'tempUsed';
+type SortColumn = 'id' | 'cost' | 'rows' | 'rowWidth' | 'actualRows' | 'actualTime' | 'activityPercent' | 'starts' | 'memoryUsed' | 'tempUsed';
 type SortDirection = 'asc' | 'desc';
 type ColumnKey =
   | 'id' | 'operation'
-  | 'rows' | 'cost'
+  | 'rows' | 'cost' | 'rowWidth'
   | 'actualRows' | 'actualTime' | 'activityPercent' | 'starts' | 'memoryUsed' | 'tempUsed'
   | 'cardinality';
 
@@ -23,6 +25,7 @@ const COLUMN_DEFAULT_WIDTHS: Record<ColumnKey, number> = {
   operation: 340,
   rows: 90,
   cost: 110,
+  rowWidth: 80,
   actualRows: 90,
   actualTime: 130,
   activityPercent: 80,
@@ -32,7 +35,7 @@ const COLUMN_DEFAULT_WIDTHS: Record<ColumnKey, number> = {
   cardinality: 80,
 };
 const COLUMN_MIN_WIDTH: Record<ColumnKey, number> = {
-  id: 36, operation: 160, rows: 56, cost: 56, actualRows: 56,
+  id: 36, operation: 160, rows: 56, cost: 56, rowWidth: 56, actualRows: 56,
   actualTime: 72, activityPercent: 56, starts: 48, memoryUsed: 56, tempUsed: 56, cardinality: 48,
 };
 const COLUMN_WIDTHS_STORAGE_KEY = 'tabularView.columnWidths.v1';
@@ -88,11 +91,16 @@ export function TabularView({ planIndex }: TabularViewProps = {}) {
     filters,
     hotspotsEnabled,
     getAnnotationsForPlan,
+    showFullAdaptivePlan,
+    advisorProfile,
   } = usePlan();
 
   const resolvedPlanIndex = planIndex ?? activePlanIndex;
   const slot = plans[resolvedPlanIndex];
-  const parsedPlan = slot?.parsedPlan ?? null;
+  const parsedPlan = useMemo(
+    () => getDisplayedPlan(slot?.parsedPlan ?? null, showFullAdaptivePlan),
+    [slot?.parsedPlan, showFullAdaptivePlan]
+  );
   const selectedNodeIds = slot?.selectedNodeIds ?? EMPTY_SELECTED_NODE_IDS;
 
   const selectNode = useCallback(
@@ -154,6 +162,7 @@ export function TabularView({ planIndex }: TabularViewProps = {}) {
     return {
       rows: anyNonNull('rows'),
       cost: anyNonNull('cost'),
+      rowWidth: nodes.some(n => n.projection?.rowWidth != null),
       actualRows: anyNonNull('actualRows'),
       actualTime: anyNonNull('actualTime'),
       activityPercent: anyNonNull('activityPercent'),
@@ -167,6 +176,7 @@ export function TabularView({ planIndex }: TabularViewProps = {}) {
     const cols: ColumnKey[] = ['id', 'operation'];
     if (hasData.rows) cols.push('rows');
     if (hasData.cost) cols.push('cost');
+    if (hasData.rowWidth) cols.push('rowWidth');
     if (hasActualStats) {
       if (hasData.actualRows) cols.push('actualRows');
       if (hasData.actualTime) cols.push('actualTime');
@@ -215,7 +225,7 @@ export function TabularView({ planIndex }: TabularViewProps = {}) {
     setColumnWidths(prev => ({ ...prev, [column]: COLUMN_DEFAULT_WIDTHS[column] }));
   }, []);
 
-  const estimatedColSpan = (hasData.rows ? 1 : 0) + (hasData.cost ? 1 : 0);
+  const estimatedColSpan = (hasData.rows ? 1 : 0) + (hasData.cost ? 1 : 0) + (hasData.rowWidth ? 1 : 0);
   const actualColCount =
     (hasData.actualRows ? 1 : 0) + (hasData.actualTime ? 1 : 0) + (hasData.activityPercent ? 1 : 0) +
     (hasData.starts ? 1 : 0) + (hasData.memoryUsed ? 1 : 0) + (hasData.tempUsed ? 1 : 0);
@@ -303,6 +313,7 @@ export function TabularView({ planIndex }: TabularViewProps = {}) {
         switch (sortColumn) {
           case 'id': return node.id;
           case 'cost': return node.cost ?? 0;
+          case 'rowWidth': return node.projection?.rowWidth ?? 0;
           case 'rows': return node.rows ?? 0;
           case 'actualRows': return node.actualRows ?? 0;
           case 'actualTime': return node.actualTime ?? 0;
@@ -487,7 +498,9 @@ export function TabularView({ planIndex }: TabularViewProps = {}) {
         </colgroup>
         <thead>
           <tr>
-            <th className={groupThClass} colSpan={2}></th>
+            <th className={`${groupThClass} !text-left`} colSpan={2}>
+              {hasInactiveRows(slot?.parsedPlan) && <AdaptivePlanToggle />}
+            </th>
             {estimatedColSpan > 0 && (
               <th className={`${groupThClass} ${groupBorderClass}`} colSpan={estimatedColSpan}>
                 Estimated
@@ -520,6 +533,12 @@ export function TabularView({ planIndex }: TabularViewProps = {}) {
                 <ResizeHandle column="cost" onResizeStart={handleResizeStart} onResizeDoubleClick={handleResizeDoubleClick} />
               </th>
             )}
+            {hasData.rowWidth && (
+              <th className={`${thSortableClass} ${thRightClass} ${hasData.rows || hasData.cost ? '' : groupBorderClass}`} onClick={() => handleSort('rowWidth')} title="Projected row width (Column Projection Information)">
+                Row Width<SortArrow column="rowWidth" sortColumn={sortColumn} sortDirection={sortDirection} />
+                <ResizeHandle column="rowWidth" onResizeStart={handleResizeStart} onResizeDoubleClick={handleResizeDoubleClick} />
+              </th>
+            )}
             {showActualGroup && (
               <>
                 {hasData.actualRows && (
@@ -607,7 +626,9 @@ export function TabularView({ planIndex }: TabularViewProps = {}) {
                       ? 'bg-neutral-50 dark:bg-neutral-800/30'
                       : ''}
                   ${isFiltered ? 'opacity-30' : ''}
+                  ${node.inactive && !isFiltered ? 'opacity-50 italic' : ''}
                 `}
+                title={node.inactive ? 'Inactive: switched off at runtime by the adaptive plan' : undefined}
               >
                 {/* Id */}
                 <td className="px-2 py-1.5 text-right font-mono text-neutral-500 dark:text-neutral-400 tabular-nums">
@@ -779,6 +800,20 @@ export function TabularView({ planIndex }: TabularViewProps = {}) {
                   </td>
                 )}
 
+                {/* Projected row width */}
+                {hasData.rowWidth && (() => {
+                  const rowWidth = node.projection?.rowWidth;
+                  const isWide = rowWidth !== undefined && rowWidth >= advisorProfile.thresholds.wideRowBytes;
+                  return (
+                    <td
+                      className={`px-2 py-1.5 text-right font-mono tabular-nums ${isWide ? 'text-amber-600 dark:text-amber-400 font-semibold' : 'text-neutral-700 dark:text-neutral-300'} ${hasData.rows || hasData.cost ? '' : bodyGroupBorderClass}`}
+                      title={node.projection ? `${node.projection.columns.length} projected column${node.projection.columns.length === 1 ? '' : 's'}${isWide ? ' — wide rows inflate hash join / sort workareas' : ''}` : undefined}
+                    >
+                      {formatBytes(rowWidth)}
+                    </td>
+                  );
+                })()}
+
                 {showActualGroup && (
                   <>
                     {/* A-Rows */}
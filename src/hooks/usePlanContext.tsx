@@ -1,10 +1,13 @@
 /* eslint-disable react-refresh/only-export-components */
 import { createContext, useContext, useReducer, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import type { ReactNode } from 'react';
-import type { ParsedPlan, PlanNode, FilterState, ViewMode, SankeyMetric, FlameMetric, ExperimentalSubView, NodeIndicatorMetric, Theme, ColorScheme } from '../lib/types';
+import type { ParsedPlan, PlanNode, FilterState, ViewMode, SankeyMetric, FlameMetric, ExperimentalSubView, NodeIndicatorMetric, Theme, ColorScheme, ParseDiagnostic, DiagnosticRepair } from '../lib/types';
 import type { PlanSlot, CompareMetric } from '../lib/compare';
-import { createEmptySlot, DEFAULT_COMPARE_METRICS, getPlanSlotLabel } from '../lib/compare';
-import { parseExplainPlan, splitDbmsXplanPlanBatches } from '../lib/parser';
+import { createEmptySlot, DEFAULT_COMPARE_METRICS, getPlanSlotLabel, getStatementSlotLabel } from '../lib/compare';
+import { applyRepair } from '../lib/parser';
+import { parseInBackground, parsePlanResult, PipelineCancelledError } from '../lib/pipeline';
+import type { PipelineProgress, PlanParseResult } from '../lib/pipeline';
+import type { MonitoredExecution } from '../lib/parser/sqlMonitorList';
 import { loadSettings, saveSettings, extractFilterSettings, applySettingsToFilters, defaultNodeDisplayOptions } from '../lib/settings';
 import { matchesFilters } from '../lib/filtering';
 import { computeHottestNodeId } from '../lib/analysis';
@@ -14,13 +17,22 @@ import { getPlanFromUrl, getGzipPlanParamFromHash, clearPlanFromUrl, buildShareU
 import type { SharePayload, UrlPlanData } from '../lib/url';
 import type { AnnotationState, AnnotationGroup, HighlightColor, HighlightStyle, AnnotatedPlanExport } from '../lib/annotations';
 import { createEmptyAnnotationState, hasAnnotations, serializeAnnotations, deserializeAnnotations, validateExport, downloadAnnotatedPlan, generateGroupId } from '../lib/annotations';
+import { downloadJson } from '../lib/download';
 import type { MetadataBundle } from '../lib/metadata/bundle';
 import { parseBundle, emptyBundleWarning } from '../lib/metadata/bundle';
 import { copyToClipboard } from '../lib/clipboard';
 import { SAMPLE_PLANS_WITH_ORDER } from '../examples';
 import type { SamplePlan } from '../examples';
-import { runAdvisor } from '../lib/advisor';
-import type { AdvisorReport } from '../lib/advisor';
+import {
+  runAdvisor,
+  buildFindingsExport,
+  findingsExportFilename,
+  isBuiltinProfile,
+  DEFAULT_PROFILE_NAME,
+  parseRulePack,
+  rulePackFilename,
+} from '../lib/advisor';
+import type { AdvisorReport, AdvisorProfile, CustomRulePack } from '../lib/advisor';
 
 function combineWarnings(...warnings: Array<string | null>): string | null {
   const present = warnings.filter((w): w is string => Boolean(w));
@@ -33,6 +45,10 @@ export type LoadMetadataBundleResult =
   | { ok: 'needs-choice'; bundle: MetadataBundle; reason: string; candidateIndices: number[] }
   | { ok: false; error: string };
 
+export type ImportRulePackResult =
+  | { ok: true; pack: CustomRulePack; replaced: boolean }
+  | { ok: false; error: string };
+
 interface PlanState {
   plans: PlanSlot[];
   activePlanIndex: number;
@@ -40,6 +56,8 @@ interface PlanState {
   compareMetrics: CompareMetric[];
   viewMode: ViewMode;
   treeCompareEnabled: boolean;
+  // Adaptive plans: show inactive rows (ghosted) instead of the final plan
+  showFullAdaptivePlan: boolean;
   sankeyMetric: SankeyMetric;
   flameMetric: FlameMetric;
   experimentalSubView: ExperimentalSubView;
@@ -50,6 +68,9 @@ interface PlanState {
   // UI panel states (persisted)
   hotspotsEnabled: boolean;
   showAdvisorSuggestions: boolean;
+  advisorProfiles: AdvisorProfile[];
+  advisorProfileName: string;
+  customRulePacks: CustomRulePack[];
   legendVisible: boolean;
   inputPanelCollapsed: boolean;
   filterPanelCollapsed: boolean;
@@ -68,6 +89,7 @@ type PlanAction =
   | { type: 'SELECT_NODE_FOR_PLAN'; payload: { index: number; id: number | null; additive?: boolean } }
   | { type: 'SET_VIEW_MODE'; payload: ViewMode }
   | { type: 'SET_TREE_COMPARE_ENABLED'; payload: boolean }
+  | { type: 'SET_SHOW_FULL_ADAPTIVE_PLAN'; payload: boolean }
   | { type: 'SET_SANKEY_METRIC'; payload: SankeyMetric }
   | { type: 'SET_FLAME_METRIC'; payload: FlameMetric }
   | { type: 'SET_EXPERIMENTAL_SUB_VIEW'; payload: ExperimentalSubView }
@@ -76,9 +98,20 @@ type PlanAction =
   | { type: 'SET_THEME'; payload: Theme }
   | { type: 'SET_FILTERS'; payload: Partial<FilterState> }
   | { type: 'SET_ERROR'; payload: string | null }
+  | { type: 'SET_DIAGNOSTICS'; payload: ParseDiagnostic[] }
+  | { type: 'SET_SLOT_PARSING'; payload: { index: number; progress: PipelineProgress | null } }
+  | { type: 'SET_SLOT_INPUT'; payload: { index: number; input: string } }
+  | { type: 'SET_SLOT_PARSED_PLAN'; payload: { index: number; plan: ParsedPlan } }
+  | { type: 'SET_SLOT_ERROR'; payload: { index: number; error: string | null } }
+  | { type: 'SET_SLOT_DIAGNOSTICS'; payload: { index: number; diagnostics: ParseDiagnostic[] } }
   | { type: 'CLEAR_PLAN' }
   | { type: 'SET_HOTSPOTS_ENABLED'; payload: boolean }
   | { type: 'SET_ADVISOR_SUGGESTIONS'; payload: boolean }
+  | { type: 'SET_ADVISOR_PROFILE'; payload: string }
+  | { type: 'SAVE_ADVISOR_PROFILE'; payload: AdvisorProfile }
+  | { type: 'DELETE_ADVISOR_PROFILE'; payload: string }
+  | { type: 'IMPORT_RULE_PACK'; payload: CustomRulePack }
+  | { type: 'REMOVE_RULE_PACK'; payload: string }
   | { type: 'SET_LEGEND_VISIBLE'; payload: boolean }
   | { type: 'SET_INPUT_PANEL_COLLAPSED'; payload: boolean }
   | { type: 'SET_FILTER_PANEL_COLLAPSED'; payload: boolean }
@@ -184,6 +217,14 @@ function parseViewModeFromUrlParam(rawValue: string): ViewMode | null {
       return 'sql';
     case 'monitor':
       return 'monitor';
+    case 'px':
+    case 'px-skew':
+    case 'skew':
+      return 'px';
+    case 'joinorders':
+    case 'join-orders':
+    case '10053':
+      return 'joinorders';
     case 'experimental':
     case 'lab':
       return 'experimental';
@@ -288,6 +329,7 @@ const getInitialState = (): PlanState => {
     compareMetrics: settings.compareMetrics ?? DEFAULT_COMPARE_METRICS,
     viewMode: settings.viewMode,
     treeCompareEnabled: false,
+    showFullAdaptivePlan: false,
     sankeyMetric: settings.sankeyMetric,
     flameMetric: settings.flameMetric ?? 'actualTime',
     experimentalSubView: settings.experimentalSubView ?? 'scatter',
@@ -298,6 +340,9 @@ const getInitialState = (): PlanState => {
     highlightStyle: settings.highlightStyle ?? 'circle',
     hotspotsEnabled: settings.hotspotsEnabled ?? true,
     showAdvisorSuggestions: settings.showAdvisorSuggestions ?? false,
+    advisorProfiles: settings.advisorProfiles,
+    advisorProfileName: settings.advisorProfileName,
+    customRulePacks: settings.customRulePacks,
     legendVisible: settings.legendVisible,
     inputPanelCollapsed: initialPlans.some((slot) => slot.parsedPlan) ? settings.inputPanelCollapsed : false,
     filterPanelCollapsed: settings.filterPanelCollapsed,
@@ -321,6 +366,40 @@ function updatePlanSlot(state: PlanState, index: number, updater: (slot: PlanSlo
   return { ...state, plans };
 }
 
+function setSlotParsedPlan(state: PlanState, index: number, plan: ParsedPlan): PlanState {
+  // Default the node indicator to A-Time (or A-Rows) when the plan carries
+  // actual runtime stats, otherwise fall back to Cost.
+  const hasActualTime = plan.allNodes.some((n) => n.actualTime !== undefined);
+  const hasActualRows = plan.hasActualStats || plan.maxActualRows !== undefined;
+  const newMetric: NodeIndicatorMetric = hasActualTime
+    ? 'actualTime'
+    : hasActualRows
+      ? 'actualRows'
+      : 'cost';
+  const nextState = updatePlanSlot(state, index, slot => ({
+    ...slot,
+    parsedPlan: plan,
+    error: null,
+    diagnostics: plan.diagnostics ?? [],
+    selectedNodeId: null,
+    selectedNodeIds: [],
+    annotations: createEmptyAnnotationState(),
+    // A new plan belongs to a different SQL_ID/plan; drop any metadata
+    // bundle attached to the previous plan so it can't bleed across queries.
+    // Callers that want to keep a bundle re-attach it right after this.
+    metadataBundle: null,
+    metadataBundleWarning: null,
+  }));
+  const comparePlanIndices = normalizeComparePlanIndices(nextState.plans, state.comparePlanIndices);
+  const parsedPlanCount = nextState.plans.filter((slot) => slot.parsedPlan).length;
+  return {
+    ...nextState,
+    nodeIndicatorMetric: newMetric,
+    comparePlanIndices,
+    treeCompareEnabled: parsedPlanCount >= 2 && state.treeCompareEnabled,
+  };
+}
+
 function updateSlotSelection(slot: PlanSlot, id: number | null, additive?: boolean): PlanSlot {
   if (id === null) {
     return { ...slot, selectedNodeId: null, selectedNodeIds: [] };
@@ -364,40 +443,21 @@ function planReducer(state: PlanState, action: PlanAction): PlanState {
     }
 
     case 'SET_INPUT':
-      return updateActiveSlot(state, slot => ({ ...slot, rawInput: action.payload, error: null }));
-
-    case 'SET_PARSED_PLAN': {
-      // Default the node indicator to A-Time (or A-Rows) when the plan carries
-      // actual runtime stats, otherwise fall back to Cost.
-      const hasActualTime = action.payload.allNodes.some((n) => n.actualTime !== undefined);
-      const hasActualRows = action.payload.hasActualStats || action.payload.maxActualRows !== undefined;
-      const newMetric: NodeIndicatorMetric = hasActualTime
-        ? 'actualTime'
-        : hasActualRows
-          ? 'actualRows'
-          : 'cost';
-      const nextState = updateActiveSlot(state, slot => ({
+      return updateActiveSlot(state, slot => ({ ...slot, rawInput: action.payload, error: null, diagnostics: [] }));
+
+    case 'SET_SLOT_INPUT':
+      return updatePlanSlot(state, action.payload.index, slot => ({
         ...slot,
-        parsedPlan: action.payload,
+        rawInput: action.payload.input,
         error: null,
-        selectedNodeId: null,
-        selectedNodeIds: [],
-        annotations: createEmptyAnnotationState(),
-        // A new plan belongs to a different SQL_ID/plan; drop any metadata
-        // bundle attached to the previous plan so it can't bleed across queries.
-        // Callers that want to keep a bundle re-attach it right after this.
-        metadataBundle: null,
-        metadataBundleWarning: null,
+        diagnostics: [],
       }));
-      const comparePlanIndices = normalizeComparePlanIndices(nextState.plans, state.comparePlanIndices);
-      const parsedPlanCount = nextState.plans.filter((slot) => slot.parsedPlan).length;
-      return {
-        ...nextState,
-        nodeIndicatorMetric: newMetric,
-        comparePlanIndices,
-        treeCompareEnabled: parsedPlanCount >= 2 && state.treeCompareEnabled,
-      };
-    }
+
+    case 'SET_PARSED_PLAN':
+      return setSlotParsedPlan(state, state.activePlanIndex, action.payload);
+
+    case 'SET_SLOT_PARSED_PLAN':
+      return setSlotParsedPlan(state, action.payload.index, action.payload.plan);
 
     case 'SELECT_NODE': {
       const { id, additive } = action.payload;
@@ -418,6 +478,9 @@ function planReducer(state: PlanState, action: PlanAction): PlanState {
         treeCompareEnabled: action.payload && getParsedPlanIndices(state.plans).length >= 2,
       };
 
+    case 'SET_SHOW_FULL_ADAPTIVE_PLAN':
+      return { ...state, showFullAdaptivePlan: action.payload };
+
     case 'SET_SANKEY_METRIC':
       return { ...state, sankeyMetric: action.payload };
 
@@ -445,6 +508,18 @@ function planReducer(state: PlanState, action: PlanAction): PlanState {
     case 'SET_ERROR':
       return updateActiveSlot(state, slot => ({ ...slot, error: action.payload }));
 
+    case 'SET_DIAGNOSTICS':
+      return updateActiveSlot(state, slot => ({ ...slot, diagnostics: action.payload }));
+
+    case 'SET_SLOT_ERROR':
+      return updatePlanSlot(state, action.payload.index, slot => ({ ...slot, error: action.payload.error }));
+
+    case 'SET_SLOT_DIAGNOSTICS':
+      return updatePlanSlot(state, action.payload.index, slot => ({ ...slot, diagnostics: action.payload.diagnostics }));
+
+    case 'SET_SLOT_PARSING':
+      return updatePlanSlot(state, action.payload.index, slot => ({ ...slot, parsing: action.payload.progress }));
+
     case 'CLEAR_PLAN':
       {
         const nextState = updateActiveSlot(state, slot => ({
@@ -454,6 +529,8 @@ function planReducer(state: PlanState, action: PlanAction): PlanState {
           selectedNodeId: null,
           selectedNodeIds: [],
           error: null,
+          diagnostics: [],
+          parsing: null,
           annotations: createEmptyAnnotationState(),
         }));
         const parsedPlanCount = nextState.plans.filter((slot) => slot.parsedPlan).length;
@@ -477,6 +554,43 @@ function planReducer(state: PlanState, action: PlanAction): PlanState {
     case 'SET_ADVISOR_SUGGESTIONS':
       return { ...state, showAdvisorSuggestions: action.payload };
 
+    case 'SET_ADVISOR_PROFILE':
+      if (!state.advisorProfiles.some((profile) => profile.name === action.payload)) return state;
+      return { ...state, advisorProfileName: action.payload };
+
+    case 'SAVE_ADVISOR_PROFILE':
+      {
+        const exists = state.advisorProfiles.some((profile) => profile.name === action.payload.name);
+        return {
+          ...state,
+          advisorProfiles: exists
+            ? state.advisorProfiles.map((profile) => (profile.name === action.payload.name ? action.payload : profile))
+            : [...state.advisorProfiles, action.payload],
+          advisorProfileName: action.payload.name,
+        };
+      }
+
+    case 'DELETE_ADVISOR_PROFILE':
+      // Built-in profiles can be reset but not removed.
+      if (isBuiltinProfile(action.payload)) return state;
+      return {
+        ...state,
+        advisorProfiles: state.advisorProfiles.filter((profile) => profile.name !== action.payload),
+        advisorProfileName: state.advisorProfileName === action.payload ? DEFAULT_PROFILE_NAME : state.advisorProfileName,
+      };
+
+    case 'IMPORT_RULE_PACK':
+      // A pack with the same name is an update of that pack and replaces it in place.
+      return {
+        ...state,
+        customRulePacks: state.customRulePacks.some((pack) => pack.name === action.payload.name)
+          ? state.customRulePacks.map((pack) => (pack.name === action.payload.name ? action.payload : pack))
+          : [...state.customRulePacks, action.payload],
+      };
+
+    case 'REMOVE_RULE_PACK':
+      return { ...state, customRulePacks: state.customRulePacks.filter((pack) => pack.name !== action.payload) };
+
     case 'SET_LEGEND_VISIBLE':
       return { ...state, legendVisible: action.payload };
 
@@ -692,6 +806,12 @@ export type ShareNotice =
   | { kind: 'manual'; url: string; warning?: string }
   | { kind: 'error'; message: string };
 
+/** A pasted SQL Monitor document covering several executions, waiting for the user to pick. */
+export interface ExecutionPickerState {
+  input: string;
+  executions: MonitoredExecution[];
+}
+
 interface PlanContextValue {
   // Backward-compatible derived values from active plan
   rawInput: string;
@@ -699,6 +819,9 @@ interface PlanContextValue {
   selectedNodeId: number | null;
   selectedNodeIds: number[];
   error: string | null;
+  diagnostics: ParseDiagnostic[];
+  /** Progress of the background parse of the active slot's input, if one is running. */
+  parsing: PipelineProgress | null;
   metadataBundle: MetadataBundle | null;
 
   // Global state
@@ -715,6 +838,7 @@ interface PlanContextValue {
   filterPanelCollapsed: boolean;
   detailPanelCollapsed: boolean;
   treeCompareEnabled: boolean;
+  showFullAdaptivePlan: boolean;
   visualizationMaximized: boolean;
 
   // Multi-plan state
@@ -727,7 +851,14 @@ interface PlanContextValue {
   // Actions
   setInput: (input: string) => void;
   parsePlan: () => void;
+  /** Apply a diagnostic's automatic repair to the input and parse it again. */
+  repairAndParse: (repair: DiagnosticRepair) => void;
   loadAndParsePlan: (input: string, metadataText?: string) => void;
+  /** Set when the last paste covers several SQL Monitor executions. */
+  executionPicker: ExecutionPickerState | null;
+  /** Parse the picked executions: one into the active slot, several into slots of their own. */
+  loadMonitoredExecutions: (indexes: number[]) => void;
+  dismissExecutionPicker: () => void;
   loadMetadataBundle: (text: string) => LoadMetadataBundleResult;
   attachMetadataBundleToSlot: (bundle: MetadataBundle, index: number) => { ok: true; warning: string | null } | { ok: false; error: string };
   applyMetadataToAllSlots: (bundle: MetadataBundle) => Array<{ index: number; warning: string | null }>;
@@ -737,6 +868,7 @@ interface PlanContextValue {
   selectNodeForPlan: (index: number, id: number | null, options?: { additive?: boolean }) => void;
   setViewMode: (mode: ViewMode) => void;
   setTreeCompareEnabled: (enabled: boolean) => void;
+  setShowFullAdaptivePlan: (show: boolean) => void;
   setSankeyMetric: (metric: SankeyMetric) => void;
   setFlameMetric: (metric: FlameMetric) => void;
   setExperimentalSubView: (view: ExperimentalSubView) => void;
@@ -760,6 +892,18 @@ interface PlanContextValue {
   setHotspotsEnabled: (enabled: boolean) => void;
   showAdvisorSuggestions: boolean;
   setShowAdvisorSuggestions: (enabled: boolean) => void;
+  // Advisor threshold profiles; findings use the active one
+  advisorProfiles: AdvisorProfile[];
+  advisorProfile: AdvisorProfile;
+  setAdvisorProfile: (name: string) => void;
+  saveAdvisorProfile: (profile: AdvisorProfile) => void;
+  deleteAdvisorProfile: (name: string) => void;
+  exportFindings: () => void;
+  // Imported custom rule packs, evaluated next to the built-in rules
+  customRulePacks: CustomRulePack[];
+  importRulePack: (text: string) => ImportRulePackResult;
+  removeRulePack: (name: string) => void;
+  exportRulePack: (name: string) => void;
   setLegendVisible: (visible: boolean) => void;
   // Density presets (derived from nodeDisplayOptions, never stored)
   densitySelection: DensitySelection;
@@ -773,6 +917,10 @@ interface PlanContextValue {
   setMetadataPopoutOpen: (open: boolean) => void;
   baselineDialogOpen: boolean;
   setBaselineDialogOpen: (open: boolean) => void;
+  advisorSettingsOpen: boolean;
+  setAdvisorSettingsOpen: (open: boolean) => void;
+  customRulesOpen: boolean;
+  setCustomRulesOpen: (open: boolean) => void;
   connectPanelOpen: boolean;
   setConnectPanelOpen: (open: boolean) => void;
   setInputPanelCollapsed: (collapsed: boolean) => void;
@@ -828,46 +976,93 @@ export function PlanProvider({ children }: { children: ReactNode }) {
   const [shortcutsOverlayOpen, setShortcutsOverlayOpen] = useState(false);
   const [metadataPopoutOpen, setMetadataPopoutOpen] = useState(false);
   const [baselineDialogOpen, setBaselineDialogOpen] = useState(false);
+  const [advisorSettingsOpen, setAdvisorSettingsOpen] = useState(false);
+  const [customRulesOpen, setCustomRulesOpen] = useState(false);
   const [connectPanelOpen, setConnectPanelOpen] = useState(false);
   const [prevMetadataBundle, setPrevMetadataBundle] = useState<MetadataBundle | null>(null);
   const [shareNotice, setShareNotice] = useState<ShareNotice | null>(null);
+  const [executionPicker, setExecutionPicker] = useState<ExecutionPickerState | null>(null);
 
-  const createPlanSlotFromInput = useCallback((input: string, index: number): PlanSlot => {
-    const slot = createEmptySlot(index);
+  // In-flight background parses by slot index; a new paste into a slot
+  // cancels the parse already running for it.
+  const parseRunsRef = useRef(new Map<number, AbortController>());
 
-    try {
-      const parsed = parseExplainPlan(input);
-      return {
-        ...slot,
-        rawInput: input,
-        parsedPlan: parsed.rootNode ? parsed : null,
-        error: parsed.rootNode ? null : 'Could not parse the execution plan. Please check the format.',
-      };
-    } catch (err) {
-      return {
-        ...slot,
-        rawInput: input,
-        error: `Parse error: ${err instanceof Error ? err.message : 'Unknown error'}`,
-      };
-    }
+  const cancelParseRuns = useCallback(() => {
+    for (const controller of parseRunsRef.current.values()) controller.abort();
+    parseRunsRef.current.clear();
   }, []);
 
-  const buildPlanSlotsFromInputs = useCallback((inputs: string[]): PlanSlot[] => {
-    const meaningfulInputs = inputs
-      .map((input) => input.trim())
-      .filter(Boolean);
+  const advisorProfile =
+    state.advisorProfiles.find((profile) => profile.name === state.advisorProfileName) ?? state.advisorProfiles[0];
+  // Parses run the advisor under these same thresholds, so the report they
+  // bring back is the one the advisorReport memo below looks up.
+  const advisorThresholds = advisorProfile.thresholds;
 
-    if (meaningfulInputs.length === 0) {
+  const buildPlanSlotsFromResults = useCallback((results: PlanParseResult[]): PlanSlot[] => {
+    // Keep leading blank lines: diagnostics count lines of the text as pasted.
+    const meaningfulResults = results.filter((result) => result.input.trim());
+
+    if (meaningfulResults.length === 0) {
       return [createEmptySlot(0)];
     }
 
-    return meaningfulInputs.map((input, index) => createPlanSlotFromInput(input, index));
-  }, [createPlanSlotFromInput]);
+    return meaningfulResults.map((result, index) => ({
+      ...createEmptySlot(index),
+      customLabel: result.label ?? (result.plan ? getStatementSlotLabel(result.plan) : undefined),
+      rawInput: result.input,
+      parsedPlan: result.plan,
+      error: result.error,
+      diagnostics: result.diagnostics,
+    }));
+  }, []);
 
-  const importPlanInput = useCallback((input: string, options?: { replaceAll?: boolean; metadataText?: string }) => {
-    const splitInputs = splitDbmsXplanPlanBatches(input).filter((batch) => batch.trim());
-    const shouldReplaceAll = options?.replaceAll ?? splitInputs.length > 1;
-    const slots = buildPlanSlotsFromInputs(shouldReplaceAll ? splitInputs : [input]);
+  const buildPlanSlotsFromInputs = useCallback(
+    (inputs: string[]): PlanSlot[] => buildPlanSlotsFromResults(inputs.map((input) => parsePlanResult(input))),
+    [buildPlanSlotsFromResults],
+  );
+
+  const importPlanInput = useCallback(async (
+    input: string,
+    options?: { replaceAll?: boolean; metadataText?: string; executions?: number[] },
+  ) => {
+    const targetIndex = state.activePlanIndex;
+    parseRunsRef.current.get(targetIndex)?.abort();
+    const controller = new AbortController();
+    parseRunsRef.current.set(targetIndex, controller);
+    const setProgress = (progress: PipelineProgress | null) =>
+      dispatch({ type: 'SET_SLOT_PARSING', payload: { index: targetIndex, progress } });
+
+    dispatch({ type: 'SET_SLOT_INPUT', payload: { index: targetIndex, input } });
+    setProgress({ stage: 'detecting', done: 0, total: 1 });
+    let job;
+    try {
+      job = await parseInBackground(input, {
+        replaceAll: options?.replaceAll,
+        executions: options?.executions,
+        thresholds: advisorThresholds,
+        signal: controller.signal,
+        onProgress: setProgress,
+      });
+    } catch (err) {
+      if (err instanceof PipelineCancelledError) return;
+      setProgress(null);
+      dispatch({
+        type: 'SET_SLOT_ERROR',
+        payload: { index: targetIndex, error: `Parse error: ${err instanceof Error ? err.message : 'Unknown error'}` },
+      });
+      return;
+    } finally {
+      if (parseRunsRef.current.get(targetIndex) === controller) parseRunsRef.current.delete(targetIndex);
+    }
+    setProgress(null);
+
+    if (job.executions) {
+      setExecutionPicker({ input, executions: job.executions });
+      return;
+    }
+
+    const shouldReplaceAll = job.replaceAll;
+    const slots = buildPlanSlotsFromResults(job.results);
     const parsedPlanCount = slots.filter((slot) => slot.parsedPlan).length;
 
     // Curated examples may ship a metadata-bundle sidecar. Parse it once and
@@ -882,6 +1077,8 @@ export function PlanProvider({ children }: { children: ReactNode }) {
     }
 
     if (shouldReplaceAll) {
+      // The batches replace every slot, so parses still running elsewhere are moot.
+      cancelParseRuns();
       let plans = slots;
       if (attachBundle) {
         const decision = pairBundleWithSlots(attachBundle, slots);
@@ -907,18 +1104,25 @@ export function PlanProvider({ children }: { children: ReactNode }) {
     }
 
     const [slot] = slots;
-    dispatch({ type: 'SET_INPUT', payload: input });
+    // Results go to the slot the input was pasted into, even if another tab
+    // was opened while it parsed; that tab stays open.
+    // A picked SQL Monitor execution keeps only its own report as the input.
+    dispatch({ type: 'SET_SLOT_INPUT', payload: { index: targetIndex, input: slot?.rawInput || input } });
 
     if (!slot?.parsedPlan) {
       dispatch({
-        type: 'SET_ERROR',
-        payload: slot?.error ?? 'Could not parse the execution plan. Please check the format.',
+        type: 'SET_SLOT_ERROR',
+        payload: { index: targetIndex, error: slot?.error ?? 'Could not parse the execution plan. Please check the format.' },
       });
+      dispatch({ type: 'SET_SLOT_DIAGNOSTICS', payload: { index: targetIndex, diagnostics: slot?.diagnostics ?? [] } });
       return;
     }
 
-    dispatch({ type: 'SET_PARSED_PLAN', payload: slot.parsedPlan });
+    dispatch({ type: 'SET_SLOT_PARSED_PLAN', payload: { index: targetIndex, plan: slot.parsedPlan } });
     dispatch({ type: 'SET_INPUT_PANEL_COLLAPSED', payload: true });
+    if (slot.customLabel) {
+      dispatch({ type: 'RENAME_PLAN_SLOT', payload: { index: targetIndex, customLabel: slot.customLabel } });
+    }
 
     // The single-plan path replaces the active slot's plan in place, so attach
     // the bundle to that same slot once the plan is confirmed to parse.
@@ -928,11 +1132,11 @@ export function PlanProvider({ children }: { children: ReactNode }) {
         const warning = combineWarnings(decision.warning, emptyBundleWarning(attachBundle));
         dispatch({
           type: 'ATTACH_METADATA_BUNDLE',
-          payload: { index: state.activePlanIndex, bundle: attachBundle, warning },
+          payload: { index: targetIndex, bundle: attachBundle, warning },
         });
       }
     }
-  }, [buildPlanSlotsFromInputs, state.activePlanIndex]);
+  }, [advisorThresholds, buildPlanSlotsFromResults, cancelParseRuns, state.activePlanIndex]);
 
   const loadMetadataBundle = useCallback(
     (text: string): LoadMetadataBundleResult => {
@@ -1034,6 +1238,8 @@ export function PlanProvider({ children }: { children: ReactNode }) {
   const selectedNodeId = activeSlot.selectedNodeId;
   const selectedNodeIds = activeSlot.selectedNodeIds;
   const error = activeSlot.error;
+  const diagnostics = activeSlot.diagnostics;
+  const parsing = activeSlot.parsing;
   const metadataBundle = activeSlot.metadataBundle;
   const metadataBundleWarning = activeSlot.metadataBundleWarning;
 
@@ -1085,9 +1291,12 @@ export function PlanProvider({ children }: { children: ReactNode }) {
     [parsedPlan, state.hotspotsEnabled]
   );
 
+  const customRulePacks = state.customRulePacks;
+
   const advisorReport = useMemo(
-    (): AdvisorReport | null => (parsedPlan ? runAdvisor(parsedPlan, metadataBundle ?? null) : null),
-    [parsedPlan, metadataBundle]
+    (): AdvisorReport | null =>
+      (parsedPlan ? runAdvisor(parsedPlan, metadataBundle ?? null, advisorThresholds, customRulePacks) : null),
+    [parsedPlan, metadataBundle, advisorThresholds, customRulePacks]
   );
 
   // Apply theme to document
@@ -1208,6 +1417,9 @@ export function PlanProvider({ children }: { children: ReactNode }) {
         highlightStyle: state.highlightStyle,
         hotspotsEnabled: state.hotspotsEnabled,
         showAdvisorSuggestions: state.showAdvisorSuggestions,
+        advisorProfiles: state.advisorProfiles,
+        advisorProfileName: state.advisorProfileName,
+        customRulePacks: state.customRulePacks,
         legendVisible: state.legendVisible,
         inputPanelCollapsed: state.inputPanelCollapsed,
         filterPanelCollapsed: state.filterPanelCollapsed,
@@ -1231,6 +1443,9 @@ export function PlanProvider({ children }: { children: ReactNode }) {
     state.highlightStyle,
     state.hotspotsEnabled,
     state.showAdvisorSuggestions,
+    state.advisorProfiles,
+    state.advisorProfileName,
+    state.customRulePacks,
     state.legendVisible,
     state.inputPanelCollapsed,
     state.filterPanelCollapsed,
@@ -1246,10 +1461,22 @@ export function PlanProvider({ children }: { children: ReactNode }) {
     importPlanInput(rawInput);
   }, [importPlanInput, rawInput]);
 
+  const repairAndParse = useCallback((repair: DiagnosticRepair) => {
+    importPlanInput(applyRepair(rawInput, repair));
+  }, [importPlanInput, rawInput]);
+
   const loadAndParsePlan = useCallback((input: string, metadataText?: string) => {
     importPlanInput(input, metadataText ? { metadataText } : undefined);
   }, [importPlanInput]);
 
+  const loadMonitoredExecutions = useCallback((indexes: number[]) => {
+    if (!executionPicker || indexes.length === 0) return;
+    setExecutionPicker(null);
+    importPlanInput(executionPicker.input, { executions: indexes });
+  }, [executionPicker, importPlanInput]);
+
+  const dismissExecutionPicker = useCallback(() => setExecutionPicker(null), []);
+
   const selectNode = useCallback((id: number | null, options?: { additive?: boolean }) => {
     dispatch({ type: 'SELECT_NODE', payload: { id, additive: options?.additive } });
   }, []);
@@ -1266,6 +1493,10 @@ export function PlanProvider({ children }: { children: ReactNode }) {
     dispatch({ type: 'SET_TREE_COMPARE_ENABLED', payload: enabled });
   }, []);
 
+  const setShowFullAdaptivePlan = useCallback((show: boolean) => {
+    dispatch({ type: 'SET_SHOW_FULL_ADAPTIVE_PLAN', payload: show });
+  }, []);
+
   const setSankeyMetric = useCallback((metric: SankeyMetric) => {
     dispatch({ type: 'SET_SANKEY_METRIC', payload: metric });
   }, []);
@@ -1304,8 +1535,10 @@ export function PlanProvider({ children }: { children: ReactNode }) {
   }, []);
 
   const clearPlan = useCallback(() => {
+    parseRunsRef.current.get(state.activePlanIndex)?.abort();
+    parseRunsRef.current.delete(state.activePlanIndex);
     dispatch({ type: 'CLEAR_PLAN' });
-  }, []);
+  }, [state.activePlanIndex]);
 
   const setHighlightStyle = useCallback((style: HighlightStyle) => {
     dispatch({ type: 'SET_HIGHLIGHT_STYLE', payload: style });
@@ -1319,6 +1552,49 @@ export function PlanProvider({ children }: { children: ReactNode }) {
     dispatch({ type: 'SET_ADVISOR_SUGGESTIONS', payload: enabled });
   }, []);
 
+  const setAdvisorProfile = useCallback((name: string) => {
+    dispatch({ type: 'SET_ADVISOR_PROFILE', payload: name });
+  }, []);
+
+  const saveAdvisorProfile = useCallback((profile: AdvisorProfile) => {
+    dispatch({ type: 'SAVE_ADVISOR_PROFILE', payload: profile });
+  }, []);
+
+  const deleteAdvisorProfile = useCallback((name: string) => {
+    dispatch({ type: 'DELETE_ADVISOR_PROFILE', payload: name });
+  }, []);
+
+  const exportFindings = useCallback(() => {
+    if (!parsedPlan || !advisorReport) return;
+    const exportData = buildFindingsExport(parsedPlan, advisorReport, advisorProfile);
+    downloadJson(exportData, findingsExportFilename(exportData));
+  }, [parsedPlan, advisorReport, advisorProfile]);
+
+  const importRulePack = useCallback(
+    (text: string): ImportRulePackResult => {
+      let pack: CustomRulePack;
+      try {
+        pack = parseRulePack(text);
+      } catch (err) {
+        return { ok: false, error: err instanceof Error ? err.message : 'Could not read rule pack.' };
+      }
+      const replaced = state.customRulePacks.some((existing) => existing.name === pack.name);
+      dispatch({ type: 'IMPORT_RULE_PACK', payload: pack });
+      return { ok: true, pack, replaced };
+    },
+    [state.customRulePacks],
+  );
+
+  const removeRulePack = useCallback((name: string) => {
+    dispatch({ type: 'REMOVE_RULE_PACK', payload: name });
+  }, []);
+
+  const exportRulePack = useCallback((name: string) => {
+    const pack = state.customRulePacks.find((p) => p.name === name);
+    if (!pack) return;
+    downloadJson(pack, rulePackFilename(pack));
+  }, [state.customRulePacks]);
+
   const setLegendVisible = useCallback((visible: boolean) => {
     dispatch({ type: 'SET_LEGEND_VISIBLE', payload: visible });
   }, []);
@@ -1345,8 +1621,10 @@ export function PlanProvider({ children }: { children: ReactNode }) {
   }, []);
 
   const removePlanSlot = useCallback((index: number) => {
+    // Slot indices shift, so a running parse could land in the wrong slot.
+    cancelParseRuns();
     dispatch({ type: 'REMOVE_PLAN_SLOT', payload: index });
-  }, []);
+  }, [cancelParseRuns]);
 
   const renamePlanSlot = useCallback((index: number, customLabel: string) => {
     dispatch({ type: 'RENAME_PLAN_SLOT', payload: { index, customLabel } });
@@ -1430,8 +1708,13 @@ export function PlanProvider({ children }: { children: ReactNode }) {
       }
       // Parse the plan text from the file
       dispatch({ type: 'SET_INPUT', payload: data.rawPlanText });
-      const parsed = parseExplainPlan(data.rawPlanText);
-      if (!parsed.rootNode) {
+      const job = await parseInBackground(data.rawPlanText, { replaceAll: false, thresholds: advisorThresholds });
+      if (job.executions) {
+        setExecutionPicker({ input: data.rawPlanText, executions: job.executions });
+        return;
+      }
+      const parsed = job.results[0]?.plan;
+      if (!parsed) {
         dispatch({ type: 'SET_ERROR', payload: 'Could not parse the plan from the file.' });
         return;
       }
@@ -1462,7 +1745,7 @@ export function PlanProvider({ children }: { children: ReactNode }) {
         payload: `Import error: ${err instanceof Error ? err.message : 'Unknown error'}`,
       });
     }
-  }, [state.activePlanIndex]);
+  }, [advisorThresholds, state.activePlanIndex]);
 
   const sharePlan = useCallback(async (): Promise<{ ok: true; url: string; warning?: string; copied: boolean } | { ok: false; error: string }> => {
     // Need at least one plan with input
@@ -1555,6 +1838,8 @@ export function PlanProvider({ children }: { children: ReactNode }) {
     selectedNodeId,
     selectedNodeIds,
     error,
+    diagnostics,
+    parsing,
     metadataBundle,
     metadataBundleWarning,
 
@@ -1572,6 +1857,7 @@ export function PlanProvider({ children }: { children: ReactNode }) {
     filterPanelCollapsed: state.filterPanelCollapsed,
     detailPanelCollapsed: state.detailPanelCollapsed,
     treeCompareEnabled: state.treeCompareEnabled,
+    showFullAdaptivePlan: state.showFullAdaptivePlan,
     visualizationMaximized: state.visualizationMaximized,
 
     // Multi-plan state
@@ -1584,7 +1870,11 @@ export function PlanProvider({ children }: { children: ReactNode }) {
     // Actions
     setInput,
     parsePlan,
+    repairAndParse,
     loadAndParsePlan,
+    executionPicker,
+    loadMonitoredExecutions,
+    dismissExecutionPicker,
     loadMetadataBundle,
     attachMetadataBundleToSlot,
     applyMetadataToAllSlots,
@@ -1593,6 +1883,7 @@ export function PlanProvider({ children }: { children: ReactNode }) {
     selectNodeForPlan,
     setViewMode,
     setTreeCompareEnabled,
+    setShowFullAdaptivePlan,
     setSankeyMetric,
     setFlameMetric,
     setExperimentalSubView,
@@ -1616,6 +1907,16 @@ export function PlanProvider({ children }: { children: ReactNode }) {
     setHotspotsEnabled,
     showAdvisorSuggestions: state.showAdvisorSuggestions,
     setShowAdvisorSuggestions,
+    advisorProfiles: state.advisorProfiles,
+    advisorProfile,
+    setAdvisorProfile,
+    saveAdvisorProfile,
+    deleteAdvisorProfile,
+    exportFindings,
+    customRulePacks: state.customRulePacks,
+    importRulePack,
+    removeRulePack,
+    exportRulePack,
     setLegendVisible,
     densitySelection,
     applyDensityPreset,
@@ -1627,6 +1928,10 @@ export function PlanProvider({ children }: { children: ReactNode }) {
     setMetadataPopoutOpen,
     baselineDialogOpen,
     setBaselineDialogOpen,
+    advisorSettingsOpen,
+    setAdvisorSettingsOpen,
+    customRulesOpen,
+    setCustomRulesOpen,
     connectPanelOpen,
     setConnectPanelOpen,
     setInputPanelCollapsed,
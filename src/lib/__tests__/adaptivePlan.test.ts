@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { getDisplayedPlan, hasInactiveRows, resolveAdaptivePlan } from '../adaptivePlan';
+import { parsePlan } from '../parser';
+import { runAdvisor } from '../advisor';
+
+const ADAPTIVE_XPLAN = `Plan hash value: 1475904561
+
+-------------------------------------------------------------------------------------------------
+|   Id  | Operation                     | Name              | Rows  | Bytes | Cost (%CPU)| Time     |
+-------------------------------------------------------------------------------------------------
+|     0 | SELECT STATEMENT              |                   |       |       |     7 (100)|          |
+|  *  1 |  HASH JOIN                    |                   |   106 |  9540 |     7   (0)| 00:00:01 |
+|-    2 |   NESTED LOOPS                |                   |   106 |  9540 |     7   (0)| 00:00:01 |
+|-    3 |    STATISTICS COLLECTOR       |                   |       |       |            |          |
+|     4 |     TABLE ACCESS FULL         | DEPARTMENTS       |    27 |   432 |     3   (0)| 00:00:01 |
+|-  * 5 |    INDEX RANGE SCAN           | EMP_DEPARTMENT_IX |     4 |       |     0   (0)|          |
+|     6 |   TABLE ACCESS FULL           | EMPLOYEES         |   107 |  7918 |     3   (0)| 00:00:01 |
+-------------------------------------------------------------------------------------------------
+
+Predicate Information (identified by operation id):
+---------------------------------------------------
+
+   1 - access("D"."DEPARTMENT_ID"="E"."DEPARTMENT_ID")
+   5 - access("D"."DEPARTMENT_ID"="E"."DEPARTMENT_ID")
+
+Note
+-----
+   - this is an adaptive plan (rows marked '-' are inactive)
+`;
+
+describe('adaptive plans', () => {
+  it('marks rows prefixed with "-" as inactive', () => {
+    const plan = parsePlan(ADAPTIVE_XPLAN);
+    expect(plan.allNodes.filter((n) => n.inactive).map((n) => n.id)).toEqual([2, 3, 5]);
+    expect(plan.allNodes.find((n) => n.id === 5)?.accessPredicates).toContain('DEPARTMENT_ID');
+    expect(hasInactiveRows(plan)).toBe(true);
+  });
+
+  it('splices inactive rows out of the final plan and promotes their active children', () => {
+    const plan = parsePlan(ADAPTIVE_XPLAN);
+    const final = resolveAdaptivePlan(plan);
+
+    expect(final.allNodes.map((n) => n.id)).toEqual([0, 1, 4, 6]);
+    const join = final.allNodes[1];
+    expect(join.children.map((c) => c.id)).toEqual([4, 6]);
+    expect(final.allNodes.find((n) => n.id === 4)).toMatchObject({ parentId: 1, depth: join.depth + 1 });
+    // The full plan is left untouched.
+    expect(plan.allNodes).toHaveLength(7);
+    expect(plan.allNodes.find((n) => n.id === 4)?.parentId).toBe(3);
+  });
+
+  it('caches the final plan and returns plans without inactive rows unchanged', () => {
+    const plan = parsePlan(ADAPTIVE_XPLAN);
+    expect(resolveAdaptivePlan(plan)).toBe(resolveAdaptivePlan(plan));
+
+    const plain = parsePlan(ADAPTIVE_XPLAN.replace(/^\|-/gm, '| '));
+    expect(hasInactiveRows(plain)).toBe(false);
+    expect(resolveAdaptivePlan(plain)).toBe(plain);
+  });
+
+  it('shows the full plan only when asked to', () => {
+    const plan = parsePlan(ADAPTIVE_XPLAN);
+    expect(getDisplayedPlan(plan, true)).toBe(plan);
+    expect(getDisplayedPlan(plan, false)?.allNodes).toHaveLength(4);
+    expect(getDisplayedPlan(null, false)).toBeNull();
+  });
+
+  it('runs the advisor against the final plan', () => {
+    const report = runAdvisor(parsePlan(ADAPTIVE_XPLAN), null);
+    const flagged = report.findings.flatMap((f) => f.nodeIds);
+    expect(flagged).not.toContain(2);
+    expect(flagged).not.toContain(3);
+    expect(flagged).not.toContain(5);
+  });
+
+  it('marks rows skipped in the OTHER_XML display map for JSON plans', () => {
+    const otherXml = '<other_xml><info type="adaptive_plan">yes</info><display_map>'
+      + '<row op="1" dis="1" par="0" prt="0" dep="1" skp="0"/>'
+      + '<row op="2" dis="2" par="1" prt="0" dep="2" skp="1"/>'
+      + '<row op="3" dis="2" par="1" prt="0" dep="2" skp="0"/>'
+      + '</display_map></other_xml>';
+    const plan = parsePlan(JSON.stringify([
+      { id: 0, operation: 'SELECT STATEMENT', other_xml: otherXml },
+      { id: 1, parent_id: 0, operation: 'HASH JOIN' },
+      { id: 2, parent_id: 1, operation: 'STATISTICS COLLECTOR' },
+      { id: 3, parent_id: 2, operation: 'TABLE ACCESS', options: 'FULL', object_name: 'DEPARTMENTS' },
+    ]));
+    expect(plan.allNodes.find((n) => n.id === 2)?.inactive).toBe(true);
+    expect(resolveAdaptivePlan(plan).allNodes.find((n) => n.id === 3)?.parentId).toBe(1);
+  });
+});
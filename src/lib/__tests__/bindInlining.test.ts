@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { bindLiteral, inlineBindValues } from '../bindInlining';
+import type { BindVariable } from '../types';
+
+describe('bindLiteral', () => {
+  it('types literals from the bind data type', () => {
+    expect(bindLiteral({ name: ':B1', type: 'NUMBER', value: '10' })).toBe('10');
+    expect(bindLiteral({ name: ':B1', type: 'VARCHAR2(30)', value: '10' })).toBe('\'10\'');
+    expect(bindLiteral({ name: ':B1', type: 'VARCHAR2(30)', value: 'O\'BRIEN' })).toBe('\'O\'\'BRIEN\'');
+    expect(bindLiteral({ name: ':B1', type: 'DATE', value: '10/19/2026 00:00:00' }))
+      .toBe('TO_DATE(\'10/19/2026 00:00:00\', \'MM/DD/YYYY HH24:MI:SS\')');
+    expect(bindLiteral({ name: ':B1', value: null })).toBe('NULL');
+    expect(bindLiteral({ name: ':B1', value: '42' })).toBe('42');
+  });
+});
+
+describe('inlineBindValues', () => {
+  const binds: BindVariable[] = [
+    { name: ':B1', type: 'NUMBER', value: '10', position: 1, source: 'captured' },
+    { name: ':B1', type: 'NUMBER', value: '20', position: 1, source: 'peeked' },
+    { name: ':ENAME', type: 'VARCHAR2(30)', value: 'KING', position: 2, source: 'peeked' },
+  ];
+
+  it('substitutes named placeholders, preferring peeked values', () => {
+    const result = inlineBindValues('select * from emp where deptno = :b1 and ename = :ENAME', binds);
+    expect(result.sql).toBe('select * from emp where deptno = 20 /* :b1 */ and ename = \'KING\' /* :ENAME */');
+    expect(result.inlined).toBe(2);
+    expect(result.unresolved).toEqual([]);
+  });
+
+  it('leaves strings, comments, assignments and unknown placeholders alone', () => {
+    const result = inlineBindValues(
+      'begin x := \':B1\'; -- :B1\n /* :B1 */ y := "A:B1" || :missing; end;',
+      [binds[1]],
+    );
+    expect(result.sql).toBe('begin x := \':B1\'; -- :B1\n /* :B1 */ y := "A:B1" || :missing; end;');
+    expect(result.unresolved).toEqual([':missing']);
+  });
+
+  it('falls back to position for positionally reported binds', () => {
+    const result = inlineBindValues('select :x, :y from dual', [
+      { name: ':1', type: 'NUMBER', value: '1', position: 1 },
+      { name: ':2', type: 'CHAR(1)', value: 'Y', position: 2 },
+    ]);
+    expect(result.sql).toBe('select 1 /* :x */, \'Y\' /* :y */ from dual');
+  });
+});
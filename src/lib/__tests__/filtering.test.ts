@@ -19,6 +19,8 @@ const displayOptions: NodeDisplayOptions = {
   showSpillBadge: true,
   showCardinalityBadge: true,
   showAdvisorBadge: true,
+  showLowImpactAdvisorBadge: false,
+  showOffloadBadge: true,
   showStaleStatsBadge: true,
   showMissingStatsBadge: true,
   showMismatchNoHistogramBadge: true,
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { computePxSkew, imbalanceScore, pxSkewSeverity } from '../pxSkew';
+import { sqlMonitorTextParser, sqlMonitorXmlParser } from '../parser/sqlMonitorParser';
+import type { ParsedPlan, PlanNode, PxServerStats } from '../types';
+
+function readExample(filename: string): string {
+  return readFileSync(join(__dirname, '../../examples', filename), 'utf-8');
+}
+
+function server(name: string, serverSet: number, elapsedSecs: number): PxServerStats {
+  return { name, isCoordinator: false, serverSet, elapsedTime: elapsedSecs * 1_000_000 };
+}
+
+function planWith(pxServers: PxServerStats[], allNodes: PlanNode[] = []): ParsedPlan {
+  return {
+    rootNode: allNodes[0] ?? null,
+    allNodes,
+    totalCost: 0,
+    maxRows: 0,
+    source: 'sql_monitor_xml',
+    hasActualStats: true,
+    monitorMetadata: { pxServers },
+  };
+}
+
+describe('imbalanceScore', () => {
+  it('is 0 for an even split and 100 when one worker does everything', () => {
+    expect(imbalanceScore([5, 5, 5, 5])).toBe(0);
+    expect(imbalanceScore([10, 0, 0, 0])).toBe(100);
+    expect(imbalanceScore([0, 0])).toBe(0);
+    expect(imbalanceScore([7])).toBe(0);
+  });
+});
+
+describe('pxSkewSeverity', () => {
+  it('maps scores onto severity bands', () => {
+    expect(pxSkewSeverity(10)).toBe('none');
+    expect(pxSkewSeverity(20)).toBe('info');
+    expect(pxSkewSeverity(45)).toBe('warning');
+    expect(pxSkewSeverity(80)).toBe('critical');
+  });
+});
+
+describe('computePxSkew', () => {
+  it('returns null without per-server data', () => {
+    expect(computePxSkew(planWith([]))).toBeNull();
+  });
+
+  it('scores each server set and ignores the QC', () => {
+    const report = computePxSkew(planWith([
+      { name: 'PX Coordinator', isCoordinator: true, elapsedTime: 100_000_000 },
+      server('p000', 1, 10), server('p001', 1, 10), server('p002', 1, 11), server('p003', 1, 9),
+      server('p004', 2, 40), server('p005', 2, 0), server('p006', 2, 0), server('p007', 2, 0),
+    ]))!;
+    expect(report.serverSets.map((s) => s.serverSet)).toEqual([1, 2]);
+    expect(report.serverSets[0].severity).toBe('none');
+    expect(report.serverSets[1]).toMatchObject({ busiest: 'p004', idleServers: 3, score: 100, severity: 'critical' });
+    expect(report.severity).toBe('critical');
+  });
+
+  it('does not flag sets that did almost no work', () => {
+    const report = computePxSkew(planWith([server('p000', 1, 0.2), server('p001', 1, 0)]))!;
+    expect(report.serverSets[0]).toMatchObject({ score: 100, significant: false, severity: 'none' });
+    expect(report.score).toBe(0);
+  });
+
+  it('detects uneven rows per server within a DFO', () => {
+    const scan: PlanNode = { id: 2, depth: 2, operation: 'TABLE ACCESS FULL', pxServerSet: 1, pxDop: 4, actualRows: 400_000, maxServerRows: 310_000, children: [] };
+    const send: PlanNode = { id: 1, depth: 1, operation: 'PX SEND HASH', objectName: ':TQ10000', pxServerSet: 1, pxDop: 4, actualRows: 400_000, maxServerRows: 100_000, children: [scan] };
+    const root: PlanNode = { id: 0, depth: 0, operation: 'PX COORDINATOR', pxServerSet: 0, children: [send] };
+    const report = computePxSkew(planWith([], [root, send, scan]))!;
+    expect(report.dfos).toHaveLength(1);
+    expect(report.dfos[0]).toMatchObject({ tqName: ':TQ10000', sendNodeId: 1, serverSet: 1, worstNodeId: 2, nodeIds: [1, 2] });
+    expect(report.dfos[0].maxRowRatio).toBeCloseTo(3.1);
+    expect(report.dfos[0].score).toBe(70);
+  });
+
+  it('flags the Skewed Parallel (J. Lewis) text report as critical', () => {
+    const plan = sqlMonitorTextParser.parse(readExample('18-sql_monitor-Skewed Parallel (J. Lewis).txt'));
+    expect(plan.monitorMetadata?.dop).toBe(8);
+    expect(plan.monitorMetadata?.pxServersAllocated).toBe(16);
+    expect(plan.monitorMetadata?.pxServers).toHaveLength(17);
+
+    const report = computePxSkew(plan)!;
+    const set2 = report.serverSets.find((s) => s.serverSet === 2)!;
+    expect(set2.busiest).toBe('p008');
+    expect(set2.idleServers).toBe(6);
+    expect(set2.severity).toBe('critical');
+    expect(report.serverSets.find((s) => s.serverSet === 1)!.idleServers).toBe(8);
+    expect(report.severity).toBe('critical');
+  });
+
+  it('sees an evenly spread XML report as unskewed', () => {
+    const plan = sqlMonitorXmlParser.parse(readExample('27-sql_monitor-Partitioned Star Query.txt'));
+    const report = computePxSkew(plan)!;
+    expect(report.dfos.length).toBeGreaterThan(0);
+    expect(report.severity).toBe('none');
+  });
+});
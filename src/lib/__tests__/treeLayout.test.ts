@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { sameLayoutGraph, type LayoutGraph } from '../treeLayout';
+
+function graph(overrides: Partial<LayoutGraph> = {}): LayoutGraph {
+  return {
+    nodeIds: ['0', '1', '2'],
+    edges: [{ source: '0', target: '1' }, { source: '0', target: '2' }],
+    dimensions: new Map([['1', { width: 100, height: 80 }]]),
+    defaultSize: { width: 100, height: 50 },
+    ...overrides,
+  };
+}
+
+describe('sameLayoutGraph', () => {
+  it('treats a rebuilt graph with the same ids, edges and sizes as the same', () => {
+    expect(sameLayoutGraph(graph(), graph())).toBe(true);
+    // A size spelled out equal to the default lays out the same as none.
+    expect(sameLayoutGraph(graph(), graph({ dimensions: new Map([['1', { width: 100, height: 80 }], ['2', { width: 100, height: 50 }]]) }))).toBe(true);
+  });
+
+  it('tells apart graphs whose nodes, edges or sizes differ', () => {
+    expect(sameLayoutGraph(graph(), graph({ nodeIds: ['0', '1', '3'] }))).toBe(false);
+    expect(sameLayoutGraph(graph(), graph({ edges: [{ source: '0', target: '1' }, { source: '1', target: '2' }] }))).toBe(false);
+    expect(sameLayoutGraph(graph(), graph({ dimensions: new Map([['1', { width: 100, height: 108 }]]) }))).toBe(false);
+    expect(sameLayoutGraph(graph(), graph({ defaultSize: { width: 120, height: 50 } }))).toBe(false);
+  });
+});
@@ -0,0 +1,62 @@
+import type { ParsedPlan, PlanNode } from './types';
+import { computeSelfTimes } from './analysis';
+
+const RESOLVED = new WeakMap<ParsedPlan, ParsedPlan>();
+
+/** True when the plan is an adaptive plan listed with its inactive rows. */
+export function hasInactiveRows(plan: ParsedPlan | null | undefined): boolean {
+  return Boolean(plan?.allNodes.some((node) => node.inactive));
+}
+
+/**
+ * The final plan of an adaptive plan: inactive rows (the statistics collector
+ * and the join alternative that was not chosen) are removed and their active
+ * descendants move up to the nearest active ancestor, as in a DBMS_XPLAN
+ * display without +ADAPTIVE. Depths and self times are recomputed for the new
+ * tree; ids are kept, so findings and selections still map onto the full plan.
+ *
+ * Returns the plan itself when it has no inactive rows. Results are cached
+ * per plan object.
+ */
+export function resolveAdaptivePlan(plan: ParsedPlan): ParsedPlan {
+  if (!hasInactiveRows(plan) || !plan.rootNode) return plan;
+  const cached = RESOLVED.get(plan);
+  if (cached) return cached;
+
+  const allNodes: PlanNode[] = [];
+  const depthOffset = plan.rootNode.depth;
+
+  // Active nodes reachable from `node`, with inactive nodes spliced out.
+  const collect = (node: PlanNode, parent: PlanNode | undefined, depth: number): PlanNode[] => {
+    if (node.inactive) {
+      return node.children.flatMap((child) => collect(child, parent, depth));
+    }
+    const copy: PlanNode = { ...node, depth, parentId: parent?.id, children: [] };
+    allNodes.push(copy);
+    copy.children = node.children.flatMap((child) => collect(child, copy, depth + 1));
+    return [copy];
+  };
+
+  const roots = collect(plan.rootNode, undefined, depthOffset);
+  // Keep the original plan line order rather than traversal order.
+  const order = new Map(plan.allNodes.map((node, idx) => [node.id, idx]));
+  allNodes.sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0));
+
+  const resolved: ParsedPlan = {
+    ...plan,
+    rootNode: roots[0] ?? null,
+    allNodes,
+    totalCost: allNodes.reduce((sum, n) => sum + (n.cost || 0), 0),
+    maxRows: Math.max(...allNodes.map((n) => n.rows || 0), 0),
+  };
+  // Self time subtracts the children's time, and the children changed.
+  if (resolved.source !== 'xbi') computeSelfTimes(resolved);
+  RESOLVED.set(plan, resolved);
+  return resolved;
+}
+
+/** The plan a tree or table view draws: the final plan unless the full adaptive plan was asked for. */
+export function getDisplayedPlan(plan: ParsedPlan | null, showFullAdaptivePlan: boolean): ParsedPlan | null {
+  if (!plan || showFullAdaptivePlan) return plan;
+  return resolveAdaptivePlan(plan);
+}
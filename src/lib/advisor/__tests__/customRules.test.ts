@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compileRulePack,
+  parseRulePack,
+  renderRuleTemplate,
+  rulePackFilename,
+  sanitizeRulePacks,
+  validateRulePack,
+  type CustomRulePack,
+} from '../customRules';
+import { DEFAULT_THRESHOLDS } from '../config';
+import { runAdvisor } from '../engine';
+import { buildPlan, byId } from './helpers';
+import type { RuleContext } from '../types';
+
+function makeCtx(plan: ReturnType<typeof buildPlan>): RuleContext {
+  return {
+    plan,
+    bundle: null,
+    thresholds: DEFAULT_THRESHOLDS,
+    findObject: () => null,
+    usedIndexKeys: new Set(),
+  };
+}
+
+const HOUSE_RULES: CustomRulePack = {
+  format: 'ora-plan-rules',
+  version: 1,
+  name: 'House rules',
+  rules: [
+    {
+      id: 'no-full-scan-orders',
+      severity: 'critical',
+      title: 'Full scan of {object}',
+      explanation: 'Line {id} reads all {actualRows} rows of {object} under {parent.operation}.',
+      suggestion: 'Use an index on {object}.',
+      match: { operation: 'TABLE ACCESS *FULL', objectName: 'ORDERS_*' },
+    },
+    {
+      id: 'filter-many-starts',
+      severity: 'warning',
+      title: 'FILTER re-runs {child.operation} {child.starts} times',
+      explanation: 'See line {id}.',
+      match: { operation: 'FILTER' },
+      child: { metrics: [{ metric: 'starts', op: '>', value: 1000 }] },
+    },
+  ],
+};
+
+function samplePlan() {
+  return buildPlan({
+    id: 0,
+    operation: 'SELECT STATEMENT',
+    actualRows: 10,
+    children: [{
+      id: 1,
+      operation: 'FILTER',
+      actualRows: 10,
+      children: [
+        { id: 2, operation: 'TABLE ACCESS STORAGE FULL', objectName: 'SALES.ORDERS_2024', actualRows: 25_000, starts: 1 },
+        { id: 3, operation: 'INDEX RANGE SCAN', objectName: 'CUSTOMERS_PK', actualRows: 5_000, starts: 5_000 },
+        { id: 4, operation: 'TABLE ACCESS FULL', objectName: 'ORDER_LINES', actualRows: 100, starts: 1 },
+      ],
+    }],
+  });
+}
+
+describe('custom rule packs', () => {
+  it('matches operation and owner-less object name globs and fills templates', () => {
+    const [fullScanRule] = compileRulePack(HOUSE_RULES);
+    const findings = fullScanRule.evaluate(makeCtx(samplePlan()));
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({
+      ruleId: 'no-full-scan-orders',
+      rulePack: 'House rules',
+      severity: 'critical',
+      nodeIds: [2],
+      title: 'Full scan of SALES.ORDERS_2024',
+      explanation: 'Line 2 reads all 25,000 rows of SALES.ORDERS_2024 under FILTER.',
+      suggestion: 'Use an index on SALES.ORDERS_2024.',
+    });
+  });
+
+  it('applies child metric conditions and skips lines without the figure', () => {
+    const [, filterRule] = compileRulePack(HOUSE_RULES);
+    expect(filterRule.requiresActualStats).toBe(true);
+    const plan = samplePlan();
+    const findings = filterRule.evaluate(makeCtx(plan));
+    expect(findings).toHaveLength(1);
+    expect(findings[0].title).toBe('FILTER re-runs INDEX RANGE SCAN 5,000 times');
+    expect(findings[0].suggestion).toBe('');
+
+    byId(plan, 3).starts = undefined;
+    expect(filterRule.evaluate(makeCtx(plan))).toHaveLength(0);
+  });
+
+  it('leaves unknown placeholders alone and marks missing values', () => {
+    const node = byId(samplePlan(), 4);
+    expect(renderRuleTemplate('{operation} {foo} {parent.object} {cost}', { node })).toBe('TABLE ACCESS FULL {foo} ? ?');
+  });
+
+  it('runs packs next to the built-in rules in the engine', () => {
+    const plan = samplePlan();
+    const builtIn = runAdvisor(plan, null);
+    expect(builtIn.findings.some((f) => f.rulePack)).toBe(false);
+
+    const packs = [HOUSE_RULES];
+    const report = runAdvisor(plan, null, DEFAULT_THRESHOLDS, packs);
+    const custom = report.findings.filter((f) => f.rulePack === 'House rules');
+    expect(custom.map((f) => f.ruleId)).toEqual(['no-full-scan-orders', 'filter-many-starts']);
+    expect(report.findings.length).toBe(builtIn.findings.length + 2);
+    expect(runAdvisor(plan, null, DEFAULT_THRESHOLDS, packs)).toBe(report);
+  });
+
+  it('rejects malformed packs with a message naming the problem', () => {
+    expect(() => parseRulePack('{')).toThrow(/not valid JSON/);
+    expect(() => parseRulePack('{"format":"ora-plan-metadata","version":1}')).toThrow(/unexpected format/);
+    const bad = (rule: object) => () => validateRulePack({ ...HOUSE_RULES, rules: [{ ...HOUSE_RULES.rules[0], ...rule }] });
+    expect(bad({ severity: 'fatal' })).toThrow('Rule "no-full-scan-orders": severity must be one of info, warning, critical');
+    expect(bad({ match: {} })).toThrow('Rule "no-full-scan-orders" match has no conditions');
+    expect(bad({ match: { metrics: [{ metric: 'elapsed', op: '>', value: 1 }] } })).toThrow(/unknown metric "elapsed"/);
+    expect(bad({ child: { metrics: [{ metric: 'starts', op: '=>', value: 1 }] } })).toThrow(/unknown comparison "=>"/);
+    expect(() => validateRulePack({ ...HOUSE_RULES, rules: [HOUSE_RULES.rules[0], HOUSE_RULES.rules[0]] })).toThrow(/defined twice/);
+  });
+
+  it('keeps valid stored packs once per name and names export files', () => {
+    const packs = sanitizeRulePacks([HOUSE_RULES, { ...HOUSE_RULES, rules: [] }, { ...HOUSE_RULES, description: 'dup' }, 'junk']);
+    expect(packs).toEqual([HOUSE_RULES]);
+    expect(sanitizeRulePacks(undefined)).toEqual([]);
+    expect(rulePackFilename(HOUSE_RULES)).toBe('house-rules-rules.json');
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { runAdvisor } from '../engine';
+import { primeAdvisorReport, runAdvisor } from '../engine';
 import { DEFAULT_THRESHOLDS } from '../config';
 import { buildPlan, makeBundle, makeTable } from './helpers';
 
@@ -98,6 +98,13 @@ describe('runAdvisor', () => {
     expect(report1).not.toBe(report2);
   });
 
+  it('treats any empty rule pack list as no packs, so a primed report is reused', () => {
+    const plan = buildPlan({ id: 0, operation: 'TABLE ACCESS FULL', rows: 100, actualRows: 300 });
+    const primed = runAdvisor(buildPlan({ id: 0, operation: 'TABLE ACCESS FULL', rows: 100, actualRows: 300 }), null);
+    primeAdvisorReport(plan, null, primed, DEFAULT_THRESHOLDS);
+    expect(runAdvisor(plan, null, DEFAULT_THRESHOLDS, [])).toBe(primed);
+  });
+
   it('never throws when nodes are missing optional fields', () => {
     const plan = buildPlan({ id: 0, operation: 'SELECT STATEMENT', children: [{ id: 1, operation: 'TABLE ACCESS FULL' }] });
     expect(() => runAdvisor(plan, null)).not.toThrow();
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { hashJoinBuildSideRule } from '../rules/hashJoinBuildSide';
+import { DEFAULT_THRESHOLDS } from '../config';
+import { buildPlan, byId } from './helpers';
+import type { RuleContext } from '../types';
+
+function makeCtx(plan: ReturnType<typeof buildPlan>): RuleContext {
+  return {
+    plan,
+    bundle: null,
+    thresholds: DEFAULT_THRESHOLDS,
+    findObject: () => null,
+    usedIndexKeys: new Set(),
+  };
+}
+
+/** HASH JOIN building on ORDERS (200-byte rows) and probing CUSTOMERS (100-byte rows). */
+function joinPlan(buildRows: { rows: number; actualRows: number }, probeRows: { rows: number; actualRows: number }) {
+  const plan = buildPlan({
+    id: 0,
+    operation: 'SELECT STATEMENT',
+    children: [{
+      id: 1,
+      operation: 'HASH JOIN',
+      actualRows: 1_000,
+      children: [
+        { id: 2, operation: 'TABLE ACCESS FULL', objectName: 'ORDERS', starts: 1, ...buildRows },
+        { id: 3, operation: 'TABLE ACCESS FULL', objectName: 'CUSTOMERS', starts: 1, ...probeRows },
+      ],
+    }],
+  });
+  byId(plan, 2).bytes = buildRows.rows * 200;
+  byId(plan, 2).objectAlias = '"O"@"SEL$1"';
+  byId(plan, 3).bytes = probeRows.rows * 100;
+  byId(plan, 3).objectAlias = '"C"@"SEL$1"';
+  return plan;
+}
+
+describe('hashJoinBuildSideRule', () => {
+  it('flags a build input underestimated into the larger side, with sizes and hints', () => {
+    const plan = joinPlan({ rows: 1_000, actualRows: 2_000_000 }, { rows: 50_000, actualRows: 50_000 });
+    byId(plan, 1).memoryUsed = 120_000_000;
+    const findings = hashJoinBuildSideRule.evaluate(makeCtx(plan));
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({ ruleId: 'hash-join-build-side', severity: 'warning', nodeIds: [1, 2, 3] });
+    expect(findings[0].title).toBe('Hash join built on the larger input (80.0x the probe)');
+    expect(findings[0].explanation).toContain('returned 2,000,000 rows');
+    expect(findings[0].explanation).toContain('expected 1,000 build rows against 50,000 probe rows, underestimating the build side 2000x');
+    expect(findings[0].explanation).toContain('the workarea peaked at');
+    expect(findings[0].suggestion).toContain('/*+ SWAP_JOIN_INPUTS(C) */ or /*+ LEADING(C O) */');
+  });
+
+  it('escalates when the join spilled to temp', () => {
+    const plan = joinPlan({ rows: 1_000, actualRows: 2_000_000 }, { rows: 50_000, actualRows: 50_000 });
+    byId(plan, 1).tempUsed = 300_000_000;
+    const findings = hashJoinBuildSideRule.evaluate(makeCtx(plan));
+    expect(findings[0].severity).toBe('critical');
+    expect(findings[0].explanation).toContain('spilled to temp');
+  });
+
+  it('ignores builds the optimizer knew were larger, small builds and right-sized ones', () => {
+    expect(hashJoinBuildSideRule.evaluate(makeCtx(joinPlan({ rows: 2_000_000, actualRows: 2_000_000 }, { rows: 50_000, actualRows: 50_000 })))).toHaveLength(0);
+    expect(hashJoinBuildSideRule.evaluate(makeCtx(joinPlan({ rows: 10, actualRows: 20_000 }, { rows: 500, actualRows: 500 })))).toHaveLength(0);
+    expect(hashJoinBuildSideRule.evaluate(makeCtx(joinPlan({ rows: 1_000, actualRows: 200_000 }, { rows: 500_000, actualRows: 500_000 })))).toHaveLength(0);
+  });
+});
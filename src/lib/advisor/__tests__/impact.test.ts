@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { buildImpactEstimator } from '../impact';
+import { runAdvisor } from '../engine';
+import { DEFAULT_THRESHOLDS } from '../config';
+import { notesFromLines } from '../../parser/noteSection';
+import { buildPlan, byId, makeBundle } from './helpers';
+import type { MetadataBundle } from '../../metadata/bundle';
+
+function joinPlan() {
+  return buildPlan({
+    id: 0,
+    operation: 'SELECT STATEMENT',
+    children: [{
+      id: 1,
+      operation: 'NESTED LOOPS',
+      children: [
+        { id: 2, operation: 'TABLE ACCESS FULL', objectName: 'DEPT' },
+        { id: 3, operation: 'INDEX RANGE SCAN', objectName: 'EMP_IX' },
+      ],
+    }],
+  });
+}
+
+describe('buildImpactEstimator', () => {
+  it('counts the first node with its subtree and the others on their own, in self time', () => {
+    const plan = joinPlan();
+    [[0, 0], [1, 10], [2, 10], [3, 80]].forEach(([id, ms]) => { byId(plan, id).selfTime = ms; });
+    const estimate = buildImpactEstimator(plan);
+    expect(estimate([1])).toEqual({ share: 1, basis: 'time' });
+    expect(estimate([2])).toEqual({ share: 0.1, basis: 'time' });
+    expect(estimate([2, 1])).toEqual({ share: 0.2, basis: 'time' });
+    expect(estimate([])).toBeUndefined();
+  });
+
+  it('leaves findings attached to the plan root without an impact', () => {
+    const plan = joinPlan();
+    [[0, 5], [1, 10], [2, 10], [3, 75]].forEach(([id, ms]) => { byId(plan, id).selfTime = ms; });
+    const estimate = buildImpactEstimator(plan);
+    expect(estimate([0])).toBeUndefined();
+    expect(estimate([0, 3])).toBeUndefined();
+    expect(estimate([3, 0])).toEqual({ share: 0.8, basis: 'time' });
+  });
+
+  it('prefers ASH activity, measured against all samples', () => {
+    const plan = joinPlan();
+    byId(plan, 3).activityPercent = 60;
+    byId(plan, 2).activityPercent = 20;
+    byId(plan, 3).selfTime = 5;
+    const estimate = buildImpactEstimator(plan);
+    expect(estimate([3])).toEqual({ share: 0.6, basis: 'activity' });
+    expect(estimate([1])?.share).toBeCloseTo(0.8);
+  });
+
+  it('falls back to self cost without actuals', () => {
+    const plan = joinPlan();
+    [[0, 100], [1, 100], [2, 25], [3, 5]].forEach(([id, cost]) => { byId(plan, id).cost = cost; });
+    const estimate = buildImpactEstimator(plan);
+    expect(estimate([1])).toEqual({ share: 1, basis: 'cost' });
+    expect(estimate([2])).toEqual({ share: 0.25, basis: 'cost' });
+    expect(buildImpactEstimator(buildPlan({ id: 0, operation: 'SELECT STATEMENT' }))([0])).toBeUndefined();
+  });
+});
+
+describe('runAdvisor impact', () => {
+  it('attaches impact to findings and badges only nodes above the impact threshold', () => {
+    const plan = buildPlan({
+      id: 0,
+      operation: 'SELECT STATEMENT',
+      children: [
+        { id: 1, operation: 'SORT ORDER BY', tempUsed: DEFAULT_THRESHOLDS.spillCriticalBytes },
+        { id: 2, operation: 'TABLE ACCESS FULL', rows: 100, actualRows: 300 },
+      ],
+    });
+    byId(plan, 1).selfTime = 2;
+    byId(plan, 2).selfTime = 998;
+    const report = runAdvisor(plan, null);
+    const spill = report.findings.find((f) => f.ruleId === 'spill-to-disk')!;
+    expect(spill.impact).toEqual({ share: 0.002, basis: 'time' });
+    expect(report.maxSeverityByNodeId.get(1)).toBe('critical');
+    expect(report.impactfulSeverityByNodeId.has(1)).toBe(false);
+    expect(report.impactfulSeverityByNodeId.get(2)).toBe('warning');
+
+    const everything = runAdvisor(plan, null, { ...DEFAULT_THRESHOLDS, impactBadgePercent: 0 });
+    expect(everything.impactfulSeverityByNodeId.get(1)).toBe('critical');
+  });
+
+  it('does not rank a plan-level finding on the root as the whole statement', () => {
+    const plan = buildPlan({
+      id: 0,
+      operation: 'SELECT STATEMENT',
+      children: [{ id: 1, operation: 'SORT ORDER BY', tempUsed: DEFAULT_THRESHOLDS.spillCriticalBytes }],
+    }, { source: 'dbms_xplan' });
+    byId(plan, 0).selfTime = 10;
+    byId(plan, 1).selfTime = 990;
+    plan.notes = notesFromLines([]);
+    const bundle: MetadataBundle = {
+      ...makeBundle({}),
+      version: 2,
+      sql_management: { baselines: [{ plan_name: 'SQL_PLAN_a1b2', sql_handle: 'SQL_0123abcd', enabled: true, accepted: true, fixed: false }] },
+    };
+    const report = runAdvisor(plan, bundle);
+    const baseline = report.findings.find((f) => f.ruleId === 'sql-plan-management')!;
+    expect(baseline.nodeIds).toEqual([0]);
+    expect(baseline.impact).toBeUndefined();
+    expect(report.findings.find((f) => f.ruleId === 'spill-to-disk')!.impact).toEqual({ share: 0.99, basis: 'time' });
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { findObjectInBundle } from '../../metadata/lookup';
+import { missingColumnGroupRule } from '../rules/missingColumnGroup';
+import { DEFAULT_THRESHOLDS } from '../config';
+import { buildPlan, byId, makeBundle, makeTable, makeIndex, makeColumn } from './helpers';
+import type { RuleContext } from '../types';
+import type { ExtendedStat, MetadataBundle } from '../../metadata/bundle';
+
+function makeCtx(plan: ReturnType<typeof buildPlan>, bundle: MetadataBundle): RuleContext {
+  return {
+    plan,
+    bundle,
+    thresholds: DEFAULT_THRESHOLDS,
+    findObject: (name) => findObjectInBundle(bundle, name),
+    usedIndexKeys: new Set(),
+  };
+}
+
+function salesBundle(extendedStats: ExtendedStat[] = []): MetadataBundle {
+  const table = makeTable(
+    { num_rows: 1_000_000 },
+    { COUNTRY: makeColumn(), CURRENCY: makeColumn(), CHANNEL: makeColumn(), AMOUNT: makeColumn() },
+    ['SH.SALES_CTRY_IX'],
+  );
+  table.extended_stats = extendedStats;
+  return makeBundle({
+    'SH.SALES': table,
+    'SH.SALES_CTRY_IX': makeIndex('SH.SALES', ['COUNTRY']),
+  });
+}
+
+function fullScan(filterPredicates: string, rows: number, actualRows: number) {
+  return buildPlan({
+    id: 0,
+    operation: 'SELECT STATEMENT',
+    children: [{ id: 1, operation: 'TABLE ACCESS FULL', objectName: 'SALES', filterPredicates, rows, actualRows, starts: 1 }],
+  });
+}
+
+describe('missingColumnGroupRule', () => {
+  it('flags correlated equality filters underestimated without a column group, with the DBMS_STATS calls', () => {
+    const findings = missingColumnGroupRule.evaluate(makeCtx(fullScan(`("S"."COUNTRY"='DE' AND "S"."CURRENCY"='EUR')`, 2_000, 150_000), salesBundle()));
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({
+      ruleId: 'missing-column-group',
+      severity: 'critical',
+      nodeIds: [1],
+      title: 'Missing column group on SH.SALES (COUNTRY,CURRENCY)',
+    });
+    expect(findings[0].explanation).toContain('underestimated 75.0x (E-Rows 2,000 vs. 150,000 actual rows per start)');
+    expect(findings[0].ddl).toBe([
+      "SELECT DBMS_STATS.CREATE_EXTENDED_STATS('SH', 'SALES', '(COUNTRY,CURRENCY)') FROM dual;",
+      "EXEC DBMS_STATS.GATHER_TABLE_STATS('SH', 'SALES', method_opt => 'FOR ALL COLUMNS SIZE AUTO FOR COLUMNS SIZE AUTO (COUNTRY,CURRENCY)');",
+    ].join('\n'));
+  });
+
+  it('combines a table access by rowid with the index scan feeding it and judges rows per start', () => {
+    const plan = buildPlan({
+      id: 0,
+      operation: 'NESTED LOOPS',
+      children: [
+        { id: 1, operation: 'TABLE ACCESS FULL', objectName: 'CHANNELS', actualRows: 10, rows: 10 },
+        {
+          id: 2,
+          operation: 'TABLE ACCESS BY INDEX ROWID BATCHED',
+          objectName: 'SALES',
+          filterPredicates: `"S"."CURRENCY"='EUR'`,
+          rows: 50,
+          actualRows: 2_500,
+          starts: 10,
+          children: [{ id: 3, operation: 'INDEX RANGE SCAN', objectName: 'SALES_CTRY_IX', accessPredicates: `"S"."COUNTRY"='DE'`, rows: 400, actualRows: 3_000, starts: 10 }],
+        },
+      ],
+    });
+    const findings = missingColumnGroupRule.evaluate(makeCtx(plan, salesBundle()));
+    expect(findings).toHaveLength(1);
+    expect(findings[0].severity).toBe('warning');
+    expect(findings[0].nodeIds).toEqual([2]);
+    expect(findings[0].explanation).toContain('E-Rows 50 vs. 250 actual rows per start');
+
+    byId(plan, 2).actualRows = 600;
+    expect(missingColumnGroupRule.evaluate(makeCtx(plan, salesBundle()))).toHaveLength(0);
+  });
+
+  it('is satisfied by an existing column group on the same columns in any order', () => {
+    const plan = fullScan(`"S"."CURRENCY"='EUR' AND "S"."COUNTRY"='DE'`, 2_000, 150_000);
+    const covered = salesBundle([{ extension_name: 'SYS_STU1', extension: '("COUNTRY","CURRENCY")' }]);
+    expect(missingColumnGroupRule.evaluate(makeCtx(plan, covered))).toHaveLength(0);
+
+    const other = salesBundle([{ extension_name: 'SYS_STU2', extension: '("COUNTRY","CHANNEL")' }, { extension_name: 'SYS_STU3', extension: '(UPPER("CURRENCY"))' }]);
+    expect(missingColumnGroupRule.evaluate(makeCtx(plan, other))).toHaveLength(1);
+  });
+
+  it('ignores single-column filters and overestimates', () => {
+    const ctx = (plan: ReturnType<typeof buildPlan>) => makeCtx(plan, salesBundle());
+    expect(missingColumnGroupRule.evaluate(ctx(fullScan(`"S"."COUNTRY"='DE' AND "S"."AMOUNT">10`, 100, 50_000)))).toHaveLength(0);
+    expect(missingColumnGroupRule.evaluate(ctx(fullScan(`"S"."COUNTRY"='DE' AND "S"."CURRENCY"='EUR'`, 50_000, 100)))).toHaveLength(0);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { findObjectInBundle } from '../../metadata/lookup';
+import { nonSargablePredicateRule } from '../rules/nonSargablePredicate';
+import { DEFAULT_THRESHOLDS } from '../config';
+import { buildPlan, makeBundle, makeTable, makeIndex, makeColumn } from './helpers';
+import type { RuleContext } from '../types';
+import type { MetadataBundle } from '../../metadata/bundle';
+
+function makeCtx(plan: ReturnType<typeof buildPlan>, bundle: MetadataBundle): RuleContext {
+  return {
+    plan,
+    bundle,
+    thresholds: DEFAULT_THRESHOLDS,
+    findObject: (name) => findObjectInBundle(bundle, name),
+    usedIndexKeys: new Set(),
+  };
+}
+
+function employeesBundle(numRows: number): MetadataBundle {
+  return makeBundle({
+    'HR.EMPLOYEES': makeTable(
+      { num_rows: numRows },
+      { LAST_NAME: makeColumn({ data_type: 'VARCHAR2' }), HIRE_DATE: makeColumn({ data_type: 'DATE' }), DEPT_ID: makeColumn(), SALARY: makeColumn() },
+      ['HR.EMP_NAME_IX', 'HR.EMP_HIRED_IX'],
+    ),
+    'HR.EMP_NAME_IX': makeIndex('HR.EMPLOYEES', ['LAST_NAME']),
+    'HR.EMP_HIRED_IX': makeIndex('HR.EMPLOYEES', ['DEPT_ID', 'HIRE_DATE']),
+  });
+}
+
+const BUNDLE = employeesBundle(250_000);
+
+function scan(filterPredicates: string, operation = 'TABLE ACCESS FULL') {
+  return buildPlan({
+    id: 0,
+    operation: 'SELECT STATEMENT',
+    children: [{ id: 1, operation, objectName: 'EMPLOYEES', filterPredicates }],
+  });
+}
+
+describe('nonSargablePredicateRule', () => {
+  it('flags a function on an indexed column and proposes a function-based index', () => {
+    const findings = nonSargablePredicateRule.evaluate(makeCtx(scan(`UPPER("E"."LAST_NAME")='SMITH'`), BUNDLE));
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({
+      ruleId: 'non-sargable-predicate',
+      severity: 'warning',
+      nodeIds: [1],
+      title: 'Non-sargable predicate on HR.EMPLOYEES.LAST_NAME',
+      ddl: 'CREATE INDEX HR.EMPLOYEES_LAST_NAME_FBI ON HR.EMPLOYEES (UPPER("LAST_NAME"));',
+    });
+    expect(findings[0].explanation).toContain('wraps LAST_NAME in UPPER, so index HR.EMP_NAME_IX on (LAST_NAME) cannot be used');
+    expect(findings[0].explanation).toContain('all 250,000 rows');
+    expect(findings[0].suggestion).toContain('one letter case');
+  });
+
+  it('suggests a date range for TRUNC and finds columns beyond the leading one', () => {
+    const findings = nonSargablePredicateRule.evaluate(makeCtx(scan(`TRUNC("E"."HIRE_DATE")=TO_DATE('2024-01-01','YYYY-MM-DD')`, 'TABLE ACCESS STORAGE FULL'), BUNDLE));
+    expect(findings).toHaveLength(1);
+    expect(findings[0].explanation).toContain('HR.EMP_HIRED_IX on (DEPT_ID, HIRE_DATE)');
+    expect(findings[0].suggestion).toContain('HIRE_DATE >= TRUNC(:d) AND HIRE_DATE < TRUNC(:d) + 1');
+    expect(findings[0].ddl).toBe('CREATE INDEX HR.EMPLOYEES_HIRE_DATE_FBI ON HR.EMPLOYEES (TRUNC("HIRE_DATE"));');
+  });
+
+  it('leaves out the DDL when the expression reads a bind', () => {
+    const findings = nonSargablePredicateRule.evaluate(makeCtx(scan(`"E"."LAST_NAME"||:B1='SMITH-X'`), BUNDLE));
+    expect(findings).toHaveLength(1);
+    expect(findings[0].ddl).toBeUndefined();
+    expect(findings[0].suggestion).toContain('reads a bind variable');
+  });
+
+  it('escalates on very large tables', () => {
+    const findings = nonSargablePredicateRule.evaluate(makeCtx(scan(`LOWER("E"."LAST_NAME")='smith'`), employeesBundle(5_000_000)));
+    expect(findings[0].severity).toBe('critical');
+  });
+
+  it('ignores unindexed columns, bare comparisons and index access', () => {
+    const ctx = (plan: ReturnType<typeof buildPlan>) => makeCtx(plan, BUNDLE);
+    expect(nonSargablePredicateRule.evaluate(ctx(scan(`"E"."SALARY"*12>100000`)))).toHaveLength(0);
+    expect(nonSargablePredicateRule.evaluate(ctx(scan(`"E"."LAST_NAME"='SMITH'`)))).toHaveLength(0);
+    expect(nonSargablePredicateRule.evaluate(ctx(scan(`UPPER("E"."LAST_NAME")='SMITH'`, 'TABLE ACCESS BY INDEX ROWID')))).toHaveLength(0);
+  });
+});
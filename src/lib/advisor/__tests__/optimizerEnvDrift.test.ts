@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { optimizerEnvDriftRule } from '../rules/optimizerEnvDrift';
+import { OPTIMIZER_PARAMETERS, parameterDefault, describeHiddenParameter } from '../optimizerParameters';
+import { DEFAULT_THRESHOLDS } from '../config';
+import { parsePlan } from '../../parser';
+import { buildPlan, makeBundle } from './helpers';
+import type { RuleContext } from '../types';
+import type { MetadataBundle, OptimizerEnvParam } from '../../metadata/bundle';
+
+function makeCtx(plan: ReturnType<typeof buildPlan>, bundle: MetadataBundle | null = null): RuleContext {
+  return {
+    plan,
+    bundle,
+    thresholds: DEFAULT_THRESHOLDS,
+    findObject: () => null,
+    usedIndexKeys: new Set(),
+  };
+}
+
+function envBundle(optimizerEnv: OptimizerEnvParam[], systemIndexCostAdj = 100): MetadataBundle {
+  return {
+    ...makeBundle({}),
+    version: 2,
+    source: { db_name: 'X', oracle_version: '19.27.0.0.0', container_name: 'C' },
+    system_params: { db_block_size: 8192, optimizer_features_enable: '19.1.0', optimizer_index_cost_adj: systemIndexCostAdj, optimizer_index_caching: 0 },
+    optimizer_env: optimizerEnv,
+  };
+}
+
+const NL_PLAN = buildPlan({
+  id: 0,
+  operation: 'SELECT STATEMENT',
+  children: [{
+    id: 1,
+    operation: 'NESTED LOOPS',
+    children: [
+      { id: 2, operation: 'TABLE ACCESS FULL', objectName: 'DEPT' },
+      { id: 3, operation: 'INDEX RANGE SCAN', objectName: 'EMP_DEPT_IX' },
+    ],
+  }],
+}, { source: 'dbms_xplan' });
+
+describe('optimizer parameter catalogue', () => {
+  it('resolves defaults per optimizer_features_enable release', () => {
+    const byName = (name: string) => OPTIMIZER_PARAMETERS.find((p) => p.name === name)!;
+    expect(parameterDefault(byName('optimizer_dynamic_sampling'), '9.2.0')).toBe('1');
+    expect(parameterDefault(byName('optimizer_dynamic_sampling'), '19.1.0')).toBe('2');
+    expect(parameterDefault(byName('optimizer_adaptive_plans'), '12.1.0.2')).toBeNull();
+    expect(parameterDefault(byName('optimizer_mode'), undefined)).toBe('all_rows');
+    expect(describeHiddenParameter('_optim_peek_user_binds', 'true')).toBeNull();
+    expect(describeHiddenParameter('_optimizer_foo', '1')).toContain('support workaround');
+  });
+});
+
+describe('optimizerEnvDriftRule', () => {
+  it('flags a session-level optimizer_index_cost_adj and the lines it favoured', () => {
+    const findings = optimizerEnvDriftRule.evaluate(makeCtx(NL_PLAN, envBundle([{ name: 'optimizer_index_cost_adj', value: '10' }])));
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({ ruleId: 'optimizer-env-drift', severity: 'warning', nodeIds: [1, 3], title: 'optimizer_index_cost_adj = 10 (default 100)' });
+    expect(findings[0].explanation).toContain('costed at 10% of its real cost');
+    expect(findings[0].explanation).toContain('The instance runs with 100, so this cursor was parsed under a session-level override.');
+    expect(findings[0].explanation).toContain('shaped 2 lines (NESTED LOOPS, INDEX RANGE SCAN; Id 1, 3)');
+    expect(findings[0].suggestion).toContain('V$SQL_OPTIMIZER_ENV');
+
+    const instanceWide = optimizerEnvDriftRule.evaluate(makeCtx(NL_PLAN, envBundle([], 10)));
+    expect(instanceWide[0].explanation).toContain('set instance-wide');
+  });
+
+  it('flags first_rows, cursor_sharing, a lowered optimizer_features_enable and hidden parameters', () => {
+    const bundle = envBundle([
+      { name: 'optimizer_mode', value: 'first_rows_10' },
+      { name: 'cursor_sharing', value: 'force' },
+      { name: 'optimizer_features_enable', value: '12.2.0.1' },
+      { name: '_optimizer_use_feedback', value: 'false' },
+      { name: '_optim_peek_user_binds', value: 'true' },
+      { name: 'statistics_level', value: 'all' },
+    ]);
+    const titles = optimizerEnvDriftRule.evaluate(makeCtx(NL_PLAN, bundle)).map((f) => f.title);
+    expect(titles).toEqual([
+      'optimizer_features_enable = 12.2.0.1 (database 19.27.0.0.0)',
+      'optimizer_mode = first_rows_10 (default all_rows)',
+      'cursor_sharing = force (default exact)',
+      'Hidden parameter _optimizer_use_feedback = false',
+    ]);
+  });
+
+  it('judges defaults against the cursor release, so adaptive statistics are only drift after 12.1', () => {
+    const env = (ofe: string) => envBundle([{ name: 'optimizer_features_enable', value: ofe }, { name: 'optimizer_adaptive_statistics', value: 'true' }]);
+    expect(optimizerEnvDriftRule.evaluate(makeCtx(NL_PLAN, env('19.1.0'))).map((f) => f.title)).toEqual(['optimizer_adaptive_statistics = true (default false)']);
+    expect(optimizerEnvDriftRule.evaluate(makeCtx(NL_PLAN, env('12.1.0.2'))).map((f) => f.title)).toEqual(['optimizer_features_enable = 12.1.0.2 (database 19.27.0.0.0)']);
+  });
+
+  it('reads the SQL Monitor environment: manual workareas in the window sort spill example', () => {
+    const text = readFileSync(join(__dirname, '../../../examples/23-sql_monitor-Window Sort Spill.txt'), 'utf-8');
+    const plan = parsePlan(text);
+    const findings = optimizerEnvDriftRule.evaluate(makeCtx(plan));
+    expect(findings.map((f) => f.title)).toEqual(['workarea_size_policy = manual (default auto)']);
+    expect(findings[0].nodeIds.length).toBeGreaterThan(0);
+    expect(findings[0].explanation).toContain('hash_area_size and sort_area_size');
+  });
+});
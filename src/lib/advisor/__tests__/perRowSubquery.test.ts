@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { perRowSubqueryRule } from '../rules/perRowSubquery';
+import { DEFAULT_THRESHOLDS } from '../config';
+import { parsePlan } from '../../parser';
+import { buildPlan, byId } from './helpers';
+import type { RuleContext } from '../types';
+
+function makeCtx(plan: ReturnType<typeof buildPlan>): RuleContext {
+  return {
+    plan,
+    bundle: null,
+    thresholds: DEFAULT_THRESHOLDS,
+    findObject: () => null,
+    usedIndexKeys: new Set(),
+  };
+}
+
+function filterPlan(drivingRows: number, subqueryStarts: number) {
+  return buildPlan({
+    id: 0,
+    operation: 'SELECT STATEMENT',
+    actualRows: 10,
+    children: [{
+      id: 1,
+      operation: 'FILTER',
+      actualRows: 10,
+      children: [
+        { id: 2, operation: 'TABLE ACCESS FULL', objectName: 'ORDERS', actualRows: drivingRows, starts: 1 },
+        {
+          id: 3,
+          operation: 'SORT AGGREGATE',
+          actualRows: subqueryStarts,
+          starts: subqueryStarts,
+          children: [{ id: 4, operation: 'INDEX RANGE SCAN', objectName: 'ORDER_LINES_IX', actualRows: subqueryStarts * 3, starts: subqueryStarts }],
+        },
+      ],
+    }],
+  });
+}
+
+describe('perRowSubqueryRule', () => {
+  it('flags a FILTER subquery that ran once per driving row', () => {
+    const plan = filterPlan(50_000, 49_800);
+    byId(plan, 3).actualTime = 12_500;
+    const findings = perRowSubqueryRule.evaluate(makeCtx(plan));
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({ ruleId: 'per-row-subquery', severity: 'warning', nodeIds: [3, 1] });
+    expect(findings[0].title).toBe('FILTER subquery executed per row (49,800 starts)');
+    expect(findings[0].explanation).toContain('for 50,000 candidate rows: filter caching saved almost nothing');
+    expect(findings[0].explanation).toContain('took 12.50s');
+    expect(findings[0].suggestion).toContain('unnest');
+  });
+
+  it('reports how much caching saved and escalates on very many executions', () => {
+    const findings = perRowSubqueryRule.evaluate(makeCtx(filterPlan(1_000_000, 250_000)));
+    expect(findings[0].severity).toBe('critical');
+    expect(findings[0].explanation).toContain('avoided 75% of the executions');
+  });
+
+  it('flags scalar subqueries ahead of the main row source of a SELECT', () => {
+    const plan = buildPlan({
+      id: 0,
+      operation: 'SELECT STATEMENT',
+      actualRows: 20_000,
+      children: [
+        {
+          id: 1,
+          operation: 'SORT AGGREGATE',
+          actualRows: 20_000,
+          starts: 20_000,
+          children: [{ id: 2, operation: 'TABLE ACCESS BY INDEX ROWID', objectName: 'PAYMENTS', actualRows: 60_000, starts: 20_000 }],
+        },
+        { id: 3, operation: 'TABLE ACCESS FULL', objectName: 'CUSTOMERS', actualRows: 20_000, starts: 1 },
+      ],
+    });
+    const findings = perRowSubqueryRule.evaluate(makeCtx(plan));
+    expect(findings).toHaveLength(1);
+    expect(findings[0].nodeIds).toEqual([1, 0]);
+    expect(findings[0].title).toContain('Scalar subquery');
+    expect(findings[0].explanation).toContain('scalar subquery caching saved almost nothing');
+    expect(findings[0].suggestion).toContain('outer join');
+  });
+
+  it('flags scalar subqueries in the SET clause of an UPDATE', () => {
+    const plan = buildPlan({
+      id: 0,
+      operation: 'UPDATE STATEMENT',
+      actualRows: 0,
+      children: [{
+        id: 1,
+        operation: 'UPDATE',
+        objectName: 'CUSTOMERS',
+        actualRows: 0,
+        starts: 1,
+        children: [
+          { id: 2, operation: 'TABLE ACCESS FULL', objectName: 'CUSTOMERS', actualRows: 40_000, starts: 1 },
+          {
+            id: 3,
+            operation: 'SORT AGGREGATE',
+            actualRows: 39_000,
+            starts: 39_000,
+            children: [{ id: 4, operation: 'INDEX RANGE SCAN', objectName: 'ORD_CUST_IX', actualRows: 120_000, starts: 39_000 }],
+          },
+        ],
+      }],
+    });
+    const findings = perRowSubqueryRule.evaluate(makeCtx(plan));
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({ severity: 'warning', nodeIds: [3, 1] });
+    expect(findings[0].explanation).toContain('The scalar subquery in the SET clause of UPDATE (line 1)');
+    expect(findings[0].explanation).toContain('for 40,000 updated rows: scalar subquery caching saved almost nothing');
+    expect(findings[0].suggestion).toContain('MERGE');
+  });
+
+  it('flags scalar subqueries ahead of the main row source of an INSERT', () => {
+    const plan = buildPlan({
+      id: 0,
+      operation: 'INSERT STATEMENT',
+      actualRows: 25_000,
+      children: [
+        {
+          id: 1,
+          operation: 'SORT AGGREGATE',
+          actualRows: 25_000,
+          starts: 25_000,
+          children: [{ id: 2, operation: 'INDEX RANGE SCAN', objectName: 'PAY_CUST_IX', actualRows: 75_000, starts: 25_000 }],
+        },
+        {
+          id: 3,
+          operation: 'LOAD TABLE CONVENTIONAL',
+          objectName: 'CUSTOMER_TOTALS',
+          actualRows: 0,
+          starts: 1,
+          children: [{ id: 4, operation: 'TABLE ACCESS FULL', objectName: 'CUSTOMERS', actualRows: 25_000, starts: 1 }],
+        },
+      ],
+    });
+    const findings = perRowSubqueryRule.evaluate(makeCtx(plan));
+    expect(findings).toHaveLength(1);
+    expect(findings[0].nodeIds).toEqual([1, 0]);
+    expect(findings[0].explanation).toContain('The scalar subquery under INSERT STATEMENT (line 0)');
+    expect(findings[0].explanation).toContain('for 25,000 processed rows');
+    expect(findings[0].suggestion).toContain('outer join');
+  });
+
+  it('ignores subqueries that caching kept below the threshold', () => {
+    expect(perRowSubqueryRule.evaluate(makeCtx(filterPlan(1_000_000, 300)))).toHaveLength(0);
+  });
+
+  it('flags the per-row FILTER subquery among the shipped SQL Monitor examples, and nothing else', () => {
+    const dir = join(__dirname, '../../../examples');
+    const files = readdirSync(dir).filter((name) => name.includes('-sql_monitor-') && name.endsWith('.txt'));
+    const perRowExample = '29-sql_monitor-Correlated Filter Subquery.txt';
+    expect(files).toContain(perRowExample);
+    for (const file of files) {
+      const plan = parsePlan(readFileSync(join(dir, file), 'utf-8'));
+      expect(plan.hasActualStats).toBe(true);
+      const findings = perRowSubqueryRule.evaluate(makeCtx(plan));
+      if (file !== perRowExample) {
+        expect(findings, file).toEqual([]);
+        continue;
+      }
+      expect(plan.source).toBe('sql_monitor_text');
+      expect(findings).toHaveLength(1);
+      expect(findings[0]).toMatchObject({ severity: 'warning', nodeIds: [3, 1] });
+      expect(findings[0].title).toBe('FILTER subquery executed per row (49,800 starts)');
+      expect(findings[0].explanation).toContain('starting at SORT AGGREGATE (line 3)');
+      expect(findings[0].explanation).toContain('for 50,000 candidate rows: filter caching saved almost nothing');
+    }
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { findImplicitConversions } from '../predicates';
+import { findImplicitConversions, findWrappedColumns, findEqualityColumns } from '../predicates';
 
 describe('findImplicitConversions', () => {
   it('flags INTERNAL_FUNCTION wrapping a column', () => {
@@ -51,3 +51,40 @@ describe('findImplicitConversions', () => {
     expect(hits[0].fragment).toBe('INTERNAL_FUNCTION("T"."COL")');
   });
 });
+
+describe('findWrappedColumns', () => {
+  it('reports function wrappers with the index expression and the columns read', () => {
+    const hits = findWrappedColumns(`UPPER("E"."LAST_NAME")='SMITH' AND NVL("E"."COMM",0)>100`);
+    expect(hits).toEqual([
+      { wrapper: 'UPPER', column: 'LAST_NAME', expression: 'UPPER("E"."LAST_NAME")', indexExpression: 'UPPER("LAST_NAME")', columns: ['LAST_NAME'], hasBinds: false },
+      { wrapper: 'NVL', column: 'COMM', expression: 'NVL("E"."COMM",0)', indexExpression: 'NVL("COMM",0)', columns: ['COMM'], hasBinds: false },
+    ]);
+  });
+
+  it('reports nested wrappers once, as the outermost call', () => {
+    const hits = findWrappedColumns(`UPPER(TRIM("C"."NAME"))=:B1`);
+    expect(hits).toHaveLength(1);
+    expect(hits[0]).toMatchObject({ wrapper: 'UPPER', column: 'NAME', expression: 'UPPER(TRIM("C"."NAME"))' });
+  });
+
+  it('reports arithmetic and concatenation on a column, noting binds', () => {
+    const hits = findWrappedColumns(`"O"."AMOUNT"*1.2>1000 AND "O"."REGION"||"O"."CODE"=:B1 AND "O"."ORDERED"+:D<SYSDATE`);
+    expect(hits.map((h) => [h.wrapper, h.column, h.hasBinds])).toEqual([
+      ['*', 'AMOUNT', false],
+      ['||', 'REGION', false],
+      ['+', 'ORDERED', true],
+    ]);
+    expect(hits[1].columns).toEqual(['REGION', 'CODE']);
+  });
+
+  it('ignores bare columns, conversions and wrapped binds', () => {
+    expect(findWrappedColumns(`"E"."STATUS"=:1 AND "E"."HIRED">=TRUNC(:B2) AND TO_NUMBER("E"."CODE")=5`)).toEqual([]);
+  });
+});
+
+describe('findEqualityColumns', () => {
+  it('lists columns compared with constants, not joins or ranges', () => {
+    expect(findEqualityColumns(`"S"."COUNTRY"='DE' AND "S"."CURRENCY"=:B1 AND "S"."CUST_ID"="C"."CUST_ID" AND "S"."AMOUNT">100`, `5="S"."CHANNEL"`))
+      .toEqual(['COUNTRY', 'CURRENCY', 'CHANNEL']);
+  });
+});
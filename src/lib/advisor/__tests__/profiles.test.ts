@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BUILTIN_PROFILES,
+  THRESHOLD_FIELDS,
+  profileDefaults,
+  sanitizeProfiles,
+  validateThreshold,
+  validateThresholdPairs,
+} from '../profiles';
+import { DEFAULT_THRESHOLDS } from '../config';
+import { runAdvisor } from '../engine';
+import { buildFindingsExport, findingsExportFilename } from '../export';
+import { buildPlan } from './helpers';
+
+describe('advisor threshold profiles', () => {
+  it('describes every threshold exactly once', () => {
+    expect(THRESHOLD_FIELDS.map((f) => f.key).sort()).toEqual(Object.keys(DEFAULT_THRESHOLDS).sort());
+  });
+
+  it('ships valid Default, OLTP and DW profiles', () => {
+    expect(BUILTIN_PROFILES.map((p) => p.name)).toEqual(['Default', 'OLTP', 'DW']);
+    for (const profile of BUILTIN_PROFILES) {
+      for (const field of THRESHOLD_FIELDS) {
+        expect(validateThreshold(field.key, profile.thresholds[field.key])).toBeNull();
+      }
+      expect(validateThresholdPairs(profile.thresholds)).toEqual({});
+    }
+    expect(profileDefaults('OLTP').ftsMinTableRows).toBeLessThan(DEFAULT_THRESHOLDS.ftsMinTableRows);
+    expect(profileDefaults('DW').nlStartsWarn).toBeLessThan(DEFAULT_THRESHOLDS.nlStartsWarn);
+    expect(profileDefaults('my team')).toBe(DEFAULT_THRESHOLDS);
+  });
+
+  it('validates bounds, whole numbers and warning/critical order', () => {
+    expect(validateThreshold('ftsSelectivityWarn', 1.5)).toBe('Must be at most 1');
+    expect(validateThreshold('nlStartsWarn', 0)).toBe('Must be at least 1');
+    expect(validateThreshold('spillCriticalBytes', 10.5)).toBe('Must be a whole number');
+    expect(validateThreshold('maxFindingsPerRule', NaN)).toBe('Enter a number');
+    expect(validateThresholdPairs({ ...DEFAULT_THRESHOLDS, nlStartsCritical: 10 })).toEqual({
+      nlStartsCritical: 'Must not be below the warning level',
+    });
+  });
+
+  it('restores built-ins and drops invalid stored values', () => {
+    const profiles = sanitizeProfiles([
+      { name: 'OLTP', thresholds: { nlStartsWarn: 123, ftsSelectivityWarn: 7 } },
+      { name: 'Batch', thresholds: { remoteRowsWarn: 5 } },
+      { name: 'Batch', thresholds: {} },
+      { thresholds: {} },
+    ]);
+    expect(profiles.map((p) => p.name)).toEqual(['Default', 'OLTP', 'DW', 'Batch']);
+    expect(profiles[1].thresholds.nlStartsWarn).toBe(123);
+    expect(profiles[1].thresholds.ftsSelectivityWarn).toBe(profileDefaults('OLTP').ftsSelectivityWarn);
+    expect(profiles[3].thresholds).toEqual({ ...DEFAULT_THRESHOLDS, remoteRowsWarn: 5 });
+    expect(sanitizeProfiles('garbage')).toEqual(BUILTIN_PROFILES);
+  });
+
+  it('changes findings with the profile and records the profile in the export', () => {
+    const plan = buildPlan({
+      id: 0,
+      operation: 'SELECT STATEMENT',
+      children: [{ id: 1, operation: 'REMOTE', objectName: 'ORDERS', actualRows: 50_000, inOut: 'R->S' }],
+    });
+    const oltp = BUILTIN_PROFILES[1];
+    expect(runAdvisor(plan, null).findings.filter((f) => f.ruleId === 'remote-row-pull')).toHaveLength(0);
+    const report = runAdvisor(plan, null, oltp.thresholds);
+    expect(report.findings.filter((f) => f.ruleId === 'remote-row-pull')).toHaveLength(1);
+
+    plan.sqlId = 'abc123';
+    const exported = buildFindingsExport(plan, report, oltp, '2026-10-01T00:00:00Z');
+    expect(exported).toMatchObject({
+      format: 'ora-plan-findings',
+      version: 1,
+      exportedAt: '2026-10-01T00:00:00Z',
+      sqlId: 'abc123',
+      profile: { name: 'OLTP', thresholds: oltp.thresholds },
+      findings: report.findings,
+    });
+    expect(findingsExportFilename(exported)).toBe('abc123-findings.json');
+  });
+});
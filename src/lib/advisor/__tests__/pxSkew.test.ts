@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { pxSkewRule } from '../rules/pxSkew';
+import { DEFAULT_THRESHOLDS } from '../config';
+import { buildPlan } from './helpers';
+import type { RuleContext } from '../types';
+
+function makeCtx(plan: ReturnType<typeof buildPlan>): RuleContext {
+  return {
+    plan,
+    bundle: null,
+    thresholds: DEFAULT_THRESHOLDS,
+    findObject: () => null,
+    usedIndexKeys: new Set(),
+  };
+}
+
+describe('pxSkewRule', () => {
+  it('flags a skewed PX server set using the skew severity, under its own rule id', () => {
+    const servers = ['p000', 'p001', 'p002', 'p003'].map((name, i) => ({
+      name,
+      isCoordinator: false,
+      serverSet: 1,
+      elapsedTime: i === 0 ? 120_000_000 : 2_000_000,
+    }));
+    const plan = buildPlan({ id: 0, operation: 'SELECT STATEMENT' }, { monitorMetadata: { pxServers: servers } });
+    const findings = pxSkewRule.evaluate(makeCtx(plan));
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({ ruleId: pxSkewRule.id, severity: 'critical', nodeIds: [] });
+    expect(findings[0].explanation).toContain('p000');
+  });
+
+  it('does not flag an evenly loaded server set', () => {
+    const servers = ['p000', 'p001'].map((name) => ({ name, isCoordinator: false, serverSet: 1, elapsedTime: 30_000_000 }));
+    const plan = buildPlan({ id: 0, operation: 'SELECT STATEMENT' }, { monitorMetadata: { pxServers: servers } });
+    expect(pxSkewRule.evaluate(makeCtx(plan))).toHaveLength(0);
+  });
+});
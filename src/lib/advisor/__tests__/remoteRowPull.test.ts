@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { remoteRowPullRule } from '../rules/remoteRowPull';
+import { DEFAULT_THRESHOLDS } from '../config';
+import { buildPlan, byId } from './helpers';
+import type { RuleContext } from '../types';
+
+function makeCtx(plan: ReturnType<typeof buildPlan>): RuleContext {
+  return {
+    plan,
+    bundle: null,
+    thresholds: DEFAULT_THRESHOLDS,
+    findObject: () => null,
+    usedIndexKeys: new Set(),
+  };
+}
+
+function remotePlan(remoteRows: number, joinRows: number, remoteSql?: string) {
+  const plan = buildPlan({
+    id: 0,
+    operation: 'SELECT STATEMENT',
+    children: [{
+      id: 1,
+      operation: 'HASH JOIN',
+      actualRows: joinRows,
+      children: [
+        { id: 2, operation: 'TABLE ACCESS FULL', objectName: 'EMPLOYEES', actualRows: 100 },
+        { id: 3, operation: 'REMOTE', objectName: 'ORDERS', actualRows: remoteRows, inOut: 'R->S' },
+      ],
+    }],
+  });
+  byId(plan, 3).inst = 'SALES';
+  byId(plan, 3).remoteSql = remoteSql;
+  return plan;
+}
+
+describe('remoteRowPullRule', () => {
+  it('flags a remote row source that ships many rows', () => {
+    const findings = remoteRowPullRule.evaluate(makeCtx(remotePlan(250_000, 50)));
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({ severity: 'warning', nodeIds: [3] });
+    expect(findings[0].title).toContain('SALES');
+    expect(findings[0].explanation).toContain('HASH JOIN keeps only 50');
+    expect(findings[0].suggestion).toContain('DRIVING_SITE');
+  });
+
+  it('escalates to critical and calls out remote SQL without a WHERE clause', () => {
+    const findings = remoteRowPullRule.evaluate(makeCtx(remotePlan(5_000_000, 4_000_000, 'SELECT "ID","CUST_ID" FROM "ORDERS" "O"')));
+    expect(findings[0].severity).toBe('critical');
+    expect(findings[0].explanation).toContain('no WHERE clause');
+    expect(findings[0].explanation).not.toContain('keeps only');
+  });
+
+  it('ignores small remote pulls and local row sources', () => {
+    expect(remoteRowPullRule.evaluate(makeCtx(remotePlan(1_000, 50)))).toHaveLength(0);
+    const local = buildPlan({ id: 0, operation: 'SELECT STATEMENT', children: [{ id: 1, operation: 'TABLE ACCESS FULL', actualRows: 10_000_000 }] });
+    expect(remoteRowPullRule.evaluate(makeCtx(local))).toHaveLength(0);
+  });
+
+  it('falls back to the optimizer estimate when there are no runtime stats', () => {
+    const plan = buildPlan({ id: 0, operation: 'SELECT STATEMENT', children: [{ id: 1, operation: 'REMOTE', rows: 300_000 }] });
+    const findings = remoteRowPullRule.evaluate(makeCtx(plan));
+    expect(findings).toHaveLength(1);
+    expect(findings[0].explanation).toContain('300,000 estimated rows');
+  });
+});
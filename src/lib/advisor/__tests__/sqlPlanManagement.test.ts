@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { findObjectInBundle } from '../../metadata/lookup';
+import { notesFromLines } from '../../parser/noteSection';
+import { sqlPlanManagementRule } from '../rules/sqlPlanManagement';
+import { DEFAULT_THRESHOLDS } from '../config';
+import { buildPlan, makeBundle, makeTable, makeIndex, makeColumn } from './helpers';
+import type { RuleContext } from '../types';
+import type { MetadataBundle, SqlManagement, SqlPlanBaselineInfo } from '../../metadata/bundle';
+import type { PlanSource } from '../../types';
+
+function makeCtx(plan: ReturnType<typeof buildPlan>, bundle: MetadataBundle): RuleContext {
+  return {
+    plan,
+    bundle,
+    thresholds: DEFAULT_THRESHOLDS,
+    findObject: (name) => findObjectInBundle(bundle, name),
+    usedIndexKeys: new Set(),
+  };
+}
+
+function ordersBundle(sqlManagement: SqlManagement): MetadataBundle {
+  return {
+    ...makeBundle({
+      'SH.ORDERS': makeTable({}, { SHIP_COUNTRY: makeColumn(), SHIP_CURRENCY: makeColumn() }, ['SH.ORDERS_PK']),
+      'SH.ORDERS_PK': makeIndex('SH.ORDERS', ['ORDER_ID']),
+    }),
+    version: 2,
+    sql_management: sqlManagement,
+  };
+}
+
+function ordersPlan(noteLines: string[], source: PlanSource = 'dbms_xplan') {
+  const plan = buildPlan({
+    id: 0,
+    operation: 'SELECT STATEMENT',
+    children: [{
+      id: 1,
+      operation: 'TABLE ACCESS BY INDEX ROWID',
+      objectName: 'ORDERS',
+      children: [{ id: 2, operation: 'INDEX UNIQUE SCAN', objectName: 'ORDERS_PK' }],
+    }],
+  }, { source });
+  plan.planHashValue = '1111111111';
+  plan.notes = notesFromLines(noteLines);
+  return plan;
+}
+
+function baseline(overrides: Partial<SqlPlanBaselineInfo> = {}): SqlPlanBaselineInfo {
+  return { plan_name: 'SQL_PLAN_a1b2', sql_handle: 'SQL_0123abcd', enabled: true, accepted: true, fixed: false, ...overrides };
+}
+
+describe('sqlPlanManagementRule', () => {
+  it('flags an accepted baseline the Note does not report, but not one it does', () => {
+    const bundle = ordersBundle({ baselines: [baseline(), baseline({ plan_name: 'SQL_PLAN_off', enabled: false })] });
+    const findings = sqlPlanManagementRule.evaluate(makeCtx(ordersPlan([]), bundle));
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({ ruleId: 'sql-plan-management', severity: 'warning', nodeIds: [0], title: 'SQL plan baseline present but not used' });
+    expect(findings[0].explanation).toContain('an enabled, accepted baseline for this statement (SQL_PLAN_a1b2)');
+    expect(findings[0].suggestion).toContain('optimizer_use_sql_plan_baselines');
+
+    const used = ordersPlan(['SQL plan baseline "SQL_PLAN_a1b2" used for this statement']);
+    expect(sqlPlanManagementRule.evaluate(makeCtx(used, bundle))).toHaveLength(0);
+  });
+
+  it('stays quiet when the source carries no Note section', () => {
+    const bundle = ordersBundle({ baselines: [baseline()], profiles: [{ name: 'PROF_1', status: 'ENABLED', force_matching: true }] });
+    expect(sqlPlanManagementRule.evaluate(makeCtx(ordersPlan([], 'sql_monitor_xml'), bundle))).toHaveLength(0);
+  });
+
+  it('flags a fixed baseline whose plan hash differs from the plan', () => {
+    const fixed = baseline({ fixed: true, plan_hash_value: 2222222222 });
+    const findings = sqlPlanManagementRule.evaluate(makeCtx(ordersPlan([]), ordersBundle({ baselines: [fixed] })));
+    expect(findings).toHaveLength(1);
+    expect(findings[0].severity).toBe('critical');
+    expect(findings[0].explanation).toContain('fixed to plan hash 2222222222, but this plan has hash 1111111111');
+    expect(findings[0].suggestion).toContain(`DISPLAY_SQL_PLAN_BASELINE('SQL_0123abcd', 'SQL_PLAN_a1b2')`);
+
+    const matching = baseline({ fixed: true, plan_hash_value: 1111111111 });
+    const used = ordersPlan(['SQL plan baseline "SQL_PLAN_a1b2" used for this statement']);
+    expect(sqlPlanManagementRule.evaluate(makeCtx(used, ordersBundle({ baselines: [matching] })))).toHaveLength(0);
+  });
+
+  it('flags enabled force-matching profiles missing from the Note', () => {
+    const bundle = ordersBundle({
+      profiles: [
+        { name: 'PROF_FORCE', category: 'DEFAULT', status: 'ENABLED', force_matching: true },
+        { name: 'PROF_EXACT', status: 'ENABLED', force_matching: false },
+        { name: 'PROF_OFF', status: 'DISABLED', force_matching: true },
+      ],
+    });
+    const findings = sqlPlanManagementRule.evaluate(makeCtx(ordersPlan(['SQL plan baseline "SQL_PLAN_x" used for this statement']), bundle));
+    expect(findings).toHaveLength(1);
+    expect(findings[0].title).toBe('Force-matching SQL profile PROF_FORCE not used');
+    expect(findings[0].suggestion).toContain('Baseline SQL_PLAN_x was used');
+
+    const applied = ordersPlan(['SQL profile "PROF_FORCE" used for this statement']);
+    expect(sqlPlanManagementRule.evaluate(makeCtx(applied, bundle))).toHaveLength(0);
+  });
+
+  it('reports usable sampling directives on planned tables once dynamic sampling kicked in', () => {
+    const bundle = ordersBundle({
+      directives: [
+        {
+          directive_id: '10698988065982278667',
+          type: 'DYNAMIC_SAMPLING',
+          state: 'USABLE',
+          reason: 'SINGLE TABLE CARDINALITY MISESTIMATE',
+          objects: [
+            { owner: 'SH', object_name: 'ORDERS', subobject_name: 'SHIP_COUNTRY', object_type: 'COLUMN' },
+            { owner: 'SH', object_name: 'ORDERS', subobject_name: 'SHIP_CURRENCY', object_type: 'COLUMN' },
+            { owner: 'SH', object_name: 'ORDERS', subobject_name: null, object_type: 'TABLE' },
+          ],
+        },
+        { directive_id: '2', type: 'DYNAMIC_SAMPLING', state: 'SUPERSEDED', objects: [{ owner: 'SH', object_name: 'ORDERS', object_type: 'TABLE' }] },
+        { directive_id: '3', type: 'DYNAMIC_SAMPLING', state: 'USABLE', objects: [{ owner: 'SH', object_name: 'CUSTOMERS', object_type: 'TABLE' }] },
+      ],
+    });
+    const sampled = ordersPlan(['dynamic statistics used: dynamic sampling (level=2)', '1 Sql Plan Directive used for this statement']);
+    const findings = sqlPlanManagementRule.evaluate(makeCtx(sampled, bundle));
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({ severity: 'info', nodeIds: [1, 2], title: 'Plan directive sampling SH.ORDERS' });
+    expect(findings[0].explanation).toContain('(single table cardinality misestimate) made the optimizer sample the table at parse time at level 2');
+    expect(findings[0].suggestion).toContain('SHIP_COUNTRY, SHIP_CURRENCY');
+
+    expect(sqlPlanManagementRule.evaluate(makeCtx(ordersPlan([]), bundle))).toHaveLength(0);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { storageOffloadRule } from '../rules/storageOffload';
+import { DEFAULT_THRESHOLDS } from '../config';
+import { buildPlan, byId } from './helpers';
+import type { RuleContext } from '../types';
+
+const GB = 1 << 30;
+
+function makeCtx(plan: ReturnType<typeof buildPlan>): RuleContext {
+  return {
+    plan,
+    bundle: null,
+    thresholds: DEFAULT_THRESHOLDS,
+    findObject: () => null,
+    usedIndexKeys: new Set(),
+  };
+}
+
+function offloadPlan(scan: { readBytes: number; efficiency?: number; interconnect?: number }) {
+  const plan = buildPlan({
+    id: 0,
+    operation: 'SELECT STATEMENT',
+    actualRows: 1,
+    children: [{
+      id: 1,
+      operation: 'HASH JOIN',
+      actualRows: 1_000,
+      children: [
+        { id: 2, operation: 'TABLE ACCESS STORAGE FULL', objectName: 'SALES', actualRows: 1_000 },
+        { id: 3, operation: 'TABLE ACCESS STORAGE FULL', objectName: 'CUSTOMERS', actualRows: 50_000 },
+      ],
+    }],
+  });
+  Object.assign(byId(plan, 2), { ioReadBytes: scan.readBytes, cellOffloadEfficiency: scan.efficiency, cellInterconnectBytes: scan.interconnect });
+  Object.assign(byId(plan, 3), { ioReadBytes: 2 * GB, cellOffloadEfficiency: 92.5 });
+  return plan;
+}
+
+describe('storageOffloadRule', () => {
+  it('flags a large storage scan without smart scan when other lines were offloaded', () => {
+    const findings = storageOffloadRule.evaluate(makeCtx(offloadPlan({ readBytes: 5 * GB })));
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({ ruleId: 'storage-offload', severity: 'warning', nodeIds: [2] });
+    expect(findings[0].title).toBe('Smart scan not used on TABLE ACCESS STORAGE FULL of SALES');
+    expect(findings[0].suggestion).toContain('direct path reads');
+  });
+
+  it('escalates very large unoffloaded scans to critical', () => {
+    const findings = storageOffloadRule.evaluate(makeCtx(offloadPlan({ readBytes: 20 * GB })));
+    expect(findings[0].severity).toBe('critical');
+  });
+
+  it('flags poor and negative offload efficiency', () => {
+    const poor = storageOffloadRule.evaluate(makeCtx(offloadPlan({ readBytes: 5 * GB, efficiency: 12.4, interconnect: 4.4 * GB })));
+    expect(poor).toHaveLength(1);
+    expect(poor[0].title).toContain('Poor offload efficiency');
+    expect(poor[0].explanation).toContain('Only 12.4%');
+    expect(poor[0].explanation).toContain('4.4 GB came back over the interconnect');
+
+    const negative = storageOffloadRule.evaluate(makeCtx(offloadPlan({ readBytes: 5 * GB, efficiency: -20 })));
+    expect(negative[0].explanation).toContain('returned more bytes than');
+  });
+
+  it('ignores efficient, small and non-Exadata scans', () => {
+    expect(storageOffloadRule.evaluate(makeCtx(offloadPlan({ readBytes: 5 * GB, efficiency: 80 })))).toHaveLength(0);
+    expect(storageOffloadRule.evaluate(makeCtx(offloadPlan({ readBytes: 100 << 20 })))).toHaveLength(0);
+
+    const plain = buildPlan({ id: 0, operation: 'SELECT STATEMENT', children: [{ id: 1, operation: 'TABLE ACCESS STORAGE FULL', actualRows: 10 }] });
+    byId(plain, 1).ioReadBytes = 50 * GB;
+    expect(storageOffloadRule.evaluate(makeCtx(plain))).toHaveLength(0);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { wideWorkareaRowsRule } from '../rules/wideWorkareaRows';
+import { DEFAULT_THRESHOLDS } from '../config';
+import { buildPlan, byId } from './helpers';
+import { parseProjection } from '../../parser/projection';
+import type { RuleContext } from '../types';
+
+function makeCtx(plan: ReturnType<typeof buildPlan>): RuleContext {
+  return {
+    plan,
+    bundle: null,
+    thresholds: DEFAULT_THRESHOLDS,
+    findObject: () => null,
+    usedIndexKeys: new Set(),
+  };
+}
+
+const WIDE = '"T"."ID"[NUMBER,22], "T"."PAYLOAD"[VARCHAR2,4000], "T"."NOTES"[VARCHAR2,2000]';
+const NARROW = '"T"."ID"[NUMBER,22]';
+
+function hashJoinPlan(buildRows: number, buildProjection: string, tempUsed?: number) {
+  const plan = buildPlan({
+    id: 0,
+    operation: 'SELECT STATEMENT',
+    children: [{
+      id: 1,
+      operation: 'HASH JOIN',
+      tempUsed,
+      children: [
+        { id: 2, operation: 'TABLE ACCESS FULL', objectName: 'T', rows: buildRows },
+        { id: 3, operation: 'TABLE ACCESS FULL', objectName: 'U', rows: 1_000_000 },
+      ],
+    }],
+  });
+  byId(plan, 2).projection = parseProjection(buildProjection);
+  return plan;
+}
+
+describe('wideWorkareaRowsRule', () => {
+  it('flags a hash join whose build input carries wide rows at volume', () => {
+    const findings = wideWorkareaRowsRule.evaluate(makeCtx(hashJoinPlan(100_000, WIDE)));
+    expect(findings).toHaveLength(1);
+    expect(findings[0].severity).toBe('warning');
+    expect(findings[0].nodeIds).toEqual([1, 2]);
+    expect(findings[0].explanation).toContain('"T"."PAYLOAD"');
+  });
+
+  it('escalates to critical when the workarea spilled', () => {
+    const findings = wideWorkareaRowsRule.evaluate(makeCtx(hashJoinPlan(100_000, WIDE, 1 << 20)));
+    expect(findings[0].severity).toBe('critical');
+  });
+
+  it('ignores narrow rows and small volumes', () => {
+    expect(wideWorkareaRowsRule.evaluate(makeCtx(hashJoinPlan(10_000_000, NARROW)))).toHaveLength(0);
+    expect(wideWorkareaRowsRule.evaluate(makeCtx(hashJoinPlan(100, WIDE)))).toHaveLength(0);
+  });
+
+  it('uses the sort operation\'s own projection', () => {
+    const plan = buildPlan({
+      id: 0,
+      operation: 'SORT ORDER BY',
+      rows: 50_000,
+      children: [{ id: 1, operation: 'TABLE ACCESS FULL', objectName: 'T', rows: 50_000 }],
+    });
+    byId(plan, 0).projection = parseProjection(WIDE);
+    const findings = wideWorkareaRowsRule.evaluate(makeCtx(plan));
+    expect(findings).toHaveLength(1);
+    expect(findings[0].nodeIds).toEqual([0]);
+  });
+
+  it('does nothing without projection information', () => {
+    const plan = buildPlan({ id: 0, operation: 'HASH JOIN', children: [{ id: 1, operation: 'TABLE ACCESS FULL', rows: 1e9 }] });
+    expect(wideWorkareaRowsRule.evaluate(makeCtx(plan))).toHaveLength(0);
+  });
+});
@@ -12,7 +12,19 @@ export const DEFAULT_THRESHOLDS = {
   ftsFallbackMaxRowsPerStart: 1_000,
   ftsFallbackMinGetsPerStart: 10_000,
   spillCriticalBytes: 1 << 30,
+  wideRowBytes: 1_000,
+  wideRowWorkareaBytes: 64 << 20,
+  hashBuildMinBytes: 16 << 20,
+  hashBuildInversionRatio: 4,
+  subqueryStartsWarn: 10_000,
+  subqueryStartsCritical: 100_000,
+  remoteRowsWarn: 100_000,
+  remoteRowsCritical: 1_000_000,
+  offloadMinReadBytes: 1 << 30,
+  offloadEfficiencyWarn: 30,
+  impactBadgePercent: 5,
   maxFindingsPerRule: 5,
 } as const;
 
-export type AdvisorThresholds = typeof DEFAULT_THRESHOLDS;
+export type AdvisorThresholdKey = keyof typeof DEFAULT_THRESHOLDS;
+export type AdvisorThresholds = Record<AdvisorThresholdKey, number>;
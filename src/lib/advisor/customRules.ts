@@ -0,0 +1,319 @@
+import type { PlanNode } from '../types';
+import type { AdvisorRule, Finding, FindingSeverity, RuleContext } from './types';
+
+/** Node figures a custom rule can compare against. */
+export const CUSTOM_RULE_METRICS = {
+  cost: { label: 'Optimizer cost', runtime: false },
+  rows: { label: 'Estimated rows', runtime: false },
+  bytes: { label: 'Estimated bytes', runtime: false },
+  tempSpace: { label: 'Estimated temp space (bytes)', runtime: false },
+  actualRows: { label: 'Actual rows', runtime: true },
+  starts: { label: 'Starts', runtime: true },
+  rowsPerStart: { label: 'Actual rows per start', runtime: true },
+  actualTime: { label: 'Elapsed time incl. children (ms)', runtime: true },
+  selfTime: { label: 'Elapsed time of the line itself (ms)', runtime: true },
+  activityPercent: { label: 'Activity %', runtime: true },
+  logicalReads: { label: 'Buffer gets', runtime: true },
+  physicalReads: { label: 'Physical reads', runtime: true },
+  ioReadBytes: { label: 'Bytes read', runtime: true },
+  memoryUsed: { label: 'Workarea memory (bytes)', runtime: true },
+  tempUsed: { label: 'Temp used (bytes)', runtime: true },
+} as const;
+
+export type CustomRuleMetric = keyof typeof CUSTOM_RULE_METRICS;
+
+export const CUSTOM_RULE_COMPARATORS = ['>', '>=', '<', '<=', '=', '!='] as const;
+
+export type CustomRuleComparator = (typeof CUSTOM_RULE_COMPARATORS)[number];
+
+export interface CustomRuleMetricCondition {
+  metric: CustomRuleMetric;
+  op: CustomRuleComparator;
+  value: number;
+}
+
+/**
+ * Conditions on one plan line; all given conditions must hold. Patterns are
+ * case-insensitive globs (`*` any run of characters, `?` one character), and
+ * a list matches when any of its patterns does.
+ */
+export interface CustomRuleNodeMatch {
+  operation?: string | string[];
+  /** Matched against the object name both as written and without its owner. */
+  objectName?: string | string[];
+  metrics?: CustomRuleMetricCondition[];
+}
+
+/**
+ * A house rule. `match` picks the flagged line; `parent` must hold for its
+ * parent and `child` for at least one direct child. Title, explanation and
+ * suggestion are templates: `{id}`, `{operation}`, `{object}` and any metric
+ * name (`{starts}`) refer to the flagged line, `{parent.operation}` or
+ * `{child.actualRows}` to the matched relatives.
+ */
+export interface CustomRuleDefinition {
+  id: string;
+  severity: FindingSeverity;
+  title: string;
+  explanation: string;
+  suggestion?: string;
+  match: CustomRuleNodeMatch;
+  parent?: CustomRuleNodeMatch;
+  child?: CustomRuleNodeMatch;
+}
+
+/** A named, shareable set of custom rules, imported and exported as JSON. */
+export interface CustomRulePack {
+  format: 'ora-plan-rules';
+  version: 1;
+  name: string;
+  description?: string;
+  rules: CustomRuleDefinition[];
+}
+
+const SEVERITIES: FindingSeverity[] = ['info', 'warning', 'critical'];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkPatterns(value: unknown, where: string): string | string[] | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value === 'string' && value.trim()) return value;
+  if (Array.isArray(value) && value.length > 0 && value.every((p) => typeof p === 'string' && p.trim())) return value as string[];
+  throw new Error(`${where} must be a pattern or a list of patterns`);
+}
+
+function checkNodeMatch(value: unknown, where: string): CustomRuleNodeMatch {
+  if (!isObject(value)) throw new Error(`${where} must be an object`);
+  const match: CustomRuleNodeMatch = {};
+  const operation = checkPatterns(value.operation, `${where}.operation`);
+  const objectName = checkPatterns(value.objectName, `${where}.objectName`);
+  if (operation !== undefined) match.operation = operation;
+  if (objectName !== undefined) match.objectName = objectName;
+  if (value.metrics !== undefined) {
+    if (!Array.isArray(value.metrics)) throw new Error(`${where}.metrics must be a list`);
+    match.metrics = value.metrics.map((condition, i) => {
+      const at = `${where}.metrics[${i}]`;
+      if (!isObject(condition)) throw new Error(`${at} must be an object`);
+      if (typeof condition.metric !== 'string' || !(condition.metric in CUSTOM_RULE_METRICS)) {
+        throw new Error(`${at}: unknown metric "${String(condition.metric)}" (expected one of ${Object.keys(CUSTOM_RULE_METRICS).join(', ')})`);
+      }
+      if (!CUSTOM_RULE_COMPARATORS.includes(condition.op as CustomRuleComparator)) {
+        throw new Error(`${at}: unknown comparison "${String(condition.op)}" (expected one of ${CUSTOM_RULE_COMPARATORS.join(' ')})`);
+      }
+      if (typeof condition.value !== 'number' || !Number.isFinite(condition.value)) {
+        throw new Error(`${at}: value must be a number`);
+      }
+      return { metric: condition.metric as CustomRuleMetric, op: condition.op as CustomRuleComparator, value: condition.value };
+    });
+  }
+  if (Object.keys(match).length === 0) throw new Error(`${where} has no conditions`);
+  return match;
+}
+
+function checkRule(value: unknown, index: number, seen: Set<string>): CustomRuleDefinition {
+  if (!isObject(value)) throw new Error(`rules[${index}] must be an object`);
+  if (typeof value.id !== 'string' || !value.id.trim()) throw new Error(`rules[${index}] is missing required field: id`);
+  const where = `Rule "${value.id}"`;
+  if (seen.has(value.id)) throw new Error(`${where} is defined twice`);
+  seen.add(value.id);
+  if (!SEVERITIES.includes(value.severity as FindingSeverity)) {
+    throw new Error(`${where}: severity must be one of ${SEVERITIES.join(', ')}`);
+  }
+  for (const field of ['title', 'explanation'] as const) {
+    if (typeof value[field] !== 'string' || !(value[field] as string).trim()) throw new Error(`${where} is missing required field: ${field}`);
+  }
+  if (value.suggestion !== undefined && typeof value.suggestion !== 'string') throw new Error(`${where}: suggestion must be text`);
+
+  const rule: CustomRuleDefinition = {
+    id: value.id,
+    severity: value.severity as FindingSeverity,
+    title: value.title as string,
+    explanation: value.explanation as string,
+    match: checkNodeMatch(value.match, `${where} match`),
+  };
+  if (value.suggestion) rule.suggestion = value.suggestion as string;
+  if (value.parent !== undefined) rule.parent = checkNodeMatch(value.parent, `${where} parent`);
+  if (value.child !== undefined) rule.child = checkNodeMatch(value.child, `${where} child`);
+  return rule;
+}
+
+/** Check a decoded rule pack and return a clean copy; throws an Error naming the first problem. */
+export function validateRulePack(value: unknown): CustomRulePack {
+  if (!isObject(value)) throw new Error('Rule pack is not an object');
+  if (value.format !== 'ora-plan-rules') {
+    throw new Error(`Rule pack has unexpected format: "${String(value.format)}" (expected "ora-plan-rules")`);
+  }
+  if (value.version !== 1) throw new Error(`Rule pack has unsupported version: ${String(value.version)} (this build supports version 1)`);
+  if (typeof value.name !== 'string' || !value.name.trim()) throw new Error('Rule pack is missing required field: name');
+  if (!Array.isArray(value.rules) || value.rules.length === 0) throw new Error('Rule pack has no rules');
+
+  const seen = new Set<string>();
+  const pack: CustomRulePack = {
+    format: 'ora-plan-rules',
+    version: 1,
+    name: value.name.trim(),
+    rules: value.rules.map((rule, index) => checkRule(rule, index, seen)),
+  };
+  if (typeof value.description === 'string' && value.description.trim()) pack.description = value.description;
+  return pack;
+}
+
+export function parseRulePack(input: string): CustomRulePack {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(input);
+  } catch (err) {
+    throw new Error(`Rule pack is not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return validateRulePack(parsed);
+}
+
+/** Rule packs read from storage: valid packs only, first one wins per name. */
+export function sanitizeRulePacks(value: unknown): CustomRulePack[] {
+  if (!Array.isArray(value)) return [];
+  const packs: CustomRulePack[] = [];
+  for (const entry of value) {
+    try {
+      const pack = validateRulePack(entry);
+      if (!packs.some((p) => p.name === pack.name)) packs.push(pack);
+    } catch {
+      // Drop packs a newer or older build stored in a shape this one can't read.
+    }
+  }
+  return packs;
+}
+
+export function rulePackFilename(pack: CustomRulePack): string {
+  const slug = pack.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'advisor'}-rules.json`;
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .trim()
+    .split('')
+    .map((ch) => (ch === '*' ? '.*' : ch === '?' ? '.' : ch.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+function toList(patterns: string | string[] | undefined): RegExp[] | undefined {
+  if (patterns === undefined) return undefined;
+  return (Array.isArray(patterns) ? patterns : [patterns]).map(globToRegExp);
+}
+
+function metricValue(node: PlanNode, metric: CustomRuleMetric): number | undefined {
+  if (metric === 'rowsPerStart') {
+    return node.actualRows !== undefined && node.starts ? node.actualRows / node.starts : undefined;
+  }
+  return node[metric];
+}
+
+function compare(actual: number, op: CustomRuleComparator, expected: number): boolean {
+  switch (op) {
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    case '=': return actual === expected;
+    case '!=': return actual !== expected;
+  }
+}
+
+type NodePredicate = (node: PlanNode) => boolean;
+
+function compileNodeMatch(match: CustomRuleNodeMatch): NodePredicate {
+  const operations = toList(match.operation);
+  const objectNames = toList(match.objectName);
+  const metrics = match.metrics ?? [];
+  return (node) => {
+    if (operations && !operations.some((re) => re.test(node.operation))) return false;
+    if (objectNames) {
+      const name = node.objectName;
+      if (!name) return false;
+      const bare = name.slice(name.lastIndexOf('.') + 1);
+      if (!objectNames.some((re) => re.test(name) || re.test(bare))) return false;
+    }
+    // A figure the plan doesn't carry never satisfies a condition.
+    return metrics.every((condition) => {
+      const actual = metricValue(node, condition.metric);
+      return actual !== undefined && compare(actual, condition.op, condition.value);
+    });
+  };
+}
+
+function formatMetric(value: number): string {
+  return Number.isInteger(value) ? value.toLocaleString() : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+function placeholderValue(node: PlanNode | undefined, field: string): string {
+  if (!node) return '?';
+  if (field === 'id') return String(node.id);
+  if (field === 'operation') return node.operation;
+  if (field === 'object') return node.objectName ?? '?';
+  const value = metricValue(node, field as CustomRuleMetric);
+  return value === undefined ? '?' : formatMetric(value);
+}
+
+const PLACEHOLDER_FIELDS = new Set(['id', 'operation', 'object', ...Object.keys(CUSTOM_RULE_METRICS)]);
+
+/** Fill `{field}`, `{parent.field}` and `{child.field}` placeholders; unknown ones are left as written. */
+export function renderRuleTemplate(
+  template: string,
+  nodes: { node: PlanNode; parent?: PlanNode; child?: PlanNode },
+): string {
+  return template.replace(/\{(?:(parent|child)\.)?(\w+)\}/g, (whole, relative: string | undefined, field: string) => {
+    if (!PLACEHOLDER_FIELDS.has(field)) return whole;
+    return placeholderValue(relative ? nodes[relative as 'parent' | 'child'] : nodes.node, field);
+  });
+}
+
+function usesRuntimeMetrics(...matches: Array<CustomRuleNodeMatch | undefined>): boolean {
+  return matches.some((match) => match?.metrics?.some((condition) => CUSTOM_RULE_METRICS[condition.metric].runtime));
+}
+
+function compileRule(pack: CustomRulePack, rule: CustomRuleDefinition): AdvisorRule {
+  const matchesNode = compileNodeMatch(rule.match);
+  const matchesParent = rule.parent ? compileNodeMatch(rule.parent) : undefined;
+  const matchesChild = rule.child ? compileNodeMatch(rule.child) : undefined;
+
+  return {
+    id: rule.id,
+    requiresActualStats: usesRuntimeMetrics(rule.match, rule.parent, rule.child),
+
+    evaluate(ctx: RuleContext): Finding[] {
+      const findings: Finding[] = [];
+      const byId = new Map(ctx.plan.allNodes.map((n) => [n.id, n]));
+
+      for (const node of ctx.plan.allNodes) {
+        if (!matchesNode(node)) continue;
+        const parent = node.parentId !== undefined ? byId.get(node.parentId) : undefined;
+        if (matchesParent && (!parent || !matchesParent(parent))) continue;
+        const child = matchesChild ? node.children.find(matchesChild) : undefined;
+        if (matchesChild && !child) continue;
+
+        const nodes = { node, parent, child };
+        findings.push({
+          ruleId: rule.id,
+          rulePack: pack.name,
+          severity: rule.severity,
+          nodeIds: [node.id],
+          title: renderRuleTemplate(rule.title, nodes),
+          explanation: renderRuleTemplate(rule.explanation, nodes),
+          suggestion: rule.suggestion ? renderRuleTemplate(rule.suggestion, nodes) : '',
+        });
+
+        if (findings.length >= ctx.thresholds.maxFindingsPerRule) break;
+      }
+
+      return findings;
+    },
+  };
+}
+
+/** The rules of a pack as advisor rules, evaluated by the engine next to the built-in ones. */
+export function compileRulePack(pack: CustomRulePack): AdvisorRule[] {
+  return pack.rules.map((rule) => compileRule(pack, rule));
+}
@@ -5,6 +5,9 @@ import { findUsedIndexKeys } from '../metadata/indexes';
 import { DEFAULT_THRESHOLDS, type AdvisorThresholds } from './config';
 import type { AdvisorReport, AdvisorRule, Finding, FindingSeverity, FindObjectFn, RuleContext } from './types';
 import { ALL_RULES } from './rules';
+import { compileRulePack, type CustomRulePack } from './customRules';
+import { resolveAdaptivePlan } from '../adaptivePlan';
+import { buildImpactEstimator } from './impact';
 
 const SEVERITY_RANK: Record<FindingSeverity, number> = {
   critical: 0,
@@ -15,9 +18,12 @@ const SEVERITY_RANK: Record<FindingSeverity, number> = {
 interface CacheEntry {
   bundle: MetadataBundle | null;
   thresholds: AdvisorThresholds;
+  rulePacks: readonly CustomRulePack[];
   report: AdvisorReport;
 }
 
+const NO_RULE_PACKS: readonly CustomRulePack[] = [];
+
 const CACHE = new WeakMap<ParsedPlan, CacheEntry>();
 
 function buildFindObject(bundle: MetadataBundle | null): FindObjectFn {
@@ -32,7 +38,14 @@ function buildFindObject(bundle: MetadataBundle | null): FindObjectFn {
   };
 }
 
-function buildReport(plan: ParsedPlan, bundle: MetadataBundle | null, thresholds: AdvisorThresholds): AdvisorReport {
+function buildReport(
+  fullPlan: ParsedPlan,
+  bundle: MetadataBundle | null,
+  thresholds: AdvisorThresholds,
+  rulePacks: readonly CustomRulePack[],
+): AdvisorReport {
+  // Rules judge the plan that ran: inactive rows of an adaptive plan are left out.
+  const plan = resolveAdaptivePlan(fullPlan);
   const ctx: RuleContext = {
     plan,
     bundle,
@@ -43,7 +56,9 @@ function buildReport(plan: ParsedPlan, bundle: MetadataBundle | null, thresholds
 
   const findings: Finding[] = [];
 
-  for (const rule of ALL_RULES as AdvisorRule[]) {
+  const rules: AdvisorRule[] = [...ALL_RULES, ...rulePacks.flatMap(compileRulePack)];
+
+  for (const rule of rules) {
     if (rule.requiresMetadata && !bundle) continue;
     if (rule.requiresActualStats && !plan.hasActualStats) continue;
     try {
@@ -54,6 +69,11 @@ function buildReport(plan: ParsedPlan, bundle: MetadataBundle | null, thresholds
     }
   }
 
+  const estimateImpact = buildImpactEstimator(plan);
+  for (const finding of findings) {
+    finding.impact ??= estimateImpact(finding.nodeIds);
+  }
+
   findings.sort((a, b) => {
     const rankDiff = SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity];
     if (rankDiff !== 0) return rankDiff;
@@ -63,35 +83,56 @@ function buildReport(plan: ParsedPlan, bundle: MetadataBundle | null, thresholds
   const findingsByNodeId = new Map<number, Finding[]>();
   const counts: Record<FindingSeverity, number> = { critical: 0, warning: 0, info: 0 };
   const maxSeverityByNodeId = new Map<number, FindingSeverity>();
+  const impactfulSeverityByNodeId = new Map<number, FindingSeverity>();
+  const raiseSeverity = (map: Map<number, FindingSeverity>, nodeId: number, severity: FindingSeverity) => {
+    const currentMax = map.get(nodeId);
+    if (!currentMax || SEVERITY_RANK[severity] < SEVERITY_RANK[currentMax]) map.set(nodeId, severity);
+  };
 
   for (const finding of findings) {
     counts[finding.severity]++;
+    const impactful = !finding.impact || finding.impact.share * 100 >= thresholds.impactBadgePercent;
     for (const nodeId of finding.nodeIds) {
       const arr = findingsByNodeId.get(nodeId);
       if (arr) arr.push(finding);
       else findingsByNodeId.set(nodeId, [finding]);
 
-      const currentMax = maxSeverityByNodeId.get(nodeId);
-      if (!currentMax || SEVERITY_RANK[finding.severity] < SEVERITY_RANK[currentMax]) {
-        maxSeverityByNodeId.set(nodeId, finding.severity);
-      }
+      raiseSeverity(maxSeverityByNodeId, nodeId, finding.severity);
+      if (impactful) raiseSeverity(impactfulSeverityByNodeId, nodeId, finding.severity);
     }
   }
 
-  return { findings, findingsByNodeId, counts, maxSeverityByNodeId };
+  return { findings, findingsByNodeId, counts, maxSeverityByNodeId, impactfulSeverityByNodeId };
 }
 
 export function runAdvisor(
   plan: ParsedPlan,
   bundle: MetadataBundle | null,
   thresholds: AdvisorThresholds = DEFAULT_THRESHOLDS,
+  rulePacks: readonly CustomRulePack[] = NO_RULE_PACKS,
 ): AdvisorReport {
+  // Settings hand out a fresh [] after every load; any empty list is the same key.
+  if (rulePacks.length === 0) rulePacks = NO_RULE_PACKS;
   const cached = CACHE.get(plan);
-  if (cached && cached.bundle === bundle && cached.thresholds === thresholds) {
+  if (cached && cached.bundle === bundle && cached.thresholds === thresholds && cached.rulePacks === rulePacks) {
     return cached.report;
   }
 
-  const report = buildReport(plan, bundle, thresholds);
-  CACHE.set(plan, { bundle, thresholds, report });
+  const report = buildReport(plan, bundle, thresholds, rulePacks);
+  CACHE.set(plan, { bundle, thresholds, rulePacks, report });
   return report;
 }
+
+/**
+ * Seed the cache with a report built elsewhere (the pipeline worker), so the
+ * next `runAdvisor` call for the same plan, bundle and thresholds, with no
+ * custom rule packs loaded, returns it without evaluating the rules again.
+ */
+export function primeAdvisorReport(
+  plan: ParsedPlan,
+  bundle: MetadataBundle | null,
+  report: AdvisorReport,
+  thresholds: AdvisorThresholds = DEFAULT_THRESHOLDS,
+): void {
+  CACHE.set(plan, { bundle, thresholds, rulePacks: NO_RULE_PACKS, report });
+}
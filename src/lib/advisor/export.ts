@@ -0,0 +1,40 @@
+import type { ParsedPlan, PlanSource } from '../types';
+import type { AdvisorReport, Finding, FindingSeverity } from './types';
+import type { AdvisorProfile } from './profiles';
+
+/** Advisor findings saved as JSON, with the threshold profile that produced them. */
+export interface FindingsExport {
+  format: 'ora-plan-findings';
+  version: 1;
+  exportedAt: string;
+  planSource: PlanSource;
+  sqlId?: string;
+  planHashValue?: string;
+  profile: AdvisorProfile;
+  counts: Record<FindingSeverity, number>;
+  findings: Finding[];
+}
+
+export function buildFindingsExport(
+  plan: ParsedPlan,
+  report: AdvisorReport,
+  profile: AdvisorProfile,
+  exportedAt: string = new Date().toISOString(),
+): FindingsExport {
+  return {
+    format: 'ora-plan-findings',
+    version: 1,
+    exportedAt,
+    planSource: plan.source,
+    sqlId: plan.sqlId,
+    planHashValue: plan.planHashValue,
+    profile: { name: profile.name, thresholds: { ...profile.thresholds } },
+    counts: { ...report.counts },
+    findings: report.findings,
+  };
+}
+
+export function findingsExportFilename(data: FindingsExport): string {
+  const parts = [data.sqlId, data.planHashValue].filter((part): part is string => Boolean(part));
+  return `${parts.length > 0 ? parts.join('-') : 'plan'}-findings.json`;
+}
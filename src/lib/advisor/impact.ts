@@ -0,0 +1,79 @@
+import type { ParsedPlan, PlanNode } from '../types';
+
+/** What a finding's impact share is measured in. */
+export type ImpactBasis = 'activity' | 'time' | 'cost';
+
+export interface FindingImpact {
+  /** Share (0–1) of the statement the finding's nodes account for. */
+  share: number;
+  basis: ImpactBasis;
+}
+
+export const IMPACT_BASIS_LABELS: Record<ImpactBasis, string> = {
+  activity: 'of sampled DB time',
+  time: 'of elapsed time',
+  cost: 'of optimizer cost',
+};
+
+function selfCost(node: PlanNode): number {
+  if (node.cost === undefined) return 0;
+  return Math.max(0, node.cost - node.children.reduce((sum, child) => sum + (child.cost ?? 0), 0));
+}
+
+function selfTime(node: PlanNode): number {
+  if (node.selfTime !== undefined) return node.selfTime;
+  if (node.actualTime === undefined) return 0;
+  return Math.max(0, node.actualTime - node.children.reduce((sum, child) => sum + (child.actualTime ?? 0), 0));
+}
+
+/**
+ * Build an estimator of how much of the statement a finding's nodes account
+ * for: ASH activity when sampled, else self time, else optimizer cost. The
+ * first node counts with its whole subtree (a nested loop is as slow as its
+ * inner side), the others only with their own share. Undefined when the plan
+ * carries none of these, the finding names no node, or it is attached to the
+ * plan root: the root's subtree is the whole statement, so such a finding is
+ * about the plan as a whole rather than a share of it.
+ */
+export function buildImpactEstimator(plan: ParsedPlan): (nodeIds: number[]) => FindingImpact | undefined {
+  const nodes = plan.allNodes;
+  let basis: ImpactBasis;
+  let weight: (node: PlanNode) => number;
+  let total: number;
+
+  if (nodes.some((n) => n.activityPercent !== undefined)) {
+    basis = 'activity';
+    weight = (node) => node.activityPercent ?? 0;
+    // Activity is a percentage of all samples, including those outside the plan lines.
+    total = Math.max(100, nodes.reduce((sum, n) => sum + (n.activityPercent ?? 0), 0));
+  } else if (nodes.some((n) => n.selfTime !== undefined || n.actualTime !== undefined)) {
+    basis = 'time';
+    weight = selfTime;
+    total = nodes.reduce((sum, n) => sum + selfTime(n), 0);
+  } else {
+    basis = 'cost';
+    weight = selfCost;
+    total = nodes.reduce((sum, n) => sum + selfCost(n), 0);
+  }
+  if (total <= 0) return () => undefined;
+
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+
+  return (nodeIds) => {
+    const primary = byId.get(nodeIds[0]);
+    if (!primary || primary === plan.rootNode) return undefined;
+    const counted = new Set<PlanNode>();
+    const addSubtree = (node: PlanNode) => {
+      counted.add(node);
+      node.children.forEach(addSubtree);
+    };
+    addSubtree(primary);
+    for (const id of nodeIds.slice(1)) {
+      const node = byId.get(id);
+      if (node) counted.add(node);
+    }
+    let sum = 0;
+    for (const node of counted) sum += weight(node);
+    return { share: Math.min(1, sum / total), basis };
+  };
+}
@@ -1,5 +1,46 @@
 export type { FindingSeverity, Finding, RuleContext, AdvisorRule, AdvisorReport, FindObjectFn } from './types';
-export { DEFAULT_THRESHOLDS, type AdvisorThresholds } from './config';
-export { runAdvisor } from './engine';
-export { findImplicitConversions, type ConversionHit } from './predicates';
+export { DEFAULT_THRESHOLDS, type AdvisorThresholds, type AdvisorThresholdKey } from './config';
+export {
+  THRESHOLD_FIELDS,
+  BUILTIN_PROFILES,
+  DEFAULT_PROFILE_NAME,
+  isBuiltinProfile,
+  profileDefaults,
+  validateThreshold,
+  validateThresholdPairs,
+  sanitizeThresholds,
+  sanitizeProfiles,
+  type AdvisorProfile,
+  type ThresholdField,
+  type ThresholdUnit,
+} from './profiles';
+export { buildFindingsExport, findingsExportFilename, type FindingsExport } from './export';
+export {
+  CUSTOM_RULE_METRICS,
+  CUSTOM_RULE_COMPARATORS,
+  parseRulePack,
+  validateRulePack,
+  sanitizeRulePacks,
+  rulePackFilename,
+  compileRulePack,
+  renderRuleTemplate,
+  type CustomRulePack,
+  type CustomRuleDefinition,
+  type CustomRuleNodeMatch,
+  type CustomRuleMetricCondition,
+  type CustomRuleMetric,
+  type CustomRuleComparator,
+} from './customRules';
+export { runAdvisor, primeAdvisorReport } from './engine';
+export { buildImpactEstimator, IMPACT_BASIS_LABELS, type FindingImpact, type ImpactBasis } from './impact';
+export { findImplicitConversions, findWrappedColumns, findEqualityColumns, type ConversionHit, type WrappedColumnHit, type WrappingFunction } from './predicates';
+export {
+  OPTIMIZER_PARAMETERS,
+  parameterDefault,
+  compareReleases,
+  isHiddenOptimizerParameter,
+  describeHiddenParameter,
+  type OptimizerParameterInfo,
+  type OptimizerParameterDefault,
+} from './optimizerParameters';
 export { ALL_RULES } from './rules';
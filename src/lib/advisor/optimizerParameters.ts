@@ -0,0 +1,163 @@
+import type { PlanNode } from '../types';
+import type { FindingSeverity } from './types';
+
+export interface OptimizerParameterDefault {
+  /** First optimizer_features_enable release the default applies to. */
+  since: string;
+  value: string;
+}
+
+export interface OptimizerParameterInfo {
+  name: string;
+  /** Defaults by release, oldest first; a release before the first entry doesn't know the parameter. */
+  defaults: OptimizerParameterDefault[];
+  severity: FindingSeverity;
+  /** How a non-default `value` steers the optimizer. */
+  describe(value: string): string;
+  /** Plan lines a non-default value most plausibly shaped. */
+  shapes?(node: PlanNode, value: string): boolean;
+}
+
+const isIndexAccess = (node: PlanNode) => /^INDEX /.test(node.operation.toUpperCase());
+const isNestedLoop = (node: PlanNode) => node.operation.toUpperCase().startsWith('NESTED LOOPS');
+const isJoin = (node: PlanNode) => /^(NESTED LOOPS|HASH JOIN|MERGE JOIN)/.test(node.operation.toUpperCase());
+const isWorkarea = (node: PlanNode) => /^(HASH |SORT |WINDOW SORT|BUFFER SORT)/.test(node.operation.toUpperCase());
+
+/** Optimizer parameters that commonly differ between environments, with their defaults per release. */
+export const OPTIMIZER_PARAMETERS: OptimizerParameterInfo[] = [
+  {
+    name: 'optimizer_features_enable',
+    defaults: [],
+    severity: 'warning',
+    describe: (value) => `The optimizer behaves as in release ${value}: transformations, costing fixes and adaptive features introduced after it are switched off.`,
+  },
+  {
+    name: 'optimizer_mode',
+    defaults: [{ since: '8.0.0', value: 'choose' }, { since: '10.1.0', value: 'all_rows' }],
+    severity: 'warning',
+    describe: (value) => /^first_rows/i.test(value)
+      ? `${value.toUpperCase()} costs plans for returning the first rows fast, which favours nested loops and index access over hash joins and full scans even when the whole result is fetched.`
+      : `Mode ${value.toUpperCase()} replaces ALL_ROWS costing, the mode statistics and defaults are tuned for.`,
+    shapes: (node) => isNestedLoop(node) || isIndexAccess(node),
+  },
+  {
+    name: 'optimizer_index_cost_adj',
+    defaults: [{ since: '8.0.0', value: '100' }],
+    severity: 'warning',
+    describe: (value) => Number(value) < 100
+      ? `Index access is costed at ${value}% of its real cost, so index range scans and nested loops win over full scans and hash joins they should lose to.`
+      : `Index access is costed at ${value}% of its real cost, pushing the optimizer towards full scans and hash joins.`,
+    shapes: (node, value) => (Number(value) < 100 ? isIndexAccess(node) || isNestedLoop(node) : /FULL$/.test(node.operation.toUpperCase())),
+  },
+  {
+    name: 'optimizer_index_caching',
+    defaults: [{ since: '8.0.0', value: '0' }],
+    severity: 'info',
+    describe: (value) => `The optimizer assumes ${value}% of index blocks probed by nested loops and in-list iterators are cached, making repeated index probes look cheaper.`,
+    shapes: (node) => isNestedLoop(node) || node.operation.toUpperCase().startsWith('INLIST ITERATOR'),
+  },
+  {
+    name: 'cursor_sharing',
+    defaults: [{ since: '8.1.6', value: 'exact' }],
+    severity: 'warning',
+    describe: (value) => `CURSOR_SHARING=${value.toUpperCase()} replaces literals with system binds (:SYS_B_n), so one plan, peeked from whichever values parsed it first, serves every literal and histograms on those columns lose most of their effect.`,
+  },
+  {
+    name: 'optimizer_adaptive_features',
+    defaults: [{ since: '12.1.0', value: 'true' }],
+    severity: 'info',
+    describe: () => 'Adaptive plans, SQL plan directives and automatic reoptimization are off, so a misestimated join method cannot switch at run time.',
+    shapes: isJoin,
+  },
+  {
+    name: 'optimizer_adaptive_plans',
+    defaults: [{ since: '12.2.0', value: 'true' }],
+    severity: 'info',
+    describe: () => 'Adaptive plans are off: a nested loop or hash join chosen on a bad estimate can no longer switch at run time, and parallel distribution cannot adapt.',
+    shapes: isJoin,
+  },
+  {
+    name: 'optimizer_adaptive_statistics',
+    defaults: [{ since: '12.2.0', value: 'false' }],
+    severity: 'info',
+    describe: () => 'Adaptive statistics are on (the 12.1 behaviour): SQL plan directives and statistics feedback trigger dynamic sampling more often, which makes parse times and plans less stable.',
+  },
+  {
+    name: 'optimizer_dynamic_sampling',
+    defaults: [{ since: '9.2.0', value: '1' }, { since: '10.1.0', value: '2' }],
+    severity: 'info',
+    describe: (value) => value === '0'
+      ? 'Dynamic sampling is off, so tables without statistics are costed from built-in defaults.'
+      : `Dynamic sampling runs at level ${value}, so estimates come from parse-time samples rather than only the gathered statistics and can differ from one parse to the next.`,
+  },
+  {
+    name: 'optimizer_use_sql_plan_baselines',
+    defaults: [{ since: '11.1.0', value: 'true' }],
+    severity: 'warning',
+    describe: () => 'SQL plan baselines are ignored, so plans accepted in another environment are not enforced here.',
+  },
+  {
+    name: 'workarea_size_policy',
+    defaults: [{ since: '9.0.1', value: 'auto' }],
+    severity: 'warning',
+    describe: () => 'Workareas are sized by the fixed hash_area_size and sort_area_size rather than from pga_aggregate_target, which both changes hash join and sort costing and makes spills to temp far more likely.',
+    shapes: isWorkarea,
+  },
+  {
+    name: 'star_transformation_enabled',
+    defaults: [{ since: '8.0.0', value: 'false' }],
+    severity: 'info',
+    describe: (value) => `Star transformation is ${value.toUpperCase()}: fact tables can be rewritten into bitmap index driven subqueries on the dimension keys.`,
+  },
+];
+
+/** Known hidden parameters: their default and what a changed value does. */
+const HIDDEN_PARAMETERS: Record<string, { default: string; effect: string }> = {
+  _optim_peek_user_binds: { default: 'true', effect: 'Bind peeking is off, so bind values are costed with default selectivities and histograms are ignored for them.' },
+  _optimizer_use_feedback: { default: 'true', effect: 'Statistics (cardinality) feedback is off, so misestimates repeat on every execution.' },
+  _optimizer_adaptive_cursor_sharing: { default: 'true', effect: 'Adaptive cursor sharing is off, so a bind-sensitive cursor keeps one plan for every bind value.' },
+  _optimizer_extended_cursor_sharing_rel: { default: 'simple', effect: 'Extended cursor sharing is off, so a bind-sensitive cursor keeps one plan for every bind value.' },
+  _optimizer_cost_based_transformation: { default: 'linear', effect: 'Cost-based query transformations (unnesting, view merging, OR expansion) are limited or off.' },
+  _optimizer_join_elimination_enabled: { default: 'true', effect: 'Join elimination is off, so joins to tables whose columns are never used still run.' },
+  _optimizer_unnest_scalar_sq: { default: 'true', effect: 'Scalar subquery unnesting is off, so scalar subqueries run once per row.' },
+  _optimizer_squ_bottomup: { default: 'true', effect: 'Bottom-up subquery unnesting is off.' },
+  _optimizer_gather_feedback: { default: 'true', effect: 'Statistics feedback is no longer collected.' },
+  _optimizer_ignore_hints: { default: 'false', effect: 'Hints in the statement are ignored.' },
+  _optimizer_aggr_groupby_elim: { default: 'true', effect: 'Group-by elimination is off.' },
+  _optimizer_batch_table_access_by_rowid: { default: 'true', effect: 'Batched table access by ROWID is off.' },
+  _optimizer_mjc_enabled: { default: 'true', effect: 'Cartesian merge joins are not considered.' },
+  _hash_join_enabled: { default: 'true', effect: 'Hash joins are not considered.' },
+};
+
+/** Whether `name` is a hidden optimizer parameter (`_optimizer_*`, `_optim_*`, a few related underscores). */
+export function isHiddenOptimizerParameter(name: string): boolean {
+  return /^_optim/i.test(name) || Object.prototype.hasOwnProperty.call(HIDDEN_PARAMETERS, name.toLowerCase());
+}
+
+/** How a hidden parameter's `value` changes the optimizer; null when it is the known default. */
+export function describeHiddenParameter(name: string, value: string): string | null {
+  const known = HIDDEN_PARAMETERS[name.toLowerCase()];
+  if (!known) return `Hidden parameter ${name} is set to ${value}. Underscore parameters change optimizer internals without documentation and are usually left over from a support workaround.`;
+  return known.default === value.toLowerCase() ? null : known.effect;
+}
+
+/** Compare dotted release numbers such as `19.1.0` and `12.2.0.1`. */
+export function compareReleases(a: string, b: string): number {
+  const pa = a.split('.').map((part) => parseInt(part, 10) || 0);
+  const pb = b.split('.').map((part) => parseInt(part, 10) || 0);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Default of `info` under optimizer_features_enable `release` (the newest
+ * default when the release is unknown); null when the release predates the
+ * parameter.
+ */
+export function parameterDefault(info: OptimizerParameterInfo, release: string | undefined): string | null {
+  const applicable = release ? info.defaults.filter((d) => compareReleases(d.since, release) <= 0) : info.defaults;
+  return applicable.length > 0 ? applicable[applicable.length - 1].value : null;
+}
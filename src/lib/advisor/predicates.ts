@@ -47,3 +47,116 @@ export function findImplicitConversions(access?: string, filter?: string): Conve
   if (filter) hits.push(...scan(filter, 'filter'));
   return hits;
 }
+
+/** Functions that hide a column from a plain B-tree index when wrapped around it. */
+const WRAPPING_FUNCTIONS = [
+  'UPPER', 'LOWER', 'INITCAP', 'TRUNC', 'NVL', 'NVL2', 'COALESCE', 'SUBSTR', 'SUBSTRB',
+  'TRIM', 'LTRIM', 'RTRIM', 'REPLACE', 'ROUND', 'ABS',
+] as const;
+
+export type WrappingFunction = (typeof WRAPPING_FUNCTIONS)[number];
+
+export interface WrappedColumnHit {
+  /** Outermost wrapping function, or the operator for arithmetic and concatenation. */
+  wrapper: WrappingFunction | '+' | '-' | '*' | '/' | '||';
+  column: string;
+  /** The wrapped expression as written in the predicate. */
+  expression: string;
+  /** The expression with table qualifiers stripped, as it would appear in a function-based index. */
+  indexExpression: string;
+  /** Every column the expression reads. */
+  columns: string[];
+  /** True when the expression reads a bind variable, which no index expression can contain. */
+  hasBinds: boolean;
+}
+
+const WRAPPING_FN_RE = new RegExp(`\\b(${WRAPPING_FUNCTIONS.join('|')})\\(\\s*(${QUALIFIED_COLUMN})\\s*[,)]`, 'g');
+const ENCLOSING_FN_RE = new RegExp(`\\b(${WRAPPING_FUNCTIONS.join('|')})\\(\\s*$`);
+const OPERAND = `(?:\\d+(?:\\.\\d+)?|'[^']*'|:\\w+|${QUALIFIED_COLUMN})`;
+const ARITHMETIC_RE = new RegExp(`(${QUALIFIED_COLUMN})\\s*(\\|\\||[-+*/])\\s*${OPERAND}`, 'g');
+const COLUMN_REF_RE = new RegExp(QUALIFIED_COLUMN, 'g');
+
+/** End index (exclusive) of the parenthesised group opening at `open`, skipping quoted text. */
+function closingParen(text: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === "'" || ch === '"') {
+      const end = text.indexOf(ch, i + 1);
+      if (end === -1) return -1;
+      i = end;
+    } else if (ch === '(') {
+      depth++;
+    } else if (ch === ')') {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+  }
+  return -1;
+}
+
+function describeExpression(expression: string): Pick<WrappedColumnHit, 'indexExpression' | 'columns' | 'hasBinds'> {
+  const withoutStrings = expression.replace(/'[^']*'/g, "''");
+  return {
+    indexExpression: expression.replace(/(?:"[^"]+"\.)+("[^"]+")/g, '$1'),
+    columns: [...new Set((withoutStrings.match(COLUMN_REF_RE) ?? []).map(stripQuotes))],
+    hasBinds: /:\w+/.test(withoutStrings),
+  };
+}
+
+/**
+ * Columns a predicate wraps in a function (`UPPER(col)`, `TRUNC(col)`,
+ * `NVL(col, 0)`, …), arithmetic or concatenation, which keeps a plain index
+ * on the column from being used for it. Nested wrappers are reported once, as
+ * the outermost call.
+ */
+export function findWrappedColumns(predicate: string | undefined): WrappedColumnHit[] {
+  if (!predicate) return [];
+  const hits: WrappedColumnHit[] = [];
+  const seen = new Set<string>();
+  const add = (hit: Omit<WrappedColumnHit, keyof ReturnType<typeof describeExpression>>) => {
+    if (seen.has(hit.expression)) return;
+    seen.add(hit.expression);
+    hits.push({ ...hit, ...describeExpression(hit.expression) });
+  };
+
+  for (const match of predicate.matchAll(WRAPPING_FN_RE)) {
+    let start = match.index;
+    let wrapper = match[1] as WrappingFunction;
+    for (let outer = ENCLOSING_FN_RE.exec(predicate.slice(0, start)); outer; outer = ENCLOSING_FN_RE.exec(predicate.slice(0, start))) {
+      start = outer.index;
+      wrapper = outer[1] as WrappingFunction;
+    }
+    const end = closingParen(predicate, predicate.indexOf('(', start));
+    if (end === -1) continue;
+    add({ wrapper, column: stripQuotes(match[2]), expression: predicate.slice(start, end) });
+  }
+
+  for (const match of predicate.matchAll(ARITHMETIC_RE)) {
+    // Arithmetic inside a wrapping call is already covered by the call.
+    if (hits.some((hit) => hit.expression.includes(match[0]))) continue;
+    add({ wrapper: match[2] as WrappedColumnHit['wrapper'], column: stripQuotes(match[1]), expression: match[0] });
+  }
+
+  return hits;
+}
+
+const EQUALITY_VALUE = `(?:-?\\d+(?:\\.\\d+)?|'[^']*'|:\\w+)`;
+const COLUMN_EQUALS_RE = new RegExp(`(${QUALIFIED_COLUMN})\\s*=\\s*${EQUALITY_VALUE}`, 'g');
+const VALUE_EQUALS_RE = new RegExp(`${EQUALITY_VALUE}\\s*=\\s*(${QUALIFIED_COLUMN})`, 'g');
+
+/**
+ * Columns compared for equality with a literal or bind (`"T"."COUNTRY"='DE'`,
+ * `"CURRENCY"=:B1`). Joins (column = column) and range comparisons are left
+ * out: only equality filters on constants multiply selectivities the way
+ * column groups correct.
+ */
+export function findEqualityColumns(...predicates: Array<string | undefined>): string[] {
+  const columns = new Set<string>();
+  for (const predicate of predicates) {
+    if (!predicate) continue;
+    for (const match of predicate.matchAll(COLUMN_EQUALS_RE)) columns.add(stripQuotes(match[1]));
+    for (const match of predicate.matchAll(VALUE_EQUALS_RE)) columns.add(stripQuotes(match[1]));
+  }
+  return [...columns];
+}
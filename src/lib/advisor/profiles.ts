@@ -0,0 +1,165 @@
+import { DEFAULT_THRESHOLDS, type AdvisorThresholdKey, type AdvisorThresholds } from './config';
+
+export type ThresholdUnit = 'count' | 'bytes' | 'fraction' | 'percent';
+
+export interface ThresholdField {
+  key: AdvisorThresholdKey;
+  /** Rule family the threshold belongs to, for grouping in the settings panel. */
+  group: string;
+  label: string;
+  description: string;
+  unit: ThresholdUnit;
+  min: number;
+  max?: number;
+}
+
+/** Every advisor threshold with its editing bounds, in settings-panel order. */
+export const THRESHOLD_FIELDS: ThresholdField[] = [
+  { key: 'nlStartsWarn', group: 'Nested loops', label: 'Inner starts (warning)', description: 'Probes of a nested loop inner side before it is flagged', unit: 'count', min: 1 },
+  { key: 'nlStartsCritical', group: 'Nested loops', label: 'Inner starts (critical)', description: 'Probes that make the finding critical', unit: 'count', min: 1 },
+  { key: 'nlInnerRowsWarn', group: 'Nested loops', label: 'Inner rows (warning)', description: 'Total rows fetched by the inner side before it is flagged', unit: 'count', min: 1 },
+  { key: 'nlInnerRowsCritical', group: 'Nested loops', label: 'Inner rows (critical)', description: 'Total inner rows that make the finding critical', unit: 'count', min: 1 },
+  { key: 'subqueryStartsWarn', group: 'Subqueries', label: 'Executions (warning)', description: 'Executions of a FILTER or scalar subquery before it is flagged', unit: 'count', min: 1 },
+  { key: 'subqueryStartsCritical', group: 'Subqueries', label: 'Executions (critical)', description: 'Executions that make the finding critical', unit: 'count', min: 1 },
+  { key: 'cartesianMinSideRows', group: 'Cartesian joins', label: 'Rows per side', description: 'Both inputs must exceed this row count', unit: 'count', min: 0 },
+  { key: 'cartesianCriticalProduct', group: 'Cartesian joins', label: 'Product (critical)', description: 'Row product that makes the finding critical', unit: 'count', min: 1 },
+  { key: 'ftsMinTableRows', group: 'Full scans', label: 'Table rows', description: 'Smallest table whose full scan is judged', unit: 'count', min: 0 },
+  { key: 'ftsSelectivityWarn', group: 'Full scans', label: 'Selectivity (warning)', description: 'Fraction of the table returned at or below which the scan is flagged', unit: 'fraction', min: 0, max: 1 },
+  { key: 'ftsSelectivityCritical', group: 'Full scans', label: 'Selectivity (critical)', description: 'Fraction returned that makes the finding critical', unit: 'fraction', min: 0, max: 1 },
+  { key: 'ftsCriticalMinTableRows', group: 'Full scans', label: 'Table rows (critical)', description: 'Smallest table a critical full scan finding is raised for', unit: 'count', min: 0 },
+  { key: 'ftsFallbackMaxRowsPerStart', group: 'Full scans', label: 'Rows per start (no stats)', description: 'Without table stats: at most this many rows per start', unit: 'count', min: 0 },
+  { key: 'ftsFallbackMinGetsPerStart', group: 'Full scans', label: 'Buffer gets per start (no stats)', description: 'Without table stats: at least this many buffer gets per start', unit: 'count', min: 0 },
+  { key: 'spillCriticalBytes', group: 'Workareas', label: 'Spill (critical)', description: 'Temp space that makes a spill critical', unit: 'bytes', min: 0 },
+  { key: 'wideRowBytes', group: 'Workareas', label: 'Wide row', description: 'Projected row width counted as wide', unit: 'bytes', min: 1 },
+  { key: 'wideRowWorkareaBytes', group: 'Workareas', label: 'Wide row workarea', description: 'Rows x width a hash join or sort must hold before it is flagged', unit: 'bytes', min: 0 },
+  { key: 'hashBuildMinBytes', group: 'Workareas', label: 'Hash build size', description: 'Bytes a hash join build input must reach before its side is judged', unit: 'bytes', min: 0 },
+  { key: 'hashBuildInversionRatio', group: 'Workareas', label: 'Build / probe ratio', description: 'How many times larger than the probe input a build input must be to be flagged', unit: 'count', min: 1 },
+  { key: 'remoteRowsWarn', group: 'Database links', label: 'Remote rows (warning)', description: 'Rows pulled over a database link before it is flagged', unit: 'count', min: 1 },
+  { key: 'remoteRowsCritical', group: 'Database links', label: 'Remote rows (critical)', description: 'Rows pulled that make the finding critical', unit: 'count', min: 1 },
+  { key: 'offloadMinReadBytes', group: 'Exadata', label: 'Storage scan read', description: 'Bytes a STORAGE FULL scan must read before its offload is judged', unit: 'bytes', min: 0 },
+  { key: 'offloadEfficiencyWarn', group: 'Exadata', label: 'Offload efficiency', description: 'Cell offload percentage below which the scan is flagged', unit: 'percent', min: 0, max: 100 },
+  { key: 'impactBadgePercent', group: 'General', label: 'Badge impact', description: 'Share of time (or cost) a finding must account for to badge its nodes in the tree', unit: 'percent', min: 0, max: 100 },
+  { key: 'maxFindingsPerRule', group: 'General', label: 'Findings per rule', description: 'Most findings a single rule reports', unit: 'count', min: 1, max: 100 },
+];
+
+export interface AdvisorProfile {
+  name: string;
+  thresholds: AdvisorThresholds;
+}
+
+export const DEFAULT_PROFILE_NAME = 'Default';
+
+const GB = 1 << 30;
+
+/**
+ * Shipped profiles. OLTP tolerates nested loops but not full scans, temp
+ * spills or remote pulls of any size; DW expects big scans and spills and
+ * treats probe-heavy nested loops as the problem.
+ */
+export const BUILTIN_PROFILES: AdvisorProfile[] = [
+  { name: DEFAULT_PROFILE_NAME, thresholds: { ...DEFAULT_THRESHOLDS } },
+  {
+    name: 'OLTP',
+    thresholds: {
+      ...DEFAULT_THRESHOLDS,
+      nlStartsWarn: 50_000,
+      nlStartsCritical: 500_000,
+      nlInnerRowsWarn: 500_000,
+      nlInnerRowsCritical: 5_000_000,
+      cartesianCriticalProduct: 1_000_000,
+      ftsMinTableRows: 1_000,
+      ftsSelectivityWarn: 0.05,
+      ftsSelectivityCritical: 0.01,
+      ftsCriticalMinTableRows: 100_000,
+      spillCriticalBytes: 64 << 20,
+      remoteRowsWarn: 10_000,
+      remoteRowsCritical: 100_000,
+    },
+  },
+  {
+    name: 'DW',
+    thresholds: {
+      ...DEFAULT_THRESHOLDS,
+      nlStartsWarn: 1_000,
+      nlStartsCritical: 10_000,
+      subqueryStartsWarn: 1_000,
+      subqueryStartsCritical: 10_000,
+      cartesianCriticalProduct: 100_000_000,
+      ftsMinTableRows: 1_000_000,
+      ftsSelectivityWarn: 0.001,
+      ftsSelectivityCritical: 0.0001,
+      ftsCriticalMinTableRows: 100_000_000,
+      ftsFallbackMinGetsPerStart: 100_000,
+      spillCriticalBytes: 8 * GB,
+      wideRowWorkareaBytes: GB,
+      hashBuildMinBytes: GB,
+      remoteRowsWarn: 1_000_000,
+      remoteRowsCritical: 10_000_000,
+      offloadMinReadBytes: 10 * GB,
+    },
+  },
+];
+
+export function isBuiltinProfile(name: string): boolean {
+  return BUILTIN_PROFILES.some((profile) => profile.name === name);
+}
+
+/** The values "reset to default" restores: the shipped values of a built-in profile, else the global defaults. */
+export function profileDefaults(name: string): AdvisorThresholds {
+  return BUILTIN_PROFILES.find((profile) => profile.name === name)?.thresholds ?? DEFAULT_THRESHOLDS;
+}
+
+/** Why `value` is not a valid setting for threshold `key`, or null when it is. */
+export function validateThreshold(key: AdvisorThresholdKey, value: number): string | null {
+  const field = THRESHOLD_FIELDS.find((f) => f.key === key);
+  if (!field) return 'Unknown threshold';
+  if (!Number.isFinite(value)) return 'Enter a number';
+  if (value < field.min) return `Must be at least ${field.min}`;
+  if (field.max !== undefined && value > field.max) return `Must be at most ${field.max}`;
+  if ((field.unit === 'count' || field.unit === 'bytes') && !Number.isInteger(value)) return 'Must be a whole number';
+  return null;
+}
+
+/** Check warning/critical pairs: a critical limit must not be laxer than its warning limit. */
+export function validateThresholdPairs(thresholds: AdvisorThresholds): Partial<Record<AdvisorThresholdKey, string>> {
+  const errors: Partial<Record<AdvisorThresholdKey, string>> = {};
+  if (thresholds.nlStartsCritical < thresholds.nlStartsWarn) errors.nlStartsCritical = 'Must not be below the warning level';
+  if (thresholds.nlInnerRowsCritical < thresholds.nlInnerRowsWarn) errors.nlInnerRowsCritical = 'Must not be below the warning level';
+  if (thresholds.subqueryStartsCritical < thresholds.subqueryStartsWarn) errors.subqueryStartsCritical = 'Must not be below the warning level';
+  if (thresholds.remoteRowsCritical < thresholds.remoteRowsWarn) errors.remoteRowsCritical = 'Must not be below the warning level';
+  if (thresholds.ftsSelectivityCritical > thresholds.ftsSelectivityWarn) errors.ftsSelectivityCritical = 'Must not be above the warning level';
+  return errors;
+}
+
+/** Thresholds read from storage: every key present and valid, falling back to `fallback` per key. */
+export function sanitizeThresholds(value: unknown, fallback: AdvisorThresholds = DEFAULT_THRESHOLDS): AdvisorThresholds {
+  const source = value && typeof value === 'object' ? value as Record<string, unknown> : {};
+  const thresholds = { ...fallback };
+  for (const field of THRESHOLD_FIELDS) {
+    const raw = source[field.key];
+    if (typeof raw === 'number' && validateThreshold(field.key, raw) === null) thresholds[field.key] = raw;
+  }
+  return thresholds;
+}
+
+/**
+ * Profiles read from storage: the built-in profiles first (with any stored
+ * edits), then valid custom profiles in stored order.
+ */
+export function sanitizeProfiles(value: unknown): AdvisorProfile[] {
+  const stored = Array.isArray(value) ? value : [];
+  const byName = new Map<string, unknown>();
+  for (const entry of stored) {
+    if (entry && typeof entry === 'object' && typeof entry.name === 'string' && entry.name.trim() && !byName.has(entry.name)) {
+      byName.set(entry.name, entry.thresholds);
+    }
+  }
+  const profiles = BUILTIN_PROFILES.map((profile) => ({
+    name: profile.name,
+    thresholds: sanitizeThresholds(byName.get(profile.name), profile.thresholds),
+  }));
+  for (const [name, thresholds] of byName) {
+    if (!isBuiltinProfile(name)) profiles.push({ name, thresholds: sanitizeThresholds(thresholds) });
+  }
+  return profiles;
+}
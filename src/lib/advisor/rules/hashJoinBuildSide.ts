@@ -0,0 +1,86 @@
+import type { AdvisorRule, Finding, RuleContext } from '../types';
+import type { PlanNode } from '../../types';
+import { formatBytes } from '../../format';
+
+/** Average bytes per row: the projected width when known, else the optimizer's Bytes / Rows. */
+function rowWidth(node: PlanNode): number | undefined {
+  if (node.projection?.rowWidth !== undefined) return node.projection.rowWidth;
+  if (node.bytes !== undefined && node.rows !== undefined && node.rows > 0) return node.bytes / node.rows;
+  return undefined;
+}
+
+/** Table aliases (without the @query block) of the row sources under `node`. */
+function tableAliases(node: PlanNode): string[] {
+  const aliases: string[] = [];
+  const visit = (n: PlanNode) => {
+    const alias = n.objectAlias?.split('@')[0].replace(/"/g, '').trim();
+    if (alias && n.objectName && !aliases.includes(alias)) aliases.push(alias);
+    n.children.forEach(visit);
+  };
+  visit(node);
+  return aliases;
+}
+
+function hintAdvice(build: PlanNode, probe: PlanNode): string {
+  const buildAliases = tableAliases(build);
+  const probeAliases = tableAliases(probe);
+  const hints: string[] = [];
+  if (probeAliases.length === 1) hints.push(`/*+ SWAP_JOIN_INPUTS(${probeAliases[0]}) */`);
+  if (buildAliases.length > 0 && probeAliases.length > 0) hints.push(`/*+ LEADING(${[...probeAliases, ...buildAliases].join(' ')}) */`);
+  return hints.length > 0
+    ? `If the estimate can't be fixed, make the probe input the build side with ${hints.join(' or ')}.`
+    : 'If the estimate can\'t be fixed, make the probe input the build side with a SWAP_JOIN_INPUTS or LEADING hint.';
+}
+
+export const hashJoinBuildSideRule: AdvisorRule = {
+  id: 'hash-join-build-side',
+  requiresActualStats: true,
+
+  evaluate(ctx: RuleContext): Finding[] {
+    const findings: Finding[] = [];
+    const { hashBuildInversionRatio, hashBuildMinBytes, maxFindingsPerRule } = ctx.thresholds;
+
+    for (const node of ctx.plan.allNodes) {
+      if (!node.operation.toUpperCase().startsWith('HASH JOIN')) continue;
+      const [build, probe] = node.children;
+      if (!build || !probe || build.actualRows === undefined || probe.actualRows === undefined) continue;
+      if (build.rows === undefined || probe.rows === undefined) continue;
+
+      const buildWidth = rowWidth(build);
+      const probeWidth = rowWidth(probe);
+      if (buildWidth === undefined || probeWidth === undefined) continue;
+
+      const buildBytes = build.actualRows * buildWidth;
+      const probeBytes = probe.actualRows * probeWidth;
+      if (buildBytes < hashBuildMinBytes || buildBytes < probeBytes * hashBuildInversionRatio) continue;
+
+      // Only an inversion the optimizer didn't see coming: by its estimates
+      // the build input was the smaller one.
+      const buildStarts = Math.max(build.starts ?? 1, 1);
+      const probeStarts = Math.max(probe.starts ?? 1, 1);
+      const estimatedBuildBytes = build.rows * buildStarts * buildWidth;
+      const estimatedProbeBytes = probe.rows * probeStarts * probeWidth;
+      if (estimatedBuildBytes > estimatedProbeBytes) continue;
+
+      const spilled = node.tempUsed !== undefined && node.tempUsed > 0;
+      const underestimate = build.rows > 0 ? build.actualRows / (build.rows * buildStarts) : Infinity;
+      const workarea = [
+        node.memoryUsed !== undefined ? `the workarea peaked at ${formatBytes(node.memoryUsed)}` : null,
+        spilled ? `${formatBytes(node.tempUsed)} spilled to temp` : null,
+      ].filter(Boolean).join(' and ');
+
+      findings.push({
+        ruleId: 'hash-join-build-side',
+        severity: spilled ? 'critical' : 'warning',
+        nodeIds: [node.id, build.id, probe.id],
+        title: `Hash join built on the larger input (${(buildBytes / Math.max(probeBytes, 1)).toFixed(1)}x the probe)`,
+        explanation: `The build input (Id ${build.id}) returned ${build.actualRows.toLocaleString()} rows × ~${formatBytes(Math.round(buildWidth))} ≈ ${formatBytes(Math.round(buildBytes))}, while the probe input (Id ${probe.id}) returned ${probe.actualRows.toLocaleString()} rows ≈ ${formatBytes(Math.round(probeBytes))}. The optimizer expected ${(build.rows * buildStarts).toLocaleString()} build rows against ${(probe.rows * probeStarts).toLocaleString()} probe rows${underestimate === Infinity ? '' : `, underestimating the build side ${underestimate >= 100 ? Math.round(underestimate) : underestimate.toFixed(1)}x`}. An in-memory hash table on this build needs about ${formatBytes(Math.round(buildBytes))}${workarea ? `; ${workarea}` : ''}. Built on the probe input it would need about ${formatBytes(Math.round(probeBytes))}.`,
+        suggestion: `Fix the build side's cardinality estimate first (statistics, a column group or histogram on its filter columns) so the optimizer picks the smaller input itself. ${hintAdvice(build, probe)}`,
+      });
+
+      if (findings.length >= maxFindingsPerRule) break;
+    }
+
+    return findings;
+  },
+};
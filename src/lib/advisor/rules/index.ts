@@ -9,6 +9,16 @@ import { spillToDiskRule } from './spillToDisk';
 import { statsIssuesRule } from './statsIssues';
 import { partitionPruningRule } from './partitionPruning';
 import { parallelSignalsRule } from './parallelSignals';
+import { pxSkewRule } from './pxSkew';
+import { wideWorkareaRowsRule } from './wideWorkareaRows';
+import { remoteRowPullRule } from './remoteRowPull';
+import { storageOffloadRule } from './storageOffload';
+import { perRowSubqueryRule } from './perRowSubquery';
+import { nonSargablePredicateRule } from './nonSargablePredicate';
+import { missingColumnGroupRule } from './missingColumnGroup';
+import { sqlPlanManagementRule } from './sqlPlanManagement';
+import { hashJoinBuildSideRule } from './hashJoinBuildSide';
+import { optimizerEnvDriftRule } from './optimizerEnvDrift';
 
 export const ALL_RULES: AdvisorRule[] = [
   implicitConversionRule,
@@ -21,6 +31,16 @@ export const ALL_RULES: AdvisorRule[] = [
   statsIssuesRule,
   partitionPruningRule,
   parallelSignalsRule,
+  pxSkewRule,
+  wideWorkareaRowsRule,
+  remoteRowPullRule,
+  storageOffloadRule,
+  perRowSubqueryRule,
+  nonSargablePredicateRule,
+  missingColumnGroupRule,
+  sqlPlanManagementRule,
+  hashJoinBuildSideRule,
+  optimizerEnvDriftRule,
 ];
 
 export {
@@ -34,4 +54,14 @@ export {
   statsIssuesRule,
   partitionPruningRule,
   parallelSignalsRule,
+  pxSkewRule,
+  wideWorkareaRowsRule,
+  remoteRowPullRule,
+  storageOffloadRule,
+  perRowSubqueryRule,
+  nonSargablePredicateRule,
+  missingColumnGroupRule,
+  sqlPlanManagementRule,
+  hashJoinBuildSideRule,
+  optimizerEnvDriftRule,
 };
@@ -0,0 +1,102 @@
+import type { AdvisorRule, Finding, RuleContext } from '../types';
+import type { PlanNode } from '../../types';
+import type { ExtendedStat } from '../../metadata/bundle';
+import { computeCardinalityRatio, cardinalityRatioSeverity } from '../../format';
+import { findEqualityColumns } from '../predicates';
+
+/** Columns of a column-group extension such as `("COUNTRY","CURRENCY")`; null for expression extensions. */
+function columnGroupColumns(stat: ExtendedStat): string[] | null {
+  const body = stat.extension.trim().replace(/^\(|\)$/g, '');
+  const parts = body.split(',').map((part) => part.trim());
+  if (parts.length < 2 || !parts.every((part) => /^"[^"]+"$/.test(part))) return null;
+  return parts.map((part) => part.slice(1, -1).toUpperCase());
+}
+
+function sameColumns(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((column) => b.includes(column));
+}
+
+interface Candidate {
+  tableKey: string;
+  columns: string[];
+  node: PlanNode;
+  nodeIds: number[];
+  actualPerStart: number;
+  /** A-Rows per start over E-Rows. */
+  ratio: number;
+}
+
+export const missingColumnGroupRule: AdvisorRule = {
+  id: 'missing-column-group',
+  requiresMetadata: true,
+  requiresActualStats: true,
+
+  evaluate(ctx: RuleContext): Finding[] {
+    const candidates = new Map<string, Candidate>();
+
+    for (const node of ctx.plan.allNodes) {
+      const match = ctx.findObject(node.objectName);
+      if (!match) continue;
+      const tableKey = match.object.type === 'TABLE' ? match.key : match.object.table;
+      const table = ctx.bundle?.objects[tableKey];
+      if (!table || table.type !== 'TABLE') continue;
+
+      // A table access by rowid is estimated from its own filters and the
+      // index scan feeding it, so judge the predicates of both together.
+      const predicates = [node.accessPredicates, node.filterPredicates];
+      if (match.object.type === 'TABLE') {
+        for (const child of node.children) {
+          const childMatch = ctx.findObject(child.objectName);
+          if (childMatch?.object.type === 'INDEX' && childMatch.object.table === tableKey) {
+            predicates.push(child.accessPredicates, child.filterPredicates);
+          }
+        }
+      }
+      const columns = findEqualityColumns(...predicates)
+        .filter((column) => Object.prototype.hasOwnProperty.call(table.columns, column));
+      if (columns.length < 2) continue;
+      if ((table.extended_stats ?? []).some((stat) => {
+        const group = columnGroupColumns(stat);
+        return group !== null && sameColumns(group, columns);
+      })) continue;
+
+      if (node.rows === undefined || node.actualRows === undefined) continue;
+      const actualPerStart = node.actualRows / Math.max(node.starts ?? 1, 1);
+      const ratio = computeCardinalityRatio(node.rows, actualPerStart);
+      if (ratio === undefined || ratio <= 1 || cardinalityRatioSeverity(ratio) === 'good') continue;
+
+      const key = `${tableKey}:${[...columns].sort().join(',')}`;
+      const existing = candidates.get(key);
+      if (existing) {
+        existing.nodeIds.push(node.id);
+        if (ratio > existing.ratio) Object.assign(existing, { node, actualPerStart, ratio });
+      } else {
+        candidates.set(key, { tableKey, columns, node, nodeIds: [node.id], actualPerStart, ratio });
+      }
+    }
+
+    const findings: Finding[] = [];
+    const worstFirst = [...candidates.values()].sort((a, b) => b.ratio - a.ratio);
+    for (const { tableKey, columns, node, nodeIds, actualPerStart, ratio } of worstFirst.slice(0, ctx.thresholds.maxFindingsPerRule)) {
+      const [owner, tableName] = tableKey.includes('.') ? tableKey.split('.') : [null, tableKey];
+      const ownerArg = owner ? `'${owner}'` : 'NULL';
+      const group = `(${columns.join(',')})`;
+      const ratioText = ratio === Infinity ? 'infinitely' : `${ratio >= 100 ? Math.round(ratio) : ratio.toFixed(1)}x`;
+
+      findings.push({
+        ruleId: 'missing-column-group',
+        severity: cardinalityRatioSeverity(ratio) === 'bad' ? 'critical' : 'warning',
+        nodeIds: [node.id, ...nodeIds.filter((id) => id !== node.id)],
+        title: `Missing column group on ${tableKey} ${group}`,
+        explanation: `${node.operation} applies equality predicates on ${columns.join(', ')} of ${tableKey} and was underestimated ${ratioText} (E-Rows ${node.rows?.toLocaleString()} vs. ${Math.round(actualPerStart).toLocaleString()} actual rows per start). Without a column group the optimizer multiplies the selectivities as if the columns were independent, which underestimates correlated values.`,
+        suggestion: `Create a column group on ${group} so the optimizer knows how many value combinations really occur, then gather statistics to populate it.`,
+        ddl: [
+          `SELECT DBMS_STATS.CREATE_EXTENDED_STATS(${ownerArg}, '${tableName}', '${group}') FROM dual;`,
+          `EXEC DBMS_STATS.GATHER_TABLE_STATS(${ownerArg}, '${tableName}', method_opt => 'FOR ALL COLUMNS SIZE AUTO FOR COLUMNS SIZE AUTO ${group}');`,
+        ].join('\n'),
+      });
+    }
+
+    return findings;
+  },
+};
@@ -0,0 +1,100 @@
+import type { AdvisorRule, Finding, RuleContext } from '../types';
+import type { TableObject } from '../../metadata/bundle';
+import { resolveIndexesForBlock } from '../../metadata/indexes';
+import { findWrappedColumns, type WrappedColumnHit } from '../predicates';
+
+const FULL_SCAN_RE = /TABLE ACCESS (STORAGE )?FULL/;
+
+/** Oracle identifiers were limited to 30 bytes before 12.2; stay within that so the DDL runs anywhere. */
+const MAX_IDENTIFIER_LENGTH = 30;
+
+function rewriteAdvice(hit: WrappedColumnHit): string {
+  const col = hit.column;
+  switch (hit.wrapper) {
+    case 'TRUNC':
+      return `Compare the bare column against a range instead, e.g. ${col} >= TRUNC(:d) AND ${col} < TRUNC(:d) + 1.`;
+    case 'UPPER':
+    case 'LOWER':
+    case 'INITCAP':
+      return `Store ${col} in one letter case (or compare against a virtual column that does) so the plain index applies.`;
+    case 'NVL':
+    case 'NVL2':
+    case 'COALESCE':
+      return `Spell the NULL case out, e.g. (${col} = :v OR ${col} IS NULL), which the optimizer can expand into index access.`;
+    case 'SUBSTR':
+    case 'SUBSTRB':
+      return `For a prefix test, use ${col} LIKE 'prefix%' so an index range scan applies.`;
+    case 'TRIM':
+    case 'LTRIM':
+    case 'RTRIM':
+    case 'REPLACE':
+      return `Clean ${col} when it is written so the predicate can compare the bare column.`;
+    case '||':
+      return 'Compare each column on its own instead of the concatenation.';
+    default:
+      return `Move the arithmetic to the other side of the comparison so ${col} stands alone.`;
+  }
+}
+
+function indexName(tableKey: string, column: string, taken: Set<string>): string {
+  const table = tableKey.slice(tableKey.lastIndexOf('.') + 1);
+  const base = `${table}_${column}`.slice(0, MAX_IDENTIFIER_LENGTH - '_FBI'.length - 1);
+  let name = `${base}_FBI`;
+  for (let n = 2; taken.has(name); n++) name = `${base}_FBI${n}`;
+  taken.add(name);
+  return name;
+}
+
+export const nonSargablePredicateRule: AdvisorRule = {
+  id: 'non-sargable-predicate',
+  requiresMetadata: true,
+
+  evaluate(ctx: RuleContext): Finding[] {
+    const findings: Finding[] = [];
+    const { ftsCriticalMinTableRows, maxFindingsPerRule } = ctx.thresholds;
+    if (!ctx.bundle) return findings;
+    const bundle = ctx.bundle;
+    const indexNames = new Set<string>();
+
+    for (const node of ctx.plan.allNodes) {
+      if (!FULL_SCAN_RE.test(node.operation.toUpperCase())) continue;
+      if (!node.filterPredicates) continue;
+
+      const match = ctx.findObject(node.objectName);
+      if (!match || match.object.type !== 'TABLE') continue;
+      const table: TableObject = match.object;
+      const { indexes } = resolveIndexesForBlock(match, bundle);
+
+      for (const hit of findWrappedColumns(node.filterPredicates)) {
+        if (!Object.prototype.hasOwnProperty.call(table.columns, hit.column)) continue;
+        const index = indexes.find((idx) => idx.object.columns[0] === hit.column && idx.object.stats.status === 'VALID')
+          ?? indexes.find((idx) => idx.object.columns.includes(hit.column));
+        if (!index) continue;
+
+        // An index expression may only read columns of this table and no binds.
+        const indexable = !hit.hasBinds && hit.columns.every((c) => Object.prototype.hasOwnProperty.call(table.columns, c));
+        const owner = match.key.includes('.') ? `${match.key.split('.')[0]}.` : '';
+        const ddl = indexable
+          ? `CREATE INDEX ${owner}${indexName(match.key, hit.column, indexNames)} ON ${match.key} (${hit.indexExpression});`
+          : undefined;
+        const rows = table.stats.num_rows;
+
+        findings.push({
+          ruleId: 'non-sargable-predicate',
+          severity: rows !== null && rows >= ftsCriticalMinTableRows ? 'critical' : 'warning',
+          nodeIds: [node.id],
+          title: `Non-sargable predicate on ${match.key}.${hit.column}`,
+          explanation: `The filter ${hit.expression} ${/^[A-Z]/.test(hit.wrapper) ? `wraps ${hit.column} in ${hit.wrapper}` : `computes on ${hit.column}`}, so index ${index.key} on (${index.object.columns.join(', ')}) cannot be used to find the matching rows and ${rows !== null ? `all ${rows.toLocaleString()} rows` : 'the whole table'} are scanned instead.`,
+          suggestion: indexable
+            ? `${rewriteAdvice(hit)} If the predicate has to stay as written, a function-based index on the expression lets the optimizer use it.`
+            : `${rewriteAdvice(hit)} The expression reads ${hit.hasBinds ? 'a bind variable' : 'another table\'s column'}, so a function-based index can't cover it.`,
+          ddl,
+        });
+
+        if (findings.length >= maxFindingsPerRule) return findings;
+      }
+    }
+
+    return findings;
+  },
+};
@@ -0,0 +1,111 @@
+import type { AdvisorRule, Finding, RuleContext } from '../types';
+import type { PlanNode } from '../../types';
+import type { SystemParams } from '../../metadata/bundle';
+import {
+  OPTIMIZER_PARAMETERS,
+  compareReleases,
+  describeHiddenParameter,
+  isHiddenOptimizerParameter,
+  parameterDefault,
+  type OptimizerParameterInfo,
+} from '../optimizerParameters';
+
+type SystemParamName = Exclude<keyof SystemParams, 'db_block_size'>;
+const SYSTEM_PARAMS: SystemParamName[] = ['optimizer_features_enable', 'optimizer_index_cost_adj', 'optimizer_index_caching'];
+
+function normalize(value: string): string {
+  return value.trim().replace(/^['"]|['"]$/g, '').toLowerCase();
+}
+
+/**
+ * The release family a version belongs to: `12.2` for 12.2.0.1, `19` for
+ * 19.1.0 or 19.22.0.0.0, since optimizer_features_enable stays at x.1.0 for
+ * every release update from 18c on.
+ */
+function releaseFamily(version: string): string {
+  const [major, minor] = version.split('.');
+  return parseInt(major, 10) >= 18 ? major : `${major}.${minor ?? '0'}`;
+}
+
+/** Where the value comes from: a session override, instance-wide, or unknown without system parameters. */
+function scopeSentence(name: string, value: string, systemParams: SystemParams | undefined): string {
+  if (!systemParams || !(SYSTEM_PARAMS as string[]).includes(name)) return '';
+  const systemValue = String(systemParams[name as SystemParamName]);
+  return normalize(systemValue) === value
+    ? ` It is set instance-wide (the system value is ${systemValue} too).`
+    : ` The instance runs with ${systemValue}, so this cursor was parsed under a session-level override.`;
+}
+
+function shapedSentence(nodes: PlanNode[]): string {
+  if (nodes.length === 0) return '';
+  const ops = [...new Set(nodes.map((n) => n.operation))].slice(0, 3).join(', ');
+  const ids = nodes.slice(0, 5).map((n) => n.id).join(', ');
+  return ` In this plan it most plausibly shaped ${nodes.length} line${nodes.length === 1 ? '' : 's'} (${ops}; Id ${ids}${nodes.length > 5 ? ', …' : ''}).`;
+}
+
+const SUGGESTION = 'Compare V$SQL_OPTIMIZER_ENV for this SQL_ID with the environment where the plan differs. A session-level value usually comes from an ALTER SESSION in a logon trigger or the connection pool\'s init SQL, or from an OPT_PARAM hint; remove it, or set it in test as well to reproduce this plan.';
+
+export const optimizerEnvDriftRule: AdvisorRule = {
+  id: 'optimizer-env-drift',
+
+  evaluate(ctx: RuleContext): Finding[] {
+    const findings: Finding[] = [];
+    const env = new Map<string, string>();
+    for (const param of ctx.bundle?.optimizer_env ?? []) env.set(param.name.toLowerCase(), normalize(param.value));
+    for (const [name, value] of Object.entries(ctx.plan.monitorMetadata?.optimizerEnv ?? {})) {
+      if (!env.has(name.toLowerCase())) env.set(name.toLowerCase(), normalize(value));
+    }
+    const systemParams = ctx.bundle?.system_params;
+    // Without a cursor environment the instance values are the best we know.
+    for (const name of SYSTEM_PARAMS) {
+      if (systemParams && !env.has(name)) env.set(name, normalize(String(systemParams[name])));
+    }
+    if (env.size === 0) return findings;
+
+    const release = env.get('optimizer_features_enable') ?? systemParams?.optimizer_features_enable;
+    const referenceRelease = ctx.bundle?.source.oracle_version ?? systemParams?.optimizer_features_enable;
+    const nodes = ctx.plan.allNodes;
+
+    const isDrifted = (info: OptimizerParameterInfo, value: string): string | null => {
+      if (info.name === 'optimizer_features_enable') {
+        if (!referenceRelease || compareReleases(releaseFamily(value), releaseFamily(referenceRelease)) >= 0) return null;
+        return referenceRelease;
+      }
+      const defaultValue = parameterDefault(info, release);
+      return defaultValue !== null && defaultValue !== value ? defaultValue : null;
+    };
+
+    for (const info of OPTIMIZER_PARAMETERS) {
+      const value = env.get(info.name);
+      if (value === undefined) continue;
+      const expected = isDrifted(info, value);
+      if (expected === null) continue;
+
+      const shaped = info.shapes ? nodes.filter((node) => info.shapes!(node, value)) : [];
+      findings.push({
+        ruleId: 'optimizer-env-drift',
+        severity: info.severity,
+        nodeIds: shaped.map((n) => n.id),
+        title: `${info.name} = ${value} (${info.name === 'optimizer_features_enable' ? `database ${expected}` : `default ${expected}`})`,
+        explanation: `${info.describe(value)}${scopeSentence(info.name, value, systemParams)}${shapedSentence(shaped)}`,
+        suggestion: SUGGESTION,
+      });
+    }
+
+    for (const [name, value] of env) {
+      if (!isHiddenOptimizerParameter(name)) continue;
+      const effect = describeHiddenParameter(name, value);
+      if (effect === null) continue;
+      findings.push({
+        ruleId: 'optimizer-env-drift',
+        severity: 'warning',
+        nodeIds: [],
+        title: `Hidden parameter ${name} = ${value}`,
+        explanation: effect,
+        suggestion: `${SUGGESTION} Hidden parameters should only stay set on Oracle Support's advice; check the spfile and the reason it was set.`,
+      });
+    }
+
+    return findings.slice(0, ctx.thresholds.maxFindingsPerRule);
+  },
+};
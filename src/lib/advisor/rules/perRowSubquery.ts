@@ -0,0 +1,110 @@
+import type { AdvisorRule, Finding, RuleContext } from '../types';
+import type { PlanNode } from '../../types';
+import { formatTimeShort } from '../../format';
+
+interface SubqueryBranch {
+  kind: 'filter' | 'scalar';
+  owner: PlanNode;
+  subquery: PlanNode;
+  /** Rows the subquery is evaluated for, before any caching. */
+  drivingRows: number | undefined;
+  /** What the driving rows are: "candidate", "returned", "updated" or "processed". */
+  drivingRowsLabel: string;
+}
+
+/**
+ * Branches that run once per row of a sibling: the second and later children
+ * of a FILTER (correlated subqueries in the WHERE clause), the children of a
+ * statement row ahead of its last one (scalar subqueries in the select list,
+ * or in the VALUES of an INSERT, evaluated for every row the statement
+ * returns or processes), and the children of an UPDATE after its first one
+ * (scalar subqueries in the SET clause, evaluated for every updated row).
+ */
+function findSubqueryBranches(nodes: PlanNode[]): SubqueryBranch[] {
+  const branches: SubqueryBranch[] = [];
+  for (const node of nodes) {
+    if (node.children.length < 2) continue;
+    const operation = node.operation.toUpperCase();
+    if (operation === 'FILTER') {
+      const drivingRows = node.children[0].actualRows;
+      for (const subquery of node.children.slice(1)) {
+        branches.push({ kind: 'filter', owner: node, subquery, drivingRows, drivingRowsLabel: 'candidate' });
+      }
+    } else if (operation === 'UPDATE') {
+      const drivingRows = node.children[0].actualRows;
+      for (const subquery of node.children.slice(1)) {
+        branches.push({ kind: 'scalar', owner: node, subquery, drivingRows, drivingRowsLabel: 'updated' });
+      }
+    } else if (operation.endsWith(' STATEMENT')) {
+      const drivingRows = node.actualRows ?? node.children[node.children.length - 1].actualRows;
+      const drivingRowsLabel = operation.startsWith('SELECT') ? 'returned' : 'processed';
+      for (const subquery of node.children.slice(0, -1)) {
+        branches.push({ kind: 'scalar', owner: node, subquery, drivingRows, drivingRowsLabel });
+      }
+    }
+  }
+  return branches;
+}
+
+/** Where the subquery sits in the statement, for the explanation. */
+function describeBranch({ kind, owner }: SubqueryBranch): string {
+  if (kind === 'filter') return `The subquery under FILTER (line ${owner.id})`;
+  const operation = owner.operation.toUpperCase();
+  if (operation === 'UPDATE') return `The scalar subquery in the SET clause of UPDATE (line ${owner.id})`;
+  if (operation.startsWith('SELECT')) return 'The scalar subquery in the select list';
+  return `The scalar subquery under ${owner.operation} (line ${owner.id})`;
+}
+
+function describeLine(node: PlanNode): string {
+  return `${node.operation}${node.objectName ? ` of ${node.objectName}` : ''} (line ${node.id})`;
+}
+
+export const perRowSubqueryRule: AdvisorRule = {
+  id: 'per-row-subquery',
+  requiresActualStats: true,
+
+  evaluate(ctx: RuleContext): Finding[] {
+    const findings: Finding[] = [];
+    const { subqueryStartsWarn, subqueryStartsCritical, maxFindingsPerRule } = ctx.thresholds;
+
+    for (const branch of findSubqueryBranches(ctx.plan.allNodes)) {
+      const { kind, owner, subquery, drivingRows } = branch;
+      const starts = subquery.starts;
+      if (starts === undefined || starts < subqueryStartsWarn) continue;
+
+      let explanation = `${describeBranch(branch)}, starting at ${describeLine(subquery)}, was executed ${starts.toLocaleString()} times`;
+      if (drivingRows !== undefined && drivingRows > 0) {
+        const saved = Math.max(0, 1 - starts / drivingRows);
+        const rowsPhrase = `${drivingRows.toLocaleString()} ${branch.drivingRowsLabel} rows`;
+        explanation += saved < 0.1
+          ? ` for ${rowsPhrase}: ${kind === 'filter' ? 'filter' : 'scalar subquery'} caching saved almost nothing, so it ran once per row.`
+          : ` for ${rowsPhrase}: caching on repeated correlation values avoided ${(saved * 100).toFixed(0)}% of the executions.`;
+      } else {
+        explanation += '.';
+      }
+      if (subquery.actualTime) explanation += ` Together the executions took ${formatTimeShort(subquery.actualTime)}.`;
+
+      let suggestion: string;
+      if (kind === 'filter') {
+        suggestion = 'Let the optimizer unnest the subquery into a semi or anti join: look for NO_UNNEST hints, NOT IN over nullable columns, ROWNUM or correlation it cannot unnest, or rewrite it as a join. If it has to stay correlated, index the correlation columns so each execution is cheap.';
+      } else if (owner.operation.toUpperCase() === 'UPDATE') {
+        suggestion = 'Rewrite the UPDATE as a MERGE that joins to the subquery\'s tables (or to a pre-aggregated inline view), so the new values are computed once as a set. Scalar subquery caching only helps with few distinct correlation values, since its cache is small.';
+      } else {
+        suggestion = 'Rewrite the scalar subquery as an outer join (or a join to a pre-aggregated inline view) so it runs once as a set. Scalar subquery caching only helps with few distinct correlation values, since its cache is small.';
+      }
+
+      findings.push({
+        ruleId: 'per-row-subquery',
+        severity: starts >= subqueryStartsCritical ? 'critical' : 'warning',
+        nodeIds: [subquery.id, owner.id],
+        title: kind === 'filter' ? `FILTER subquery executed per row (${starts.toLocaleString()} starts)` : `Scalar subquery executed per row (${starts.toLocaleString()} starts)`,
+        explanation,
+        suggestion,
+      });
+
+      if (findings.length >= maxFindingsPerRule) break;
+    }
+
+    return findings;
+  },
+};
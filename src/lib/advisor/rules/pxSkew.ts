@@ -0,0 +1,44 @@
+import type { AdvisorRule, Finding, RuleContext } from '../types';
+import { computePxSkew } from '../../pxSkew';
+import { formatTimeCompact } from '../../format';
+
+/** Uneven work across the PX servers of a set, or rows across the servers of a DFO. */
+export const pxSkewRule: AdvisorRule = {
+  id: 'px-skew',
+
+  evaluate(ctx: RuleContext): Finding[] {
+    const skew = computePxSkew(ctx.plan);
+    if (!skew || skew.severity === 'none') return [];
+
+    const findings: Finding[] = [];
+    for (const set of skew.serverSets) {
+      const { severity } = set;
+      if (severity === 'none') continue;
+      const others = set.servers.length - 1;
+      const othersMeanMs = others > 0 ? (set.meanElapsed * set.servers.length - set.maxElapsed) / others / 1000 : 0;
+      findings.push({
+        ruleId: 'px-skew',
+        severity,
+        nodeIds: [],
+        title: `Skewed work in PX server set ${set.serverSet}`,
+        explanation: `${set.busiest} ran for ${formatTimeCompact(set.maxElapsed / 1000)} while the other ${others} server${others === 1 ? '' : 's'} averaged ${formatTimeCompact(othersMeanMs)}${set.idleServers > 0 ? ` (${set.idleServers} did no measurable work)` : ''}. Skew score ${set.score}/100.`,
+        suggestion: 'Look for a hash distribution on a low-cardinality or popular join/group key. Check the PQ Distrib method, consider PQ_DISTRIBUTE or PQ_SKEW (12c+), a BROADCAST of a small build side, or a better-distributed key.',
+      });
+    }
+
+    for (const dfo of skew.dfos) {
+      const { severity } = dfo;
+      if (severity === 'none' || dfo.worstNodeId === undefined) continue;
+      findings.push({
+        ruleId: 'px-skew',
+        severity,
+        nodeIds: [dfo.worstNodeId],
+        title: `Uneven row distribution in DFO ${dfo.tqName ?? `at line ${dfo.sendNodeId}`}`,
+        explanation: `One PX server produced ${(dfo.maxRowRatio ?? 1).toFixed(1)}x the per-server average at line ${dfo.worstNodeId} (DOP ${dfo.dop}). Skew score ${dfo.score}/100.`,
+        suggestion: 'Check the distribution feeding this DFO: popular key values hashed to one server are the usual cause. PQ_SKEW, a different PQ_DISTRIBUTE method, or histograms on the join key can spread the work.',
+      });
+    }
+
+    return findings.slice(0, ctx.thresholds.maxFindingsPerRule);
+  },
+};
@@ -0,0 +1,52 @@
+import type { AdvisorRule, Finding, RuleContext } from '../types';
+import type { PlanNode } from '../../types';
+import { formatBytes } from '../../format';
+
+/** Rows that come back over a database link: REMOTE row sources and R->S rows. */
+function pullsFromRemote(node: PlanNode): boolean {
+  return /^REMOTE\b/i.test(node.operation) || node.inOut === 'R->S';
+}
+
+export const remoteRowPullRule: AdvisorRule = {
+  id: 'remote-row-pull',
+
+  evaluate(ctx: RuleContext): Finding[] {
+    const findings: Finding[] = [];
+    const { remoteRowsWarn, remoteRowsCritical, maxFindingsPerRule } = ctx.thresholds;
+    const byId = new Map(ctx.plan.allNodes.map((n) => [n.id, n]));
+
+    for (const node of ctx.plan.allNodes) {
+      if (!pullsFromRemote(node)) continue;
+
+      const estimated = node.actualRows === undefined;
+      const rows = node.actualRows ?? node.rows;
+      if (rows === undefined || rows < remoteRowsWarn) continue;
+
+      const link = node.remoteDbLink ?? node.inst;
+      const volume = node.bytes !== undefined && node.rows ? (node.bytes / node.rows) * rows : undefined;
+      const parent = node.parentId !== undefined ? byId.get(node.parentId) : undefined;
+      const parentRows = estimated ? parent?.rows : parent?.actualRows;
+      const unfiltered = node.remoteSql !== undefined && !/\bWHERE\b/i.test(node.remoteSql);
+
+      let explanation = `${rows.toLocaleString()} ${estimated ? 'estimated ' : ''}rows${volume ? ` (about ${formatBytes(volume)})` : ''} are shipped from ${link ? `the remote site ${link}` : 'the remote site'} across the database link`;
+      explanation += node.starts !== undefined && node.starts > 1 ? `, over ${node.starts.toLocaleString()} separate round trips.` : '.';
+      if (unfiltered) explanation += ' The remote SQL has no WHERE clause, so the whole remote table crosses the network.';
+      if (parent && parentRows !== undefined && parentRows < rows / 10) {
+        explanation += ` ${parent.operation} keeps only ${parentRows.toLocaleString()} of them locally.`;
+      }
+
+      findings.push({
+        ruleId: 'remote-row-pull',
+        severity: rows >= remoteRowsCritical ? 'critical' : 'warning',
+        nodeIds: [node.id],
+        title: `Large row pull over a database link${link ? ` (${link})` : ''}`,
+        explanation,
+        suggestion: 'Let the remote site filter and join before shipping: check that the remote SQL carries the expected predicates (local functions, sequences and PL/SQL calls are not pushed), add a DRIVING_SITE hint naming a remote table alias, or query through a view defined on the remote database so only the result crosses the link.',
+      });
+
+      if (findings.length >= maxFindingsPerRule) break;
+    }
+
+    return findings;
+  },
+};
@@ -0,0 +1,109 @@
+import type { AdvisorRule, Finding, RuleContext } from '../types';
+import type { SqlPlanDirectiveInfo } from '../../metadata/bundle';
+
+/** Directive states under which the optimizer still acts on a directive (12.1 used the finer-grained names). */
+const ACTIVE_DIRECTIVE_STATES = new Set(['USABLE', 'NEW', 'MISSING_STATS', 'PERMANENT']);
+
+function list(names: string[]): string {
+  return names.length <= 3 ? names.join(', ') : `${names.slice(0, 3).join(', ')} and ${names.length - 3} more`;
+}
+
+export const sqlPlanManagementRule: AdvisorRule = {
+  id: 'sql-plan-management',
+  requiresMetadata: true,
+
+  evaluate(ctx: RuleContext): Finding[] {
+    const findings: Finding[] = [];
+    const sql = ctx.bundle?.sql_management;
+    if (!sql) return findings;
+    const { plan } = ctx;
+    const notes = plan.notes;
+    // A DBMS_XPLAN listing without a Note section simply had nothing to note;
+    // other sources may not carry the Note at all, so absence proves nothing.
+    const notesKnown = notes !== undefined || plan.source === 'dbms_xplan';
+    const rootIds = plan.rootNode ? [plan.rootNode.id] : [];
+
+    const activeBaselines = (sql.baselines ?? []).filter((b) => b.enabled && b.accepted);
+    const fixedMismatches = plan.planHashValue
+      ? activeBaselines.filter((b) => b.fixed && b.plan_hash_value != null && String(b.plan_hash_value) !== plan.planHashValue)
+      : [];
+
+    for (const baseline of fixedMismatches) {
+      findings.push({
+        ruleId: 'sql-plan-management',
+        severity: 'critical',
+        nodeIds: rootIds,
+        title: `Fixed baseline ${baseline.plan_name} not reproduced`,
+        explanation: `Baseline ${baseline.plan_name} is fixed to plan hash ${baseline.plan_hash_value}, but this plan has hash ${plan.planHashValue}. A fixed baseline should pin the plan, so the optimizer failed to reproduce it and fell back to a plan of its own.`,
+        suggestion: `Run DBMS_XPLAN.DISPLAY_SQL_PLAN_BASELINE('${baseline.sql_handle}', '${baseline.plan_name}') and look for an index, partition or hint in the baseline plan that no longer exists or no longer applies. If this plan is the one you want, load it with DBMS_SPM.LOAD_PLANS_FROM_CURSOR_CACHE and fix it instead.`,
+      });
+    }
+
+    if (notesKnown && !notes?.sqlPlanBaseline && activeBaselines.length > 0 && fixedMismatches.length === 0) {
+      const names = activeBaselines.map((b) => b.plan_name);
+      findings.push({
+        ruleId: 'sql-plan-management',
+        severity: 'warning',
+        nodeIds: rootIds,
+        title: 'SQL plan baseline present but not used',
+        explanation: `The bundle lists ${names.length === 1 ? 'an enabled, accepted baseline' : `${names.length} enabled, accepted baselines`} for this statement (${list(names)}), yet the plan's Note doesn't report a baseline being used.`,
+        suggestion: 'Check that optimizer_use_sql_plan_baselines is TRUE for the session and that the cursor wasn\'t parsed before the baseline was accepted. If both hold, the baseline plan could not be reproduced: a 10053 trace shows "SPM: failed to reproduce the plan", and DBMS_XPLAN.DISPLAY_SQL_PLAN_BASELINE shows which object or hint it depends on.',
+      });
+    }
+
+    if (notesKnown) {
+      for (const profile of sql.profiles ?? []) {
+        if (!profile.force_matching || (profile.status && profile.status !== 'ENABLED')) continue;
+        if (notes?.sqlProfile === profile.name) continue;
+        findings.push({
+          ruleId: 'sql-plan-management',
+          severity: 'warning',
+          nodeIds: rootIds,
+          title: `Force-matching SQL profile ${profile.name} not used`,
+          explanation: `Profile ${profile.name} is enabled with force_matching, so it should apply to this statement whatever its literals are, but the plan's Note ${notes?.sqlProfile ? `names profile ${notes.sqlProfile} instead` : 'doesn\'t mention it'}.`,
+          suggestion: `Check that the profile's category (${profile.category ?? 'DEFAULT'}) matches the session's sqltune_category, and that V$SQL.FORCE_MATCHING_SIGNATURE equals the profile's signature in DBA_SQL_PROFILES. ${notes?.sqlPlanBaseline ? `Baseline ${notes.sqlPlanBaseline} was used, and an accepted baseline overrides the profile's plan.` : 'A statement mixing literals and binds never force-matches.'}`,
+        });
+      }
+    }
+
+    if (notes?.dynamicSampling || notes?.planDirectives) {
+      const byTable = new Map<string, { directives: SqlPlanDirectiveInfo[]; columns: Set<string> }>();
+      for (const directive of sql.directives ?? []) {
+        if (!ACTIVE_DIRECTIVE_STATES.has(directive.state.toUpperCase())) continue;
+        if (!directive.type.toUpperCase().startsWith('DYNAMIC_SAMPLING')) continue;
+        for (const obj of directive.objects) {
+          const key = `${obj.owner}.${obj.object_name}`.toUpperCase();
+          const group = byTable.get(key) ?? { directives: [], columns: new Set<string>() };
+          if (!group.directives.includes(directive)) group.directives.push(directive);
+          if (obj.object_type.toUpperCase() === 'COLUMN' && obj.subobject_name) group.columns.add(obj.subobject_name);
+          byTable.set(key, group);
+        }
+      }
+
+      for (const [tableKey, { directives, columns }] of byTable) {
+        const nodeIds = plan.allNodes
+          .filter((node) => {
+            const match = ctx.findObject(node.objectName);
+            return match !== null && (match.object.type === 'TABLE' ? match.key : match.object.table) === tableKey;
+          })
+          .map((node) => node.id);
+        if (nodeIds.length === 0) continue;
+
+        const reasons = [...new Set(directives.map((d) => d.reason).filter((r): r is string => Boolean(r)))];
+        const level = notes.dynamicSamplingLevel !== undefined ? ` at level ${notes.dynamicSamplingLevel}` : '';
+        findings.push({
+          ruleId: 'sql-plan-management',
+          severity: 'info',
+          nodeIds,
+          title: `Plan directive${directives.length === 1 ? '' : 's'} sampling ${tableKey}`,
+          explanation: `${directives.length === 1 ? 'A usable SQL plan directive' : `${directives.length} usable SQL plan directives`} on ${tableKey}${reasons.length > 0 ? ` (${reasons.map((r) => r.toLowerCase()).join('; ')})` : ''} made the optimizer sample the table at parse time${level}. Every hard parse pays for the sampling, and estimates can shift from one parse to the next.`,
+          suggestion: columns.size >= 2
+            ? `The directive points at correlated columns ${[...columns].join(', ')}. Check DBA_STAT_EXTENSIONS for a column group on them; once statistics are gathered with one in place, the directive becomes SUPERSEDED and the sampling stops.`
+            : `Check DBA_SQL_PLAN_DIRECTIVES.LAST_USED and gather statistics on ${tableKey}; a directive that statistics can satisfy becomes SUPERSEDED and the sampling stops.`,
+        });
+      }
+    }
+
+    return findings.slice(0, ctx.thresholds.maxFindingsPerRule);
+  },
+};
@@ -0,0 +1,58 @@
+import type { AdvisorRule, Finding, RuleContext } from '../types';
+import type { PlanNode } from '../../types';
+import { formatBytes } from '../../format';
+import { isStorageFullScan, planHasOffloadStats } from '../../planSignals';
+
+/** Bytes the scan read: the offload-eligible volume when known, else the I/O read bytes. */
+function scannedBytes(node: PlanNode): number | undefined {
+  return node.cellEligibleBytes || node.ioReadBytes;
+}
+
+export const storageOffloadRule: AdvisorRule = {
+  id: 'storage-offload',
+  requiresActualStats: true,
+
+  evaluate(ctx: RuleContext): Finding[] {
+    const findings: Finding[] = [];
+    if (!planHasOffloadStats(ctx.plan)) return findings;
+    const { offloadMinReadBytes, offloadEfficiencyWarn, maxFindingsPerRule } = ctx.thresholds;
+
+    for (const node of ctx.plan.allNodes) {
+      if (!isStorageFullScan(node)) continue;
+      const bytes = scannedBytes(node);
+      if (bytes === undefined || bytes < offloadMinReadBytes) continue;
+
+      const efficiency = node.cellOffloadEfficiency;
+      const target = node.objectName ? ` of ${node.objectName}` : '';
+
+      if (efficiency === undefined || node.cellEligibleBytes === 0) {
+        // Other lines report offload stats, so a big storage scan without any
+        // was read through the buffer cache or by plain direct path reads.
+        findings.push({
+          ruleId: 'storage-offload',
+          severity: bytes >= offloadMinReadBytes * 10 ? 'critical' : 'warning',
+          nodeIds: [node.id],
+          title: `Smart scan not used on ${node.operation}${target}`,
+          explanation: `${node.operation}${target} read ${formatBytes(bytes)} but none of it was offloaded to the storage cells, so every block was shipped to the database and filtered there.`,
+          suggestion: 'Smart scan needs direct path reads: check for a serial scan of a segment the buffer cache considers small (_serial_direct_read), cell_offload_processing = FALSE, a chained-row or LOB-heavy table, or a segment on non-Exadata storage. Running the scan in parallel usually forces direct path reads.',
+        });
+      } else if (efficiency < offloadEfficiencyWarn) {
+        const returned = node.cellInterconnectBytes !== undefined ? ` (${formatBytes(node.cellInterconnectBytes)} came back over the interconnect)` : '';
+        findings.push({
+          ruleId: 'storage-offload',
+          severity: 'warning',
+          nodeIds: [node.id],
+          title: `Poor offload efficiency on ${node.operation}${target}`,
+          explanation: efficiency < 0
+            ? `The cells returned more bytes than ${node.operation}${target} read from disk${returned}: the ${formatBytes(bytes)} smart scan filtered nothing, typically because compressed (HCC) blocks were decompressed in the cells.`
+            : `Only ${efficiency.toFixed(1)}% of the ${formatBytes(bytes)} read by ${node.operation}${target} was filtered in the storage cells${returned}; most of the table travelled to the database anyway.`,
+          suggestion: 'Offload pays off when the cells can apply filters and column projection: move selective predicates onto the scanned table, avoid wrapping its columns in functions the cells cannot evaluate (see V$SQLFN_METADATA.OFFLOADABLE), and select fewer columns.',
+        });
+      }
+
+      if (findings.length >= maxFindingsPerRule) break;
+    }
+
+    return findings;
+  },
+};
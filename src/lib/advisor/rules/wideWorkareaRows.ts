@@ -0,0 +1,61 @@
+import type { AdvisorRule, Finding, RuleContext } from '../types';
+import type { PlanNode } from '../../types';
+import { formatBytes } from '../../format';
+
+const WORKAREA_OPERATION = /^(HASH JOIN|HASH GROUP BY|HASH UNIQUE|SORT (ORDER BY|GROUP BY|UNIQUE|JOIN)|WINDOW SORT|BUFFER SORT)/;
+
+/**
+ * The row source whose rows end up in the workarea: the build input for a
+ * hash join, otherwise the operation's own output (falling back to its input).
+ */
+function workareaSource(node: PlanNode): PlanNode | undefined {
+  if (node.operation.toUpperCase().startsWith('HASH JOIN')) return node.children[0];
+  return node.projection ? node : node.children[0];
+}
+
+export const wideWorkareaRowsRule: AdvisorRule = {
+  id: 'wide-workarea-rows',
+
+  evaluate(ctx: RuleContext): Finding[] {
+    const findings: Finding[] = [];
+    const { wideRowBytes, wideRowWorkareaBytes, maxFindingsPerRule } = ctx.thresholds;
+
+    for (const node of ctx.plan.allNodes) {
+      if (!WORKAREA_OPERATION.test(node.operation.toUpperCase())) continue;
+
+      const source = workareaSource(node);
+      const projection = source?.projection;
+      const rowWidth = projection?.rowWidth;
+      if (!source || !projection || rowWidth === undefined || rowWidth < wideRowBytes) continue;
+
+      const rows = source.actualRows ?? source.rows;
+      if (rows === undefined) continue;
+      const volume = rows * rowWidth;
+      if (volume < wideRowWorkareaBytes) continue;
+
+      const isHashJoin = node.operation.toUpperCase().startsWith('HASH JOIN');
+      const widest = [...projection.columns]
+        .filter((c) => c.width !== undefined)
+        .sort((a, b) => b.width! - a.width!)
+        .slice(0, 3)
+        .map((c) => `${c.expression} (${formatBytes(c.width)})`)
+        .join(', ');
+      const spilled = node.tempUsed !== undefined && node.tempUsed > 0;
+
+      findings.push({
+        ruleId: 'wide-workarea-rows',
+        severity: spilled ? 'critical' : 'warning',
+        nodeIds: source.id === node.id ? [node.id] : [node.id, source.id],
+        title: `Wide rows inflate the ${isHashJoin ? 'hash join build' : 'workarea'} on ${node.operation}`,
+        explanation: `Each ${isHashJoin ? 'build-side row' : 'row'} carries up to ${formatBytes(rowWidth)} across ${projection.columns.length} projected columns (widest: ${widest}). At ${rows.toLocaleString()} rows that is roughly ${formatBytes(volume)} of workarea before overhead${spilled ? `, and the operation spilled ${formatBytes(node.tempUsed)} to temp` : ''}.`,
+        suggestion: isHashJoin
+          ? 'Project only the columns needed above the join (avoid SELECT *), or make the narrower input the build side; wide columns can be joined back by key or ROWID after the join.'
+          : 'Project only the columns needed above this operation (avoid SELECT *); sort or aggregate the keys first and join wide columns back by key or ROWID afterwards.',
+      });
+
+      if (findings.length >= maxFindingsPerRule) break;
+    }
+
+    return findings;
+  },
+};
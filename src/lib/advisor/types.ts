@@ -1,6 +1,7 @@
 import type { ParsedPlan } from '../types';
 import type { MetadataBundle, MetadataObject } from '../metadata/bundle';
 import type { AdvisorThresholds } from './config';
+import type { FindingImpact } from './impact';
 
 export type FindingSeverity = 'info' | 'warning' | 'critical';
 
@@ -11,6 +12,12 @@ export interface Finding {
   title: string;
   explanation: string;
   suggestion: string;
+  /** SQL the suggestion proposes (index or statistics DDL), ready to copy. */
+  ddl?: string;
+  /** Name of the custom rule pack the finding came from; unset for built-in rules. */
+  rulePack?: string;
+  /** Estimated share of the statement's time (or cost) behind the finding; set by the engine. */
+  impact?: FindingImpact;
 }
 
 export type FindObjectFn = (objectName: string | undefined) => { key: string; object: MetadataObject } | null;
@@ -35,4 +42,6 @@ export interface AdvisorReport {
   findingsByNodeId: Map<number, Finding[]>;
   counts: Record<FindingSeverity, number>;
   maxSeverityByNodeId: Map<number, FindingSeverity>;
+  /** Like maxSeverityByNodeId, counting only findings at or above the badge impact threshold (or of unknown impact). */
+  impactfulSeverityByNodeId: Map<number, FindingSeverity>;
 }
@@ -1,4 +1,5 @@
 import type { PlanSource } from './types';
+import { downloadJson } from './download';
 
 // --- Highlight Styles ---
 
@@ -267,7 +268,7 @@ export function validateExport(data: unknown): data is AnnotatedPlanExport {
   if (obj.version !== 1 && obj.version !== 2) return false;
   if (typeof obj.rawPlanText !== 'string' || !obj.rawPlanText) return false;
   if (typeof obj.planSource !== 'string') return false;
-  if (!['dbms_xplan', 'sql_monitor_text', 'sql_monitor_xml', 'json', 'xbi'].includes(obj.planSource as string)) return false;
+  if (!['dbms_xplan', 'sql_monitor_text', 'sql_monitor_xml', 'json', 'csv', 'xbi', 'tkprof', 'cbo_trace'].includes(obj.planSource as string)) return false;
 
   const annotations = obj.annotations;
   if (!annotations || typeof annotations !== 'object') return false;
@@ -296,23 +297,11 @@ export function validateExport(data: unknown): data is AnnotatedPlanExport {
 // --- File I/O ---
 
 export function downloadAnnotatedPlan(exportData: AnnotatedPlanExport): void {
-  const json = JSON.stringify(exportData, null, 2);
-  const blob = new Blob([json], { type: 'application/json' });
-  const url = URL.createObjectURL(blob);
-
   const parts: string[] = [];
   if (exportData.sqlId) parts.push(exportData.sqlId);
   if (exportData.planHashValue) parts.push(exportData.planHashValue);
   if (parts.length === 0) parts.push('plan');
-  const filename = `${parts.join('-')}-annotated.json`;
-
-  const a = document.createElement('a');
-  a.href = url;
-  a.download = filename;
-  document.body.appendChild(a);
-  a.click();
-  document.body.removeChild(a);
-  URL.revokeObjectURL(url);
+  downloadJson(exportData, `${parts.join('-')}-annotated.json`);
 }
 
 export function generateGroupId(): string {
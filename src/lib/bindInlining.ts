@@ -0,0 +1,114 @@
+import type { BindVariable } from './types';
+
+export interface InlinedSql {
+  sql: string;
+  /** Placeholders replaced with a literal. */
+  inlined: number;
+  /** Placeholder names (as written) that had no bind value. */
+  unresolved: string[];
+}
+
+const NUMERIC_TYPE = /^(NUMBER|FLOAT|INTEGER|BINARY_(FLOAT|DOUBLE))\b/i;
+const NUMERIC_VALUE = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+/** Date formats Oracle prints peeked DATE / TIMESTAMP binds in, with their format models. */
+const DATE_FORMATS: Array<{ pattern: RegExp; model: string }> = [
+  { pattern: /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/, model: 'YYYY-MM-DD HH24:MI:SS' },
+  { pattern: /^\d{2}\/\d{2}\/\d{4} \d{2}:\d{2}:\d{2}$/, model: 'MM/DD/YYYY HH24:MI:SS' },
+  { pattern: /^\d{4}-\d{2}-\d{2}$/, model: 'YYYY-MM-DD' },
+];
+
+function quote(value: string): string {
+  return `'${value.replace(/'/g, '\'\'')}'`;
+}
+
+/** SQL literal for a bind value, typed from the bind's data type where known. */
+export function bindLiteral(bind: BindVariable): string {
+  const value = bind.value;
+  if (value === null) return 'NULL';
+  const type = bind.type ?? '';
+  if (NUMERIC_TYPE.test(type) || (!type && NUMERIC_VALUE.test(value))) {
+    return NUMERIC_VALUE.test(value) ? value : quote(value);
+  }
+  if (/^(DATE|TIMESTAMP)\b/i.test(type)) {
+    const format = DATE_FORMATS.find(({ pattern }) => pattern.test(value));
+    if (format) {
+      const fn = /^TIMESTAMP/i.test(type) ? 'TO_TIMESTAMP' : 'TO_DATE';
+      return `${fn}(${quote(value)}, '${format.model}')`;
+    }
+  }
+  return quote(value);
+}
+
+/** Normalised lookup key for a placeholder or bind name: `:b1` and `B1` both become `:B1`. */
+function bindKey(name: string): string {
+  const bare = name.replace(/^:/, '');
+  return `:${bare.startsWith('"') ? bare.slice(1, -1) : bare.toUpperCase()}`;
+}
+
+/**
+ * Replace `:name` / `:1` placeholders in `sqlText` with literal bind values,
+ * each followed by a comment naming the placeholder it replaced. Placeholders
+ * are matched by name, then by position for binds reported as `:1`, `:2`;
+ * peeked values win over captured ones. String literals, quoted identifiers
+ * and comments are left alone.
+ */
+export function inlineBindValues(sqlText: string, binds: BindVariable[]): InlinedSql {
+  const byName = new Map<string, BindVariable>();
+  const byPosition = new Map<number, BindVariable>();
+  for (const bind of binds) {
+    const key = bindKey(bind.name);
+    if (!byName.has(key) || (bind.source === 'peeked' && byName.get(key)!.source !== 'peeked')) byName.set(key, bind);
+    // Binds reported only by number (":1") stand for the nth placeholder, whatever it is called.
+    if (bind.position !== undefined && /^:?\d+$/.test(bind.name)) {
+      const existing = byPosition.get(bind.position);
+      if (!existing || (bind.source === 'peeked' && existing.source !== 'peeked')) byPosition.set(bind.position, bind);
+    }
+  }
+
+  let sql = '';
+  let inlined = 0;
+  let occurrence = 0;
+  const unresolved: string[] = [];
+  let i = 0;
+  while (i < sqlText.length) {
+    const ch = sqlText[i];
+    const next = sqlText[i + 1];
+    let end = i + 1;
+
+    if (ch === '\'' || ch === '"') {
+      end = sqlText.indexOf(ch, i + 1);
+      // A doubled quote is an escaped quote, not the end.
+      while (end !== -1 && sqlText[end + 1] === ch) end = sqlText.indexOf(ch, end + 2);
+      end = end === -1 ? sqlText.length : end + 1;
+    } else if (ch === '-' && next === '-') {
+      end = sqlText.indexOf('\n', i);
+      if (end === -1) end = sqlText.length;
+    } else if (ch === '/' && next === '*') {
+      end = sqlText.indexOf('*/', i + 2);
+      end = end === -1 ? sqlText.length : end + 2;
+    } else if (ch === ':' && next !== undefined && /["\w$#]/.test(next) && !/[\w:]/.test(sqlText[i - 1] ?? '')) {
+      const placeholder = sqlText.slice(i).match(/^:("[^"]+"|[\w$#]+)/);
+      if (placeholder) {
+        end = i + placeholder[0].length;
+        occurrence++;
+        const name = placeholder[0];
+        const bind = byName.get(bindKey(name)) ?? byPosition.get(occurrence);
+        if (bind) {
+          sql += `${bindLiteral(bind)} /* ${name} */`;
+          inlined++;
+        } else {
+          sql += name;
+          if (!unresolved.includes(name)) unresolved.push(name);
+        }
+        i = end;
+        continue;
+      }
+    }
+
+    sql += sqlText.slice(i, end);
+    i = end;
+  }
+
+  return { sql, inlined, unresolved };
+}
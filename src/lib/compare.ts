@@ -1,6 +1,7 @@
-import type { ParsedPlan, PlanNode } from './types';
+import type { ParsedPlan, PlanNode, ParseDiagnostic } from './types';
 import type { AnnotationState } from './annotations';
 import type { MetadataBundle } from './metadata/bundle';
+import type { PipelineProgress } from './pipeline/types';
 import { createEmptyAnnotationState } from './annotations';
 
 export interface PlanSlot {
@@ -10,6 +11,10 @@ export interface PlanSlot {
   rawInput: string;
   parsedPlan: ParsedPlan | null;
   error: string | null;
+  /** Problems the parser found in `rawInput`, with line numbers into it. */
+  diagnostics: ParseDiagnostic[];
+  /** Set while the pipeline worker parses input for this slot. */
+  parsing: PipelineProgress | null;
   selectedNodeId: number | null;
   selectedNodeIds: number[];
   annotations: AnnotationState;
@@ -287,6 +292,18 @@ export function getPlanSlotLabel(index: number): string {
   return `Plan ${getAlphaLabel(index)}`;
 }
 
+const STATEMENT_LABEL_MAX = 30;
+
+/**
+ * Default custom label for a slot whose plan came from a multi-statement
+ * source (TKPROF): the statement text, collapsed and shortened to fit a tab.
+ */
+export function getStatementSlotLabel(plan: ParsedPlan): string | undefined {
+  if (plan.source !== 'tkprof' || !plan.sqlText) return undefined;
+  const text = plan.sqlText.replace(/\s+/g, ' ').trim();
+  return text.length > STATEMENT_LABEL_MAX ? `${text.slice(0, STATEMENT_LABEL_MAX - 1).trimEnd()}…` : text;
+}
+
 export function createEmptySlot(index: number): PlanSlot {
   return {
     id: `plan-${index}`,
@@ -294,6 +311,8 @@ export function createEmptySlot(index: number): PlanSlot {
     rawInput: '',
     parsedPlan: null,
     error: null,
+    diagnostics: [],
+    parsing: null,
     selectedNodeId: null,
     selectedNodeIds: [],
     annotations: createEmptyAnnotationState(),
@@ -29,6 +29,8 @@ export const DENSITY_PRESETS: Record<DensityPreset, NodeDisplayOptions> = {
     showSpillBadge: true,
     showCardinalityBadge: true,
     showAdvisorBadge: true,
+    showLowImpactAdvisorBadge: false,
+    showOffloadBadge: true,
     showStaleStatsBadge: false,
     showMissingStatsBadge: false,
     showMismatchNoHistogramBadge: false,
@@ -51,6 +53,8 @@ export const DENSITY_PRESETS: Record<DensityPreset, NodeDisplayOptions> = {
     showSpillBadge: true,
     showCardinalityBadge: true,
     showAdvisorBadge: true,
+    showLowImpactAdvisorBadge: false,
+    showOffloadBadge: true,
     showStaleStatsBadge: true,
     showMissingStatsBadge: true,
     showMismatchNoHistogramBadge: true,
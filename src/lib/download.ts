@@ -0,0 +1,16 @@
+/**
+ * Save `data` as a pretty-printed JSON file: a temporary `<a download>` link
+ * to an object URL, clicked and revoked straight away.
+ */
+export function downloadJson(data: unknown, filename: string): void {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
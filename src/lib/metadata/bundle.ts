@@ -32,6 +32,8 @@ export interface SqlPlanBaselineInfo {
   enabled: boolean;
   accepted: boolean;
   fixed: boolean;
+  /** Plan hash the baseline reproduces (from DBMS_XPLAN.DISPLAY_SQL_PLAN_BASELINE); absent from older bundles. */
+  plan_hash_value?: number | null;
   origin?: string;
   created?: string | null;
   last_modified?: string | null;
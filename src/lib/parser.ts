@@ -8,7 +8,9 @@ export {
   parsePlans,
   extractDbmsXplanSegments,
   splitDbmsXplanPlanBatches,
+  splitPlanBatches,
   detectFormat,
   hasRuntimeStats,
   getSourceDisplayName,
+  applyRepair,
 } from './parser/index';
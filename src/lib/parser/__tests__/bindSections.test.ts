@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { parseBindSections } from '../bindSections';
+import { dbmsXplanParser } from '../dbmsXplanParser';
+
+const PLAN = `SQL_ID  7h35uxf5uhmm1, child number 0
+-------------------------------------
+select * from emp where deptno = :B1 and ename = :ename
+
+Plan hash value: 3956160932
+
+--------------------------------------------------------------------------
+| Id  | Operation         | Name | Rows  | Bytes | Cost (%CPU)| Time     |
+--------------------------------------------------------------------------
+|   0 | SELECT STATEMENT  |      |       |       |     3 (100)|          |
+|*  1 |  TABLE ACCESS FULL| EMP  |     1 |    38 |     3   (0)| 00:00:01 |
+--------------------------------------------------------------------------
+
+Peeked Binds (identified by position):
+--------------------------------------
+
+   2 - :ENAME (VARCHAR2(30), CSID=873): 'O''BRIEN AND A VERY LONG NAME
+       THAT WRAPS'
+   1 - :B1 (NUMBER): 10
+
+Predicate Information (identified by operation id):
+---------------------------------------------------
+
+   1 - filter(("DEPTNO"=:B1 AND "ENAME"=:ENAME))
+`;
+
+describe('parseBindSections', () => {
+  it('reads peeked binds in position order, rejoining wrapped values', () => {
+    expect(parseBindSections(PLAN.split('\n'))).toEqual([
+      { name: ':B1', type: 'NUMBER', value: '10', position: 1, source: 'peeked' },
+      { name: ':ENAME', type: 'VARCHAR2(30)', value: 'O\'BRIEN AND A VERY LONG NAME THAT WRAPS', position: 2, source: 'peeked' },
+    ]);
+  });
+
+  it('reads captured binds and null values after the peeked ones', () => {
+    const binds = parseBindSections([
+      'Captured Binds (identified by position):',
+      '----------------------------------------',
+      '   1 - :1 (DATE): 10/19/2026 00:00:00',
+      '   2 - :2 (VARCHAR2(32)): (null)',
+      '',
+      'Peeked Binds (identified by position):',
+      '--------------------------------------',
+      '   1 - :1 (DATE): 10/18/2026 00:00:00',
+    ]);
+    expect(binds?.map((b) => [b.source, b.name, b.value])).toEqual([
+      ['peeked', ':1', '10/18/2026 00:00:00'],
+      ['captured', ':1', '10/19/2026 00:00:00'],
+      ['captured', ':2', null],
+    ]);
+  });
+
+  it('returns undefined without a bind section', () => {
+    expect(parseBindSections(['Note', '-----', '   - dynamic statistics used'])).toBeUndefined();
+  });
+});
+
+describe('DBMS_XPLAN bind variables', () => {
+  it('attaches peeked binds to the plan without disturbing predicates', () => {
+    const plan = dbmsXplanParser.parse(PLAN);
+    expect(plan.bindVariables?.map((b) => b.name)).toEqual([':B1', ':ENAME']);
+    expect(plan.allNodes[1].filterPredicates).toBe('("DEPTNO"=:B1 AND "ENAME"=:ENAME)');
+  });
+});
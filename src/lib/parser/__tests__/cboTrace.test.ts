@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { cboTraceForNode, cboTraceParser, planNodeForJoinStep } from '../cboTraceParser';
+import { detectFormat, parsePlan, splitPlanBatches } from '../index';
+
+function readFixture(filename: string): string {
+  return readFileSync(join(__dirname, 'fixtures', filename), 'utf-8');
+}
+
+const TRACE = readFixture('cbo-trace-10053.trc');
+
+describe('10053 trace parser', () => {
+  it('detects a 10053 trace ahead of the embedded plan table', () => {
+    expect(cboTraceParser.canParse(TRACE)).toBe(true);
+    expect(detectFormat(TRACE)).toBe('cbo_trace');
+    expect(splitPlanBatches(TRACE)).toEqual([TRACE.trim()]);
+  });
+
+  it('builds the plan tree from the trace plan table', () => {
+    const plan = parsePlan(TRACE);
+    expect(plan.source).toBe('cbo_trace');
+    expect(plan.sqlId).toBe('8tq3bm2rs1xkc');
+    expect(plan.planHashValue).toBe('2882680873');
+    expect(plan.allNodes).toHaveLength(8);
+    expect(plan.sqlText).toMatch(/^select/i);
+  });
+
+  it('reads base table and index statistics', () => {
+    const trace = parsePlan(TRACE).cboTrace!;
+    expect(trace.tables.map((t) => t.table)).toEqual(['LOCATIONS', 'EMP', 'DEPT']);
+
+    const emp = trace.tables.find((t) => t.table === 'EMP')!;
+    expect(emp.alias).toBe('E');
+    expect(emp.rows).toBe(107);
+    const deptIx = emp.indexes.find((i) => i.name === 'EMP_DEPT_IX')!;
+    expect(deptIx.clusteringFactor).toBe(7);
+  });
+
+  it('reads single table access paths and picks the best one', () => {
+    const trace = parsePlan(TRACE).cboTrace!;
+    const dept = trace.accessPaths.find((p) => p.table === 'DEPT')!;
+    expect(dept.best).toMatchObject({ path: 'IndexFullScan', index: 'DEPT_ID_PK', cost: 1.000231 });
+    expect(dept.candidates.length).toBeGreaterThan(1);
+
+    const emp = trace.accessPaths.find((p) => p.table === 'EMP')!;
+    expect(emp.originalCardinality).toBe(107);
+    expect(emp.cardinality).toBe(103);
+    expect(emp.best?.cost).toBe(3.001743);
+  });
+
+  it('reads every join order and marks the chosen and aborted ones', () => {
+    const trace = parsePlan(TRACE).cboTrace!;
+    expect(trace.joinOrders.map((o) => o.number)).toEqual([1, 2, 3, 4]);
+
+    const [first, second, third, fourth] = trace.joinOrders;
+    expect(first).toMatchObject({ cost: 8.003822, aborted: false, chosen: false });
+    expect(second).toMatchObject({ cost: 9.002911, aborted: true });
+    expect(fourth.aborted).toBe(true);
+
+    expect(third.chosen).toBe(true);
+    expect(third.cost).toBe(7.004218);
+    expect(third.steps.map((s) => [s.alias, s.method])).toEqual([
+      ['D', undefined],
+      ['L', 'SortMerge'],
+      ['E', 'Hash'],
+    ]);
+    expect(third.steps[0].cost).toBe(1.000231);
+
+    // The leading table's cost comes from its access path when the join order
+    // only prints the joined tables.
+    expect(fourth.steps[0]).toMatchObject({ table: 'EMP', cost: 3.001743 });
+
+    expect(trace.queryBlocks).toEqual([
+      expect.objectContaining({ queryBlock: 'SEL$1', bestJoinOrder: 3 }),
+    ]);
+  });
+
+  it('links trace entries to plan lines', () => {
+    const plan = parsePlan(TRACE);
+    const trace = plan.cboTrace!;
+    const deptLine = plan.allNodes.find((n) => n.id === 3)!;
+
+    const { table, accessPath } = cboTraceForNode(trace, deptLine);
+    expect(table?.table).toBe('DEPT');
+    expect(accessPath?.best?.index).toBe('DEPT_ID_PK');
+
+    const chosen = trace.joinOrders.find((o) => o.chosen)!;
+    expect(planNodeForJoinStep(plan.allNodes, chosen.steps[0])?.id).toBe(3);
+    expect(planNodeForJoinStep(plan.allNodes, chosen.steps[2])?.id).toBe(7);
+  });
+
+  it('returns nothing for a plain plan without a trace', () => {
+    const plan = parsePlan(TRACE);
+    expect(cboTraceForNode(undefined, plan.allNodes[0])).toEqual({});
+  });
+});
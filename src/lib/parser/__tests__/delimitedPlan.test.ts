@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { delimitedPlanParser, splitDelimited } from '../delimitedPlanParser';
+import { detectFormat, parsePlan } from '../index';
+
+const SQLCL_CSV = `"SQL_ID","PLAN_HASH_VALUE","CHILD_NUMBER","ID","PARENT_ID","DEPTH","OPERATION","OPTIONS","OBJECT_NAME","CARDINALITY","COST","ACCESS_PREDICATES","FILTER_PREDICATES","LAST_STARTS","LAST_OUTPUT_ROWS","LAST_CR_BUFFER_GETS","LAST_ELAPSED_TIME"
+"7h35uxf5uhmm1",1343509718,0,0,,0,"SELECT STATEMENT",,,,7,,,1,96,14,1520
+"7h35uxf5uhmm1",1343509718,0,1,0,1,"HASH JOIN",,,96,7,"""D"".""DEPARTMENT_ID""=""E"".""DEPARTMENT_ID""",,1,96,14,1400
+"7h35uxf5uhmm1",1343509718,0,2,1,2,"TABLE ACCESS","FULL","DEPARTMENTS",27,3,,"(""D"".""LOCATION_ID"">1000
+       AND ""D"".""MANAGER_ID"" IS NOT NULL)",1,11,7,80
+"7h35uxf5uhmm1",1343509718,0,3,1,2,"TABLE ACCESS","FULL","EMPLOYEES",107,3,,,1,107,7,95
+"7h35uxf5uhmm1",1343509718,1,0,,0,"SELECT STATEMENT",,,,9,,,1,96,20,2100
+
+5 rows selected.
+`;
+
+const GRID_TSV = [
+  'ID\tPARENT_ID\tOperation\tOptions\tObject Name\tCardinality\tCost',
+  '0\t(null)\tSELECT STATEMENT\t(null)\t(null)\t(null)\t2',
+  '1\t0\tINDEX\tRANGE SCAN\tEMP_DEPT_IX\t10\t1',
+].join('\n');
+
+const SQLPLUS_FIXED = `
+        ID  PARENT_ID      DEPTH OPERATION            OPTIONS    OBJECT_NAME  FILTER_PREDICATES
+---------- ---------- ---------- -------------------- ---------- ------------ --------------------
+         0                     0 SELECT STATEMENT
+         1          0          1 TABLE ACCESS         FULL       EMP          "SAL">1000 AND "DEPT
+                                                                              NO"=10
+
+2 rows selected.
+`;
+
+describe('delimited plan parser', () => {
+  it('splits quoted fields with delimiters, doubled quotes and line breaks', () => {
+    expect(splitDelimited('a,"b,c","say ""hi""","line\nbreak"\n1,2,3,4', ',')).toEqual([
+      ['a', 'b,c', 'say "hi"', 'line\nbreak'],
+      ['1', '2', '3', '4'],
+    ]);
+  });
+
+  it('detects CSV, TSV and fixed-width V$SQL_PLAN rows', () => {
+    expect(detectFormat(SQLCL_CSV)).toBe('csv');
+    expect(detectFormat(GRID_TSV)).toBe('csv');
+    expect(detectFormat(SQLPLUS_FIXED)).toBe('csv');
+  });
+
+  it('does not claim DBMS_XPLAN output', () => {
+    const xplan = `Plan hash value: 1
+----------------------------------
+| Id  | Operation         | Name |
+----------------------------------
+|   0 | SELECT STATEMENT  |      |
+|   1 |  TABLE ACCESS FULL| EMP  |
+----------------------------------`;
+    expect(delimitedPlanParser.canParse(xplan)).toBe(false);
+  });
+
+  it('parses SQLcl CSV with multi-line predicates, keeping the first child cursor', () => {
+    const plan = parsePlan(SQLCL_CSV);
+    expect(plan.source).toBe('csv');
+    expect(plan.sqlId).toBe('7h35uxf5uhmm1');
+    expect(plan.planHashValue).toBe('1343509718');
+    expect(plan.allNodes).toHaveLength(4);
+    expect(plan.hasActualStats).toBe(true);
+
+    const join = plan.allNodes[1];
+    expect(join.operation).toBe('HASH JOIN');
+    expect(join.accessPredicates).toBe('"D"."DEPARTMENT_ID"="E"."DEPARTMENT_ID"');
+    expect(join.children.map((c) => c.id)).toEqual([2, 3]);
+    expect(join.actualTime).toBeCloseTo(1.4);
+
+    const dept = plan.allNodes[2];
+    expect(dept.operation).toBe('TABLE ACCESS FULL');
+    expect(dept.objectName).toBe('DEPARTMENTS');
+    expect(dept.filterPredicates).toContain('\n');
+    expect(dept.filterPredicates).toContain('"D"."MANAGER_ID" IS NOT NULL');
+    expect(dept.actualRows).toBe(11);
+    expect(dept.logicalReads).toBe(7);
+  });
+
+  it('parses grid copies with spaced headers and (null) cells', () => {
+    const plan = parsePlan(GRID_TSV);
+    expect(plan.allNodes).toHaveLength(2);
+    expect(plan.rootNode?.rows).toBeUndefined();
+    expect(plan.allNodes[1]).toMatchObject({ operation: 'INDEX RANGE SCAN', objectName: 'EMP_DEPT_IX', parentId: 0, rows: 10 });
+  });
+
+  it('parses SQL*Plus fixed-width output and joins wrapped values', () => {
+    const plan = parsePlan(SQLPLUS_FIXED);
+    expect(plan.allNodes).toHaveLength(2);
+    expect(plan.rootNode?.children).toHaveLength(1);
+    expect(plan.allNodes[1]).toMatchObject({
+      operation: 'TABLE ACCESS FULL',
+      objectName: 'EMP',
+      filterPredicates: '"SAL">1000 AND "DEPTNO"=10',
+    });
+  });
+
+  it('reports nothing for clean exports', () => {
+    expect(parsePlan(SQLCL_CSV).diagnostics).toBeUndefined();
+    expect(parsePlan(GRID_TSV).diagnostics).toBeUndefined();
+    expect(parsePlan(SQLPLUS_FIXED).diagnostics).toBeUndefined();
+  });
+
+  it('points at skipped and short rows', () => {
+    const csv = [
+      'ID,PARENT_ID,OPERATION,OPTIONS,OBJECT_NAME,COST',
+      '0,,SELECT STATEMENT,,,4',
+      '1,0,"SORT",',
+      'total,,,,,4',
+      '2,1,TABLE ACCESS,FULL,EMP,3',
+    ].join('\n');
+    const plan = parsePlan(csv);
+    expect(plan.allNodes.map((n) => n.operation)).toEqual(['SELECT STATEMENT', 'SORT', 'TABLE ACCESS FULL']);
+    expect(plan.diagnostics?.map((d) => [d.severity, d.line, d.message])).toEqual([
+      ['warning', 3, expect.stringMatching(/has 4 of the 6 fields/)],
+      ['warning', 4, expect.stringMatching(/no numeric ID or no OPERATION/)],
+    ]);
+
+    const fixed = parsePlan(SQLPLUS_FIXED.replace('         1          0          1 TABLE ACCESS', '         x          0          1 TABLE ACCESS'));
+    expect(fixed.allNodes).toHaveLength(1);
+    expect(fixed.diagnostics).toEqual([expect.objectContaining({ severity: 'warning', line: 5 })]);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { parsePlan, applyRepair, rejoinWrappedRows } from '../index';
+import { findWrappedRows, missingIdDiagnostics } from '../diagnostics';
+
+const PLAN = `Plan hash value: 1234567890
+
+--------------------------------------------------------------------------------------------
+| Id  | Operation                    | Name        | Rows  | Bytes | Cost (%CPU)| Time     |
+--------------------------------------------------------------------------------------------
+|   0 | SELECT STATEMENT             |             |    10 |   500 |    25   (4)| 00:00:01 |
+|*  1 |  HASH JOIN                   |             |    10 |   500 |    25   (4)| 00:00:01 |
+|   2 |   TABLE ACCESS FULL          | EMPLOYEES   |   107 |  7276 |     3   (0)| 00:00:01 |
+|   3 |   TABLE ACCESS FULL          | DEPARTMENTS |    27 |   540 |    12   (0)| 00:00:01 |
+--------------------------------------------------------------------------------------------
+
+Predicate Information (identified by operation id):
+---------------------------------------------------
+
+   1 - access("E"."DEPARTMENT_ID"="D"."DEPARTMENT_ID")
+`;
+
+/** What SQL*Plus prints with SET LINESIZE `width`: every longer line is broken at exactly `width`. */
+function wrapAt(text: string, width: number): string {
+  return text.split('\n').flatMap((line) => {
+    const parts: string[] = [];
+    for (let i = 0; i < line.length; i += width) parts.push(line.slice(i, i + width));
+    return parts.length > 0 ? parts : [''];
+  }).join('\n');
+}
+
+describe('parse diagnostics', () => {
+  it('reports nothing for a clean plan', () => {
+    const plan = parsePlan(PLAN);
+    expect(plan.allNodes).toHaveLength(4);
+    expect(plan.diagnostics).toBeUndefined();
+  });
+
+  it('flags rows wrapped by a small LINESIZE and offers a repair', () => {
+    const wrapped = wrapAt(PLAN, 60);
+    const plan = parsePlan(wrapped);
+    const warning = plan.diagnostics?.find((d) => d.repair === 'rejoin-wrapped-rows');
+
+    expect(warning).toMatchObject({ severity: 'warning', line: 5 });
+    expect(warning?.message).toMatch(/LINESIZE wrapped/);
+    // Header, middle border, four plan rows and the closing border.
+    expect(findWrappedRows(wrapped.split('\n'))).toHaveLength(7);
+  });
+
+  it('rejoins wrapped rows into a plan that parses completely', () => {
+    const repaired = applyRepair(wrapAt(PLAN, 60), 'rejoin-wrapped-rows');
+    const plan = parsePlan(repaired);
+
+    expect(plan.diagnostics).toBeUndefined();
+    expect(plan.allNodes.map((n) => n.objectName)).toEqual([undefined, undefined, 'EMPLOYEES', 'DEPARTMENTS']);
+    expect(plan.allNodes[3].cost).toBe(12);
+    expect(rejoinWrappedRows(PLAN)).toBe(PLAN);
+  });
+
+  it('warns about a header cut off without a closing "|"', () => {
+    const truncated = PLAN.split('\n').map((line) => (line.startsWith('|') ? line.slice(0, 70) : line)).join('\n');
+    const plan = parsePlan(truncated);
+    expect(plan.diagnostics).toContainEqual(expect.objectContaining({
+      severity: 'warning',
+      line: 4,
+      message: expect.stringMatching(/cut off/),
+    }));
+  });
+
+  it('explains a table with no header row', () => {
+    const headless = PLAN.split('\n').filter((line) => !line.includes('Operation')).join('\n');
+    const plan = parsePlan(headless);
+    expect(plan.diagnostics?.some((d) => d.severity === 'error' || d.severity === 'warning')).toBe(true);
+  });
+
+  it('points at the row after a gap in the plan line ids', () => {
+    const gapped = PLAN.split('\n').filter((line) => !line.startsWith('|   2 ')).join('\n');
+    const plan = parsePlan(gapped);
+    expect(plan.diagnostics).toContainEqual(expect.objectContaining({
+      severity: 'warning',
+      line: 8,
+      message: expect.stringMatching(/Plan line 2 is missing/),
+    }));
+  });
+
+  it('treats hidden adaptive rows as info', () => {
+    const byId = new Map([[2, 10]]);
+    const [diagnostic] = missingIdDiagnostics([0, 2], (id) => byId.get(id), true);
+    expect(diagnostic).toMatchObject({ severity: 'info', line: 10 });
+    expect(diagnostic.fix).toMatch(/\+ADAPTIVE/);
+  });
+
+  it('counts leading blank lines in the line numbers', () => {
+    const gapped = PLAN.split('\n').filter((line) => !line.startsWith('|   2 ')).join('\n');
+    const plan = parsePlan(`\n\n${gapped}`);
+    expect(plan.diagnostics?.find((d) => /missing/.test(d.message))?.line).toBe(10);
+  });
+
+  it('reports the line of a JSON syntax error', () => {
+    const plan = parsePlan('[\n  { "id": 0, "operation": "SELECT STATEMENT" },\n  { "id": 1 "operation": "SORT" }\n]');
+    expect(plan.rootNode).toBeNull();
+    expect(plan.diagnostics?.[0]).toMatchObject({ severity: 'error' });
+    expect(plan.diagnostics?.[0].line).toBe(3);
+  });
+
+  it('reports malformed SQL Monitor XML', () => {
+    const plan = parsePlan('<report>\n<sql_monitor_report>\n<plan_monitor>\n</report>');
+    expect(plan.diagnostics?.[0].severity).toBe('error');
+  });
+});
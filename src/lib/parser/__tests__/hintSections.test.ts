@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import {
+  parseOutlineData,
+  parseHintReport,
+  outlineHintsForQueryBlock,
+  hintReportEntriesForNode,
+} from '../hintSections';
+import { dbmsXplanParser } from '../dbmsXplanParser';
+
+function lines(text: string): string[] {
+  return text.split('\n');
+}
+
+const OUTLINE = `
+Outline Data
+-------------
+
+  /*+
+      BEGIN_OUTLINE_DATA
+      IGNORE_OPTIM_EMBEDDED_HINTS
+      OPTIMIZER_FEATURES_ENABLE('19.1.0')
+      DB_VERSION('19.1.0')
+      ALL_ROWS
+      OUTLINE_LEAF(@"SEL$1")
+      FULL(@"SEL$1" "E"@"SEL$1")
+      INDEX_RS_ASC(@"SEL$1" "D"@"SEL$1" ("DEPARTMENTS"."DEPARTMENT_ID"
+              "DEPARTMENTS"."LOCATION_ID"))
+      LEADING(@"SEL$1" "E"@"SEL$1" "D"@"SEL$1")
+      USE_NL(@"SEL$1" "D"@"SEL$1")
+      END_OUTLINE_DATA
+  */
+`;
+
+const HINT_REPORT = `
+Hint Report (identified by operation id / Query Block Name / Object Alias):
+Total hints for statement: 3 (U - Unused (1), E - Syntax error (1))
+---------------------------------------------------------------------------
+
+   0 -  STATEMENT
+         E -  INDEX_DESC(
+
+   1 -  SEL$1
+           -  PARALLEL(4)
+
+   2 -  SEL$1 / E@SEL$1
+         U -  FULL(e) / hint overridden by another in parent query block
+
+
+Note
+-----
+   - this is an adaptive plan
+`;
+
+describe('parseOutlineData', () => {
+  it('returns undefined without an Outline Data block', () => {
+    expect(parseOutlineData(lines('Plan hash value: 1\n'))).toBeUndefined();
+  });
+
+  it('collects hints and rejoins wrapped ones', () => {
+    const hints = parseOutlineData(lines(OUTLINE))!;
+    expect(hints).toHaveLength(9);
+    expect(hints[0]).toEqual({ hint: 'IGNORE_OPTIM_EMBEDDED_HINTS', queryBlock: undefined });
+    expect(hints[6].hint).toBe(
+      'INDEX_RS_ASC(@"SEL$1" "D"@"SEL$1" ("DEPARTMENTS"."DEPARTMENT_ID" "DEPARTMENTS"."LOCATION_ID"))',
+    );
+    expect(hints[6].queryBlock).toBe('SEL$1');
+  });
+
+  it('filters hints by query block', () => {
+    const hints = parseOutlineData(lines(OUTLINE));
+    expect(outlineHintsForQueryBlock(hints, 'SEL$1')).toHaveLength(5);
+    expect(outlineHintsForQueryBlock(hints, 'SEL$2')).toHaveLength(0);
+    expect(outlineHintsForQueryBlock(hints, undefined)).toHaveLength(0);
+  });
+});
+
+describe('parseHintReport', () => {
+  it('returns undefined without a Hint Report block', () => {
+    expect(parseHintReport(lines('Note\n-----\n'))).toBeUndefined();
+  });
+
+  it('parses statuses, query blocks, aliases and reasons', () => {
+    const report = parseHintReport(lines(HINT_REPORT))!;
+    expect(report.totalHints).toBe(3);
+    expect(report.entries).toEqual([
+      { lineId: 0, queryBlock: undefined, objectAlias: undefined, hint: 'INDEX_DESC(', status: 'error', reason: undefined },
+      { lineId: 1, queryBlock: 'SEL$1', objectAlias: undefined, hint: 'PARALLEL(4)', status: 'used', reason: undefined },
+      {
+        lineId: 2,
+        queryBlock: 'SEL$1',
+        objectAlias: 'E@SEL$1',
+        hint: 'FULL(e)',
+        status: 'unused',
+        reason: 'hint overridden by another in parent query block',
+      },
+    ]);
+  });
+
+  it('attaches query-block hints to every node of the block', () => {
+    const report = parseHintReport(lines(HINT_REPORT));
+    expect(hintReportEntriesForNode(report, 2, 'SEL$1').map((e) => e.hint)).toEqual(['PARALLEL(4)', 'FULL(e)']);
+    expect(hintReportEntriesForNode(report, 3, 'SEL$1').map((e) => e.hint)).toEqual(['PARALLEL(4)']);
+    expect(hintReportEntriesForNode(report, 0, undefined).map((e) => e.hint)).toEqual(['INDEX_DESC(']);
+  });
+});
+
+describe('dbmsXplanParser hint sections', () => {
+  it('exposes outline hints and the hint report on the parsed plan', () => {
+    const input = `Plan hash value: 1234
+
+---------------------------------------------------------------------------
+| Id  | Operation          | Name | Rows  | Bytes | Cost (%CPU)| Time     |
+---------------------------------------------------------------------------
+|   0 | SELECT STATEMENT   |      |    14 |   532 |     3   (0)| 00:00:01 |
+|   1 |  TABLE ACCESS FULL | EMP  |    14 |   532 |     3   (0)| 00:00:01 |
+---------------------------------------------------------------------------
+${OUTLINE}
+${HINT_REPORT}`;
+    const plan = dbmsXplanParser.parse(input);
+    expect(plan.outlineHints).toHaveLength(9);
+    expect(plan.hintReport?.entries).toHaveLength(3);
+    expect(plan.notes?.adaptivePlan).toBe(true);
+  });
+});
@@ -140,3 +140,15 @@ note
     expect(parseNoteSection(input)?.adaptivePlan).toBe(true);
   });
 });
+
+describe('parseNoteSection - degree of parallelism', () => {
+  it('reads the DOP and its reason', () => {
+    const notes = parseNoteSection(lines(`
+Note
+-----
+   - Degree of Parallelism is 8 because of hint
+`));
+    expect(notes?.dop).toBe(8);
+    expect(notes?.dopReason).toBe('hint');
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { decodeOracleDate, decodeOracleNumber, parseOtherXml } from '../otherXml';
+import { jsonPlanParser } from '../jsonPlanParser';
+
+function hex(text: string): Uint8Array {
+  return new Uint8Array(text.match(/../g)!.map((b) => parseInt(b, 16)));
+}
+
+const OTHER_XML = `<other_xml><info type="db_version">19.0.0.0</info><info type="parse_schema"><![CDATA["HR"]]></info><info type="dynamic_sampling" note="y">2</info><info type="plan_hash_full">2914431735</info><info type="plan_hash">1343509718</info><info type="adaptive_plan" note="y">yes</info><info type="sql_profile" note="y"><![CDATA["SYS_SQLPROF_0184a1"]]></info><info type="dop" note="y">4</info><info type="dop_reason" note="y">table property</info><peeked_binds><bind nam=":DEPT" pos="2" ppo="0" dty="1" csi="873" frm="1" mxl="32">4b494e47</bind><bind nam=":SAL" pos="1" dty="2" pre="0" scl="0" mxl="22">c20d2333</bind><bind nam=":HIRED" pos="3" dty="12" mxl="7">787c030f0e2e1f</bind><bind nam=":MGR" pos="4" dty="2" mxl="22"></bind></peeked_binds><outline_data><hint><![CDATA[IGNORE_OPTIM_EMBEDDED_HINTS]]></hint><hint><![CDATA[OPTIMIZER_FEATURES_ENABLE('19.1.0')]]></hint><hint><![CDATA[FULL(@"SEL$1" "E"@"SEL$1")]]></hint><hint><![CDATA[USE_HASH(@"SEL$1" "D"@"SEL$1")]]></hint></outline_data></other_xml>`;
+
+describe('decodeOracleNumber', () => {
+  it.each([
+    ['80', '0'],
+    ['c102', '1'],
+    ['c10b', '10'],
+    ['c20d2333', '1234.5'],
+    ['c30b', '100000'],
+    ['c006', '0.05'],
+    ['3e6066', '-5'],
+    ['3d5b645166', '-1001.2'],
+  ])('decodes %s as %s', (raw, expected) => {
+    expect(decodeOracleNumber(hex(raw))).toBe(expected);
+  });
+});
+
+describe('decodeOracleDate', () => {
+  it('decodes the 7-byte DATE format', () => {
+    expect(decodeOracleDate(hex('787c030f0e2e1f'))).toBe('2024-03-15 13:45:30');
+  });
+
+  it('appends TIMESTAMP fractional seconds', () => {
+    expect(decodeOracleDate(hex('787c030f0e2e1f1dcd6500'))).toBe('2024-03-15 13:45:30.5');
+  });
+});
+
+describe('parseOtherXml', () => {
+  const info = parseOtherXml(OTHER_XML);
+
+  it('decodes peeked binds in position order', () => {
+    expect(info.bindVariables).toEqual([
+      { name: ':SAL', type: 'NUMBER', value: '1234.5', position: 1 },
+      { name: ':DEPT', type: 'VARCHAR2(32)', value: 'KING', position: 2 },
+      { name: ':HIRED', type: 'DATE', value: '2024-03-15 13:45:30', position: 3 },
+      { name: ':MGR', type: 'NUMBER', value: null, position: 4 },
+    ]);
+  });
+
+  it('reads outline hints with their query blocks', () => {
+    expect(info.outlineHints).toHaveLength(4);
+    expect(info.outlineHints?.[2]).toEqual({ hint: 'FULL(@"SEL$1" "E"@"SEL$1")', queryBlock: 'SEL$1' });
+    expect(info.outlineHints?.[0].queryBlock).toBeUndefined();
+  });
+
+  it('sets note flags and the DOP reason', () => {
+    expect(info.notes).toMatchObject({
+      dynamicSampling: true,
+      dynamicSamplingLevel: 2,
+      adaptivePlan: true,
+      sqlProfile: 'SYS_SQLPROF_0184a1',
+      dop: 4,
+      dopReason: 'table property',
+    });
+  });
+
+  it('returns nothing for an OTHER_XML without binds, outline or notes', () => {
+    expect(parseOtherXml('<other_xml><info type="db_version">19.0.0.0</info></other_xml>')).toEqual({
+      bindVariables: undefined,
+      outlineHints: undefined,
+      notes: undefined,
+      inactiveIds: undefined,
+    });
+  });
+
+  it('is applied to JSON plans', () => {
+    const plan = jsonPlanParser.parse(JSON.stringify([
+      { id: 0, operation: 'SELECT STATEMENT', depth: 0 },
+      { id: 1, parent_id: 0, operation: 'TABLE ACCESS', options: 'FULL', object_name: 'EMP', depth: 1, other_xml: OTHER_XML },
+    ]));
+    expect(plan.bindVariables).toHaveLength(4);
+    expect(plan.outlineHints).toHaveLength(4);
+    expect(plan.notes?.dop).toBe(4);
+  });
+});
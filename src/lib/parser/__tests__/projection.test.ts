@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { parseProjection, parseProjectionSection } from '../projection';
+import { dbmsXplanParser } from '../dbmsXplanParser';
+import { jsonPlanParser } from '../jsonPlanParser';
+
+function lines(text: string): string[] {
+  return text.split('\n');
+}
+
+const PLAN = `Plan hash value: 1343509718
+
+-----------------------------------------------------------------------------------
+| Id  | Operation          | Name        | Rows  | Bytes | Cost (%CPU)| Time     |
+-----------------------------------------------------------------------------------
+|   0 | SELECT STATEMENT   |             |   106 |  4028 |     6  (17)| 00:00:01 |
+|*  1 |  HASH JOIN         |             |   106 |  4028 |     6  (17)| 00:00:01 |
+|   2 |   TABLE ACCESS FULL| DEPARTMENTS |    27 |   432 |     3   (0)| 00:00:01 |
+|   3 |   TABLE ACCESS FULL| EMPLOYEES   |   107 |  2354 |     3   (0)| 00:00:01 |
+-----------------------------------------------------------------------------------
+
+Predicate Information (identified by operation id):
+---------------------------------------------------
+
+   1 - access("E"."DEPARTMENT_ID"="D"."DEPARTMENT_ID")
+
+Column Projection Information (identified by operation id):
+-----------------------------------------------------------
+
+   1 - (#keys=1; rowset=256) "D"."DEPARTMENT_ID"[NUMBER,22],
+       "D"."DEPARTMENT_NAME"[VARCHAR2,30], "E"."LAST_NAME"[VARCHAR2,25]
+   2 - (rowset=256) "D"."DEPARTMENT_ID"[NUMBER,22], "D"."DEPARTMENT_NAME"[VARCHAR2,30]
+   3 - (rowset=256) "E"."LAST_NAME"[VARCHAR2,25], "E"."DEPARTMENT_ID"[NUMBER,22]
+
+Note
+-----
+   - this is an adaptive plan
+`;
+
+describe('parseProjection', () => {
+  it('parses typed columns, bare widths and the keys/rowset prefix', () => {
+    const projection = parseProjection('(#keys=2) "E"."ID"[NUMBER,22], COUNT(*)[22], ROWID[ROWID,10], SUM("A"+"B")[22]')!;
+    expect(projection.keys).toBe(2);
+    expect(projection.rowset).toBeUndefined();
+    expect(projection.columns).toEqual([
+      { expression: '"E"."ID"', dataType: 'NUMBER', width: 22 },
+      { expression: 'COUNT(*)', width: 22 },
+      { expression: 'ROWID', dataType: 'ROWID', width: 10 },
+      { expression: 'SUM("A"+"B")', width: 22 },
+    ]);
+    expect(projection.rowWidth).toBe(76);
+  });
+
+  it('does not split on commas inside function calls', () => {
+    const projection = parseProjection('NVL("X",0)[22], DECODE("Y",1,\'a,b\',2)[3]')!;
+    expect(projection.columns.map((c) => c.expression)).toEqual(['NVL("X",0)', 'DECODE("Y",1,\'a,b\',2)']);
+  });
+
+  it('returns undefined for empty text', () => {
+    expect(parseProjection('   ')).toBeUndefined();
+  });
+});
+
+describe('parseProjectionSection', () => {
+  it('rejoins wrapped entries and stops at the next section', () => {
+    const projections = parseProjectionSection(lines(PLAN));
+    expect([...projections.keys()]).toEqual([1, 2, 3]);
+    const join = projections.get(1)!;
+    expect(join.keys).toBe(1);
+    expect(join.rowset).toBe(256);
+    expect(join.columns.map((c) => c.expression)).toEqual(['"D"."DEPARTMENT_ID"', '"D"."DEPARTMENT_NAME"', '"E"."LAST_NAME"']);
+    expect(join.rowWidth).toBe(77);
+  });
+
+  it('rejoins entries wrapped mid-token', () => {
+    const projections = parseProjectionSection(lines(`
+Column Projection Information (identified by operation id):
+-----------------------------------------------------------
+
+   1 - "E"."LAST_NAME"[VARCHAR2,25], "E"."EMAIL"[VARCH
+       AR2,25]
+`));
+    expect(projections.get(1)!.columns[1]).toEqual({ expression: '"E"."EMAIL"', dataType: 'VARCHAR2', width: 25 });
+  });
+
+  it('returns an empty map without the section', () => {
+    expect(parseProjectionSection(lines('Plan hash value: 1')).size).toBe(0);
+  });
+});
+
+describe('projection on parsed plans', () => {
+  it('attaches dbms_xplan projections to nodes without disturbing predicates or notes', () => {
+    const plan = dbmsXplanParser.parse(PLAN);
+    const byId = new Map(plan.allNodes.map((n) => [n.id, n]));
+    expect(byId.get(0)!.projection).toBeUndefined();
+    expect(byId.get(2)!.projection?.rowWidth).toBe(52);
+    expect(byId.get(1)!.accessPredicates).toBe('"E"."DEPARTMENT_ID"="D"."DEPARTMENT_ID"');
+    expect(plan.notes?.adaptivePlan).toBe(true);
+  });
+
+  it('reads the PROJECTION column from JSON plans', () => {
+    const plan = jsonPlanParser.parse(JSON.stringify([
+      { ID: 0, OPERATION: 'SELECT STATEMENT', DEPTH: 0 },
+      { ID: 1, OPERATION: 'TABLE ACCESS', OPTIONS: 'FULL', DEPTH: 1, PARENT_ID: 0, PROJECTION: '"T"."PAYLOAD"[VARCHAR2,4000]' },
+    ]));
+    expect(plan.allNodes[1].projection?.columns).toEqual([{ expression: '"T"."PAYLOAD"', dataType: 'VARCHAR2', width: 4000 }]);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { parseRemoteSql, parseRemoteSqlSection, isRemoteNode } from '../remoteSql';
+import { dbmsXplanParser } from '../dbmsXplanParser';
+import { jsonPlanParser } from '../jsonPlanParser';
+
+const PLAN = `Plan hash value: 2358233543
+
+---------------------------------------------------------------------------------------------------
+| Id  | Operation          | Name        | Rows  | Bytes | Cost (%CPU)| Time     | Inst   |IN-OUT|
+---------------------------------------------------------------------------------------------------
+|   0 | SELECT STATEMENT   |             |   106 | 10388 |     6  (17)| 00:00:01 |        |      |
+|*  1 |  HASH JOIN         |             |   106 | 10388 |     6  (17)| 00:00:01 |        |      |
+|   2 |   REMOTE           | DEPARTMENTS |    27 |   810 |     3   (0)| 00:00:01 | HRLNK  | R->S |
+|   3 |   TABLE ACCESS FULL| EMPLOYEES   |   107 |  7276 |     3   (0)| 00:00:01 |        |      |
+---------------------------------------------------------------------------------------------------
+
+Predicate Information (identified by operation id):
+---------------------------------------------------
+
+   1 - access("E"."DEPARTMENT_ID"="D"."DEPARTMENT_ID")
+
+Remote SQL Information (identified by operation id):
+----------------------------------------------------
+
+   2 - SELECT "DEPARTMENT_ID","DEPARTMENT_NAME" FROM "DEPARTMENTS" "D" (accessing
+       'HRLNK.EXAMPLE.COM' )
+
+Note
+-----
+   - fully remote statement
+`;
+
+describe('parseRemoteSql', () => {
+  it('splits the accessing clause from the statement', () => {
+    expect(parseRemoteSql(`SELECT 1 FROM "DUAL" "A1" (accessing 'LNK.WORLD' )`)).toEqual({
+      sql: 'SELECT 1 FROM "DUAL" "A1"',
+      dbLink: 'LNK.WORLD',
+    });
+    expect(parseRemoteSql('SELECT 1 FROM "DUAL" "A1"')).toEqual({ sql: 'SELECT 1 FROM "DUAL" "A1"' });
+    expect(parseRemoteSql('  ')).toBeUndefined();
+  });
+
+  it('rejoins wrapped statements and stops at the next section', () => {
+    const section = parseRemoteSqlSection(PLAN.split('\n'));
+    expect([...section.keys()]).toEqual([2]);
+    expect(section.get(2)).toEqual({
+      sql: 'SELECT "DEPARTMENT_ID","DEPARTMENT_NAME" FROM "DEPARTMENTS" "D"',
+      dbLink: 'HRLNK.EXAMPLE.COM',
+    });
+  });
+});
+
+describe('remote rows', () => {
+  it('reads the Inst and IN-OUT columns and attaches remote SQL in DBMS_XPLAN output', () => {
+    const plan = dbmsXplanParser.parse(PLAN);
+    const remote = plan.allNodes[2];
+    expect(remote).toMatchObject({
+      operation: 'REMOTE',
+      inst: 'HRLNK',
+      inOut: 'R->S',
+      remoteDbLink: 'HRLNK.EXAMPLE.COM',
+    });
+    expect(remote.remoteSql).toContain('FROM "DEPARTMENTS" "D"');
+    expect(isRemoteNode(remote)).toBe(true);
+    expect(isRemoteNode(plan.allNodes[3])).toBe(false);
+    expect(plan.allNodes[1].accessPredicates).toBe('"E"."DEPARTMENT_ID"="D"."DEPARTMENT_ID"');
+  });
+
+  it('maps OBJECT_NODE, OTHER_TAG and OTHER for V$SQL_PLAN rows', () => {
+    const plan = jsonPlanParser.parse(JSON.stringify([
+      { id: 0, operation: 'SELECT STATEMENT' },
+      { id: 1, parent_id: 0, operation: 'REMOTE', object_name: 'DEPARTMENTS', object_node: 'HRLNK', other_tag: 'SERIAL_FROM_REMOTE', other: 'SELECT "DEPARTMENT_ID" FROM "DEPARTMENTS" "D"' },
+      { id: 2, parent_id: 0, operation: 'PX SEND', options: 'QC (RANDOM)', object_node: ':Q1000', other_tag: 'PARALLEL_TO_SERIAL', other: 'SELECT /*+ PQ */ 1' },
+    ]));
+    expect(plan.allNodes[1]).toMatchObject({
+      inst: 'HRLNK',
+      inOut: 'R->S',
+      remoteSql: 'SELECT "DEPARTMENT_ID" FROM "DEPARTMENTS" "D"',
+    });
+    expect(plan.allNodes[2].inst).toBeUndefined();
+    expect(plan.allNodes[2].remoteSql).toBeUndefined();
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync, deflateSync } from 'zlib';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { extractActiveReportXml, sqlMonitorActiveParser } from '../sqlMonitorActiveParser';
+import { sqlMonitorXmlParser } from '../sqlMonitorParser';
+import { detectFormat, parsePlan } from '../index';
+import { runParseJob } from '../../pipeline/jobs';
+
+function readExample(filename: string): string {
+  return readFileSync(join(__dirname, '../../../examples', filename), 'utf-8');
+}
+
+const XML_REPORT = readExample('27-sql_monitor-Partitioned Star Query.txt');
+const REPORT_OPEN_TAG = XML_REPORT.match(/^<report\b[^>]*>/)![0];
+
+/** Wrap an XML report the way DBMS_SQLTUNE / EM produce an ACTIVE report. */
+function buildActiveHtml(modelBody: string): string {
+  return `<html xmlns:svg="http://www.w3.org/2000/svg">
+ <head>
+  <base href="http://download.oracle.com/otn_software/"/>
+  <script type="text/javascript" src="emviewers/scripts/flashver.js">
+   <!--Test flash version-->
+  </script>
+ </head>
+ <body onload="sendXML();">
+  <script type="text/javascript">var version = "19"; var isFlashPlayer = false;</script>
+  <script id="fxtmodel" type="text/xml">
+   <!--FXTMODEL-->
+${modelBody}
+   <!--FXTMODEL-->
+  </script>
+ </body>
+</html>`;
+}
+
+function compressedActiveReport(deflate: (body: Buffer) => Buffer = deflateSync): string {
+  const body = XML_REPORT.slice(REPORT_OPEN_TAG.length, XML_REPORT.lastIndexOf('</report>'))
+    .replace(/<report_id>[\s\S]*?<\/report_id>/, '');
+  const encoded = deflate(Buffer.from(body, 'utf-8')).toString('base64').replace(/(.{76})/g, '$1\n');
+  const openTag = REPORT_OPEN_TAG.replace(/>$/, ' encode="base64" compress="zlib">');
+  return buildActiveHtml(`${openTag}
+<report_id><![CDATA[/orarep/sqlmonitor/main%3fsql_id%3d40bjq87dnk21c]]></report_id>
+${encoded}
+</report>`);
+}
+
+describe('sqlMonitorActiveParser', () => {
+  const active = compressedActiveReport();
+
+  it('detects ACTIVE reports ahead of the XML and text parsers', () => {
+    expect(sqlMonitorActiveParser.canParse(active)).toBe(true);
+    expect(detectFormat(active)).toBe('sql_monitor_active');
+    expect(sqlMonitorActiveParser.canParse(XML_REPORT)).toBe(false);
+    expect(sqlMonitorActiveParser.canParse('<html><body><p>Hello</p></body></html>')).toBe(false);
+  });
+
+  it('decodes, decompresses and re-wraps the embedded report', async () => {
+    const xml = (await extractActiveReportXml(active))!;
+    expect(xml.startsWith('<report db_version="19.0.0.0.0"')).toBe(true);
+    expect(xml).not.toContain('encode=');
+    expect(xml).toContain('<sql_monitor_report');
+    expect(await extractActiveReportXml(compressedActiveReport(deflateRawSync))).toBe(xml);
+    expect(await extractActiveReportXml('<html><script id="fxtmodel" type="text/xml"></script></html>')).toBeNull();
+  });
+
+  it('produces the same plan as the XML report through the import pipeline', async () => {
+    const { results: [result] } = await runParseJob(active);
+    const fromActive = result.plan!;
+    const fromXml = parsePlan(XML_REPORT);
+    expect(result.input).toBe(await extractActiveReportXml(active));
+    expect(fromActive.source).toBe('sql_monitor_xml');
+    expect(fromActive.sqlId).toBe('40bjq87dnk21c');
+    expect(fromActive.allNodes.length).toBe(fromXml.allNodes.length);
+    expect(fromActive.allNodes.map((n) => n.actualRows)).toEqual(fromXml.allNodes.map((n) => n.actualRows));
+    expect(fromActive.monitorMetadata?.dbVersion).toBe('19.0.0.0.0');
+    expect(fromActive.monitorMetadata?.pxServers).toHaveLength(9);
+  });
+
+  it('handles older reports that embed the XML uncompressed', () => {
+    const plain = buildActiveHtml(XML_REPORT);
+    expect(detectFormat(plain)).toBe('sql_monitor_active');
+    expect(parsePlan(plain).allNodes.length).toBe(sqlMonitorXmlParser.parse(XML_REPORT).allNodes.length);
+  });
+
+  it('asks for a re-import when a compressed report reaches the synchronous parser', () => {
+    const plan = sqlMonitorActiveParser.parse(active);
+    expect(plan.rootNode).toBeNull();
+    expect(plan.diagnostics?.[0].message).toMatch(/compressed/);
+  });
+
+  it('reports a clear error when the payload is truncated, corrupt or not base64', async () => {
+    const truncated = active.replace(/(<\/report_id>\n[A-Za-z0-9+/]{76})[\s\S]*?(\n<\/report>)/, '$1$2');
+    await expect(extractActiveReportXml(truncated)).rejects.toThrow(/could not be decompressed/);
+    const corrupt = active.replace(/(<\/report_id>\n[A-Za-z0-9+/]{8})[A-Za-z0-9+/]{16}/, '$1AAAAAAAAAAAAAAAA');
+    await expect(extractActiveReportXml(corrupt)).rejects.toThrow(/could not be decompressed/);
+    const notBase64 = active.replace('</report_id>', '</report_id>%%%');
+    await expect(extractActiveReportXml(notBase64)).rejects.toThrow(/not valid base64/);
+
+    const [result] = (await runParseJob(truncated)).results;
+    expect(result.plan).toBeNull();
+    expect(result.error).toMatch(/could not be decompressed/);
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { executionLabel, executionReportQuery, extractMonitoredExecutions } from '../sqlMonitorList';
+import { runParseJob } from '../../pipeline/jobs';
+
+function readExample(filename: string): string {
+  return readFileSync(join(__dirname, '../../../examples', filename), 'utf-8');
+}
+
+const OFFLOAD = readExample('17-sql_monitor-Exadata Cell Offload (K. Osborne).txt');
+const SKEWED = readExample('18-sql_monitor-Skewed Parallel (J. Lewis).txt');
+const SPOOL = `${OFFLOAD}\n\n${SKEWED}`;
+
+const TEXT_LIST = `                                         SQL Monitoring List
+                                         =====================
+
+==========================================================================================================================
+| Status          | Duration |    SQL Id     | SQL Exec Id |        Start        |  User  | Module/Action |    SQL Text    |
+==========================================================================================================================
+| DONE (ALL ROWS) |       3s | 96d05a34rtfqx |    16777216 | 07/04/2026 18:51:54 | SCOTT  | SQL*Plus/-    | SELECT o.ship_ |
+|                 |          |               |             |                     |        |               | country FROM o |
+| EXECUTING       |     2.5m | 96d05a34rtfqx |    16777217 | 07/04/2026 19:00:00 | SCOTT  | batch/nightly | SELECT 1       |
+==========================================================================================================================
+`;
+
+const XML_LIST = `<report db_version="19.0.0.0.0"><sql_monitor_list_report version="19.1" sysdate="07/04/2026 19:05:00">
+  <sql sql_id="96d05a34rtfqx" sql_exec_start="07/04/2026 18:51:54" sql_exec_id="16777216">
+    <status>DONE (ALL ROWS)</status>
+    <sql_text>SELECT a &amp; b FROM t</sql_text>
+    <user>SCOTT</user>
+    <module>SQL*Plus</module>
+    <plan_hash>2058068615</plan_hash>
+    <stats type="monitor"><stat name="elapsed_time">1500000</stat></stats>
+  </sql>
+  <sql sql_id="7h35uxf5uhmm1" sql_exec_start="07/04/2026 18:52:10" sql_exec_id="16777218">
+    <status>DONE (ERROR)</status>
+    <stats type="monitor"><stat name="duration">12</stat></stats>
+  </sql>
+</sql_monitor_list_report></report>`;
+
+describe('extractMonitoredExecutions', () => {
+  it('ignores a single report', () => {
+    expect(extractMonitoredExecutions(OFFLOAD)).toEqual([]);
+  });
+
+  it('splits a spool of text reports into executions with their own report', () => {
+    const executions = extractMonitoredExecutions(SPOOL);
+    expect(executions).toEqual([
+      {
+        sqlId: '2hzzka3071hkj',
+        sqlExecId: '16777216',
+        sqlExecStart: '03/13/2011 17:02:35',
+        planHashValue: '2117817910',
+        status: 'DONE (ALL ROWS)',
+        duration: 13,
+        user: 'SYS',
+        module: 'sqlplus@Kerry-Osbornes-MacBook-Pro-4.local (TNS',
+        sqlText: 'select /*+ INDEX (SKEW2 SKEW2_COL1) */ avg(pk_col) from kso.skew2',
+        report: expect.stringMatching(/^SQL Monitoring Report/),
+      },
+      expect.objectContaining({ sqlId: '3cjg20q2vw41f', status: 'EXECUTING', duration: 221 }),
+    ]);
+    expect(executions[0].report?.startsWith('SQL Monitoring Report')).toBe(true);
+    expect(executions[0].report).not.toContain('3cjg20q2vw41f');
+  });
+
+  it('reads a text monitoring list, rejoining wrapped SQL text', () => {
+    const executions = extractMonitoredExecutions(TEXT_LIST);
+    expect(executions).toHaveLength(2);
+    expect(executions[0]).toEqual({
+      sqlId: '96d05a34rtfqx',
+      sqlExecId: '16777216',
+      sqlExecStart: '07/04/2026 18:51:54',
+      status: 'DONE (ALL ROWS)',
+      duration: 3,
+      user: 'SCOTT',
+      module: 'SQL*Plus',
+      sqlText: 'SELECT o.ship_ country FROM o',
+    });
+    expect(executions[1]).toMatchObject({ duration: 150, module: 'batch' });
+    expect(executions.every((execution) => execution.report === undefined)).toBe(true);
+  });
+
+  it('reads an XML monitoring list', () => {
+    const executions = extractMonitoredExecutions(XML_LIST);
+    expect(executions).toEqual([
+      {
+        sqlId: '96d05a34rtfqx',
+        sqlExecId: '16777216',
+        sqlExecStart: '07/04/2026 18:51:54',
+        planHashValue: '2058068615',
+        status: 'DONE (ALL ROWS)',
+        duration: 1.5,
+        user: 'SCOTT',
+        module: 'SQL*Plus',
+        sqlText: 'SELECT a & b FROM t',
+      },
+      expect.objectContaining({ sqlId: '7h35uxf5uhmm1', status: 'DONE (ERROR)', duration: 12 }),
+    ]);
+  });
+
+  it('splits a spool of XML reports', () => {
+    const report = (execId: string) => `<report db_version="19.0.0.0.0"><sql_monitor_report version="19.1">
+  <report_parameters><sql_id>96d05a34rtfqx</sql_id><sql_exec_id>${execId}</sql_exec_id></report_parameters>
+  <target sql_id="96d05a34rtfqx" sql_exec_id="${execId}" sql_plan_hash="2058068615"><user>SCOTT</user><status>DONE</status><duration>4</duration></target>
+</sql_monitor_report></report>`;
+    const executions = extractMonitoredExecutions(`${report('16777216')}\n${report('16777217')}`);
+    expect(executions.map((e) => [e.sqlExecId, e.user, e.status, e.duration])).toEqual([
+      ['16777216', 'SCOTT', 'DONE', 4],
+      ['16777217', 'SCOTT', 'DONE', 4],
+    ]);
+    expect(executions[1].report).toContain('sql_exec_id="16777217"');
+  });
+});
+
+describe('executionLabel and executionReportQuery', () => {
+  it('name the execution', () => {
+    const [execution] = extractMonitoredExecutions(TEXT_LIST);
+    expect(executionLabel(execution)).toBe('96d05a34rtfqx #16777216');
+    expect(executionReportQuery(execution)).toContain('sql_exec_id  => 16777216');
+  });
+});
+
+describe('runParseJob with several executions', () => {
+  it('returns the executions to pick from instead of plans', async () => {
+    const job = await runParseJob(SPOOL);
+    expect(job.results).toEqual([]);
+    expect(job.executions).toHaveLength(2);
+  });
+
+  it('parses the picked executions, one labelled plan each', async () => {
+    const job = await runParseJob(SPOOL, { executions: [1, 0] });
+    expect(job.replaceAll).toBe(true);
+    expect(job.results.map((result) => [result.label, result.plan?.sqlId])).toEqual([
+      ['3cjg20q2vw41f #16777216', '3cjg20q2vw41f'],
+      ['2hzzka3071hkj #16777216', '2hzzka3071hkj'],
+    ]);
+
+    const single = await runParseJob(SPOOL, { executions: [0] });
+    expect(single.replaceAll).toBe(false);
+    expect(single.results[0].input).toBe(extractMonitoredExecutions(SPOOL)[0].report);
+  });
+});
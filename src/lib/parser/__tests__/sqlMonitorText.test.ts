@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { sqlMonitorTextParser } from '../sqlMonitorParser';
+
+const REPORT = `SQL Monitoring Report
+
+SQL Text
+------------------------------
+SELECT o.ship_country, COUNT(*)
+FROM orders o
+WHERE o.order_id = :B1 AND o.ship_country = :COUNTRY
+GROUP BY o.ship_country
+
+Global Information
+------------------------------
+ Status              :  DONE (ALL ROWS)
+ Instance ID         :  1
+ Session             :  PLANVIZ (270:30811)
+ SQL ID              :  96d05a34rtfqx
+ SQL Execution ID    :  16777216
+ Execution Started   :  07/04/2026 18:51:54
+ First Refresh Time  :  07/04/2026 18:51:54
+ Last Refresh Time   :  07/04/2026 18:51:56
+ Duration            :  2.146466s
+ Module/Action       :  SQL*Plus/-
+ Service             :  pdb1
+ Program             :  sqlplus@db1.localdomain (TNS V1-V3)
+ Fetch Calls         :  2
+
+Binds
+========================================================================================================================
+| Name     | Position |     Type     |                                   Value                                        |
+========================================================================================================================
+| :B1      |        1 | NUMBER       | 42                                                                             |
+| :COUNTRY |        2 | VARCHAR2(32) | COUNTRY_0                                                                      |
+========================================================================================================================
+
+Global Stats
+=========================================================================================================
+| Elapsed |   Cpu   |    IO    | Application | Concurrency |  Other   | Fetch | Buffer | Read | Read  |
+| Time(s) | Time(s) | Waits(s) |  Waits(s)   |  Waits(s)   | Waits(s) | Calls |  Gets  | Reqs | Bytes |
+=========================================================================================================
+|    2.15 |    1.50 |     0.40 |        0.05 |        0.10 |     0.10 |     2 |   126K |    7 |  56KB |
+=========================================================================================================
+
+SQL Plan Monitoring Details (Plan Hash Value=2058068615)
+=========================================================================================================
+| Id |      Operation       |  Name  |  Rows   | Cost |   Time    | Start  | Execs |   Rows   | Activity |
+|    |                      |        | (Estim) |      | Active(s) | Active |       | (Actual) |   (%)    |
+=========================================================================================================
+|  0 | SELECT STATEMENT     |        |         |      |         1 |     +0 |     1 |        1 |          |
+|  1 |   SORT GROUP BY      |        |       1 |  975 |         1 |     +0 |     1 |        1 |          |
+|  2 |    TABLE ACCESS FULL | ORDERS |       1 |  973 |         2 |     +0 |     1 |        1 |   100.00 |
+=========================================================================================================
+`;
+
+describe('SQL Monitor text report header', () => {
+  const plan = sqlMonitorTextParser.parse(REPORT);
+
+  it('reads the SQL text and Global Information', () => {
+    expect(plan.sqlId).toBe('96d05a34rtfqx');
+    expect(plan.sqlText).toBe('SELECT o.ship_country, COUNT(*)\nFROM orders o\nWHERE o.order_id = :B1 AND o.ship_country = :COUNTRY\nGROUP BY o.ship_country');
+    expect(plan.monitorMetadata).toMatchObject({
+      status: 'DONE (ALL ROWS)',
+      duration: 2.146466,
+      sqlExecStart: '07/04/2026 18:51:54',
+      sqlExecId: '16777216',
+      instanceId: 1,
+      user: 'PLANVIZ',
+      sessionId: 270,
+      sessionSerial: 30811,
+      module: 'SQL*Plus',
+      service: 'pdb1',
+      program: 'sqlplus@db1.localdomain (TNS V1-V3)',
+      userFetchCount: 2,
+    });
+  });
+
+  it('reads Global Stats in the XML report units', () => {
+    expect(plan.totalElapsedTime).toBe(2150);
+    expect(plan.monitorMetadata).toMatchObject({
+      cpuTime: 1_500_000,
+      userIoWaitTime: 400_000,
+      otherWaitTime: 250_000,
+      bufferGets: 126_000,
+      readReqs: 7,
+      readBytes: 56 * 1024,
+    });
+    expect(plan.monitorMetadata?.plsqlExecTime).toBeUndefined();
+  });
+
+  it('reads the Binds table', () => {
+    expect(plan.bindVariables).toEqual([
+      { name: ':B1', type: 'NUMBER', value: '42', position: 1 },
+      { name: ':COUNTRY', type: 'VARCHAR2(32)', value: 'COUNTRY_0', position: 2 },
+    ]);
+    expect(plan.allNodes).toHaveLength(3);
+  });
+
+  it('merges the header with Parallel Execution Details', () => {
+    const input = readFileSync(join(__dirname, '../../../examples/18-sql_monitor-Skewed Parallel (J. Lewis).txt'), 'utf-8');
+    const meta = sqlMonitorTextParser.parse(input).monitorMetadata;
+    expect(meta).toMatchObject({ status: 'EXECUTING', duration: 221, user: 'SYS', dop: 8, pxServersAllocated: 16 });
+    expect(meta?.cpuTime).toBe(179_000_000);
+    expect(meta?.pxServers?.length).toBeGreaterThan(0);
+  });
+
+  it('reads the per-line Cell Offload column', () => {
+    const input = readFileSync(join(__dirname, '../../../examples/17-sql_monitor-Exadata Cell Offload (K. Osborne).txt'), 'utf-8');
+    const nodes = sqlMonitorTextParser.parse(input).allNodes;
+    expect(nodes.find((n) => n.id === 6)).toMatchObject({ operation: 'TABLE ACCESS STORAGE FULL', cellOffloadEfficiency: 71.83 });
+    expect(nodes.filter((n) => n.cellOffloadEfficiency !== undefined)).toHaveLength(1);
+  });
+
+  it('leaves metadata unset for DISPLAY_CURSOR output', () => {
+    const plan = sqlMonitorTextParser.parse(`Plan hash value: 1
+
+-------------------------------------------------------------------
+| Id  | Operation         | Name | Starts | E-Rows | A-Rows | A-Time |
+-------------------------------------------------------------------
+|   0 | SELECT STATEMENT  |      |      1 |        |      1 |00:00:00.01 |
+|   1 |  TABLE ACCESS FULL| DUAL |      1 |      1 |      1 |00:00:00.01 |
+-------------------------------------------------------------------
+`);
+    expect(plan.monitorMetadata).toBeUndefined();
+    expect(plan.bindVariables).toBeUndefined();
+  });
+});
+
+describe('SQL Monitor text diagnostics', () => {
+  it('points a missing plan line at the row after the gap', () => {
+    const lines = REPORT.split('\n').filter((line) => !line.startsWith('|  1 |'));
+    const plan = sqlMonitorTextParser.parse(lines.join('\n'));
+    expect(plan.diagnostics?.find((d) => /missing/.test(d.message))).toMatchObject({
+      severity: 'warning',
+      line: lines.findIndex((line) => line.startsWith('|  2 |')) + 1,
+      message: expect.stringMatching(/Plan line 1 is missing/),
+    });
+  });
+});
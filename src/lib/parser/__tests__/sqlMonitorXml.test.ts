@@ -268,6 +268,77 @@ Plan hash value: 123456
     });
   });
 
+  describe('Per-PX-server statistics (27-sql_monitor-Partitioned Star Query.txt)', () => {
+    const result = sqlMonitorXmlParser.parse(readExample('27-sql_monitor-Partitioned Star Query.txt'));
+
+    it('parses the QC and every PX server session', () => {
+      const servers = result.monitorMetadata?.pxServers ?? [];
+      expect(servers).toHaveLength(9);
+      expect(servers[0]).toMatchObject({ name: 'PX Coordinator', isCoordinator: true, elapsedTime: 86100 });
+      // application + concurrency + other waits are folded into otherWaitTime
+      expect(servers[0].otherWaitTime).toBe(31396 + 655 + 45351);
+      expect(servers.find((s) => s.name === 'p005')).toMatchObject({
+        isCoordinator: false,
+        serverGroup: 1,
+        serverSet: 2,
+        serverNum: 2,
+        elapsedTime: 67052,
+        cpuTime: 31797,
+        userIoWaitTime: 2709,
+        bufferGets: 745,
+        readBytes: 5677056,
+      });
+    });
+
+    it('captures per-line server set, DOP and busiest-server counts', () => {
+      const byId = new Map(result.allNodes.map((n) => [n.id, n]));
+      expect(byId.get(1)?.pxServerSet).toBe(0);
+      expect(byId.get(7)).toMatchObject({ pxServerSet: 2, pxDop: 4, actualRows: 252047, maxServerRows: 63558 });
+      expect(byId.get(2)?.maxServerStarts).toBe(1);
+    });
+  });
+
+  describe('Exadata and In-Memory stats (synthetic)', () => {
+    const xml = `<report>
+  <sql_monitor_report version="4.0">
+    <target sql_id="offload123" sql_plan_hash="7"/>
+    <plan_monitor>
+      <operation id="0" name="SELECT STATEMENT" depth="0">
+        <stats type="plan_monitor"><stat name="cardinality">1</stat></stats>
+      </operation>
+      <operation id="1" name="TABLE ACCESS" options="STORAGE FULL" parent_id="0" depth="1">
+        <stats type="plan_monitor">
+          <stat name="cardinality">500</stat>
+          <stat name="read_bytes">4000000000</stat>
+          <stat name="io_inter_bytes">1000000000</stat>
+          <stat name="cell_si_saved_bytes">250000000</stat>
+        </stats>
+      </operation>
+      <operation id="2" name="TABLE ACCESS" options="INMEMORY FULL" parent_id="0" depth="1">
+        <stats type="plan_monitor">
+          <stat name="cardinality">20</stat>
+          <stat name="im_scan_rows">1000000</stat>
+          <stat name="im_scan_cus">40</stat>
+          <stat name="im_scan_cus_pruned">32</stat>
+        </stats>
+      </operation>
+    </plan_monitor>
+  </sql_monitor_report>
+</report>`;
+    const result = sqlMonitorXmlParser.parse(xml);
+    const byId = new Map(result.allNodes.map((n) => [n.id, n]));
+
+    it('derives offload efficiency from interconnect and read bytes', () => {
+      expect(byId.get(1)).toMatchObject({ cellInterconnectBytes: 1e9, storageIndexSavedBytes: 2.5e8, cellOffloadEfficiency: 75 });
+      expect(byId.get(0)?.cellOffloadEfficiency).toBeUndefined();
+    });
+
+    it('reads In-Memory scan stats', () => {
+      expect(byId.get(2)).toMatchObject({ imScanRows: 1_000_000, imScanCus: 40, imScanCusPruned: 32 });
+      expect(byId.get(2)?.cellOffloadEfficiency).toBeUndefined();
+    });
+  });
+
   describe('Legacy XML format backward compatibility', () => {
     it('parses old simplified XML format', () => {
       const legacyXml = `<?xml version="1.0" encoding="UTF-8"?>
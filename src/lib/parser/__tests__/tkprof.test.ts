@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { extractTkprofStatements, tkprofParser } from '../tkprofParser';
+import { detectFormat, parsePlan, parsePlans, splitPlanBatches } from '../index';
+import { getStatementSlotLabel } from '../../compare';
+
+function readFixture(filename: string): string {
+  return readFileSync(join(__dirname, 'fixtures', filename), 'utf-8');
+}
+
+const REPORT = readFixture('tkprof-multi-statement.txt');
+
+const LEGACY_STATEMENT = `select count(*)
+from
+ emp
+
+
+call     count       cpu    elapsed       disk      query    current        rows
+------- ------  -------- ---------- ---------- ---------- ----------  ----------
+Parse        1      0.00       0.00          0          0          0           0
+Execute      1      0.00       0.00          0          0          0           0
+Fetch        2      0.00       0.00          0          7          0           1
+------- ------  -------- ---------- ---------- ---------- ----------  ----------
+total        4      0.00       0.00          0          7          0           1
+
+Misses in library cache during parse: 1
+Optimizer mode: ALL_ROWS
+Parsing user id: 57
+
+Rows     Row Source Operation
+-------  ---------------------------------------------------
+      1  SORT AGGREGATE (cr=7 pr=0 pw=0 time=110 us)
+     14   TABLE ACCESS FULL EMP (cr=7 pr=0 pw=0 time=59 us)
+`;
+
+describe('tkprofParser', () => {
+  describe('detection', () => {
+    it('detects TKPROF reports ahead of the XBI parser', () => {
+      expect(tkprofParser.canParse(REPORT)).toBe(true);
+      expect(detectFormat(REPORT)).toBe('tkprof');
+      expect(detectFormat(LEGACY_STATEMENT)).toBe('tkprof');
+    });
+
+    it('does not claim DBMS_XPLAN output', () => {
+      expect(tkprofParser.canParse('Plan hash value: 1\n| Id | Operation | Name |')).toBe(false);
+    });
+  });
+
+  describe('statements', () => {
+    it('keeps only statements with a row source block', () => {
+      const statements = extractTkprofStatements(REPORT);
+      expect(statements).toHaveLength(2);
+      expect(statements[0]).toContain('SQL ID: 4x7mk2c1n0d9v');
+      expect(statements[1]).toContain('SQL ID: 9b2q6cz7m4fvk');
+      expect(splitPlanBatches(REPORT)).toEqual(statements);
+    });
+
+    it('parses every statement into its own plan', () => {
+      const plans = parsePlans(REPORT);
+      expect(plans.map((p) => p.sqlId)).toEqual(['4x7mk2c1n0d9v', '9b2q6cz7m4fvk']);
+      expect(plans.map((p) => p.planHashValue)).toEqual(['1766159733', '3520634941']);
+      expect(plans.every((p) => p.source === 'tkprof')).toBe(true);
+    });
+  });
+
+  describe('row source operations', () => {
+    const plan = parsePlan(REPORT);
+
+    it('captures the statement text and call statistics', () => {
+      expect(plan.sqlText).toBe('select e.ename, d.dname\nfrom\n emp e join dept d on d.deptno = e.deptno where e.sal > :b1');
+      expect(plan.tkprofCalls?.fetch).toEqual({ count: 2, cpu: 0, elapsed: 0.01, disk: 6, query: 15, current: 0, rows: 14 });
+      expect(plan.tkprofCalls?.total?.count).toBe(4);
+    });
+
+    it('builds the tree from indentation and splits object names', () => {
+      expect(plan.rootNode?.operation).toBe('HASH JOIN');
+      expect(plan.rootNode?.objectName).toBeUndefined();
+      expect(plan.rootNode?.children.map((c) => [c.operation, c.objectName])).toEqual([
+        ['TABLE ACCESS FULL', 'DEPT'],
+        ['TABLE ACCESS FULL', 'EMP'],
+      ]);
+      expect(plan.allNodes.map((n) => n.parentId)).toEqual([undefined, 0, 0]);
+    });
+
+    it('maps the per-line figures onto plan node statistics', () => {
+      const dept = plan.allNodes[1];
+      expect(dept).toMatchObject({
+        actualRows: 4,
+        logicalReads: 7,
+        physicalReads: 6,
+        actualTime: 4.12,
+        starts: 1,
+        cost: 3,
+        bytes: 52,
+        rows: 4,
+      });
+      expect(plan.hasActualStats).toBe(true);
+      expect(plan.totalElapsedTime).toBeCloseTo(5.284);
+      expect(dept.selfTime).toBeCloseTo(4.12);
+    });
+
+    it('uses Rows (avg), partition bounds and strips object ids', () => {
+      const [, second] = parsePlans(REPORT);
+      const byId = new Map(second.allNodes.map((n) => [n.id, n]));
+      expect(second.rootNode?.actualRows).toBe(580);
+      expect(byId.get(2)).toMatchObject({ operation: 'PARTITION RANGE ITERATOR', pstart: 'KEY', pstop: '12' });
+      expect(byId.get(3)).toMatchObject({ operation: 'TABLE ACCESS BY LOCAL INDEX ROWID BATCHED', objectName: 'ORDERS', depth: 3 });
+      expect(byId.get(4)).toMatchObject({ operation: 'INDEX RANGE SCAN', objectName: 'ORD_DATE_IX', logicalReads: 12 });
+      expect(byId.get(5)).toMatchObject({ objectName: 'ORDER_LINES', starts: 580, parentId: 1 });
+      expect(second.tkprofCalls?.execute?.count).toBe(10);
+    });
+
+    it('reads the single Rows column of pre-11g reports', () => {
+      const legacy = parsePlan(LEGACY_STATEMENT);
+      expect(legacy.sqlId).toBeUndefined();
+      expect(legacy.sqlText).toBe('select count(*)\nfrom\n emp');
+      expect(legacy.rootNode).toMatchObject({ operation: 'SORT AGGREGATE', actualRows: 1, actualTime: 0.11 });
+      expect(legacy.allNodes[1]).toMatchObject({ operation: 'TABLE ACCESS FULL', objectName: 'EMP', actualRows: 14 });
+    });
+  });
+
+  describe('diagnostics', () => {
+    it('reports nothing for a clean report', () => {
+      expect(parsePlan(REPORT).diagnostics).toBeUndefined();
+      expect(parsePlan(LEGACY_STATEMENT).diagnostics).toBeUndefined();
+    });
+
+    it('skips a stray line inside the block and points at it in the report', () => {
+      const report = REPORT.replace(
+        '         4          4          4   TABLE ACCESS FULL DEPT',
+        '  (edited)\n         4          4          4   TABLE ACCESS FULL DEPT',
+      );
+      const plan = parsePlan(report);
+      expect(plan.allNodes.map((n) => n.objectName)).toEqual([undefined, 'DEPT', 'EMP']);
+      expect(plan.diagnostics).toEqual([
+        expect.objectContaining({ severity: 'warning', line: 43, message: expect.stringMatching(/not a row/) }),
+      ]);
+    });
+
+    it('flags short rows and rows whose statistics are cut off', () => {
+      const report = REPORT
+        .replace('         4          4          4   TABLE ACCESS FULL DEPT', '         4                         TABLE ACCESS FULL DEPT')
+        .replace('EMP (cr=7 pr=0 pw=0 time=61 us starts=1 cost=3 size=406 card=14)', 'EMP (cr=7 pr=0 pw=0 ti');
+      const plan = parsePlan(report);
+      expect(plan.allNodes[1]).toMatchObject({ objectName: 'DEPT', actualRows: 4 });
+      expect(plan.allNodes[2]).toMatchObject({ operation: 'TABLE ACCESS FULL', objectName: 'EMP', logicalReads: undefined });
+      expect(plan.diagnostics?.map((d) => [d.line, d.message])).toEqual([
+        [43, expect.stringMatching(/1 row count where the header has 3 columns/)],
+        [44, expect.stringMatching(/statistics .* are cut off/)],
+      ]);
+    });
+
+    it('explains a block that has no separator or no rows', () => {
+      const noSeparator = parsePlan(LEGACY_STATEMENT.replace(/^-------\s+-+\n/m, ''));
+      expect(noSeparator.rootNode).toBeNull();
+      expect(noSeparator.diagnostics).toEqual([expect.objectContaining({ severity: 'error', line: 18 })]);
+
+      const noRows = parsePlan(LEGACY_STATEMENT.replace(/^ +\d+ .*\n/gm, ''));
+      expect(noRows.rootNode).toBeNull();
+      expect(noRows.diagnostics).toEqual([
+        expect.objectContaining({ severity: 'error', line: 18, message: expect.stringMatching(/header but no rows/) }),
+      ]);
+    });
+  });
+
+  it('labels slots with the shortened statement text', () => {
+    const [first, second] = parsePlans(REPORT);
+    expect(getStatementSlotLabel(first)).toBe('select e.ename, d.dname from…');
+    expect(getStatementSlotLabel(second)?.length).toBeLessThanOrEqual(30);
+  });
+});
@@ -1,4 +1,6 @@
 import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
 import { xbiParser } from '../xbiParser';
 import { detectFormat, parsePlan } from '../index';
 
@@ -331,6 +333,41 @@ Cursor:  bpt7vm7wbsn42     0 00000004B23CC150      3847201918 Statement first pa
     });
   });
 
+  describe('diagnostics', () => {
+    it('reports nothing for complete output', () => {
+      expect(xbiParser.parse(SAMPLE_XBI_OUTPUT).diagnostics).toBeUndefined();
+    });
+
+    it('accepts rows whose trailing columns are empty in the bundled examples', () => {
+      for (const file of ['13-xbi-XBI TPC-DS Query.txt', '14-xbi-XBI TPC-DS Temp Table.txt']) {
+        const plan = parsePlan(readFileSync(join(__dirname, '../../../examples', file), 'utf-8'));
+        expect(plan.allNodes.length).toBeGreaterThan(0);
+        expect(plan.diagnostics).toBeUndefined();
+      }
+    });
+
+    it('points at skipped lines and rows cut off in the middle of a value', () => {
+      const lines = SAMPLE_XBI_OUTPUT.split('\n');
+      // Row 5 cut off inside its elapsed time, and a stray line under row 2.
+      lines[14] = lines[14].slice(0, lines[14].indexOf('39.05') + 3);
+      lines.splice(12, 0, '                        (continued)');
+      const plan = xbiParser.parse(lines.join('\n'));
+
+      expect(plan.allNodes).toHaveLength(10);
+      expect(plan.allNodes.find((n) => n.id === 5)).toMatchObject({ actualRows: undefined });
+      expect(plan.diagnostics?.map((d) => [d.severity, d.line, d.message])).toEqual([
+        ['warning', 13, expect.stringMatching(/no operation id and row source, so it was skipped/)],
+        ['warning', 16, expect.stringMatching(/^This row is cut off at character \d+, in the middle of a value, so that value and the 11 columns after it were not read/)],
+      ]);
+    });
+
+    it('explains a header whose columns cannot be located', () => {
+      const plan = parsePlan(SAMPLE_XBI_OUTPUT.replace(' #Col    ID', ' #Col    XX'));
+      expect(plan.rootNode).toBeNull();
+      expect(plan.diagnostics).toEqual([expect.objectContaining({ severity: 'error', line: 8 })]);
+    });
+  });
+
   describe('plan without banner', () => {
     it('parses xbi output without banner and cursor metadata', () => {
       const planOnly = ` Pred    Op  Par.  #Sib                                              Query Block             ms spent in Consistent  Rowsource  Real #rows     Est. rows      Opt. Card.    Current   Physical   Physical        Memory Workarea        Optimizer
@@ -0,0 +1,50 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { parseXml, XmlSyntaxError } from '../xmlReader';
+
+const REPORT = `<?xml version="1.0"?>
+<!-- spooled -->
+<report db_version="19.0.0.0.0">
+  <sql_monitor_report>
+    <target sql_id="abc"><sql_fulltext><![CDATA[SELECT * FROM t WHERE a < 1]]></sql_fulltext></target>
+    <stats type="monitor"><stat name="elapsed_time">12</stat></stats>
+    <plan_monitor>
+      <operation id="0" name="SELECT STATEMENT"><stats type="plan_monitor"><stat name="starts">1</stat></stats></operation>
+      <operation id="1" name="TABLE ACCESS" options="FULL"><object><name>T &amp; U</name></object></operation>
+    </plan_monitor>
+  </sql_monitor_report>
+</report>`;
+
+describe('parseXml', () => {
+  it('builds an element tree with attributes, text, CDATA and entities', () => {
+    const doc = parseXml(REPORT);
+    expect(doc.documentElement.tagName).toBe('report');
+    expect(doc.documentElement.getAttribute('db_version')).toBe('19.0.0.0.0');
+    expect(doc.documentElement.getAttribute('missing')).toBeNull();
+    expect(doc.querySelector('sql_fulltext')?.textContent).toBe('SELECT * FROM t WHERE a < 1');
+    expect(doc.querySelector('object > name')?.textContent).toBe('T & U');
+  });
+
+  it('selects by tag, attribute, child and descendant combinators and :scope', () => {
+    const doc = parseXml(REPORT);
+    expect(doc.querySelector('report')).toBe(doc.documentElement);
+    const monitor = doc.querySelector('plan_monitor')!;
+    const operations = monitor.querySelectorAll(':scope > operation');
+    expect(operations.map((op) => op.getAttribute('id'))).toEqual(['0', '1']);
+    expect(doc.querySelector('stats[type="monitor"] > stat')?.textContent).toBe('12');
+    expect(doc.querySelectorAll('sql_monitor_report stat')).toHaveLength(2);
+    expect(operations[0].querySelector(':scope > stat')).toBeNull();
+    expect(operations[0].querySelector('stat')?.closest('operation')).toBe(operations[0]);
+    expect(doc.querySelector('target')?.closest('operation')).toBeNull();
+  });
+
+  it('reports malformed and truncated documents with the line', () => {
+    const mismatched = () => parseXml('<report>\n<plan>\n</report>');
+    expect(mismatched).toThrow(XmlSyntaxError);
+    expect(mismatched).toThrow('Closing tag </report> does not match <plan> (line 3)');
+    expect(() => parseXml('<report>\n<plan_monitor>')).toThrow('<plan_monitor> is not closed (line 2)');
+    expect(() => parseXml('<report><stat name="x>1</stat></report>')).toThrow(/Malformed start tag <stat>/);
+    expect(() => parseXml('<a/><b/>')).toThrow(/after the document element/);
+    expect(() => parseXml('')).toThrow(/No document element/);
+  });
+});
@@ -0,0 +1,101 @@
+import type { BindVariable } from './types';
+
+/**
+ * Bind sections DBMS_XPLAN can print after the plan: "Peeked Binds" (with
+ * +PEEKED_BINDS, or in ADVANCED) and "Captured Binds" listings from
+ * DISPLAY_AWR / DISPLAY_CURSOR wrappers over V$SQL_BIND_CAPTURE.
+ */
+const SECTION_HEADER = /^(Peeked|Captured)\s+Binds\b/i;
+
+/** Next section header ("Note", "Predicate Information (...)", ...) followed by its underline. */
+function isSectionHeader(lines: string[], i: number): boolean {
+  return /^[A-Z][A-Za-z ]*(\(.*\))?:?$/.test(lines[i].trim()) && Boolean(lines[i + 1]?.trim().startsWith('---'));
+}
+
+/** Split `(VARCHAR2(30), CSID=873): 'SALES'` into the type and value parts. */
+function splitTypeAndValue(rest: string): { type?: string; value: string } | undefined {
+  let text = rest.trim();
+  let type: string | undefined;
+  if (text.startsWith('(')) {
+    let depth = 0;
+    let end = -1;
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '(') depth++;
+      else if (text[i] === ')' && --depth === 0) {
+        end = i;
+        break;
+      }
+    }
+    if (end === -1) return undefined;
+    // Keep the data type; drop CSID=..., Primary=... qualifiers.
+    type = text.slice(1, end).split(',')[0].trim() || undefined;
+    text = text.slice(end + 1).trim();
+  }
+  if (!text.startsWith(':')) return undefined;
+  return { type, value: text.slice(1).trim() };
+}
+
+function parseBindValue(raw: string): string | null {
+  if (!raw || /^\(null\)$|^null$/i.test(raw)) return null;
+  // Character values are printed quoted; store them as SQL Monitor does, unquoted.
+  const quoted = raw.match(/^'([\s\S]*)'$/);
+  return quoted ? quoted[1].replace(/''/g, '\'') : raw;
+}
+
+/**
+ * Parse the "Peeked Binds (identified by position)" and "Captured Binds"
+ * sections of a DBMS_XPLAN listing:
+ *
+ *    1 - :B1 (NUMBER): 10
+ *    2 - :DEPT_NAME (VARCHAR2(30), CSID=873): 'SALES'
+ *
+ * Long values wrap onto indented continuation lines, which are rejoined.
+ * Binds are returned in position order, peeked before captured.
+ */
+export function parseBindSections(lines: string[]): BindVariable[] | undefined {
+  const binds: BindVariable[] = [];
+
+  for (let start = 0; start < lines.length; start++) {
+    const header = lines[start].trim().match(SECTION_HEADER);
+    if (!header) continue;
+    const source = header[1].toLowerCase() as NonNullable<BindVariable['source']>;
+
+    const entries: Array<{ position: number; text: string }> = [];
+    let i = start + 1;
+    for (; i < lines.length; i++) {
+      const text = lines[i].trim();
+      if (!text || /^-+$/.test(text)) continue;
+      if (isSectionHeader(lines, i)) break;
+
+      const entry = text.match(/^(\d+)\s+-\s+(.*)$/);
+      if (entry) {
+        entries.push({ position: parseInt(entry[1], 10), text: entry[2] });
+      } else if (entries.length > 0) {
+        entries[entries.length - 1].text += ` ${text}`;
+      } else {
+        break;
+      }
+    }
+
+    const sectionBinds: BindVariable[] = [];
+    for (const { position, text } of entries) {
+      const name = text.match(/^(:?(?:"[^"]+"|[^\s(:]+))\s*(.*)$/);
+      if (!name) continue;
+      const parts = splitTypeAndValue(name[2]);
+      if (!parts) continue;
+      sectionBinds.push({
+        name: name[1].startsWith(':') ? name[1] : `:${name[1]}`,
+        type: parts.type,
+        value: parseBindValue(parts.value),
+        position,
+        source,
+      });
+    }
+    sectionBinds.sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+    binds.push(...sectionBinds);
+    start = i - 1;
+  }
+
+  binds.sort((a, b) => (a.source === b.source ? 0 : a.source === 'peeked' ? -1 : 1));
+  return binds.length > 0 ? binds : undefined;
+}
@@ -0,0 +1,405 @@
+import type { ParsedPlan, PlanNode } from '../types';
+import type { ParseDiagnostic, PlanParser } from './types';
+import { dbmsXplanParser } from './dbmsXplanParser';
+import { shiftDiagnostics } from './diagnostics';
+
+/** Index entry from the trace's "BASE STATISTICAL INFORMATION" section. */
+export interface CboIndexStats {
+  name: string;
+  levels?: number;            // LVLS (blevel)
+  leafBlocks?: number;        // #LB
+  distinctKeys?: number;      // #DK
+  clusteringFactor?: number;  // CLUF
+}
+
+/** Table entry from "BASE STATISTICAL INFORMATION". */
+export interface CboTableStats {
+  table: string;
+  alias?: string;
+  rows?: number;
+  blocks?: number;
+  avgRowLen?: number;
+  indexes: CboIndexStats[];
+}
+
+export interface CboAccessPathCandidate {
+  path: string;               // e.g. "TableScan", "index (RangeScan)"
+  index?: string;
+  cost?: number;
+}
+
+/** One "SINGLE TABLE ACCESS PATH" analysis. */
+export interface CboAccessPath {
+  table: string;
+  alias?: string;
+  originalCardinality?: number;  // Card: Original (rows before predicates)
+  cardinality?: number;          // Card: Rounded
+  candidates: CboAccessPathCandidate[];
+  best?: CboAccessPathCandidate;
+}
+
+/** One table in a join order, with the cost and cardinality after joining it. */
+export interface CboJoinStep {
+  table: string;
+  alias?: string;
+  method?: string;            // Best:: JoinMethod (Hash, NestedLoop, SortMerge, ...); absent for the first table
+  cost?: number;              // cumulative cost after this step
+  cardinality?: number;
+}
+
+/** One permutation the optimizer costed ("Join order[N]"). */
+export interface CboJoinOrder {
+  queryBlock?: string;
+  number: number;
+  steps: CboJoinStep[];
+  /** Cost of the last costed step: the full cost, or a lower bound when aborted. */
+  cost?: number;
+  cardinality?: number;
+  aborted: boolean;
+  chosen: boolean;
+}
+
+/** "Final cost for query block" summary. */
+export interface CboQueryBlockResult {
+  queryBlock: string;
+  bestJoinOrder?: number;
+  cost?: number;
+  cardinality?: number;
+}
+
+/** What the 10053 trace says about how the optimizer reached its plan. */
+export interface CboTrace {
+  tables: CboTableStats[];
+  accessPaths: CboAccessPath[];
+  joinOrders: CboJoinOrder[];
+  queryBlocks: CboQueryBlockResult[];
+}
+
+const TABLE_REF = /([^\s[\]]+)\[([^\]]+)\]#\d+/g;
+
+function numberAfter(line: string, label: string): number | undefined {
+  const escaped = label.replace(/[.*+?^${}()|[\]\\/#]/g, '\\$&');
+  const match = line.match(new RegExp(`${escaped}\\s*(-?[\\d.]+)`));
+  if (!match) return undefined;
+  const value = parseFloat(match[1]);
+  return isNaN(value) ? undefined : value;
+}
+
+/**
+ * Parser for 10053 (CBO) optimizer traces.
+ *
+ * Reads base table/index statistics, single-table access path costs and every
+ * join order the optimizer tried, and builds the plan tree from the trace's
+ * closing "Plan Table" (a DBMS_XPLAN-style table, parsed by dbmsXplanParser).
+ */
+export const cboTraceParser: PlanParser = {
+  canParse(input: string): boolean {
+    return (
+      /^\s*BASE STATISTICAL INFORMATION\s*$/m.test(input) ||
+      /^\s*SINGLE TABLE ACCESS PATH\s*$/m.test(input) ||
+      /^Join order\[\d+\]:/m.test(input)
+    );
+  },
+
+  parse(input: string): ParsedPlan {
+    const lines = input.split('\n');
+    const trace = parseCboTrace(lines);
+    const planLines = extractPlanTable(lines);
+    const plan = planLines ? dbmsXplanParser.parse(planLines.join('\n')) : null;
+    const planStart = lines.findIndex((line) => /^\s*Plan Table\s*$/.test(line));
+    const diagnostics: ParseDiagnostic[] = plan
+      ? shiftDiagnostics(plan.diagnostics ?? [], planStart)
+      : [{
+        severity: 'error',
+        message: 'The trace has no "Plan Table" section, so there is no plan tree to show.',
+        fix: 'The trace may be cut off: 10053 writes the plan at the end of the hard parse. Copy the whole trace file.',
+      }];
+
+    return {
+      rootNode: plan?.rootNode ?? null,
+      allNodes: plan?.allNodes ?? [],
+      totalCost: plan?.totalCost ?? 0,
+      maxRows: plan?.maxRows ?? 0,
+      source: 'cbo_trace',
+      hasActualStats: false,
+      planHashValue: extractPlanHash(lines),
+      ...extractSqlHeader(lines),
+      cboTrace: trace,
+      diagnostics: diagnostics.length > 0 ? diagnostics : undefined,
+    };
+  },
+};
+
+/** The "Plan Table" block, from its title through the predicate section. */
+function extractPlanTable(lines: string[]): string[] | null {
+  const start = lines.findIndex((line) => /^\s*Plan Table\s*$/.test(line));
+  if (start === -1) return null;
+  let end = lines.length;
+  for (let i = start + 1; i < lines.length; i++) {
+    if (/^\s*(Content of other_xml column|Optimizer state dump|Query Block Registry)/i.test(lines[i])) {
+      end = i;
+      break;
+    }
+  }
+  return lines.slice(start + 1, end);
+}
+
+function extractPlanHash(lines: string[]): string | undefined {
+  for (const line of lines) {
+    const match = line.match(/^\s*plan_hash\s*:\s*(\d+)/);
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+function extractSqlHeader(lines: string[]): { sqlId?: string; sqlText?: string } {
+  const start = lines.findIndex((line) => /Current SQL Statement for this session/i.test(line));
+  if (start === -1) return {};
+  const sqlId = lines[start].match(/sql_id=(\w+)/)?.[1];
+  const text: string[] = [];
+  for (let i = start + 1; i < lines.length; i++) {
+    if (/^(\*{5,}|-{5,}|sql_text_length=)/.test(lines[i].trim())) break;
+    text.push(lines[i]);
+  }
+  return { sqlId, sqlText: text.join('\n').trim() || undefined };
+}
+
+/** Walk the trace once, collecting statistics, access paths and join orders. */
+export function parseCboTrace(lines: string[]): CboTrace {
+  const tables: CboTableStats[] = [];
+  const accessPaths: CboAccessPath[] = [];
+  const joinOrders: CboJoinOrder[] = [];
+  const queryBlocks: CboQueryBlockResult[] = [];
+
+  type Mode = 'none' | 'base' | 'access' | 'join' | 'final';
+  let mode: Mode = 'none';
+  let table: CboTableStats | null = null;
+  let access: CboAccessPath | null = null;
+  let candidate: CboAccessPathCandidate | null = null;
+  let inBest = false;
+  let order: CboJoinOrder | null = null;
+  let stepIndex = -1;
+  let pendingMethod: string | null = null;
+  let pendingOrders: CboJoinOrder[] = [];
+  let final: CboQueryBlockResult | null = null;
+
+  const closeOrder = () => {
+    if (!order) return;
+    // Hash-only join orders never print the outer table line; the leading
+    // table then costs what its best single-table access path costs.
+    const [first] = order.steps;
+    if (first && first.cost === undefined) {
+      const path = [...accessPaths].reverse().find((p) => p.alias === first.alias);
+      first.cost = path?.best?.cost;
+      first.cardinality = path?.cardinality;
+    }
+    const costed = order.steps.filter((s) => s.cost !== undefined);
+    const last = costed[costed.length - 1];
+    order.cost = last?.cost;
+    order.cardinality = last?.cardinality;
+    order = null;
+  };
+
+  for (const raw of lines) {
+    const line = raw.trim();
+
+    if (/^BASE STATISTICAL INFORMATION$/.test(line)) {
+      mode = 'base';
+      continue;
+    }
+    if (/^SINGLE TABLE ACCESS PATH$/.test(line)) {
+      mode = 'access';
+      access = null;
+      candidate = null;
+      inBest = false;
+      continue;
+    }
+    const joinOrder = line.match(/^Join order\[(\d+)\]:\s*(.*)$/);
+    if (joinOrder) {
+      closeOrder();
+      mode = 'join';
+      order = {
+        number: parseInt(joinOrder[1], 10),
+        steps: [...joinOrder[2].matchAll(TABLE_REF)].map((m) => ({ table: m[1], alias: m[2] })),
+        aborted: false,
+        chosen: false,
+      };
+      joinOrders.push(order);
+      pendingOrders.push(order);
+      stepIndex = 0;
+      pendingMethod = null;
+      continue;
+    }
+    const finalCost = line.match(/^Final cost for query block (\S+)/);
+    if (finalCost) {
+      closeOrder();
+      mode = 'final';
+      final = { queryBlock: finalCost[1] };
+      queryBlocks.push(final);
+      for (const pending of pendingOrders) pending.queryBlock = final.queryBlock;
+      continue;
+    }
+
+    if (mode === 'base') {
+      if (/^Table Stats::/.test(line)) {
+        table = null;
+        continue;
+      }
+      const tableHeader = line.match(/^Table:\s*(\S+)\s+Alias:\s*(\S+)/);
+      if (tableHeader) {
+        table = { table: tableHeader[1], alias: tableHeader[2], indexes: [] };
+        tables.push(table);
+        continue;
+      }
+      if (!table) continue;
+      if (line.startsWith('#Rows:')) {
+        table.rows = numberAfter(line, '#Rows:');
+        table.blocks = numberAfter(line, '#Blks:');
+        table.avgRowLen = numberAfter(line, 'AvgRowLen:');
+        continue;
+      }
+      const index = line.match(/^Index:\s*(\S+)\s+Col#/);
+      if (index) {
+        table.indexes.push({ name: index[1] });
+        continue;
+      }
+      const lastIndex = table.indexes[table.indexes.length - 1];
+      if (lastIndex && line.startsWith('LVLS:')) {
+        lastIndex.levels = numberAfter(line, 'LVLS:');
+        lastIndex.leafBlocks = numberAfter(line, '#LB:');
+        lastIndex.distinctKeys = numberAfter(line, '#DK:');
+        lastIndex.clusteringFactor = numberAfter(line, 'CLUF:');
+      }
+      continue;
+    }
+
+    if (mode === 'access') {
+      const estimation = line.match(/^Single Table Cardinality Estimation for ([^\s[]+)\[([^\]]+)\]/);
+      if (estimation) {
+        access = { table: estimation[1], alias: estimation[2], candidates: [] };
+        accessPaths.push(access);
+        continue;
+      }
+      if (!access) continue;
+      if (line.startsWith('Card: Original:')) {
+        access.originalCardinality = numberAfter(line, 'Original:');
+        access.cardinality = numberAfter(line, 'Rounded:');
+        continue;
+      }
+      const path = line.match(/^Access Path:\s*(.+)$/);
+      if (path) {
+        candidate = { path: path[1].trim() };
+        access.candidates.push(candidate);
+        continue;
+      }
+      const best = line.match(/^Best:: AccessPath:\s*(\S+)/);
+      if (best) {
+        candidate = { path: best[1] };
+        access.best = candidate;
+        inBest = true;
+        continue;
+      }
+      if (!candidate) continue;
+      const indexName = line.match(/^Index:\s*(\S+)\s*$/);
+      if (indexName) {
+        candidate.index = indexName[1];
+        continue;
+      }
+      if (line.startsWith('Cost:') && candidate.cost === undefined) {
+        candidate.cost = numberAfter(line, 'Cost:');
+        if (inBest) {
+          // The best path's line also carries the cardinality; the analysis ends here.
+          access.cardinality ??= numberAfter(line, 'Card:');
+          mode = 'none';
+          inBest = false;
+        }
+      }
+      continue;
+    }
+
+    if (mode === 'join' && order) {
+      const joining = line.match(/^Now joining:\s*([^\s[]+)\[([^\]]+)\]/);
+      if (joining) {
+        const alias = joining[2];
+        stepIndex = order.steps.findIndex((s) => s.alias === alias);
+        pendingMethod = null;
+        continue;
+      }
+      // The outer side of the first join is the leading table on its own.
+      const outer = line.match(/^Outer table:\s*Card:\s*([\d.]+)\s+Cost:\s*([\d.]+)/);
+      if (outer && stepIndex === 1 && order.steps[0].cost === undefined) {
+        order.steps[0].cost = parseFloat(outer[2]);
+        order.steps[0].cardinality = parseFloat(outer[1]);
+        continue;
+      }
+      const method = line.match(/^Best:: JoinMethod:\s*(\S+)/);
+      if (method) {
+        pendingMethod = method[1];
+        continue;
+      }
+      if (pendingMethod && line.startsWith('Cost:') && stepIndex > 0) {
+        const step = order.steps[stepIndex];
+        step.method = pendingMethod;
+        step.cost = numberAfter(line, 'Cost:');
+        step.cardinality = numberAfter(line, 'Card:');
+        pendingMethod = null;
+        continue;
+      }
+      if (/^Join order aborted/.test(line)) {
+        order.aborted = true;
+      }
+      continue;
+    }
+
+    if (mode === 'final' && final) {
+      if (line.startsWith('Best join order:')) {
+        final.bestJoinOrder = numberAfter(line, 'Best join order:');
+      } else if (line.startsWith('Cost:') && final.cost === undefined) {
+        final.cost = numberAfter(line, 'Cost:');
+        final.cardinality = numberAfter(line, 'Card:');
+        const candidates = pendingOrders.length > 0
+          ? pendingOrders
+          : joinOrders.filter((o) => o.queryBlock === final?.queryBlock);
+        const chosen = [...candidates].reverse().find((o) => o.number === final?.bestJoinOrder);
+        if (chosen) chosen.chosen = true;
+        pendingOrders = [];
+        mode = 'none';
+      }
+    }
+  }
+  closeOrder();
+
+  return { tables, accessPaths, joinOrders, queryBlocks };
+}
+
+/** Bare alias of a plan line, e.g. `"D"@"SEL$1"` -> `D`. */
+function nodeAlias(node: PlanNode): string | undefined {
+  const alias = node.objectAlias?.split('@')[0].replace(/"/g, '').trim();
+  return alias || undefined;
+}
+
+/** Trace entries (base statistics, access path analysis) for the table a plan line accesses. */
+export function cboTraceForNode(
+  trace: CboTrace | undefined,
+  node: PlanNode,
+): { table?: CboTableStats; accessPath?: CboAccessPath } {
+  if (!trace) return {};
+  const alias = nodeAlias(node);
+  const matches = (entry: { table: string; alias?: string }) =>
+    alias ? entry.alias === alias : entry.table === node.objectName;
+
+  const table = trace.tables.find(matches);
+  const accessPath = [...trace.accessPaths].reverse().find(matches);
+  if (!table && !accessPath) return {};
+  return { table, accessPath };
+}
+
+/**
+ * The plan line that reads a join step's table: the first line carrying the
+ * step's alias, preferring the table access over its driving index.
+ */
+export function planNodeForJoinStep(nodes: PlanNode[], step: CboJoinStep): PlanNode | undefined {
+  const candidates = nodes.filter((n) => nodeAlias(n) === step.alias);
+  return candidates.find((n) => !/^INDEX/i.test(n.operation)) ?? candidates[0]
+    ?? nodes.find((n) => n.objectName === step.table);
+}
@@ -1,6 +1,12 @@
 import type { PlanNode, ParsedPlan } from '../types';
 import type { PlanParser } from './types';
 import { parseNoteSection } from './noteSection';
+import { parseProjectionSection, applyProjections } from './projection';
+import { parseOutlineData, parseHintReport } from './hintSections';
+import { parseRemoteSqlSection, applyRemoteSql } from './remoteSql';
+import { parseBindSections } from './bindSections';
+import { wrappedRowDiagnostics, truncatedHeaderDiagnostic, missingIdDiagnostics } from './diagnostics';
+import type { ParseDiagnostic } from './types';
 
 interface RawPlanRow {
   id: number;
@@ -17,8 +23,21 @@ interface RawPlanRow {
   tq?: string;
   inOut?: string;
   pqDistrib?: string;
+  inst?: string;
   depth: number;
   hasStarPrefix: boolean;
+  inactive: boolean;
+  /** 1-based source line of the row. */
+  line?: number;
+}
+
+interface PlanTable {
+  rows: RawPlanRow[];
+  headerLineIndex: number;
+  /** 0-based indexes of "|" lines inside the table that are not readable plan rows. */
+  unreadLines: number[];
+  /** Whether a closing border was found after the last row. */
+  closed: boolean;
 }
 
 interface ColumnPositions {
@@ -34,6 +53,7 @@ interface ColumnPositions {
   tq?: { start: number; end: number };
   inOut?: { start: number; end: number };
   pqDistrib?: { start: number; end: number };
+  inst?: { start: number; end: number };
 }
 
 /**
@@ -56,7 +76,12 @@ export const dbmsXplanParser: PlanParser = {
     const { sqlId, sqlText } = extractSqlHeader(lines);
 
     // Find and parse the table section
-    const tableData = parseTableSection(lines);
+    const table = parseTableSection(lines);
+    const tableData = table.rows;
+
+    // Parse the trailing "Note" section, if present.
+    const notes = parseNoteSection(lines);
+    const diagnostics = diagnoseTable(lines, table, notes?.adaptivePlan ?? false);
 
     if (tableData.length === 0) {
       return {
@@ -69,6 +94,7 @@ export const dbmsXplanParser: PlanParser = {
         maxRows: 0,
         source: 'dbms_xplan',
         hasActualStats: false,
+        diagnostics,
       };
     }
 
@@ -81,12 +107,22 @@ export const dbmsXplanParser: PlanParser = {
     // Build tree structure
     const { rootNode, allNodes } = buildTree(tableData, predicates, queryBlocks);
 
+    // Attach "Column Projection Information" (+PROJECTION), if present
+    applyProjections(allNodes, parseProjectionSection(lines));
+
+    // Attach "Remote SQL Information" (distributed queries), if present
+    applyRemoteSql(allNodes, parseRemoteSqlSection(lines));
+
     // Calculate totals
     const totalCost = allNodes.reduce((sum, node) => sum + (node.cost || 0), 0);
     const maxRows = Math.max(...allNodes.map(node => node.rows || 0));
 
-    // Parse the trailing "Note" section, if present.
-    const notes = parseNoteSection(lines);
+    // Parse "Outline Data" (+OUTLINE) and the 19c "Hint Report", if present.
+    const outlineHints = parseOutlineData(lines);
+    const hintReport = parseHintReport(lines);
+
+    // "Peeked Binds" (+PEEKED_BINDS) and "Captured Binds", if present.
+    const bindVariables = parseBindSections(lines);
 
     return {
       planHashValue,
@@ -99,10 +135,69 @@ export const dbmsXplanParser: PlanParser = {
       source: 'dbms_xplan',
       hasActualStats: false,
       notes,
+      outlineHints,
+      hintReport,
+      bindVariables,
+      diagnostics,
     };
   },
 };
 
+/** Explain a missing, wrapped, cut-off or incomplete plan table. */
+function diagnoseTable(lines: string[], table: PlanTable, adaptivePlan: boolean): ParseDiagnostic[] {
+  if (table.headerLineIndex === -1) {
+    const firstRow = lines.findIndex((line) => /^\|\s*[-*\s]*\d+\s*\|/.test(line));
+    return [{
+      severity: 'error',
+      line: firstRow === -1 ? undefined : firstRow + 1,
+      message: firstRow === -1
+        ? 'No plan table found: expected a header line such as "| Id | Operation | Name |".'
+        : 'These look like plan rows, but the "| Id | Operation | Name |" header above them is missing.',
+      fix: 'Copy the whole DBMS_XPLAN output, including the header line and the dashed borders around it.',
+    }];
+  }
+
+  const diagnostics = wrappedRowDiagnostics(lines);
+  const truncated = truncatedHeaderDiagnostic(lines, table.headerLineIndex);
+  if (truncated) diagnostics.push(truncated);
+
+  if (table.rows.length === 0) {
+    diagnostics.push({
+      severity: 'error',
+      line: table.headerLineIndex + 1,
+      message: 'The plan table has a header but no rows.',
+      fix: 'The paste may have been cut off right after the header; copy the complete output.',
+    });
+    return diagnostics;
+  }
+
+  // Wrapped rows are already reported once per table.
+  const wrapped = diagnostics.some((d) => d.repair === 'rejoin-wrapped-rows');
+  if (!wrapped) {
+    for (const index of table.unreadLines) {
+      diagnostics.push({
+        severity: 'warning',
+        line: index + 1,
+        message: 'This line sits inside the plan table but is not a readable plan row, so it was skipped.',
+        fix: 'Check that the row was not edited or merged with another line.',
+      });
+    }
+  }
+
+  const lineById = new Map(table.rows.map((row) => [row.id, row.line]));
+  diagnostics.push(...missingIdDiagnostics(table.rows.map((row) => row.id), (id) => lineById.get(id), adaptivePlan));
+
+  if (!table.closed) {
+    diagnostics.push({
+      severity: 'warning',
+      line: table.rows[table.rows.length - 1].line,
+      message: 'The plan table has no closing border after this row; the paste may be cut off.',
+      fix: 'Copy the output down to the dashed line under the last plan row (and the Predicate Information below it).',
+    });
+  }
+  return diagnostics;
+}
+
 export function extractDbmsXplanSegments(input: string): string[] {
   const normalized = input.trim();
   if (!normalized) return [];
@@ -247,8 +342,10 @@ function extractPlanHashValue(lines: string[]): string | undefined {
   return undefined;
 }
 
-function parseTableSection(lines: string[]): RawPlanRow[] {
+function parseTableSection(lines: string[]): PlanTable {
   const rows: RawPlanRow[] = [];
+  const unreadLines: number[] = [];
+  let closed = false;
 
   // Find the header line to determine column positions
   let headerLineIndex = -1;
@@ -265,7 +362,7 @@ function parseTableSection(lines: string[]): RawPlanRow[] {
   }
 
   if (headerLineIndex === -1) {
-    return rows;
+    return { rows, headerLineIndex, unreadLines, closed };
   }
 
   // Parse column positions from header
@@ -291,6 +388,7 @@ function parseTableSection(lines: string[]): RawPlanRow[] {
           }
         }
         if (!foundMoreData) {
+          closed = rows.length > 0;
           break;
         }
       }
@@ -301,12 +399,15 @@ function parseTableSection(lines: string[]): RawPlanRow[] {
     if (/^\|/.test(line)) {
       const row = parseDataRow(line, columns);
       if (row) {
+        row.line = i + 1;
         rows.push(row);
+      } else if (!/\|\s*Id\s*\|.*Operation/i.test(line)) {
+        unreadLines.push(i);
       }
     }
   }
 
-  return rows;
+  return { rows, headerLineIndex, unreadLines, closed };
 }
 
 function parseColumnPositions(headerLine: string): ColumnPositions {
@@ -356,6 +457,8 @@ function parseColumnPositions(headerLine: string): ColumnPositions {
       cols.inOut = { start, end };
     } else if (segment === 'pq distrib') {
       cols.pqDistrib = { start, end };
+    } else if (segment === 'inst') {
+      cols.inst = { start, end };
     }
   }
 
@@ -370,6 +473,7 @@ function parseDataRow(line: string, columns: ColumnPositions): RawPlanRow | null
   // inactive rows with a "-" marker (e.g. "- * 3"), so detect the star anywhere
   // in the cell rather than only as the very first character.
   const hasStarPrefix = idStr.includes('*');
+  const inactive = idStr.startsWith('-');
   const idMatch = idStr.match(/[-\s*]*(\d+)/);
   if (!idMatch) {
     return null;
@@ -429,6 +533,7 @@ function parseDataRow(line: string, columns: ColumnPositions): RawPlanRow | null
   let tq: string | undefined;
   let inOut: string | undefined;
   let pqDistrib: string | undefined;
+  let inst: string | undefined;
 
   if (columns.pstart) {
     pstart = line.substring(columns.pstart.start, columns.pstart.end).trim() || undefined;
@@ -450,6 +555,10 @@ function parseDataRow(line: string, columns: ColumnPositions): RawPlanRow | null
     pqDistrib = line.substring(columns.pqDistrib.start, columns.pqDistrib.end).trim() || undefined;
   }
 
+  if (columns.inst) {
+    inst = line.substring(columns.inst.start, columns.inst.end).trim() || undefined;
+  }
+
   return {
     id,
     operation,
@@ -464,8 +573,10 @@ function parseDataRow(line: string, columns: ColumnPositions): RawPlanRow | null
     tq,
     inOut,
     pqDistrib,
+    inst,
     depth,
     hasStarPrefix,
+    inactive,
   };
 }
 
@@ -649,10 +760,12 @@ function buildTree(
       tq: row.tq,
       inOut: row.inOut,
       pqDistrib: row.pqDistrib,
+      inst: row.inst,
       accessPredicates: preds?.access,
       filterPredicates: preds?.filter,
       queryBlock: qb?.queryBlock,
       objectAlias: qb?.objectAlias,
+      inactive: row.inactive || undefined,
       children: [],
     };
 
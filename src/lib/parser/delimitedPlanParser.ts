@@ -0,0 +1,251 @@
+import type { ParsedPlan } from '../types';
+import type { ParseDiagnostic, PlanParser } from './types';
+import { buildPlanFromRows } from './jsonPlanParser';
+
+/**
+ * Parser for V$SQL_PLAN / V$SQL_PLAN_STATISTICS_ALL rows exported as text:
+ * SQLcl `set sqlformat csv`, SQL Developer and DBeaver grid copies (tab
+ * separated), semicolon CSV from spreadsheets, or SQL*Plus column output
+ * (fixed width under a dashed ruler).
+ *
+ * Rows are handed to the JSON parser's row builder, so column names follow the
+ * same aliases (`cardinality`, `access_predicates`, `last_output_rows`, ...).
+ */
+
+type Layout = { kind: 'delimited'; delimiter: string } | { kind: 'fixed'; columns: Array<[number, number]> };
+
+const DELIMITERS = ['\t', ',', ';'];
+
+/** Tree-shaping columns; at least one must be present alongside ID and OPERATION. */
+const STRUCTURE_COLUMNS = ['parent_id', 'depth', 'options'];
+
+/** Grid tools show NULL as "(null)" (SQL Developer) or "[NULL]" (DBeaver). */
+const NULL_MARKERS = new Set(['(null)', '[null]', 'null']);
+
+const RULER = /^\s*-{2,}(\s+-{2,})*\s*$/;
+
+const ROWS_SELECTED = /^\s*\d+ rows? selected\.?\s*$/i;
+
+/** One record of the export and the 1-based line it starts on. */
+interface SourceRow {
+  cells: string[];
+  line: number;
+}
+
+function normalizeHeader(name: string): string {
+  return name.trim().replace(/^"(.*)"$/, '$1').trim().replace(/\s+/g, '_').toLowerCase();
+}
+
+function isPlanHeader(names: string[]): boolean {
+  const normalized = names.map(normalizeHeader);
+  return normalized.includes('id')
+    && normalized.includes('operation')
+    && STRUCTURE_COLUMNS.some((column) => normalized.includes(column));
+}
+
+/**
+ * Split delimited text into records, honouring double-quoted fields that
+ * contain delimiters, doubled quotes or line breaks (multi-line predicates).
+ */
+export function splitDelimited(text: string, delimiter: string): string[][] {
+  return splitDelimitedRows(text, delimiter).map((row) => row.cells);
+}
+
+function splitDelimitedRows(text: string, delimiter: string): SourceRow[] {
+  const records: SourceRow[] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '\n' || (ch === '\r' && text[i + 1] !== '\n')) line++;
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field.trim() === '') {
+      field = '';
+      quoted = true;
+    } else if (ch === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') {
+        i++;
+        line++;
+      }
+      record.push(field);
+      records.push({ cells: record, line: recordLine });
+      record = [];
+      field = '';
+      recordLine = line;
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push({ cells: record, line: recordLine });
+  }
+  return records.filter((r) => r.cells.some((value) => value.trim() !== ''));
+}
+
+/** Locate the header line and work out how its columns are separated. */
+function detectLayout(lines: string[]): { headerIndex: number; layout: Layout } | null {
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (!/\bid\b/i.test(line) || !/\boperation\b/i.test(line)) continue;
+
+    for (const delimiter of DELIMITERS) {
+      if (line.includes(delimiter) && isPlanHeader(splitDelimited(line, delimiter)[0] ?? [])) {
+        return { headerIndex: i, layout: { kind: 'delimited', delimiter } };
+      }
+    }
+
+    const ruler = lines[i + 1] ?? '';
+    if (RULER.test(ruler) && isPlanHeader(line.trim().split(/\s+/))) {
+      const columns = [...ruler.matchAll(/-+/g)].map((m): [number, number] => [m.index ?? 0, (m.index ?? 0) + m[0].length]);
+      return { headerIndex: i, layout: { kind: 'fixed', columns } };
+    }
+  }
+  return null;
+}
+
+function sliceFixed(line: string, columns: Array<[number, number]>): string[] {
+  // The last column runs to the end of the line: SQL*Plus does not pad it.
+  return columns.map(([start, end], idx) => line.slice(start, idx === columns.length - 1 ? undefined : end + 1).trim());
+}
+
+/**
+ * Read fixed-width rows. SQL*Plus wraps long values onto continuation lines
+ * with an empty ID column; those are appended to the previous row. Repeated
+ * page headers, rulers and the "N rows selected." footer are skipped.
+ */
+function readFixedRows(lines: string[], headerIndex: number, columns: Array<[number, number]>, idColumn: number): SourceRow[] {
+  const header = lines[headerIndex].trim();
+  const rows: SourceRow[] = [];
+
+  for (let i = headerIndex + 2; i < lines.length; i++) {
+    const line = lines[i].replace(/\s+$/, '');
+    if (!line.trim() || RULER.test(line) || line.trim() === header) continue;
+    if (ROWS_SELECTED.test(line)) break;
+
+    const cells = sliceFixed(line, columns);
+    const previous = rows[rows.length - 1]?.cells;
+    if (!cells[idColumn] && previous) {
+      cells.forEach((cell, idx) => {
+        if (cell) previous[idx] = previous[idx] ? `${previous[idx]}${cell}` : cell;
+      });
+      continue;
+    }
+    rows.push({ cells, line: i + 1 });
+  }
+  return rows;
+}
+
+/**
+ * Drop rows that cannot become plan operations, with a warning on their line:
+ * rows without a numeric ID or an OPERATION, and delimited rows with fewer
+ * fields than the header (a cut-off copy). Footers and repeated headers are
+ * dropped silently.
+ */
+function checkRows(header: string[], rows: SourceRow[], delimited: boolean): { rows: SourceRow[]; diagnostics: ParseDiagnostic[] } {
+  const names = header.map(normalizeHeader);
+  const column = (name: string) => names.indexOf(name);
+  const [idColumn, operationColumn, optionsColumn] = [column('id'), column('operation'), column('options')];
+  const diagnostics: ParseDiagnostic[] = [];
+
+  const kept = rows.filter(({ cells, line }) => {
+    const values = cells.map((cell) => cell.trim()).filter(Boolean);
+    if (values.length === 1 && ROWS_SELECTED.test(values[0])) return false;
+    if (cells.map(normalizeHeader).join() === names.join()) return false;
+
+    const cell = (index: number) => {
+      const value = cells[index]?.trim() ?? '';
+      return NULL_MARKERS.has(value.toLowerCase()) ? '' : value;
+    };
+    if (!/^\d+$/.test(cell(idColumn)) || !(cell(operationColumn) || (optionsColumn !== -1 && cell(optionsColumn)))) {
+      diagnostics.push({
+        severity: 'warning',
+        line,
+        message: 'This row has no numeric ID or no OPERATION, so it is not a plan operation and was skipped.',
+        fix: 'Export the ID, PARENT_ID and OPERATION (or DEPTH) columns of V$SQL_PLAN for every row.',
+      });
+      return false;
+    }
+    if (delimited && cells.length < header.length) {
+      diagnostics.push({
+        severity: 'warning',
+        line,
+        message: `This row has ${cells.length} of the ${header.length} fields in the header; the missing ones at the end were read as empty.`,
+        fix: 'The row may have been cut off when it was copied; copy the complete export again.',
+      });
+    }
+    return true;
+  });
+  return { rows: kept, diagnostics };
+}
+
+function toRecords(header: string[], rows: string[][]): Record<string, unknown>[] {
+  const names = header.map(normalizeHeader);
+  return rows.map((row) => {
+    const record: Record<string, unknown> = {};
+    names.forEach((name, idx) => {
+      if (!name || name in record) return;
+      const value = row[idx]?.trim() ?? '';
+      record[name] = NULL_MARKERS.has(value.toLowerCase()) ? '' : value;
+    });
+    return record;
+  });
+}
+
+/**
+ * V$SQL_PLAN_STATISTICS_ALL holds one plan per child cursor; keep the rows of
+ * the first child so IDs stay unique.
+ */
+function firstChildCursor(records: Record<string, unknown>[]): Record<string, unknown>[] {
+  const child = records[0]?.child_number;
+  if (child === undefined || child === '') return records;
+  return records.filter((record) => record.child_number === child);
+}
+
+export const delimitedPlanParser: PlanParser = {
+  canParse(input: string): boolean {
+    return detectLayout(input.split(/\r?\n/)) !== null;
+  },
+
+  parse(input: string): ParsedPlan {
+    const lines = input.split(/\r?\n/);
+    const detected = detectLayout(lines);
+    if (!detected) return buildPlanFromRows([], 'csv');
+
+    const { headerIndex, layout } = detected;
+    let header: string[];
+    let rows: SourceRow[];
+    if (layout.kind === 'delimited') {
+      const [headerRow, ...dataRows] = splitDelimitedRows(lines.slice(headerIndex).join('\n'), layout.delimiter);
+      header = headerRow.cells;
+      rows = dataRows.map((row) => ({ ...row, line: row.line + headerIndex }));
+    } else {
+      // Headings are single words, so take them in order: the header line may
+      // have lost its leading padding when the paste was trimmed.
+      const names = lines[headerIndex].trim().split(/\s+/);
+      header = names.length === layout.columns.length ? names : sliceFixed(lines[headerIndex], layout.columns);
+      rows = readFixedRows(lines, headerIndex, layout.columns, header.findIndex((name) => normalizeHeader(name) === 'id'));
+    }
+
+    const checked = checkRows(header, rows, layout.kind === 'delimited');
+    const records = toRecords(header, checked.rows.map((row) => row.cells));
+    const plan = buildPlanFromRows(firstChildCursor(records), 'csv');
+    const diagnostics = [...checked.diagnostics, ...(plan.diagnostics ?? [])];
+    return { ...plan, diagnostics: diagnostics.length > 0 ? diagnostics : undefined };
+  },
+};
@@ -0,0 +1,233 @@
+import type { ParsedPlan } from '../types';
+import type { DiagnosticRepair, ParseDiagnostic } from './types';
+
+/** Dashed (DBMS_XPLAN) or "=" (SQL Monitor) table border. */
+const BORDER = /^[-=]{4,}$/;
+
+const LINESIZE_FIX = 'SET LINESIZE 300 (or wider) and SET TRIMSPOOL ON before calling DBMS_XPLAN or DBMS_SQL_MONITOR, then copy the output again.';
+
+/** A plan table row that was wrapped onto continuation lines (0-based, inclusive). */
+interface WrappedRow {
+  start: number;
+  end: number;
+}
+
+interface PipeTable {
+  /** Full row width: the length of the (rejoined) top border. */
+  width: number;
+  /** Width the rows were wrapped at; equals `width` when nothing wrapped. */
+  wrapWidth: number;
+  rows: WrappedRow[];
+}
+
+/**
+ * Find the "|"-delimited tables in a listing and group their physical lines
+ * into rows. SQL*Plus wraps lines longer than LINESIZE at exactly LINESIZE
+ * characters, so a table whose border spans several lines had every row
+ * wrapped the same way; each row is rebuilt until it reaches the border width.
+ */
+function findPipeTables(lines: string[]): PipeTable[] {
+  const tables: PipeTable[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!BORDER.test(lines[i].trim())) continue;
+
+    const fragments: number[] = [];
+    let j = i;
+    while (j < lines.length && BORDER.test(lines[j].trim())) {
+      fragments.push(lines[j].trim().length);
+      j++;
+    }
+    if (!lines[j]?.trim().startsWith('|')) {
+      i = j - 1;
+      continue;
+    }
+
+    // A wrapped border ends with a shorter remainder; equal-length borders
+    // stacked on top of each other are separate lines.
+    const wrapped = fragments.length > 1 && fragments[fragments.length - 1] < fragments[0];
+    const width = wrapped ? fragments.reduce((sum, n) => sum + n, 0) : fragments[fragments.length - 1];
+    const table: PipeTable = { width, wrapWidth: wrapped ? fragments[0] : width, rows: [] };
+    let k = j;
+    while (k < lines.length) {
+      const first = lines[k].trimEnd();
+      if (!first.trim() || !(first.trimStart().startsWith('|') || BORDER.test(first.trim()))) break;
+
+      let length = first.trim().length;
+      let end = k;
+      while (length < table.width && table.wrapWidth < table.width && end + 1 < lines.length && lines[end + 1].trim()) {
+        end++;
+        length = table.wrapWidth * (end - k) + lines[end].trimEnd().length;
+      }
+      table.rows.push({ start: k, end });
+      k = end + 1;
+    }
+    tables.push(table);
+    i = k - 1;
+  }
+
+  return tables;
+}
+
+/** Rows of every "|" table that were wrapped onto more than one line. */
+export function findWrappedRows(lines: string[]): WrappedRow[] {
+  return findPipeTables(lines).flatMap((table) => table.rows.filter((row) => row.end > row.start));
+}
+
+/**
+ * Rejoin plan table rows wrapped by a small LINESIZE. Each fragment is padded
+ * back to the wrap width before the next one is appended, so the columns line
+ * up with the header again. Text outside the tables is left untouched.
+ */
+export function rejoinWrappedRows(input: string): string {
+  const lines = input.split(/\r?\n/);
+  const replacements = new Map<number, { end: number; text: string }>();
+
+  for (const table of findPipeTables(lines)) {
+    for (const row of table.rows) {
+      if (row.end === row.start) continue;
+      let text = '';
+      for (let i = row.start; i <= row.end; i++) {
+        const fragment = lines[i].trimEnd();
+        text = i < row.end ? `${text}${fragment}`.padEnd(table.wrapWidth * (i - row.start + 1)) : `${text}${fragment}`;
+      }
+      replacements.set(row.start, { end: row.end, text });
+    }
+  }
+  if (replacements.size === 0) return input;
+
+  const output: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const replacement = replacements.get(i);
+    if (replacement) {
+      output.push(replacement.text);
+      i = replacement.end;
+    } else {
+      output.push(lines[i]);
+    }
+  }
+  return output.join('\n');
+}
+
+/** One warning per plan table whose rows were wrapped by LINESIZE. */
+export function wrappedRowDiagnostics(lines: string[]): ParseDiagnostic[] {
+  const diagnostics: ParseDiagnostic[] = [];
+  for (const table of findPipeTables(lines)) {
+    const wrapped = table.rows.filter((row) => row.end > row.start);
+    if (wrapped.length === 0) continue;
+    diagnostics.push({
+      severity: 'warning',
+      line: wrapped[0].start + 1,
+      endLine: wrapped[wrapped.length - 1].end + 1,
+      message: `Looks like LINESIZE wrapped this table: ${wrapped.length} row${wrapped.length === 1 ? ' is' : 's are'} ${table.width} characters wide but were broken at ${table.wrapWidth}, so columns past the break were not read.`,
+      fix: `Use Repair to rejoin the wrapped rows, or ${LINESIZE_FIX}`,
+      repair: 'rejoin-wrapped-rows',
+    });
+  }
+  return diagnostics;
+}
+
+/**
+ * Header line of a "|" table that does not end with "|": the row was cut off
+ * (SET WRAP OFF with a small LINESIZE), so the right-hand columns are lost.
+ */
+export function truncatedHeaderDiagnostic(lines: string[], headerIndex: number): ParseDiagnostic | undefined {
+  const header = lines[headerIndex]?.trimEnd();
+  if (!header || header.endsWith('|')) return undefined;
+  if (findWrappedRows(lines).some((row) => row.start <= headerIndex && headerIndex <= row.end)) return undefined;
+  return {
+    severity: 'warning',
+    line: headerIndex + 1,
+    message: `The plan table header stops at ${header.length} characters without a closing "|"; columns to the right were cut off.`,
+    fix: LINESIZE_FIX,
+  };
+}
+
+/**
+ * Plan line ids missing from an otherwise numbered plan. `lineOf` maps a plan
+ * id to the 1-based source line of its row, used to point at the row after the gap.
+ */
+export function missingIdDiagnostics(
+  ids: number[],
+  lineOf: (id: number) => number | undefined,
+  adaptivePlan = false,
+): ParseDiagnostic[] {
+  const diagnostics: ParseDiagnostic[] = [];
+  const sorted = [...new Set(ids)].sort((a, b) => a - b);
+  let expected = 0;
+  for (const id of sorted) {
+    if (id > expected) {
+      const range = id - 1 === expected ? `${expected}` : `${expected}-${id - 1}`;
+      diagnostics.push(adaptivePlan
+        ? {
+          severity: 'info',
+          line: lineOf(id),
+          message: `Plan line${id - 1 === expected ? '' : 's'} ${range} ${id - 1 === expected ? 'is' : 'are'} not listed: inactive rows of an adaptive plan are hidden by default.`,
+          fix: 'Add +ADAPTIVE to the DBMS_XPLAN format to list them.',
+        }
+        : {
+          severity: 'warning',
+          line: lineOf(id),
+          message: `Plan line${id - 1 === expected ? '' : 's'} ${range} ${id - 1 === expected ? 'is' : 'are'} missing; the tree may be incomplete.`,
+          fix: 'Check that the whole plan table was copied and that no rows were deleted.',
+        });
+    }
+    expected = id + 1;
+  }
+  return diagnostics;
+}
+
+/** 1-based line number of a character offset. */
+export function lineAtOffset(text: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset && i < text.length; i++) {
+    if (text[i] === '\n') line++;
+  }
+  return line;
+}
+
+/** Checks that apply to any format: nothing parsed, or rows whose parent is missing. */
+export function planShapeDiagnostics(plan: ParsedPlan): ParseDiagnostic[] {
+  const diagnostics: ParseDiagnostic[] = [];
+  const hasError = plan.diagnostics?.some((d) => d.severity === 'error');
+
+  if (!plan.rootNode) {
+    if (!hasError) {
+      diagnostics.push({
+        severity: 'error',
+        message: 'No plan operations were found in the input.',
+        fix: 'Check that the whole report was copied, including the plan table header.',
+      });
+    }
+    return diagnostics;
+  }
+
+  const ids = new Set(plan.allNodes.map((node) => node.id));
+  const orphans = plan.allNodes.filter((node) => node.parentId !== undefined && !ids.has(node.parentId));
+  if (orphans.length > 0) {
+    diagnostics.push({
+      severity: 'warning',
+      message: `${orphans.length} operation${orphans.length === 1 ? '' : 's'} (line${orphans.length === 1 ? '' : 's'} ${orphans.map((n) => n.id).join(', ')}) point${orphans.length === 1 ? 's' : ''} at a parent line that is not in the plan, so ${orphans.length === 1 ? 'it is' : 'they are'} missing from the tree.`,
+      fix: 'Export every row of the plan (all ids of the child cursor).',
+    });
+  }
+  return diagnostics;
+}
+
+/** Move diagnostics down by `offset` lines (for text that was trimmed or cut out of a larger input). */
+export function shiftDiagnostics(diagnostics: ParseDiagnostic[], offset: number): ParseDiagnostic[] {
+  if (offset === 0) return diagnostics;
+  return diagnostics.map((d) => ({
+    ...d,
+    line: d.line !== undefined ? d.line + offset : undefined,
+    endLine: d.endLine !== undefined ? d.endLine + offset : undefined,
+  }));
+}
+
+/** Apply one of the automatic repairs a diagnostic offers to the pasted text. */
+export function applyRepair(input: string, repair: DiagnosticRepair): string {
+  switch (repair) {
+    case 'rejoin-wrapped-rows':
+      return rejoinWrappedRows(input);
+  }
+}
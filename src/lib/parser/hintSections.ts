@@ -0,0 +1,193 @@
+/** One hint from the "Outline Data" block, tied to the query block it targets. */
+export interface OutlineHint {
+  hint: string;
+  /** Query block named by the hint's leading `@"SEL$1"` argument; undefined for statement-level hints. */
+  queryBlock?: string;
+}
+
+export type HintStatus = 'used' | 'unused' | 'unresolved' | 'error';
+
+/** One hint listed in the 19c+ "Hint Report" block. */
+export interface HintReportEntry {
+  /** Plan line id the hint applies to (0 for statement-level hints). */
+  lineId: number;
+  queryBlock?: string;
+  objectAlias?: string;
+  hint: string;
+  status: HintStatus;
+  /** Oracle's explanation for an unused hint ("hint overridden by another in parent query block"). */
+  reason?: string;
+}
+
+export interface HintReport {
+  totalHints?: number;
+  entries: HintReportEntry[];
+}
+
+const STATUS_BY_MARKER: Record<string, HintStatus> = {
+  U: 'unused',
+  N: 'unresolved',
+  E: 'error',
+};
+
+function findHeader(lines: string[], pattern: RegExp): number {
+  return lines.findIndex((line) => pattern.test(line.trim()));
+}
+
+function parenDepth(text: string): number {
+  let depth = 0;
+  let inQuote = false;
+  for (const ch of text) {
+    if (ch === '\'') inQuote = !inQuote;
+    if (inQuote) continue;
+    if (ch === '(') depth++;
+    else if (ch === ')') depth--;
+  }
+  return depth;
+}
+
+function unquoteIdentifier(raw: string): string {
+  return raw.replace(/"/g, '');
+}
+
+/** Tag a hint with the query block named by its leading `@"QB"` argument. */
+export function toOutlineHint(hint: string): OutlineHint {
+  const qbMatch = hint.match(/^\w+\(\s*@\s*("?)([^"\s)]+)\1/);
+  return { hint, queryBlock: qbMatch ? qbMatch[2] : undefined };
+}
+
+/**
+ * Parse the DBMS_XPLAN "Outline Data" block (`+OUTLINE` format option).
+ *
+ * Collects every hint between BEGIN_OUTLINE_DATA and END_OUTLINE_DATA,
+ * rejoining hints that SQL*Plus wrapped across lines (unbalanced parentheses),
+ * and tags each with the query block named by its `@"QB"` argument.
+ */
+export function parseOutlineData(lines: string[]): OutlineHint[] | undefined {
+  const headerIndex = findHeader(lines, /^Outline Data$/i);
+  if (headerIndex === -1) return undefined;
+
+  let i = headerIndex + 1;
+  while (i < lines.length && !/BEGIN_OUTLINE_DATA/i.test(lines[i])) {
+    // Give up if another section starts before the outline body does.
+    if (/^\s*[A-Z][\w ]+\(identified by/i.test(lines[i])) return undefined;
+    i++;
+  }
+  if (i >= lines.length) return undefined;
+
+  const hints: OutlineHint[] = [];
+  let pending = '';
+
+  for (i = i + 1; i < lines.length; i++) {
+    const text = lines[i].trim();
+    if (/END_OUTLINE_DATA/i.test(text) || text.startsWith('*/')) break;
+    if (!text) continue;
+
+    pending = pending ? `${pending} ${text}` : text;
+    if (parenDepth(pending) > 0) continue;
+
+    hints.push(toOutlineHint(pending));
+    pending = '';
+  }
+
+  if (pending) hints.push({ hint: pending });
+
+  return hints.length > 0 ? hints : undefined;
+}
+
+/**
+ * Parse the 19c+ DBMS_XPLAN "Hint Report" block (`+HINT_REPORT`, included in
+ * `ALL` and `TYPICAL`). Entries are grouped under "N -  QB [/ ALIAS]" lines;
+ * each hint line carries an optional status marker:
+ *   (blank) used, U unused, N unresolved, E syntax error.
+ */
+export function parseHintReport(lines: string[]): HintReport | undefined {
+  const headerIndex = findHeader(lines, /^Hint Report\b/i);
+  if (headerIndex === -1) return undefined;
+
+  const report: HintReport = { entries: [] };
+  let lineId: number | null = null;
+  let queryBlock: string | undefined;
+  let objectAlias: string | undefined;
+  let sawEntry = false;
+
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    const raw = lines[i];
+    const text = raw.trim();
+
+    const totalMatch = text.match(/^Total hints for statement:\s*(\d+)/i);
+    if (totalMatch) {
+      report.totalHints = parseInt(totalMatch[1], 10);
+      continue;
+    }
+    if (/^-+$/.test(text)) continue;
+    if (!text) {
+      // Blank lines separate groups; two in a row (or a new section) end the block.
+      if (sawEntry && i + 1 < lines.length && lines[i + 1].trim() === '') break;
+      continue;
+    }
+
+    const groupMatch = raw.match(/^\s*(\d+)\s+-\s+(\S+)(?:\s*\/\s*(\S+))?\s*$/);
+    if (groupMatch) {
+      lineId = parseInt(groupMatch[1], 10);
+      queryBlock = groupMatch[2].toUpperCase() === 'STATEMENT' ? undefined : groupMatch[2];
+      objectAlias = groupMatch[3];
+      continue;
+    }
+
+    const hintMatch = raw.match(/^\s*([UNE])?\s*-\s+(.+)$/);
+    if (hintMatch && lineId !== null) {
+      const status = hintMatch[1] ? STATUS_BY_MARKER[hintMatch[1]] : 'used';
+      const body = hintMatch[2].trim();
+      // Unused hints may carry " / reason" after the hint text.
+      const slash = findReasonSeparator(body);
+      const hint = slash === -1 ? body : body.slice(0, slash).trim();
+      const reason = slash === -1 ? undefined : body.slice(slash + 1).trim() || undefined;
+      report.entries.push({ lineId, queryBlock, objectAlias, hint, status, reason });
+      sawEntry = true;
+      continue;
+    }
+
+    // Anything else (e.g. the "Note" header) ends the block.
+    if (sawEntry) break;
+  }
+
+  return report.entries.length > 0 || report.totalHints !== undefined ? report : undefined;
+}
+
+/** Index of the " / " separating hint text from its reason, ignoring slashes inside parentheses. */
+function findReasonSeparator(body: string): number {
+  let depth = 0;
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+    if (ch === '(') depth++;
+    else if (ch === ')') depth--;
+    else if (ch === '/' && depth === 0) return i;
+  }
+  return -1;
+}
+
+/** Outline hints that target the given query block. */
+export function outlineHintsForQueryBlock(hints: OutlineHint[] | undefined, queryBlock: string | undefined): OutlineHint[] {
+  if (!hints || !queryBlock) return [];
+  const target = unquoteIdentifier(queryBlock).toUpperCase();
+  return hints.filter((h) => h.queryBlock !== undefined && unquoteIdentifier(h.queryBlock).toUpperCase() === target);
+}
+
+/**
+ * Hint report entries relevant to a plan line: those reported against the line
+ * itself, plus query-block level entries (reported on another line of the same
+ * query block without an object alias).
+ */
+export function hintReportEntriesForNode(
+  report: HintReport | undefined,
+  nodeId: number,
+  queryBlock: string | undefined,
+): HintReportEntry[] {
+  if (!report) return [];
+  const qb = queryBlock?.toUpperCase();
+  return report.entries.filter((entry) => {
+    if (entry.lineId === nodeId) return true;
+    return qb !== undefined && !entry.objectAlias && entry.queryBlock?.toUpperCase() === qb;
+  });
+}
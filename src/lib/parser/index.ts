@@ -2,19 +2,35 @@ import type { ParsedPlan } from '../types';
 import type { DetectedFormat, PlanParser } from './types';
 import { dbmsXplanParser, extractDbmsXplanSegments } from './dbmsXplanParser';
 import { sqlMonitorTextParser, sqlMonitorXmlParser } from './sqlMonitorParser';
+import { sqlMonitorActiveParser } from './sqlMonitorActiveParser';
 import { jsonPlanParser } from './jsonPlanParser';
+import { delimitedPlanParser } from './delimitedPlanParser';
 import { xbiParser } from './xbiParser';
+import { tkprofParser, extractTkprofStatements } from './tkprofParser';
+import { cboTraceParser } from './cboTraceParser';
 import { computeSelfTimes } from '../analysis';
+import { planShapeDiagnostics, shiftDiagnostics } from './diagnostics';
 
 /**
  * List of available parsers in priority order.
  * JSON parser is checked first as it has the most unambiguous detection (starts with '[').
+ * CSV / grid rows need a header naming V$SQL_PLAN columns (ID, OPERATION and
+ * PARENT_ID, DEPTH or OPTIONS), which no text report has.
+ * Active (HTML) reports come before XML: an uncompressed one also contains
+ * the XML markers, but must be unwrapped from its HTML page first.
  * XML parser is next as it has distinctive markers.
+ * 10053 traces end with a DBMS_XPLAN-style Plan Table, so they are claimed
+ * before the text parsers.
+ * TKPROF comes before XBI, whose dashed-separator check its call table also matches.
  */
 const parsers: Array<{ format: DetectedFormat; parser: PlanParser }> = [
   { format: 'json', parser: jsonPlanParser },
+  { format: 'csv', parser: delimitedPlanParser },
+  { format: 'sql_monitor_active', parser: sqlMonitorActiveParser },
   { format: 'sql_monitor_xml', parser: sqlMonitorXmlParser },
+  { format: 'cbo_trace', parser: cboTraceParser },
   { format: 'sql_monitor_text', parser: sqlMonitorTextParser },
+  { format: 'tkprof', parser: tkprofParser },
   { format: 'xbi', parser: xbiParser },
   { format: 'dbms_xplan', parser: dbmsXplanParser },
 ];
@@ -51,27 +67,43 @@ export function detectFormat(input: string): DetectedFormat {
  * @returns Parsed plan structure with source metadata
  */
 export function parsePlan(input: string): ParsedPlan {
+  // Diagnostics refer to lines of the text as pasted, before trimming.
+  const leadingLines = (input.slice(0, input.length - input.trimStart().length).match(/\n/g) ?? []).length;
   input = stripWrappingQuotes(input);
   const format = detectFormat(input);
 
-  for (const { format: parserFormat, parser } of parsers) {
-    if (parserFormat === format) {
-      const plan = parser.parse(input);
-      computeSelfTimes(plan);
-      return plan;
-    }
-  }
-
-  // Fallback to DBMS_XPLAN parser for unknown formats
-  const plan = dbmsXplanParser.parse(input);
+  // Unknown formats fall back to the DBMS_XPLAN parser, or to the JSON parser
+  // for input that looks like (broken) JSON, so it can report the syntax error.
+  const parser = parsers.find(({ format: parserFormat }) => parserFormat === format)?.parser
+    ?? (/^[[{]/.test(input) ? jsonPlanParser : dbmsXplanParser);
+  const plan = parser.parse(input);
   computeSelfTimes(plan);
+
+  const diagnostics = [...(plan.diagnostics ?? []), ...planShapeDiagnostics(plan)];
+  plan.diagnostics = diagnostics.length > 0 ? shiftDiagnostics(diagnostics, leadingLines) : undefined;
   return plan;
 }
 
 export const splitDbmsXplanPlanBatches = extractDbmsXplanSegments;
 
+/**
+ * Split input holding several plans into one batch per plan: one per
+ * statement of a TKPROF report, otherwise one per DBMS_XPLAN plan. A 10053
+ * trace is always a single plan.
+ */
+export function splitPlanBatches(input: string): string[] {
+  const cleaned = stripWrappingQuotes(input);
+  if (tkprofParser.canParse(cleaned)) {
+    return extractTkprofStatements(cleaned);
+  }
+  if (cboTraceParser.canParse(cleaned)) {
+    return [cleaned];
+  }
+  return splitDbmsXplanPlanBatches(input);
+}
+
 export function parsePlans(input: string): ParsedPlan[] {
-  return splitDbmsXplanPlanBatches(input)
+  return splitPlanBatches(input)
     .map((batch) => parsePlan(batch))
     .filter((plan) => Boolean(plan.rootNode));
 }
@@ -100,19 +132,30 @@ export function getSourceDisplayName(source: ParsedPlan['source']): string {
       return 'SQL Monitor (XML)';
     case 'json':
       return 'JSON (V$SQL_PLAN)';
+    case 'csv':
+      return 'CSV (V$SQL_PLAN)';
     case 'xbi':
       return 'XBI (Tanel Poder)';
+    case 'tkprof':
+      return 'TKPROF';
+    case 'cbo_trace':
+      return '10053 Trace';
     default:
       return 'Unknown';
   }
 }
 
 // Re-export types
-export type { DetectedFormat, PlanParser } from './types';
+export type { DetectedFormat, PlanParser, ParseDiagnostic, DiagnosticSeverity, DiagnosticRepair } from './types';
+export { applyRepair, rejoinWrappedRows } from './diagnostics';
 
 // Re-export individual parsers for direct use if needed
 export { dbmsXplanParser } from './dbmsXplanParser';
 export { extractDbmsXplanSegments, parseDbmsXplanPlans } from './dbmsXplanParser';
 export { sqlMonitorTextParser, sqlMonitorXmlParser } from './sqlMonitorParser';
-export { jsonPlanParser } from './jsonPlanParser';
+export { sqlMonitorActiveParser, extractActiveReportXml } from './sqlMonitorActiveParser';
+export { jsonPlanParser, buildPlanFromRows } from './jsonPlanParser';
+export { delimitedPlanParser, splitDelimited } from './delimitedPlanParser';
 export { xbiParser } from './xbiParser';
+export { tkprofParser, extractTkprofStatements } from './tkprofParser';
+export { cboTraceParser, cboTraceForNode, planNodeForJoinStep } from './cboTraceParser';
@@ -1,5 +1,17 @@
-import type { PlanNode, ParsedPlan } from '../types';
+import type { PlanNode, ParsedPlan, PlanSource } from '../types';
 import type { PlanParser } from './types';
+import { parseProjection } from './projection';
+import { parseOtherXml } from './otherXml';
+import { parseRemoteSql } from './remoteSql';
+import { lineAtOffset } from './diagnostics';
+import type { ParseDiagnostic } from './types';
+
+/** V$SQL_PLAN.OTHER_TAG values of rows that cross a database link, as DBMS_XPLAN shows them in IN-OUT. */
+const REMOTE_OTHER_TAGS: Record<string, string | undefined> = {
+  SERIAL_FROM_REMOTE: 'R->S',
+  SERIAL_TO_REMOTE: 'S->R',
+  REMOTE: undefined,
+};
 
 /**
  * Parser for Oracle execution plans in JSON format.
@@ -38,98 +50,158 @@ export const jsonPlanParser: PlanParser = {
     let rawArray: Record<string, unknown>[];
     try {
       rawArray = JSON.parse(input.trim());
-    } catch {
-      return emptyPlan();
+    } catch (err) {
+      return { ...emptyPlan(), diagnostics: [jsonSyntaxDiagnostic(input, err)] };
     }
 
-    if (!Array.isArray(rawArray) || rawArray.length === 0) {
-      return emptyPlan();
+    if (!Array.isArray(rawArray)) {
+      return {
+        ...emptyPlan(),
+        diagnostics: [{
+          severity: 'error',
+          line: 1,
+          message: 'Expected a JSON array of plan rows, but the input is a single JSON value.',
+          fix: 'Wrap the rows in [ ... ], e.g. with JSON_ARRAYAGG(JSON_OBJECT(...) ORDER BY id).',
+        }],
+      };
     }
+    return buildPlanFromRows(rawArray);
+  },
+};
 
-    // Normalize keys to lowercase for flexible matching
-    const normalized = rawArray.map(normalizeKeys);
+/**
+ * Build a plan from V$SQL_PLAN-style rows keyed by column name. Keys are
+ * matched case-insensitively (snake_case or camelCase), so rows from any
+ * tabular export share the JSON parser's column aliases.
+ */
+export function buildPlanFromRows(rows: Record<string, unknown>[], source: PlanSource = 'json'): ParsedPlan {
+  if (rows.length === 0) {
+    return emptyPlan(source);
+  }
 
-    const allNodes: PlanNode[] = [];
-    const nodeMap = new Map<number, PlanNode>();
+  // Normalize keys to lowercase for flexible matching
+  const normalized = rows.map(normalizeKeys);
 
-    for (const row of normalized) {
-      const node = parseJsonOperation(row);
-      if (node) {
-        nodeMap.set(node.id, node);
-        allNodes.push(node);
-      }
-    }
+  const allNodes: PlanNode[] = [];
+  const nodeMap = new Map<number, PlanNode>();
 
-    if (allNodes.length === 0) {
-      return emptyPlan();
+  for (const row of normalized) {
+    const node = parseJsonOperation(row);
+    if (node) {
+      nodeMap.set(node.id, node);
+      allNodes.push(node);
     }
+  }
 
-    // Build parent-child relationships
-    for (const node of allNodes) {
-      if (node.parentId !== undefined) {
-        const parent = nodeMap.get(node.parentId);
-        if (parent) {
-          parent.children.push(node);
-        }
+  const skipped = normalized.length - allNodes.length;
+  const diagnostics: ParseDiagnostic[] = skipped > 0
+    ? [{
+      severity: allNodes.length === 0 ? 'error' : 'warning',
+      message: `${skipped} of ${normalized.length} rows have no ID or OPERATION and were skipped.`,
+      fix: 'Export the ID, PARENT_ID and OPERATION (or DEPTH) columns of V$SQL_PLAN for every row.',
+    }]
+    : [];
+
+  if (allNodes.length === 0) {
+    return { ...emptyPlan(source), diagnostics };
+  }
+
+  // Build parent-child relationships
+  for (const node of allNodes) {
+    if (node.parentId !== undefined) {
+      const parent = nodeMap.get(node.parentId);
+      if (parent) {
+        parent.children.push(node);
       }
     }
+  }
 
-    // If no parent_id was available, build tree from depth
-    const hasParentIds = allNodes.some(n => n.parentId !== undefined);
-    if (!hasParentIds) {
-      for (let i = 1; i < allNodes.length; i++) {
-        const current = allNodes[i];
-        for (let j = i - 1; j >= 0; j--) {
-          if (allNodes[j].depth < current.depth) {
-            allNodes[j].children.push(current);
-            current.parentId = allNodes[j].id;
-            break;
-          }
+  // If no parent_id was available, build tree from depth
+  const hasParentIds = allNodes.some(n => n.parentId !== undefined);
+  if (!hasParentIds) {
+    for (let i = 1; i < allNodes.length; i++) {
+      const current = allNodes[i];
+      for (let j = i - 1; j >= 0; j--) {
+        if (allNodes[j].depth < current.depth) {
+          allNodes[j].children.push(current);
+          current.parentId = allNodes[j].id;
+          break;
         }
       }
     }
+  }
 
-    const rootNode = nodeMap.get(0) || allNodes.find(n => n.parentId === undefined) || null;
-
-    const hasActualStats = allNodes.some(
-      n => n.actualRows !== undefined || n.actualTime !== undefined
-    );
-    const totalCost = allNodes.reduce((sum, n) => sum + (n.cost || 0), 0);
-    const maxRows = Math.max(...allNodes.map(n => n.actualRows || n.rows || 0), 0);
-    const maxActualRows = Math.max(...allNodes.map(n => n.actualRows || 0), 0);
-    const maxStarts = Math.max(...allNodes.map(n => n.starts || 0), 0);
-
-    // Total elapsed time: root node's actualTime or sum heuristic
-    const totalElapsedTime = rootNode?.actualTime || 0;
-
-    // Try to extract plan hash from the data (some scripts include it as metadata)
-    const planHashValue = getStr(normalized[0], 'plan_hash_value') ||
-      getStr(normalized[0], 'plan_hash') || undefined;
-    const sqlId = getStr(normalized[0], 'sql_id') || undefined;
-
-    return {
-      planHashValue,
-      sqlId,
-      rootNode,
-      allNodes,
-      totalCost,
-      maxRows,
-      maxActualRows: hasActualStats ? maxActualRows : undefined,
-      maxStarts: hasActualStats ? maxStarts : undefined,
-      source: 'json',
-      hasActualStats,
-      totalElapsedTime,
-    };
-  },
-};
+  const rootNode = nodeMap.get(0) || allNodes.find(n => n.parentId === undefined) || null;
+
+  const hasActualStats = allNodes.some(
+    n => n.actualRows !== undefined || n.actualTime !== undefined
+  );
+  const totalCost = allNodes.reduce((sum, n) => sum + (n.cost || 0), 0);
+  const maxRows = Math.max(...allNodes.map(n => n.actualRows || n.rows || 0), 0);
+  const maxActualRows = Math.max(...allNodes.map(n => n.actualRows || 0), 0);
+  const maxStarts = Math.max(...allNodes.map(n => n.starts || 0), 0);
+
+  // Total elapsed time: root node's actualTime or sum heuristic
+  const totalElapsedTime = rootNode?.actualTime || 0;
+
+  // Try to extract plan hash from the data (some scripts include it as metadata)
+  const planHashValue = getStr(normalized[0], 'plan_hash_value') ||
+    getStr(normalized[0], 'plan_hash') || undefined;
+  const sqlId = getStr(normalized[0], 'sql_id') || undefined;
+
+  // OTHER_XML is populated on a single row (usually id 1)
+  const otherXml = normalized.map(row => getStr(row, 'other_xml')).find(Boolean);
+  const { bindVariables, outlineHints, notes, inactiveIds } = otherXml ? parseOtherXml(otherXml) : {};
+  for (const id of inactiveIds ?? []) {
+    const node = nodeMap.get(id);
+    if (node) node.inactive = true;
+  }
+
+  return {
+    planHashValue,
+    sqlId,
+    rootNode,
+    allNodes,
+    totalCost,
+    maxRows,
+    maxActualRows: hasActualStats ? maxActualRows : undefined,
+    maxStarts: hasActualStats ? maxStarts : undefined,
+    source,
+    hasActualStats,
+    totalElapsedTime,
+    bindVariables,
+    notes,
+    outlineHints,
+    diagnostics: diagnostics.length > 0 ? diagnostics : undefined,
+  };
+}
+
+/**
+ * Point at the offending line of invalid JSON. Engines report either a
+ * "line N column M" or a character "position N".
+ */
+function jsonSyntaxDiagnostic(input: string, err: unknown): ParseDiagnostic {
+  const message = err instanceof Error ? err.message : String(err);
+  const lineMatch = message.match(/line (\d+)/i);
+  const positionMatch = message.match(/position (\d+)/i);
+  const line = lineMatch
+    ? parseInt(lineMatch[1], 10)
+    : positionMatch ? lineAtOffset(input.trim(), parseInt(positionMatch[1], 10)) : undefined;
+  return {
+    severity: 'error',
+    line,
+    message: `The JSON is not valid: ${message}`,
+    fix: 'The export was probably cut off (check the client\'s LOB / LONG display limit) or edited by hand.',
+  };
+}
 
-function emptyPlan(): ParsedPlan {
+function emptyPlan(source: PlanSource = 'json'): ParsedPlan {
   return {
     rootNode: null,
     allNodes: [],
     totalCost: 0,
     maxRows: 0,
-    source: 'json',
+    source,
     hasActualStats: false,
   };
 }
@@ -223,9 +295,19 @@ function parseJsonOperation(row: Record<string, unknown>): PlanNode | null {
   // Query block / partition info
   const queryBlock = getStr(row, 'qblock_name', 'query_block');
 
+  // Column projection (V$SQL_PLAN.PROJECTION)
+  const projectionText = getStr(row, 'projection');
+
   // Temp space from optimizer (estimated, different from actual tempUsed)
   const tempSpace = getInt(row, 'temp_space');
 
+  // Distributed queries: OBJECT_NODE names the database link (PX rows use it
+  // for ":Qnnnn" table queues instead) and OTHER holds the remote SQL.
+  const otherTag = getStr(row, 'other_tag')?.toUpperCase();
+  const isRemote = /^REMOTE\b/.test(fullOperation) || (otherTag !== undefined && otherTag in REMOTE_OTHER_TAGS);
+  const objectNode = getStr(row, 'object_node');
+  const remote = isRemote ? parseRemoteSql(getStr(row, 'other') ?? '') : undefined;
+
   const node: PlanNode = {
     id,
     depth,
@@ -247,9 +329,17 @@ function parseJsonOperation(row: Record<string, unknown>): PlanNode | null {
     logicalReads,
     accessPredicates,
     filterPredicates,
+    projection: projectionText ? parseProjection(projectionText) : undefined,
     children: [],
   };
 
+  if (isRemote) {
+    node.inOut = otherTag ? REMOTE_OTHER_TAGS[otherTag] : undefined;
+    node.inst = objectNode && !objectNode.startsWith(':') ? objectNode : undefined;
+    node.remoteSql = remote?.sql;
+    node.remoteDbLink = remote?.dbLink;
+  }
+
   // Parallel degree stored in starts if degree > 1 (informational)
   if (parallelDegree && parallelDegree > 1 && !node.starts) {
     node.starts = parallelDegree;
@@ -9,6 +9,8 @@ export interface PlanNotes {
   sqlProfile?: string;
   sqlPlanBaseline?: string;
   outline?: string;
+  dop?: number;
+  dopReason?: string;   // "table property", "hint", "automatic DOP", ...
 }
 
 /**
@@ -47,6 +49,11 @@ export function parseNoteSection(lines: string[]): PlanNotes | undefined {
     rawLines.push(match[1].trim());
   }
 
+  return notesFromLines(rawLines);
+}
+
+/** Derive note flags from note lines worded as in the DBMS_XPLAN "Note" section. */
+export function notesFromLines(rawLines: string[]): PlanNotes | undefined {
   if (rawLines.length === 0) {
     return undefined;
   }
@@ -92,6 +99,12 @@ export function parseNoteSection(lines: string[]): PlanNotes | undefined {
     if (outlineMatch) {
       notes.outline = outlineMatch[1];
     }
+
+    const dopMatch = line.match(/Degree of Parallelism is (\d+)(?: because of (.+?))?\.?$/i);
+    if (dopMatch) {
+      notes.dop = parseInt(dopMatch[1], 10);
+      notes.dopReason = dopMatch[2]?.trim();
+    }
   }
 
   return notes;
@@ -0,0 +1,222 @@
+import type { BindVariable } from './types';
+import type { OutlineHint } from './hintSections';
+import { toOutlineHint } from './hintSections';
+import { notesFromLines, type PlanNotes } from './noteSection';
+
+/** What V$SQL_PLAN.OTHER_XML adds to a plan. */
+export interface OtherXmlInfo {
+  bindVariables?: BindVariable[];
+  outlineHints?: OutlineHint[];
+  notes?: PlanNotes;
+  /** Plan line ids skipped by an adaptive plan (display_map rows with skp="1"). */
+  inactiveIds?: number[];
+}
+
+/** Oracle internal datatype codes (`dty`) used in <peeked_binds>. */
+const DATATYPE_NAMES: Record<number, string> = {
+  1: 'VARCHAR2',
+  2: 'NUMBER',
+  12: 'DATE',
+  23: 'RAW',
+  96: 'CHAR',
+  180: 'TIMESTAMP',
+};
+
+/** Character set ids (`csi`) that are not single-byte or UTF-8. */
+const UTF16_CHARSET = 2000;  // AL16UTF16, used by NVARCHAR2 / NCHAR
+
+function unwrapCdata(text: string): string {
+  return text.replace(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/, '$1').trim();
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, '\'')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+function attribute(attributes: string, name: string): string | undefined {
+  const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*"([^"]*)"`));
+  return match ? decodeEntities(match[1]) : undefined;
+}
+
+function hexToBytes(hex: string): Uint8Array | null {
+  if (!/^(?:[0-9a-f]{2})+$/i.test(hex)) return null;
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  return bytes;
+}
+
+/**
+ * Decode Oracle's internal NUMBER format: an exponent byte (base 100, biased
+ * by 64 and sign-flipped for negatives) followed by base-100 digits stored
+ * +1 (positive) or 101 - d (negative, with a trailing 102 terminator).
+ */
+export function decodeOracleNumber(bytes: Uint8Array): string | null {
+  if (bytes.length === 0) return null;
+  if (bytes.length === 1 && bytes[0] === 0x80) return '0';
+
+  const negative = (bytes[0] & 0x80) === 0;
+  const exponent = (negative ? (~bytes[0] & 0x7f) : (bytes[0] & 0x7f)) - 65;
+  let mantissa = Array.from(bytes.slice(1));
+  if (negative && mantissa[mantissa.length - 1] === 102) mantissa = mantissa.slice(0, -1);
+  const digits = mantissa.map((b) => (negative ? 101 - b : b - 1));
+  if (digits.some((d) => d < 0 || d > 99)) return null;
+
+  const pairs = digits.map((d) => String(d).padStart(2, '0')).join('');
+  const integerPairs = exponent + 1;
+  let integerPart: string;
+  let fractionPart: string;
+  if (integerPairs <= 0) {
+    integerPart = '0';
+    fractionPart = '00'.repeat(-integerPairs) + pairs;
+  } else if (integerPairs * 2 >= pairs.length) {
+    integerPart = pairs + '00'.repeat(integerPairs - pairs.length / 2);
+    fractionPart = '';
+  } else {
+    integerPart = pairs.slice(0, integerPairs * 2);
+    fractionPart = pairs.slice(integerPairs * 2);
+  }
+
+  integerPart = integerPart.replace(/^0+(?=\d)/, '');
+  fractionPart = fractionPart.replace(/0+$/, '');
+  return `${negative ? '-' : ''}${integerPart}${fractionPart ? `.${fractionPart}` : ''}`;
+}
+
+/** Decode the 7-byte DATE format (century and year +100, time fields +1), plus TIMESTAMP nanoseconds. */
+export function decodeOracleDate(bytes: Uint8Array): string | null {
+  if (bytes.length < 7) return null;
+  const year = (bytes[0] - 100) * 100 + (bytes[1] - 100);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  let text = `${year}-${pad(bytes[2])}-${pad(bytes[3])} ${pad(bytes[4] - 1)}:${pad(bytes[5] - 1)}:${pad(bytes[6] - 1)}`;
+  if (bytes.length >= 11) {
+    const nanos = ((bytes[7] << 24) | (bytes[8] << 16) | (bytes[9] << 8) | bytes[10]) >>> 0;
+    if (nanos > 0) text += `.${String(nanos).padStart(9, '0').replace(/0+$/, '')}`;
+  }
+  return text;
+}
+
+function decodeBindValue(hex: string, datatype: number, charset?: number): string | null {
+  const bytes = hexToBytes(hex);
+  if (!bytes) return hex;
+
+  switch (datatype) {
+    case 1:
+    case 96:
+      return new TextDecoder(charset === UTF16_CHARSET ? 'utf-16be' : 'utf-8').decode(bytes);
+    case 2:
+      return decodeOracleNumber(bytes) ?? hex;
+    case 12:
+    case 180:
+      return decodeOracleDate(bytes) ?? hex;
+    default:
+      return hex;
+  }
+}
+
+function bindTypeName(datatype: number, maxLength?: number): string {
+  const name = DATATYPE_NAMES[datatype] ?? `TYPE ${datatype}`;
+  return (datatype === 1 || datatype === 96) && maxLength ? `${name}(${maxLength})` : name;
+}
+
+function parsePeekedBinds(xml: string): BindVariable[] | undefined {
+  const block = xml.match(/<peeked_binds>([\s\S]*?)<\/peeked_binds>/i);
+  if (!block) return undefined;
+
+  const binds: BindVariable[] = [];
+  for (const match of block[1].matchAll(/<bind\b([^>]*?)(?:\/>|>([\s\S]*?)<\/bind>)/gi)) {
+    const [, attributes, body] = match;
+    const datatype = parseInt(attribute(attributes, 'dty') ?? '', 10);
+    const position = parseInt(attribute(attributes, 'pos') ?? '', 10);
+    const maxLength = parseInt(attribute(attributes, 'mxl') ?? '', 10);
+    const charset = parseInt(attribute(attributes, 'csi') ?? '', 10);
+    const raw = body?.trim() ?? '';
+    // A bind peeked as NULL has no value; "nul" marks it on some versions.
+    const isNull = !raw || attribute(attributes, 'nul') === 'y';
+
+    binds.push({
+      name: attribute(attributes, 'nam') ?? `:${isNaN(position) ? binds.length + 1 : position}`,
+      type: isNaN(datatype) ? undefined : bindTypeName(datatype, isNaN(maxLength) ? undefined : maxLength),
+      value: isNull ? null : decodeBindValue(raw, datatype, isNaN(charset) ? undefined : charset),
+      position: isNaN(position) ? undefined : position,
+    });
+  }
+
+  binds.sort((a, b) => (a.position ?? Infinity) - (b.position ?? Infinity));
+  return binds.length > 0 ? binds : undefined;
+}
+
+function parseOutline(xml: string): OutlineHint[] | undefined {
+  const block = xml.match(/<outline_data>([\s\S]*?)<\/outline_data>/i);
+  if (!block) return undefined;
+  const hints = [...block[1].matchAll(/<hint>([\s\S]*?)<\/hint>/gi)]
+    .map((m) => decodeEntities(unwrapCdata(m[1])))
+    .filter(Boolean)
+    .map(toOutlineHint);
+  return hints.length > 0 ? hints : undefined;
+}
+
+/**
+ * Turn `<info type="..." note="y">` entries into the lines DBMS_XPLAN prints
+ * in its "Note" section, so they share the Note section's flag parsing.
+ */
+function parseInfoNotes(xml: string): PlanNotes | undefined {
+  const info = new Map<string, { value: string; attributes: string }>();
+  for (const match of xml.matchAll(/<info\b([^>]*)>([\s\S]*?)<\/info>/gi)) {
+    const type = attribute(match[1], 'type');
+    if (type && !info.has(type)) {
+      info.set(type, { value: decodeEntities(unwrapCdata(match[2])).replace(/^"(.*)"$/, '$1'), attributes: match[1] });
+    }
+  }
+
+  const lines: string[] = [];
+  const dynamicSampling = info.get('dynamic_sampling')?.value;
+  if (dynamicSampling) lines.push(`dynamic statistics used: dynamic sampling (level=${dynamicSampling})`);
+  if (info.get('adaptive_plan')?.value === 'yes') lines.push('this is an adaptive plan');
+  if (info.get('cardinality_feedback')?.value === 'yes') lines.push('cardinality feedback used for this statement');
+  if (info.get('performance_feedback')?.value === 'yes') lines.push('performance feedback used for this statement');
+  const profile = info.get('sql_profile')?.value;
+  if (profile) lines.push(`SQL profile "${profile}" used for this statement`);
+  const baseline = info.get('baseline')?.value ?? info.get('sql_plan_baseline')?.value;
+  if (baseline) lines.push(`SQL plan baseline "${baseline}" used for this statement`);
+  const patch = info.get('sql_patch')?.value;
+  if (patch) lines.push(`SQL patch "${patch}" used for this statement`);
+  const outline = info.get('outline')?.value;
+  if (outline) lines.push(`outline "${outline}" used for this statement`);
+  if (/<spd>/i.test(xml)) lines.push('SQL plan directives used for this statement');
+
+  const dop = info.get('dop');
+  if (dop?.value) {
+    const reason = info.get('dop_reason')?.value ?? attribute(dop.attributes, 'reason');
+    lines.push(`Degree of Parallelism is ${dop.value}${reason ? ` because of ${reason}` : ''}`);
+  }
+
+  return notesFromLines(lines);
+}
+
+function parseSkippedRows(xml: string): number[] | undefined {
+  const block = xml.match(/<display_map>([\s\S]*?)<\/display_map>/i);
+  if (!block) return undefined;
+  const ids = [...block[1].matchAll(/<row\b([^>]*)\/?>/gi)]
+    .filter((m) => attribute(m[1], 'skp') === '1')
+    .map((m) => parseInt(attribute(m[1], 'op') ?? '', 10))
+    .filter((id) => !isNaN(id));
+  return ids.length > 0 ? ids : undefined;
+}
+
+/**
+ * Decode V$SQL_PLAN.OTHER_XML: peeked bind values, outline hints, the
+ * `<info>` entries behind the DBMS_XPLAN "Note" section, and the rows an
+ * adaptive plan switched off.
+ */
+export function parseOtherXml(xml: string): OtherXmlInfo {
+  return {
+    bindVariables: parsePeekedBinds(xml),
+    outlineHints: parseOutline(xml),
+    notes: parseInfoNotes(xml),
+    inactiveIds: parseSkippedRows(xml),
+  };
+}
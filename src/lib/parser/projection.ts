@@ -0,0 +1,137 @@
+import type { PlanNode } from '../types';
+
+/** One column a plan line passes up the tree, e.g. `"E"."LAST_NAME"[VARCHAR2,25]`. */
+export interface ProjectedColumn {
+  expression: string;
+  dataType?: string;
+  /** Maximum byte width Oracle reserves for the column. */
+  width?: number;
+}
+
+/** Parsed "Column Projection Information" entry (or V$SQL_PLAN.PROJECTION). */
+export interface ColumnProjection {
+  raw: string;
+  columns: ProjectedColumn[];
+  /** `#keys=N`: leading columns used as sort / hash / group keys. */
+  keys?: number;
+  /** `rowset=N`: rows per batch for rowset-based (vectorized) row sources. */
+  rowset?: number;
+  /** Sum of the column widths; undefined when no width is known. */
+  rowWidth?: number;
+}
+
+/** Split on commas that are not inside parentheses, brackets or quotes. */
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+      continue;
+    }
+    if (ch === '"' || ch === '\'') quote = ch;
+    else if (ch === '(' || ch === '[') depth++;
+    else if (ch === ')' || ch === ']') depth--;
+    else if (ch === ',' && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.map((p) => p.trim()).filter(Boolean);
+}
+
+function parseColumn(item: string): ProjectedColumn {
+  const match = item.match(/^(.*)\[([^[\]]*)\]$/);
+  if (!match) return { expression: item };
+
+  const expression = match[1].trim();
+  const spec = match[2].split(',').map((s) => s.trim());
+  if (spec.length >= 2) {
+    const width = parseInt(spec[spec.length - 1], 10);
+    return { expression, dataType: spec[0] || undefined, width: isNaN(width) ? undefined : width };
+  }
+  const width = parseInt(spec[0], 10);
+  return isNaN(width) ? { expression, dataType: spec[0] || undefined } : { expression, width };
+}
+
+/**
+ * Parse one projection list as printed by DBMS_XPLAN (`+PROJECTION`) or stored
+ * in V$SQL_PLAN.PROJECTION, including the optional `(#keys=1; rowset=256)` prefix.
+ */
+export function parseProjection(text: string): ColumnProjection | undefined {
+  const raw = text.trim();
+  if (!raw) return undefined;
+
+  let rest = raw;
+  let keys: number | undefined;
+  let rowset: number | undefined;
+
+  const prefix = rest.match(/^\(([^()]*=[^()]*)\)\s*/);
+  if (prefix) {
+    const keysMatch = prefix[1].match(/#keys\s*=\s*(\d+)/i);
+    const rowsetMatch = prefix[1].match(/rowset\s*=\s*(\d+)/i);
+    if (keysMatch) keys = parseInt(keysMatch[1], 10);
+    if (rowsetMatch) rowset = parseInt(rowsetMatch[1], 10);
+    rest = rest.slice(prefix[0].length);
+  }
+
+  const columns = splitTopLevel(rest).map(parseColumn);
+  const widths = columns.map((c) => c.width).filter((w): w is number => w !== undefined);
+  const rowWidth = widths.length > 0 ? widths.reduce((sum, w) => sum + w, 0) : undefined;
+
+  return { raw, columns, keys, rowset, rowWidth };
+}
+
+/**
+ * Parse the DBMS_XPLAN "Column Projection Information" section into a map of
+ * operation id -> projection. Long lists are wrapped onto indented
+ * continuation lines, which are rejoined before parsing.
+ */
+export function parseProjectionSection(lines: string[]): Map<number, ColumnProjection> {
+  const result = new Map<number, ColumnProjection>();
+  const headerIndex = lines.findIndex((line) => /^\s*Column Projection Information/i.test(line));
+  if (headerIndex === -1) return result;
+
+  const texts = new Map<number, string>();
+  let currentId: number | null = null;
+
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    const text = lines[i].trim();
+    if (!text || /^-+$/.test(text)) continue;
+
+    const entry = text.match(/^(\d+)\s+-\s+(.*)$/);
+    if (entry) {
+      currentId = parseInt(entry[1], 10);
+      texts.set(currentId, entry[2]);
+      continue;
+    }
+
+    // A section header (Note, Hint Report, ...) ends the block; projection
+    // text always carries a [type,width] suffix or starts mid-expression.
+    if (/^[A-Z][A-Za-z ]*(\(.*\))?:?$/.test(text) && !text.includes('[')) break;
+
+    if (currentId !== null) {
+      const previous = texts.get(currentId) ?? '';
+      texts.set(currentId, previous.endsWith(',') ? `${previous} ${text}` : `${previous}${text}`);
+    }
+  }
+
+  for (const [id, text] of texts) {
+    const projection = parseProjection(text);
+    if (projection) result.set(id, projection);
+  }
+  return result;
+}
+
+/** Attach parsed projections to their plan lines. */
+export function applyProjections(nodes: PlanNode[], projections: Map<number, ColumnProjection>): void {
+  if (projections.size === 0) return;
+  for (const node of nodes) {
+    const projection = projections.get(node.id);
+    if (projection) node.projection = projection;
+  }
+}
@@ -0,0 +1,80 @@
+import type { PlanNode } from '../types';
+
+/** Parsed "Remote SQL Information" entry (or V$SQL_PLAN.OTHER on a REMOTE row). */
+export interface RemoteSqlInfo {
+  sql: string;
+  /** Database link named by the trailing `(accessing 'LINK' )` clause. */
+  dbLink?: string;
+}
+
+/** IN-OUT values of rows that move data across a database link. */
+const REMOTE_IN_OUT = new Set(['R->S', 'S->R']);
+
+/** True when the row runs at, or ships rows to or from, a remote site. */
+export function isRemoteNode(node: PlanNode): boolean {
+  return Boolean(node.remoteSql || node.inst)
+    || (node.inOut !== undefined && REMOTE_IN_OUT.has(node.inOut))
+    || /^REMOTE\b/i.test(node.operation);
+}
+
+/** True when the IN-OUT value describes a database link rather than parallel execution. */
+export function isRemoteInOut(inOut: string | undefined): boolean {
+  return inOut !== undefined && REMOTE_IN_OUT.has(inOut);
+}
+
+/** Split the `(accessing 'LINK' )` suffix DBMS_XPLAN appends to remote SQL. */
+export function parseRemoteSql(text: string): RemoteSqlInfo | undefined {
+  const raw = text.trim();
+  if (!raw) return undefined;
+  const accessing = raw.match(/\s*\(accessing\s+'([^']+)'\s*\)\s*$/i);
+  if (!accessing) return { sql: raw };
+  return { sql: raw.slice(0, accessing.index).trim(), dbLink: accessing[1] };
+}
+
+/**
+ * Parse the DBMS_XPLAN "Remote SQL Information" section into a map of
+ * operation id -> SQL sent over the database link. Statements wrap onto
+ * indented continuation lines, which are rejoined with a space.
+ */
+export function parseRemoteSqlSection(lines: string[]): Map<number, RemoteSqlInfo> {
+  const result = new Map<number, RemoteSqlInfo>();
+  const headerIndex = lines.findIndex((line) => /^\s*Remote SQL Information/i.test(line));
+  if (headerIndex === -1) return result;
+
+  const texts = new Map<number, string>();
+  let currentId: number | null = null;
+
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    const text = lines[i].trim();
+    if (!text || /^-+$/.test(text)) continue;
+
+    const entry = text.match(/^(\d+)\s+-\s+(.*)$/);
+    if (entry) {
+      currentId = parseInt(entry[1], 10);
+      texts.set(currentId, entry[2]);
+      continue;
+    }
+
+    // The next section header (Note, Column Projection Information, ...) ends the block.
+    if (/^[A-Z][A-Za-z ]*(\(.*\))?:?$/.test(text) && lines[i + 1]?.trim().startsWith('---')) break;
+
+    if (currentId !== null) texts.set(currentId, `${texts.get(currentId)} ${text}`);
+  }
+
+  for (const [id, text] of texts) {
+    const info = parseRemoteSql(text);
+    if (info) result.set(id, info);
+  }
+  return result;
+}
+
+/** Attach remote SQL to its plan lines. */
+export function applyRemoteSql(nodes: PlanNode[], remoteSql: Map<number, RemoteSqlInfo>): void {
+  if (remoteSql.size === 0) return;
+  for (const node of nodes) {
+    const info = remoteSql.get(node.id);
+    if (!info) continue;
+    node.remoteSql = info.sql;
+    node.remoteDbLink = info.dbLink;
+  }
+}
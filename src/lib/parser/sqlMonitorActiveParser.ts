@@ -0,0 +1,141 @@
+import type { ParsedPlan } from '../types';
+import type { PlanParser } from './types';
+import { sqlMonitorXmlParser } from './sqlMonitorParser';
+
+/**
+ * SQL Monitor ACTIVE reports (`type => 'ACTIVE'`, or an Enterprise Manager
+ * "Save" download) are HTML pages that carry the XML report in a
+ * `<script id="fxtmodel" type="text/xml">` block. From 11.2.0.2 the report body
+ * is base64-encoded and zlib-compressed (`<report encode="base64" compress="zlib">`);
+ * older versions embed the XML as-is.
+ *
+ * Decompression goes through DecompressionStream, which is async, so the
+ * import pipeline decodes ACTIVE reports with `extractActiveReportXml` before
+ * parsing; the synchronous parser only handles uncompressed reports.
+ */
+
+const FXTMODEL_MARKER = /<script[^>]*\bid\s*=\s*["']fxtmodel["']|<!--\s*FXTMODEL\s*-->/i;
+const ENCODED_REPORT = /<report\b[^>]*\bencode\s*=\s*["']base64["']/i;
+
+function getAttribute(attributes: string, name: string): string | undefined {
+  const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`, 'i'));
+  return match?.[1].toLowerCase();
+}
+
+function decodeBase64(payload: string) {
+  let binary: string;
+  try {
+    binary = atob(payload);
+  } catch {
+    throw new Error('SQL Monitor active report: the embedded report is not valid base64.');
+  }
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/** The contents of the report model `<script>` block, or the whole input when there is none. */
+function extractModel(input: string): string {
+  const script =
+    input.match(/<script[^>]*\bid\s*=\s*["']fxtmodel["'][^>]*>([\s\S]*?)<\/script>/i) ??
+    input.match(/<script[^>]*\btype\s*=\s*["']text\/xml["'][^>]*>([\s\S]*?)<\/script>/i);
+  return (script?.[1] ?? input).replace(/<!--\s*FXTMODEL\s*-->/gi, '').trim();
+}
+
+/** The embedded report: its XML, or the still-compressed payload and the outer `<report>` attributes. */
+type EmbeddedReport =
+  | { xml: string }
+  | { compressed: Uint8Array<ArrayBuffer>; attributes: string };
+
+function findEmbeddedReport(input: string): EmbeddedReport | null {
+  const model = extractModel(input);
+  const report = model.match(/<report\b([^>]*)>([\s\S]*)<\/report>/i);
+  if (!report) return null;
+
+  const [, attributes, body] = report;
+  const encoding = getAttribute(attributes, 'encode');
+  if (!encoding || encoding === 'xml') return { xml: model };
+  if (encoding !== 'base64') {
+    throw new Error(`SQL Monitor active report: unsupported report encoding "${encoding}".`);
+  }
+
+  const payload = body
+    .replace(/<report_id>[\s\S]*?<\/report_id>/i, '')
+    .replace(/<!\[CDATA\[|\]\]>/g, '')
+    .replace(/\s+/g, '');
+  const bytes = decodeBase64(payload);
+
+  const compression = getAttribute(attributes, 'compress');
+  if (compression === 'zlib') return { compressed: bytes, attributes };
+  if (compression && compression !== 'none') {
+    throw new Error(`SQL Monitor active report: unsupported compression "${compression}".`);
+  }
+  return { xml: wrapDecodedReport(bytes, attributes) };
+}
+
+/**
+ * Turn the decoded payload into a standalone report. When the payload is the
+ * report body only, re-wrap it so the outer attributes (db_version,
+ * cpu_cores, ...) stay available to the XML parser.
+ */
+function wrapDecodedReport(bytes: Uint8Array, attributes: string): string {
+  const decoded = new TextDecoder('utf-8').decode(bytes).replace(/^\s*<\?xml[^>]*\?>/, '').trim();
+  if (/^<report[\s>]/i.test(decoded)) return decoded;
+  const outerAttributes = attributes.replace(/\s+(encode|compress)\s*=\s*["'][^"']*["']/gi, '');
+  return `<report${outerAttributes}>${decoded}</report>`;
+}
+
+/** Inflate a zlib stream; some report writers omit the zlib header, so raw deflate is accepted too. */
+async function inflate(bytes: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+  const zlibHeader = bytes.length >= 2 && (bytes[0] & 0x0f) === 8 && ((bytes[0] << 8) | bytes[1]) % 31 === 0;
+  const stream = new Response(bytes).body!.pipeThrough(new DecompressionStream(zlibHeader ? 'deflate' : 'deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Pull the SQL Monitor XML report out of an ACTIVE (HTML) report, decoding and
+ * decompressing it when needed. Resolves to null when no report is embedded;
+ * rejects when the embedded report cannot be decoded.
+ */
+export async function extractActiveReportXml(input: string): Promise<string | null> {
+  const report = findEmbeddedReport(input);
+  if (!report || 'xml' in report) return report?.xml ?? null;
+  let bytes: Uint8Array;
+  try {
+    bytes = await inflate(report.compressed);
+  } catch (err) {
+    const detail = err instanceof Error ? err.message : String(err);
+    throw new Error(`SQL Monitor active report: the embedded report could not be decompressed (${detail}).`);
+  }
+  return wrapDecodedReport(bytes, report.attributes);
+}
+
+export const sqlMonitorActiveParser: PlanParser = {
+  canParse(input: string): boolean {
+    return FXTMODEL_MARKER.test(input) || (/<html[\s>]/i.test(input) && ENCODED_REPORT.test(input));
+  },
+
+  parse(input: string): ParsedPlan {
+    const report = findEmbeddedReport(input);
+    if (!report || !('xml' in report)) {
+      return {
+        rootNode: null,
+        allNodes: [],
+        totalCost: 0,
+        maxRows: 0,
+        source: 'sql_monitor_xml',
+        hasActualStats: false,
+        diagnostics: [report ? {
+          severity: 'error',
+          message: 'The embedded SQL Monitor report is compressed and has to be decoded when the report is imported.',
+          fix: 'Paste the report again, or open the .html file, so it is decompressed on the way in.',
+        } : {
+          severity: 'error',
+          message: 'This HTML page does not contain an embedded SQL Monitor report.',
+          fix: 'Open the original .html file from REPORT_SQL_MONITOR(type => \'ACTIVE\') rather than a page saved from the browser after it rendered.',
+        }],
+      };
+    }
+    return sqlMonitorXmlParser.parse(report.xml);
+  },
+};
@@ -0,0 +1,200 @@
+import { readReportTable, sqlMonitorTextParser } from './sqlMonitorParser';
+
+/**
+ * One monitored execution in a document that covers several: a spool of
+ * REPORT_SQL_MONITOR reports, or a REPORT_SQL_MONITOR_LIST summary.
+ */
+export interface MonitoredExecution {
+  sqlId?: string;
+  sqlExecId?: string;
+  sqlExecStart?: string;
+  planHashValue?: string;
+  status?: string;
+  /** Wall clock seconds. */
+  duration?: number;
+  user?: string;
+  module?: string;
+  sqlText?: string;
+  /**
+   * The execution's own report, parseable on its own. List reports carry no
+   * plan, so their executions have none.
+   */
+  report?: string;
+}
+
+const TEXT_REPORT_TITLE = /^\s*SQL Monitoring Report\s*$/i;
+const TEXT_LIST_TITLE = /^\s*SQL Monitoring List\s*$/i;
+
+/**
+ * Executions in a multi-report SQL Monitor document, in document order.
+ * Returns an empty list for a document with a single report (or none), which
+ * parses as it is. Text and XML are read without DOMParser so this can run
+ * in the pipeline worker.
+ */
+export function extractMonitoredExecutions(input: string): MonitoredExecution[] {
+  const executions = /<sql_monitor/i.test(input) ? extractXmlExecutions(input) : extractTextExecutions(input);
+  const listOnly = executions.some((execution) => execution.report === undefined);
+  return executions.length > 1 || listOnly ? executions : [];
+}
+
+/** Slot label for a loaded execution: `sql_id #exec_id`. */
+export function executionLabel(execution: MonitoredExecution): string | undefined {
+  if (!execution.sqlId) return undefined;
+  return execution.sqlExecId ? `${execution.sqlId} #${execution.sqlExecId}` : execution.sqlId;
+}
+
+/** The statement that fetches one execution's full report, for list entries without a plan. */
+export function executionReportQuery(execution: MonitoredExecution): string {
+  const execId = execution.sqlExecId ? `,\n  sql_exec_id  => ${execution.sqlExecId}` : '';
+  return `SELECT DBMS_SQL_MONITOR.REPORT_SQL_MONITOR(\n  sql_id       => '${execution.sqlId ?? ''}'${execId},\n  type         => 'TEXT',\n  report_level => 'ALL'\n) FROM dual;`;
+}
+
+/** "3s", "1.5m", "2h" (list report) or plain seconds, as seconds. */
+function parseListDuration(value: string | undefined): number | undefined {
+  const match = value?.trim().match(/^([\d.]+)\s*([smhd])?$/i);
+  if (!match) return undefined;
+  const factor = { s: 1, m: 60, h: 3600, d: 86400 }[(match[2] ?? 's').toLowerCase() as 's' | 'm' | 'h' | 'd'];
+  return parseFloat(match[1]) * factor;
+}
+
+function extractTextExecutions(input: string): MonitoredExecution[] {
+  const lines = input.split('\n');
+
+  const listIndex = lines.findIndex((line) => TEXT_LIST_TITLE.test(line));
+  if (listIndex !== -1) return parseTextList(lines, listIndex);
+
+  const starts = lines.flatMap((line, i) => (TEXT_REPORT_TITLE.test(line) ? [i] : []));
+  if (starts.length < 2) return [];
+  return starts.map((start, i) => {
+    const report = lines.slice(start, starts[i + 1] ?? lines.length).join('\n').trim();
+    const plan = sqlMonitorTextParser.parse(report);
+    const meta = plan.monitorMetadata;
+    return {
+      sqlId: plan.sqlId,
+      sqlExecId: meta?.sqlExecId,
+      sqlExecStart: meta?.sqlExecStart,
+      planHashValue: plan.planHashValue,
+      status: meta?.status,
+      duration: meta?.duration,
+      user: meta?.user,
+      module: meta?.module,
+      sqlText: plan.sqlText,
+      report,
+    };
+  });
+}
+
+/** The REPORT_SQL_MONITOR_LIST text table; long SQL text wraps onto rows with no status. */
+function parseTextList(lines: string[], titleIndex: number): MonitoredExecution[] {
+  // Skip the title's own "=====" underline: the table starts at the border above its header.
+  const headerIndex = lines.findIndex((line, i) => i > titleIndex && line.trim().startsWith('|'));
+  const table = headerIndex === -1 ? undefined : readReportTable(lines, headerIndex - 2);
+  if (!table) return [];
+
+  const column = (pattern: RegExp) => table.headers.findIndex((h) => pattern.test(h));
+  const cols = {
+    status: column(/^status$/),
+    duration: column(/^duration$/),
+    sqlId: column(/^sql id$/),
+    sqlExecId: column(/^sql exec id$/),
+    start: column(/^start$/),
+    user: column(/^user$/),
+    module: column(/^module/),
+    sqlText: column(/^sql text$/),
+  };
+  const cell = (cells: string[], index: number) => (index >= 0 ? cells[index]?.trim() || undefined : undefined);
+
+  const executions: MonitoredExecution[] = [];
+  for (const cells of table.rows) {
+    const sqlId = cell(cells, cols.sqlId);
+    const text = cell(cells, cols.sqlText);
+    if (!sqlId) {
+      const previous = executions[executions.length - 1];
+      if (previous && text) previous.sqlText = `${previous.sqlText ?? ''} ${text}`.trim();
+      continue;
+    }
+    const moduleAction = cell(cells, cols.module);
+    executions.push({
+      sqlId,
+      sqlExecId: cell(cells, cols.sqlExecId),
+      sqlExecStart: cell(cells, cols.start),
+      status: cell(cells, cols.status),
+      duration: parseListDuration(cell(cells, cols.duration)),
+      user: cell(cells, cols.user),
+      module: moduleAction?.replace(/\/[^/]*$/, '').trim() || undefined,
+      sqlText: text,
+    });
+  }
+  return executions;
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, '\'')
+    .replace(/&amp;/g, '&');
+}
+
+function xmlAttribute(openTag: string | undefined, name: string): string | undefined {
+  const match = openTag?.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+function xmlChild(xml: string | undefined, tag: string): string | undefined {
+  const match = xml?.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`));
+  return match ? decodeXml(match[1].trim()) || undefined : undefined;
+}
+
+function xmlStat(xml: string | undefined, name: string): number | undefined {
+  const match = xml?.match(new RegExp(`<stat\\s+name="${name}"\\s*>([^<]*)</stat>`));
+  const value = match ? parseFloat(match[1]) : NaN;
+  return isNaN(value) ? undefined : value;
+}
+
+function extractXmlExecutions(input: string): MonitoredExecution[] {
+  const listMatch = input.match(/<sql_monitor_list_report\b[\s\S]*?<\/sql_monitor_list_report>/);
+  if (listMatch) {
+    return [...listMatch[0].matchAll(/<sql(\s[^>]*)>([\s\S]*?)<\/sql>/g)].map(([, attributes, body]) => {
+      const openTag = `<sql${attributes}>`;
+      const elapsed = xmlStat(body, 'elapsed_time');
+      return {
+        sqlId: xmlAttribute(openTag, 'sql_id'),
+        sqlExecId: xmlAttribute(openTag, 'sql_exec_id'),
+        sqlExecStart: xmlAttribute(openTag, 'sql_exec_start'),
+        planHashValue: xmlChild(body, 'plan_hash') ?? xmlAttribute(openTag, 'sql_plan_hash'),
+        status: xmlChild(body, 'status'),
+        duration: xmlStat(body, 'duration') ?? (elapsed !== undefined ? elapsed / 1_000_000 : undefined),
+        user: xmlChild(body, 'user'),
+        module: xmlChild(body, 'module'),
+        sqlText: xmlChild(body, 'sql_text'),
+      };
+    });
+  }
+
+  // A spool of several REPORT_SQL_MONITOR(type => 'XML') documents.
+  const reports = [...input.matchAll(/<report[\s>][\s\S]*?<\/report>/g)]
+    .map(([report]) => report)
+    .filter((report) => /<sql_monitor_report/.test(report));
+  if (reports.length < 2) return [];
+  return reports.map((report) => {
+    const targetTag = report.match(/<target\b[^>]*>/)?.[0];
+    const target = report.match(/<target\b[\s\S]*?<\/target>/)?.[0];
+    const parameters = report.match(/<report_parameters>[\s\S]*?<\/report_parameters>/)?.[0];
+    const duration = parseFloat(xmlChild(target, 'duration') ?? '');
+    return {
+      sqlId: xmlAttribute(targetTag, 'sql_id') ?? xmlChild(parameters, 'sql_id'),
+      sqlExecId: xmlAttribute(targetTag, 'sql_exec_id') ?? xmlChild(parameters, 'sql_exec_id'),
+      sqlExecStart: xmlAttribute(targetTag, 'sql_exec_start') ?? xmlChild(parameters, 'sql_exec_start'),
+      planHashValue: xmlAttribute(targetTag, 'sql_plan_hash'),
+      status: xmlChild(target, 'status'),
+      duration: isNaN(duration) ? undefined : duration,
+      user: xmlChild(target, 'user'),
+      module: xmlChild(target, 'module'),
+      sqlText: xmlChild(target, 'sql_fulltext'),
+      report,
+    };
+  });
+}
@@ -1,6 +1,11 @@
-import type { PlanNode, ParsedPlan, SqlMonitorMetadata, ActivityTimeline, ActivitySample } from '../types';
+import type { PlanNode, ParsedPlan, SqlMonitorMetadata, ActivityTimeline, ActivitySample, PxServerStats } from '../types';
 import type { PlanParser, BindVariable } from './types';
 import { parseNoteSection } from './noteSection';
+import { parseProjectionSection, applyProjections } from './projection';
+import { parseOutlineData, parseHintReport } from './hintSections';
+import { wrappedRowDiagnostics, truncatedHeaderDiagnostic, missingIdDiagnostics } from './diagnostics';
+import type { ParseDiagnostic } from './types';
+import { parseXml, XmlSyntaxError, type XmlDocument, type XmlElement } from './xmlReader';
 
 /**
  * Parser for Oracle SQL Monitor text report output.
@@ -23,20 +28,24 @@ export const sqlMonitorTextParser: PlanParser = {
     // Extract SQL ID if present
     const sqlId = extractSqlId(lines);
     const planHashValue = extractPlanHashValue(lines);
+    const sqlText = extractMonitorSqlText(lines);
 
     // Parse the plan table with actual statistics
     const tableData = parseSqlMonitorTable(lines);
+    const diagnostics = diagnoseMonitorTable(lines, tableData);
 
     if (tableData.length === 0) {
       return {
         planHashValue,
         sqlId,
+        sqlText,
         rootNode: null,
         allNodes: [],
         totalCost: 0,
         maxRows: 0,
         source: 'sql_monitor_text',
         hasActualStats: false,
+        diagnostics,
       };
     }
 
@@ -45,6 +54,7 @@ export const sqlMonitorTextParser: PlanParser = {
 
     // Build tree structure
     const { rootNode, allNodes } = buildTree(tableData, predicates);
+    applyProjections(allNodes, parseProjectionSection(lines));
 
     // Calculate totals
     const totalCost = allNodes.reduce((sum, node) => sum + (node.cost || 0), 0);
@@ -53,15 +63,41 @@ export const sqlMonitorTextParser: PlanParser = {
     const maxStarts = Math.max(...allNodes.map(node => node.starts || 0), 0);
     const hasActualStats = allNodes.some(node => node.actualRows !== undefined);
 
-    // A-Time is cumulative: root node's actualTime is the total elapsed time
-    const totalElapsedTime = rootNode?.actualTime || 0;
+    // "Global Stats" has the statement's elapsed time; otherwise fall back to
+    // the root's A-Time, which is cumulative.
+    const globalStats = parseGlobalStats(lines);
+    const totalElapsedTime = globalStats.elapsedTime !== undefined
+      ? globalStats.elapsedTime / 1000
+      : (rootNode?.actualTime || 0);
 
     // Parse the trailing "Note" section, if present.
     const notes = parseNoteSection(lines);
 
+    // DISPLAY_CURSOR 'ALLSTATS LAST +OUTLINE' output lands here too.
+    const outlineHints = parseOutlineData(lines);
+    const hintReport = parseHintReport(lines);
+
+    // Report header ("Global Information", "Global Stats", "Binds") and
+    // per-process activity from the "Parallel Execution Details" table
+    const parallelDetails = parseParallelExecutionDetails(lines);
+    const monitorMetadata: SqlMonitorMetadata = {
+      ...parseGlobalInformation(lines),
+      ...globalStats.metadata,
+      dop: parallelDetails?.dop,
+      pxServersAllocated: parallelDetails?.serversAllocated,
+      pxServers: parallelDetails?.servers,
+    };
+    Object.keys(monitorMetadata).forEach(key => {
+      if ((monitorMetadata as Record<string, unknown>)[key] === undefined) {
+        delete (monitorMetadata as Record<string, unknown>)[key];
+      }
+    });
+    const bindVariables = parseMonitorBinds(lines);
+
     return {
       planHashValue,
       sqlId,
+      sqlText,
       rootNode,
       allNodes,
       totalCost,
@@ -71,11 +107,54 @@ export const sqlMonitorTextParser: PlanParser = {
       source: 'sql_monitor_text',
       hasActualStats,
       totalElapsedTime,
+      bindVariables: bindVariables.length > 0 ? bindVariables : undefined,
+      monitorMetadata: Object.keys(monitorMetadata).length > 0 ? monitorMetadata : undefined,
       notes,
+      outlineHints,
+      hintReport,
+      diagnostics,
     };
   },
 };
 
+/** Turn an XML syntax error into a diagnostic on the line it names. */
+function xmlErrorDiagnostic(error: XmlSyntaxError): ParseDiagnostic {
+  return {
+    severity: 'error',
+    line: error.line,
+    message: `The XML report is not well-formed: ${error.message}`,
+    fix: 'The report was probably cut off or edited. Spool it again with SET LONG 10000000 LONGCHUNKSIZE 10000000 so the whole CLOB is written.',
+  };
+}
+
+/** Explain a missing, wrapped, cut-off or incomplete "SQL Plan Monitoring Details" table. */
+function diagnoseMonitorTable(lines: string[], rows: RawSqlMonitorRow[]): ParseDiagnostic[] {
+  const headerIndex = lines.findIndex((line) => /\|\s*Id\s*\|.*Operation/i.test(line));
+  if (headerIndex === -1) {
+    return [{
+      severity: 'error',
+      message: 'No "SQL Plan Monitoring Details" table found: expected a header line such as "| Id | Operation | Name |".',
+      fix: 'Copy the whole report, including the plan table header and the "=" borders around it.',
+    }];
+  }
+
+  const diagnostics = wrappedRowDiagnostics(lines);
+  const truncated = truncatedHeaderDiagnostic(lines, headerIndex);
+  if (truncated) diagnostics.push(truncated);
+  if (rows.length === 0) {
+    diagnostics.push({
+      severity: 'error',
+      line: headerIndex + 1,
+      message: 'The plan table has a header but no rows.',
+      fix: 'The paste may have been cut off right after the header; copy the complete report.',
+    });
+    return diagnostics;
+  }
+  const lineById = new Map(rows.map((row) => [row.id, row.line]));
+  diagnostics.push(...missingIdDiagnostics(rows.map((row) => row.id), (id) => lineById.get(id)));
+  return diagnostics;
+}
+
 /**
  * Parser for Oracle SQL Monitor XML report output.
  * Handles the real Oracle format from DBMS_SQL_MONITOR.REPORT_SQL_MONITOR(type=>'XML')
@@ -95,12 +174,11 @@ export const sqlMonitorXmlParser: PlanParser = {
   },
 
   parse(input: string): ParsedPlan {
-    const domParser = new DOMParser();
-    const doc = domParser.parseFromString(input, 'text/xml');
-
-    // Check for parse errors
-    const parseError = doc.querySelector('parsererror');
-    if (parseError) {
+    let doc: XmlDocument;
+    try {
+      doc = parseXml(input);
+    } catch (err) {
+      if (!(err instanceof XmlSyntaxError)) throw err;
       return {
         rootNode: null,
         allNodes: [],
@@ -108,6 +186,7 @@ export const sqlMonitorXmlParser: PlanParser = {
         maxRows: 0,
         source: 'sql_monitor_xml',
         hasActualStats: false,
+        diagnostics: [xmlErrorDiagnostic(err)],
       };
     }
 
@@ -145,7 +224,10 @@ interface RawSqlMonitorRow {
   ioWriteRequests?: number;
   ioWriteBytes?: number;
   activityPercent?: number;
+  cellOffloadEfficiency?: number;
   depth: number;
+  /** 1-based source line of the row. */
+  line?: number;
 }
 
 function extractSqlId(lines: string[]): string | undefined {
@@ -187,6 +269,7 @@ interface SqlMonitorColumnPositions {
   writeReqs?: { start: number; end: number };
   writeBytes?: { start: number; end: number };
   activity?: { start: number; end: number };
+  cellOffload?: { start: number; end: number };
 }
 
 function parseSqlMonitorTable(lines: string[]): RawSqlMonitorRow[] {
@@ -249,6 +332,7 @@ function parseSqlMonitorTable(lines: string[]): RawSqlMonitorRow[] {
     if (/^\|/.test(line)) {
       const row = parseSqlMonitorDataRow(line, columns);
       if (row) {
+        row.line = i + 1;
         rows.push(row);
       }
     }
@@ -335,6 +419,8 @@ function parseSqlMonitorColumnPositions(headerLine: string, secondHeaderLine: st
       prevWriteKind = kind;
     } else if (segment === 'activity' || segment === 'activity %' || combined.includes('activity (%)')) {
       cols.activity = { start, end };
+    } else if (combined === 'cell offload') {
+      cols.cellOffload = { start, end };
     }
   }
 
@@ -432,6 +518,13 @@ function parseSqlMonitorDataRow(line: string, columns: SqlMonitorColumnPositions
     if (actMatch) row.activityPercent = parseFloat(actMatch[1]);
   }
 
+  if (columns.cellOffload) {
+    // "71.83%"; negative when the cells return more than they read (e.g. HCC
+    // decompressed in the cells), "NaN%" on lines that read nothing.
+    const offloadMatch = line.substring(columns.cellOffload.start, columns.cellOffload.end).trim().match(/^(-?[\d.]+)%$/);
+    if (offloadMatch) row.cellOffloadEfficiency = parseFloat(offloadMatch[1]);
+  }
+
   return row;
 }
 
@@ -465,6 +558,249 @@ function parseNumericValue(str: string): number | null {
   return isNaN(num) ? null : num;
 }
 
+/**
+ * Read a "=" bordered report table below `titleIndex`: header rows between
+ * the first two borders, data rows up to the third. Header cells that span
+ * two lines are joined and lower-cased ("elapsed time(s)"), so callers can
+ * match columns by name; column sets vary by version and platform.
+ */
+export function readReportTable(lines: string[], titleIndex: number): { headers: string[]; rows: string[][] } | undefined {
+  const headerRows: string[][] = [];
+  const rows: string[][] = [];
+  let separatorsSeen = 0;
+  for (let i = titleIndex + 1; i < lines.length; i++) {
+    const text = lines[i].trim();
+    if (/^[=-]+$/.test(text)) {
+      separatorsSeen++;
+      if (separatorsSeen >= 3) break;
+      continue;
+    }
+    if (!text.startsWith('|')) {
+      if (separatorsSeen > 0) break;
+      continue;
+    }
+    const cells = text.replace(/^\|/, '').replace(/\|$/, '').split('|').map((c) => c.trim());
+    if (separatorsSeen === 1) headerRows.push(cells);
+    else if (separatorsSeen === 2) rows.push(cells);
+  }
+  if (headerRows.length === 0) return undefined;
+
+  const headers = headerRows[0].map((_, col) =>
+    headerRows.map((row) => row[col] ?? '').join(' ').replace(/\s+/g, ' ').trim().toLowerCase()
+  );
+  return { headers, rows };
+}
+
+/** A report table cell by column index; "." (Oracle's "nothing") reads as empty. */
+function reportCell(cells: string[], index: number): string {
+  const value = index >= 0 ? cells[index] ?? '' : '';
+  return value === '.' ? '' : value;
+}
+
+/** A "Time(s)" / "Waits(s)" cell in microseconds, like the XML report's stats. */
+function reportSeconds(cells: string[], index: number): number | undefined {
+  const value = parseFloat(reportCell(cells, index));
+  return isNaN(value) ? undefined : Math.round(value * 1_000_000);
+}
+
+function reportCount(cells: string[], index: number): number | undefined {
+  return parseNumericValue(reportCell(cells, index)) ?? undefined;
+}
+
+function reportBytes(cells: string[], index: number): number | undefined {
+  return parseMemoryValue(reportCell(cells, index)) ?? undefined;
+}
+
+/**
+ * Parse the "Parallel Execution Details (DOP=8 , Servers Allocated=16)" table:
+ * one row for the QC and one per PX server, with times in seconds.
+ */
+function parseParallelExecutionDetails(
+  lines: string[]
+): { dop?: number; serversAllocated?: number; servers: PxServerStats[] } | undefined {
+  const titleIndex = lines.findIndex((line) => /^\s*Parallel Execution Details/i.test(line));
+  if (titleIndex === -1) return undefined;
+
+  const title = lines[titleIndex];
+  const dopMatch = title.match(/DOP\s*=\s*(\d+)/i);
+  const allocatedMatch = title.match(/Servers Allocated\s*=\s*(\d+)/i);
+
+  const table = readReportTable(lines, titleIndex);
+  if (!table) return undefined;
+  const { headers, rows: dataRows } = table;
+  const column = (pattern: RegExp) => headers.findIndex((h) => pattern.test(h));
+  const cols = {
+    name: column(/^name$/),
+    type: column(/^type$/),
+    instance: column(/^inst/),
+    serverNum: column(/^server#/),
+    elapsed: column(/^elapsed/),
+    cpu: column(/^cpu/),
+    io: column(/^io waits/),
+    application: column(/^application/),
+    concurrency: column(/^concurrency/),
+    cluster: column(/^cluster/),
+    other: column(/^other/),
+    bufferGets: column(/^buffer gets/),
+    readReqs: column(/^read reqs/),
+    readBytes: column(/^read bytes/),
+    writeReqs: column(/^write reqs/),
+    writeBytes: column(/^write bytes/),
+  };
+
+  const servers: PxServerStats[] = [];
+  for (const cells of dataRows) {
+    const name = reportCell(cells, cols.name);
+    // Rows without a name continue the previous row's wait events column.
+    if (!name) continue;
+
+    const type = reportCell(cells, cols.type);
+    const setMatch = type.match(/Set\s*(\d+)/i);
+    const waits = [cols.application, cols.concurrency, cols.cluster, cols.other]
+      .map((index) => reportSeconds(cells, index))
+      .filter((v): v is number => v !== undefined);
+
+    servers.push({
+      name,
+      isCoordinator: /^QC$/i.test(type) || /coordinator/i.test(name),
+      instanceId: reportCount(cells, cols.instance),
+      serverSet: setMatch ? parseInt(setMatch[1], 10) : undefined,
+      serverNum: reportCount(cells, cols.serverNum),
+      elapsedTime: reportSeconds(cells, cols.elapsed),
+      cpuTime: reportSeconds(cells, cols.cpu),
+      userIoWaitTime: reportSeconds(cells, cols.io),
+      otherWaitTime: waits.length > 0 ? waits.reduce((sum, v) => sum + v, 0) : undefined,
+      bufferGets: reportCount(cells, cols.bufferGets),
+      readReqs: reportCount(cells, cols.readReqs),
+      readBytes: reportBytes(cells, cols.readBytes),
+      writeReqs: reportCount(cells, cols.writeReqs),
+      writeBytes: reportBytes(cells, cols.writeBytes),
+    });
+  }
+
+  return {
+    dop: dopMatch ? parseInt(dopMatch[1], 10) : undefined,
+    serversAllocated: allocatedMatch ? parseInt(allocatedMatch[1], 10) : undefined,
+    servers,
+  };
+}
+
+/** Statement text from the report's "SQL Text" block, up to the next section title. */
+function extractMonitorSqlText(lines: string[]): string | undefined {
+  const titleIndex = lines.findIndex((line) => /^\s*SQL Text\s*$/i.test(line));
+  if (titleIndex === -1) return undefined;
+  const text: string[] = [];
+  for (let i = titleIndex + 1; i < lines.length; i++) {
+    const line = lines[i];
+    if (/^\s*(Global Information|Global Stats|Binds|SQL Plan Monitoring Details.*)\s*$/i.test(line)) break;
+    if (text.length === 0 && /^\s*-+\s*$/.test(line)) continue;
+    text.push(line);
+  }
+  return text.join('\n').trim() || undefined;
+}
+
+/**
+ * Parse the "Global Information" block ("Status : DONE (ALL ROWS)",
+ * "Session : SYS (647:28741)", ...) into the same fields the XML report's
+ * <target> element fills.
+ */
+function parseGlobalInformation(lines: string[]): SqlMonitorMetadata {
+  const titleIndex = lines.findIndex((line) => /^\s*Global Information\s*$/i.test(line));
+  if (titleIndex === -1) return {};
+
+  const fields = new Map<string, string>();
+  for (let i = titleIndex + 1; i < lines.length; i++) {
+    const text = lines[i].trim();
+    if (/^-+$/.test(text)) continue;
+    if (!text) {
+      if (fields.size > 0) break;
+      continue;
+    }
+    const match = text.match(/^([^:]+?)\s*:\s*(.*)$/);
+    if (!match) break;
+    fields.set(match[1].toLowerCase(), match[2].trim());
+  }
+
+  const session = fields.get('session')?.match(/^(.*?)\s*\((\d+):(\d+)\)/);
+  // "Module/Action : SQL*Plus/-": the action is after the last slash, "-" when unset.
+  const moduleAction = fields.get('module/action');
+  const slash = moduleAction?.lastIndexOf('/') ?? -1;
+  const module = moduleAction !== undefined ? (slash === -1 ? moduleAction : moduleAction.slice(0, slash)).trim() : undefined;
+
+  return {
+    status: fields.get('status') || undefined,
+    duration: parseDuration(fields.get('duration')),
+    sqlExecStart: fields.get('execution started') || undefined,
+    sqlExecId: fields.get('sql execution id') || undefined,
+    sessionId: session ? parseInt(session[2], 10) : undefined,
+    sessionSerial: session ? parseInt(session[3], 10) : undefined,
+    instanceId: parseIntOrUndef(fields.get('instance id')),
+    user: session?.[1] || undefined,
+    program: fields.get('program') || undefined,
+    module: module || undefined,
+    service: fields.get('service') || undefined,
+    userFetchCount: parseIntOrUndef(fields.get('fetch calls')),
+  };
+}
+
+/**
+ * Parse the one-row "Global Stats" table: the time breakdown and I/O totals
+ * the XML report keeps in <stats type="monitor">, with times in seconds.
+ */
+function parseGlobalStats(lines: string[]): { elapsedTime?: number; metadata: SqlMonitorMetadata } {
+  const titleIndex = lines.findIndex((line) => /^\s*Global Stats\s*$/i.test(line));
+  const table = titleIndex === -1 ? undefined : readReportTable(lines, titleIndex);
+  const cells = table?.rows[0];
+  if (!table || !cells) return { metadata: {} };
+
+  const column = (pattern: RegExp) => table.headers.findIndex((h) => pattern.test(h));
+  const waits = [/^application/, /^concurrency/, /^cluster/, /^other/]
+    .map((pattern) => reportSeconds(cells, column(pattern)))
+    .filter((v): v is number => v !== undefined);
+
+  return {
+    elapsedTime: reportSeconds(cells, column(/^elapsed/)),
+    metadata: {
+      cpuTime: reportSeconds(cells, column(/^cpu/)),
+      userIoWaitTime: reportSeconds(cells, column(/^io waits/)),
+      otherWaitTime: waits.length > 0 ? waits.reduce((sum, v) => sum + v, 0) : undefined,
+      plsqlExecTime: reportSeconds(cells, column(/^pl\/sql/)),
+      userFetchCount: reportCount(cells, column(/^fetch calls/)),
+      bufferGets: reportCount(cells, column(/^buffer gets/)),
+      readReqs: reportCount(cells, column(/^read reqs/)),
+      readBytes: reportBytes(cells, column(/^read bytes/)),
+    },
+  };
+}
+
+/** Parse the "Binds" table (Name | Position | Type | Value); long values wrap onto name-less rows. */
+function parseMonitorBinds(lines: string[]): BindVariable[] {
+  const titleIndex = lines.findIndex((line) => /^\s*Binds\s*$/i.test(line));
+  const table = titleIndex === -1 ? undefined : readReportTable(lines, titleIndex);
+  if (!table) return [];
+
+  const column = (pattern: RegExp) => table.headers.findIndex((h) => pattern.test(h));
+  const cols = { name: column(/^name$/), position: column(/^position$/), type: column(/^type$/), value: column(/^value$/) };
+
+  const binds: BindVariable[] = [];
+  for (const cells of table.rows) {
+    const name = reportCell(cells, cols.name);
+    const value = reportCell(cells, cols.value);
+    if (!name) {
+      const previous = binds[binds.length - 1];
+      if (previous && value) previous.value = `${previous.value ?? ''}${value}`;
+      continue;
+    }
+    binds.push({
+      name,
+      type: reportCell(cells, cols.type) || undefined,
+      value: value || null,
+      position: parseIntOrUndef(reportCell(cells, cols.position)),
+    });
+  }
+  return binds;
+}
+
 function parseTimeToMs(timeStr: string): number | null {
   if (!timeStr) return null;
 
@@ -608,6 +944,7 @@ function buildTree(
       ioWriteRequests: row.ioWriteRequests,
       ioWriteBytes: row.ioWriteBytes,
       activityPercent: row.activityPercent,
+      cellOffloadEfficiency: row.cellOffloadEfficiency,
       accessPredicates: preds?.access,
       filterPredicates: preds?.filter,
       children: [],
@@ -657,7 +994,7 @@ interface PlanEstimates {
   pstop?: string;
 }
 
-function parseRealOracleXml(doc: Document): ParsedPlan {
+function parseRealOracleXml(doc: XmlDocument): ParsedPlan {
   // Extract metadata from <report_parameters> and <target>
   const reportParams = doc.querySelector('report_parameters');
   const target = doc.querySelector('target');
@@ -820,6 +1157,7 @@ function parseRealOracleXml(doc: Document): ParsedPlan {
     dop: parseIntOrUndef(target?.getAttribute('dop')),
     pxServersRequested: getStatByName(globalStats, 'servers_requested'),
     pxServersAllocated: getStatByName(globalStats, 'servers_allocated'),
+    pxServers: parseParallelSessions(doc),
   };
 
   // Strip undefined values
@@ -852,7 +1190,7 @@ function parseRealOracleXml(doc: Document): ParsedPlan {
  * Parse the <plan> section to extract optimizer estimates and predicates.
  * Returns a map from operation id to estimated data.
  */
-function parsePlanSection(doc: Document): Map<number, PlanEstimates> {
+function parsePlanSection(doc: XmlDocument): Map<number, PlanEstimates> {
   const result = new Map<number, PlanEstimates>();
   const planSection = doc.querySelector('plan');
   if (!planSection) return result;
@@ -942,7 +1280,7 @@ function parsePlanSection(doc: Document): Map<number, PlanEstimates> {
  * Merges with estimated data from <plan> section.
  */
 function parseMonitorOperation(
-  op: Element,
+  op: XmlElement,
   planEstimates: Map<number, PlanEstimates>,
   sqlExecStartMs: number | undefined
 ): PlanNode | null {
@@ -1010,6 +1348,31 @@ function parseMonitorOperation(
   const elapsedTimeUs = getStatByName(statsEl, 'elapsed_time');
   const duration = getStatByName(statsEl, 'duration');
 
+  // Parallel execution: px_type is "QC" or the server set number; dop and the
+  // max_* stats describe how the line's work was spread across PX servers.
+  const pxType = op.getAttribute('px_type');
+  const pxServerSet = pxType === 'QC' ? 0 : parseIntOrUndef(pxType);
+  const pxDop = getStatByName(statsEl, 'dop');
+  const maxServerRows = getStatByName(statsEl, 'max_card');
+  const maxServerStarts = getStatByName(statsEl, 'max_starts');
+
+  // Exadata and In-Memory: bytes shipped back by the cells (io_inter_bytes)
+  // against the bytes eligible for offload give the line's offload efficiency
+  // when the report doesn't carry it directly.
+  const cellInterconnectBytes = getStatByName(statsEl, 'io_inter_bytes');
+  const cellEligibleBytes =
+    getStatByName(statsEl, 'cell_offload_eligible_bytes') ?? getStatByName(statsEl, 'io_elig_bytes');
+  let cellOffloadEfficiency =
+    getStatByName(statsEl, 'cell_offload_efficiency') ?? getStatByName(statsEl, 'cell_offload_efficiency2');
+  const offloadBase = cellEligibleBytes ?? readBytes;
+  if (cellOffloadEfficiency === undefined && cellInterconnectBytes !== undefined && offloadBase) {
+    cellOffloadEfficiency = (1 - cellInterconnectBytes / offloadBase) * 100;
+  }
+  const storageIndexSavedBytes = getStatByName(statsEl, 'cell_si_saved_bytes');
+  const imScanRows = getStatByName(statsEl, 'im_scan_rows');
+  const imScanCus = getStatByName(statsEl, 'im_scan_cus') ?? getStatByName(statsEl, 'im_scan_cus_columnar');
+  const imScanCusPruned = getStatByName(statsEl, 'im_scan_cus_pruned');
+
   // Elapsed time: prefer elapsed_time (microseconds), fallback to duration (seconds)
   let actualTimeMs: number | undefined;
   if (elapsedTimeUs !== undefined) {
@@ -1077,6 +1440,17 @@ function parseMonitorOperation(
     firstActiveOffset,
     lastActiveOffset,
     firstRowOffset,
+    pxServerSet: pxDop !== undefined || pxServerSet === 0 ? pxServerSet : undefined,
+    pxDop,
+    maxServerRows,
+    maxServerStarts,
+    cellOffloadEfficiency,
+    cellEligibleBytes,
+    cellInterconnectBytes,
+    storageIndexSavedBytes,
+    imScanRows,
+    imScanCus,
+    imScanCusPruned,
     children: [],
   };
 
@@ -1093,7 +1467,7 @@ function parseMonitorOperation(
  * Parse an operation from <plan> section only (when no <plan_monitor> exists).
  * Uses the <plan> format where estimates are direct child elements.
  */
-function parsePlanOnlyOperation(op: Element): PlanNode | null {
+function parsePlanOnlyOperation(op: XmlElement): PlanNode | null {
   const idAttr = op.getAttribute('id');
   if (!idAttr) return null;
   const id = parseInt(idAttr, 10);
@@ -1155,7 +1529,7 @@ function parseIntOrUndef(s: string | undefined | null): number | undefined {
 }
 
 /** Parse optimizer environment parameters from <target><optimizer_env>. */
-function parseOptimizerEnv(doc: Document): Record<string, string> | undefined {
+function parseOptimizerEnv(doc: XmlDocument): Record<string, string> | undefined {
   const envEl = doc.querySelector('target > optimizer_env');
   if (!envEl) return undefined;
   const params: Record<string, string> = {};
@@ -1179,7 +1553,7 @@ function parseOptimizerEnv(doc: Document): Record<string, string> | undefined {
  * or it has no line-tagged samples.
  */
 function applyActivitySamples(
-  doc: Document,
+  doc: XmlDocument,
   nodeMap: Map<number, PlanNode>,
   timeline: ActivityTimeline | undefined
 ): void {
@@ -1239,9 +1613,9 @@ function applyActivitySamples(
  * elements too, so we must only pick up the one that is NOT inside an
  * <operation>.
  */
-function parseActivityDetail(doc: Document): ActivityTimeline | undefined {
+function parseActivityDetail(doc: XmlDocument): ActivityTimeline | undefined {
   const candidates = doc.querySelectorAll('activity_detail');
-  let el: Element | undefined;
+  let el: XmlElement | undefined;
   for (const c of candidates) {
     if (!c.closest('operation')) {
       el = c;
@@ -1280,11 +1654,51 @@ function parseActivityDetail(doc: Document): ActivityTimeline | undefined {
   };
 }
 
+/**
+ * Parse per-process activity from <parallel_info><sessions>: one <session> for
+ * the QC (process_name="PX Coordinator") and one per PX server, tagged with
+ * server_group / server_set / server_num.
+ */
+function parseParallelSessions(doc: XmlDocument): PxServerStats[] | undefined {
+  const sessions = doc.querySelectorAll('parallel_info > sessions > session');
+  if (sessions.length === 0) return undefined;
+
+  const servers: PxServerStats[] = [];
+  sessions.forEach((session) => {
+    const stats = session.querySelector(':scope > stats[type="monitor"]');
+    const name = session.getAttribute('process_name') || `session ${session.getAttribute('session_id') ?? '?'}`;
+    const serverSet = parseIntOrUndef(session.getAttribute('server_set'));
+    const waitClasses = ['application_wait_time', 'concurrency_wait_time', 'cluster_wait_time', 'other_wait_time']
+      .map((stat) => getStatByName(stats, stat))
+      .filter((v): v is number => v !== undefined);
+
+    servers.push({
+      name,
+      isCoordinator: serverSet === undefined,
+      instanceId: parseIntOrUndef(session.getAttribute('inst_id')),
+      serverGroup: parseIntOrUndef(session.getAttribute('server_group')),
+      serverSet,
+      serverNum: parseIntOrUndef(session.getAttribute('server_num')),
+      elapsedTime: getStatByName(stats, 'elapsed_time'),
+      cpuTime: getStatByName(stats, 'cpu_time'),
+      userIoWaitTime: getStatByName(stats, 'user_io_wait_time'),
+      otherWaitTime: waitClasses.length > 0 ? waitClasses.reduce((sum, v) => sum + v, 0) : undefined,
+      bufferGets: getStatByName(stats, 'buffer_gets'),
+      readReqs: getStatByName(stats, 'read_reqs'),
+      readBytes: getStatByName(stats, 'read_bytes'),
+      writeReqs: getStatByName(stats, 'write_reqs'),
+      writeBytes: getStatByName(stats, 'write_bytes'),
+    });
+  });
+
+  return servers;
+}
+
 /**
  * Get a named stat value from a <stats> element.
  * Stats are structured as <stat name="...">value</stat>.
  */
-function getStatByName(statsEl: Element | null, name: string): number | undefined {
+function getStatByName(statsEl: XmlElement | null, name: string): number | undefined {
   if (!statsEl) return undefined;
   const stats = statsEl.querySelectorAll('stat');
   for (const stat of stats) {
@@ -1300,7 +1714,7 @@ function getStatByName(statsEl: Element | null, name: string): number | undefine
 }
 
 /** Get a named stat's raw text content (for non-numeric stats like timestamps). */
-function getStatText(statsEl: Element | null, name: string): string | undefined {
+function getStatText(statsEl: XmlElement | null, name: string): string | undefined {
   if (!statsEl) return undefined;
   const stats = statsEl.querySelectorAll('stat');
   for (const stat of stats) {
@@ -1338,7 +1752,7 @@ export function parseOracleTimestamp(s: string): number | undefined {
 }
 
 /** Get an integer value from a direct child element. */
-function getDirectChildInt(parent: Element, tagName: string): number | undefined {
+function getDirectChildInt(parent: XmlElement, tagName: string): number | undefined {
   const el = parent.querySelector(`:scope > ${tagName}`);
   if (!el?.textContent) return undefined;
   const num = parseInt(el.textContent.trim(), 10);
@@ -1349,12 +1763,12 @@ function getDirectChildInt(parent: Element, tagName: string): number | undefined
  * Parse bind variables from SQL Monitor XML.
  * Looks in <target><bind_list><bind> and <binds><bind> at the report level.
  */
-function parseBindVariables(doc: Document): BindVariable[] {
+function parseBindVariables(doc: XmlDocument): BindVariable[] {
   const binds: BindVariable[] = [];
   const seen = new Set<string>();
 
   // Collect <bind> elements from both locations
-  const bindElements: Element[] = [];
+  const bindElements: XmlElement[] = [];
 
   // Location 1: <target><bind_list><bind>
   const bindList = doc.querySelector('target > bind_list');
@@ -1399,7 +1813,7 @@ function parseBindVariables(doc: Document): BindVariable[] {
 // Legacy XML parser (for backward compatibility with simplified format)
 // ============================================================
 
-function parseLegacyXml(doc: Document): ParsedPlan {
+function parseLegacyXml(doc: XmlDocument): ParsedPlan {
   // Extract metadata
   const sqlId = getXmlText(doc, 'sql_id');
   const planHashValue = getXmlText(doc, 'plan_hash');
@@ -1453,12 +1867,12 @@ function parseLegacyXml(doc: Document): ParsedPlan {
   };
 }
 
-function getXmlText(doc: Document, tagName: string): string | undefined {
+function getXmlText(doc: XmlDocument, tagName: string): string | undefined {
   const element = doc.querySelector(tagName);
   return element?.textContent?.trim() || undefined;
 }
 
-function parseLegacyXmlOperation(op: Element): PlanNode | null {
+function parseLegacyXmlOperation(op: XmlElement): PlanNode | null {
   const idAttr = op.getAttribute('id');
   if (!idAttr) return null;
 
@@ -1497,14 +1911,14 @@ function parseLegacyXmlOperation(op: Element): PlanNode | null {
   return node;
 }
 
-function parseLegacyXmlNumber(element: Element, tagName: string): number | undefined {
+function parseLegacyXmlNumber(element: XmlElement, tagName: string): number | undefined {
   const value = element.getAttribute(tagName) || element.querySelector(tagName)?.textContent;
   if (!value) return undefined;
   const num = parseInt(value, 10);
   return isNaN(num) ? undefined : num;
 }
 
-function parseLegacyXmlFloat(element: Element, tagName: string): number | undefined {
+function parseLegacyXmlFloat(element: XmlElement, tagName: string): number | undefined {
   const value = element.getAttribute(tagName) || element.querySelector(tagName)?.textContent;
   if (!value) return undefined;
   const num = parseFloat(value);
@@ -0,0 +1,363 @@
+import type { PlanNode, ParsedPlan } from '../types';
+import type { ParseDiagnostic, PlanParser } from './types';
+import { shiftDiagnostics } from './diagnostics';
+
+/** One row of a TKPROF call table (Parse / Execute / Fetch / total). */
+export interface TkprofCall {
+  count: number;
+  cpu: number;       // seconds
+  elapsed: number;   // seconds
+  disk: number;      // physical reads
+  query: number;     // consistent gets
+  current: number;   // current-mode gets
+  rows: number;
+}
+
+/** Per-statement call statistics from a TKPROF report. */
+export interface TkprofCallStats {
+  parse?: TkprofCall;
+  execute?: TkprofCall;
+  fetch?: TkprofCall;
+  total?: TkprofCall;
+}
+
+const STATEMENT_SEPARATOR = /^\*{20,}\s*$/;
+const ROW_SOURCE_HEADER = /Row Source Operation/i;
+const CALL_TABLE_HEADER = /^call\s+count\s+cpu\s+elapsed/i;
+
+/**
+ * Operation families that name an object after their options, e.g.
+ * "TABLE ACCESS FULL EMP" or "INDEX RANGE SCAN EMP_IDX". TKPROF prints the
+ * object name in the same column as the operation, so it is split off here.
+ */
+const OBJECT_OPERATIONS = /^(TABLE ACCESS|INDEX|BITMAP INDEX|DOMAIN INDEX|MAT_VIEW (REWRITE )?ACCESS|EXTERNAL TABLE ACCESS|FIXED TABLE|VIEW|SEQUENCE|UPDATE|DELETE|MERGE|INSERT|LOAD AS SELECT|LOAD TABLE CONVENTIONAL|PX SEND|COLLECTION ITERATOR|RESULT CACHE|REMOTE|CUBE SCAN)\b/;
+
+/** Words that end an operation's options and therefore are never object names. */
+const OPTION_WORDS = new Set([
+  'ACCESS', 'ALL', 'AND', 'BATCHED', 'BROADCAST', 'BY', 'CLUSTER', 'CONVENTIONAL', 'DESCENDING', 'FETCH',
+  'FULL', 'HASH', 'INDEX', 'ITERATOR', 'KEY', 'LOCAL', 'GLOBAL', 'ORDER', 'PICKLER', 'PREDICATE', 'PUSHED',
+  'QC', 'RANDOM', 'RANGE', 'ROUND-ROBIN', 'ROWID', 'ROWS', 'SAMPLE', 'SCAN', 'SELECT', 'SKIP', 'STATEMENT', 'STORAGE',
+  'INMEMORY', 'UNIQUE', '(MIN/MAX)',
+]);
+
+/**
+ * Parser for TKPROF reports of 10046 traces.
+ *
+ * Each statement's "Row Source Operation" block carries the actual rows
+ * (`Rows` on 10g, `Rows (1st) Rows (avg) Rows (max)` from 11g) and, per line,
+ * `(cr= pr= pw= time= us cost= size= card=)`. A report usually contains many
+ * statements separated by asterisk rules; parse() reads the first one with a
+ * row source block, and extractTkprofStatements() splits the rest into slots.
+ */
+export const tkprofParser: PlanParser = {
+  canParse(input: string): boolean {
+    if (/TKPROF:\s*Release/i.test(input)) return true;
+    return ROW_SOURCE_HEADER.test(input) && /^call\s+count\s+cpu/im.test(input);
+  },
+
+  parse(input: string): ParsedPlan {
+    const statement = findStatements(input)[0] ?? { text: input, startLine: 0 };
+    const plan = parseStatement(statement.text.split('\n'));
+    // Diagnostics refer to lines of the whole report, not of the statement.
+    if (plan.diagnostics) plan.diagnostics = shiftDiagnostics(plan.diagnostics, statement.startLine);
+    return plan;
+  },
+};
+
+interface TkprofStatement {
+  text: string;
+  /** Number of report lines above the statement's first line. */
+  startLine: number;
+}
+
+function findStatements(input: string): TkprofStatement[] {
+  const statements: TkprofStatement[] = [];
+  let current: string[] = [];
+  let currentStart = 0;
+
+  const flush = () => {
+    const text = current.join('\n').trim();
+    if (text && ROW_SOURCE_HEADER.test(text)) {
+      const leadingLines = current.findIndex((line) => line.trim());
+      statements.push({ text, startLine: currentStart + leadingLines });
+    }
+    current = [];
+  };
+
+  input.split('\n').forEach((line, index) => {
+    if (STATEMENT_SEPARATOR.test(line)) {
+      flush();
+      currentStart = index + 1;
+    } else {
+      current.push(line);
+    }
+  });
+  flush();
+  return statements;
+}
+
+/** Split a TKPROF report into statements that carry a row source block. */
+export function extractTkprofStatements(input: string): string[] {
+  return findStatements(input).map((statement) => statement.text);
+}
+
+function emptyPlan(): ParsedPlan {
+  return {
+    rootNode: null,
+    allNodes: [],
+    totalCost: 0,
+    maxRows: 0,
+    source: 'tkprof',
+    hasActualStats: false,
+  };
+}
+
+function parseStatement(lines: string[]): ParsedPlan {
+  const headerIndex = lines.findIndex((line) => ROW_SOURCE_HEADER.test(line));
+  if (headerIndex === -1) return emptyPlan();
+
+  const { sqlId, planHashValue, sqlText } = extractStatementHeader(lines);
+  const calls = parseCallTable(lines);
+  const { rootNode, allNodes, diagnostics } = parseRowSource(lines, headerIndex);
+  if (!rootNode) return { ...emptyPlan(), diagnostics };
+
+  const hasActualStats = allNodes.some((n) => n.actualRows !== undefined || n.actualTime !== undefined);
+  const totalCost = allNodes.reduce((sum, n) => sum + (n.cost || 0), 0);
+  const maxRows = Math.max(...allNodes.map((n) => n.rows || 0), 0);
+  const maxActualRows = Math.max(...allNodes.map((n) => n.actualRows || 0), 0);
+  const maxStarts = Math.max(...allNodes.map((n) => n.starts || 0), 0);
+
+  return {
+    planHashValue,
+    rootNode,
+    allNodes,
+    totalCost,
+    maxRows,
+    maxActualRows: hasActualStats ? maxActualRows : undefined,
+    maxStarts: hasActualStats ? maxStarts : undefined,
+    source: 'tkprof',
+    hasActualStats,
+    sqlId,
+    sqlText,
+    totalElapsedTime: rootNode.actualTime,
+    tkprofCalls: calls,
+    diagnostics: diagnostics.length > 0 ? diagnostics : undefined,
+  };
+}
+
+/** SQL ID / plan hash ("SQL ID: ... Plan Hash: ...", 11g+) and the statement text above the call table. */
+function extractStatementHeader(lines: string[]): { sqlId?: string; planHashValue?: string; sqlText?: string } {
+  let sqlId: string | undefined;
+  let planHashValue: string | undefined;
+  let textStart = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(/^\s*SQL ID:\s*(\w+)(?:\s+Plan Hash:\s*(\d+))?/i);
+    if (match) {
+      sqlId = match[1];
+      planHashValue = match[2];
+      textStart = i + 1;
+      break;
+    }
+  }
+
+  const callIndex = lines.findIndex((line) => CALL_TABLE_HEADER.test(line.trim()));
+  const textEnd = callIndex === -1 ? lines.findIndex((line) => ROW_SOURCE_HEADER.test(line)) : callIndex;
+  const sqlText = lines.slice(textStart, textEnd).join('\n').trim() || undefined;
+
+  return { sqlId, planHashValue, sqlText };
+}
+
+function parseCallTable(lines: string[]): TkprofCallStats | undefined {
+  const headerIndex = lines.findIndex((line) => CALL_TABLE_HEADER.test(line.trim()));
+  if (headerIndex === -1) return undefined;
+
+  const stats: TkprofCallStats = {};
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    const text = lines[i].trim();
+    if (!text) break;
+    const match = text.match(/^(Parse|Execute|Fetch|total)\s+(.*)$/i);
+    if (!match) continue;
+
+    const values = match[2].trim().split(/\s+/).map(Number);
+    if (values.length < 7 || values.some(isNaN)) continue;
+    const [count, cpu, elapsed, disk, query, current, rows] = values;
+    const key = match[1].toLowerCase() as keyof TkprofCallStats;
+    stats[key] = { count, cpu, elapsed, disk, query, current, rows };
+  }
+
+  return Object.keys(stats).length > 0 ? stats : undefined;
+}
+
+interface TkprofRow {
+  depth: number;
+  rowCounts: number[];
+  text: string;
+}
+
+interface RowSource {
+  rootNode: PlanNode | null;
+  allNodes: PlanNode[];
+  diagnostics: ParseDiagnostic[];
+}
+
+const ROW_COUNTS = /^\d+(\s+\d+)*$/;
+
+/** Statistics cut off before their closing parenthesis, e.g. "(cr=15 pr=6 pw=0 ti". */
+const CUT_OFF_STATS = /\s*\(cr=[^()]*$/i;
+
+function parseRowSource(lines: string[], headerIndex: number): RowSource {
+  const diagnostics: ParseDiagnostic[] = [];
+
+  // The last dash group of the separator marks where the operation column starts.
+  const separator = lines[headerIndex + 1] ?? '';
+  const groups = [...separator.matchAll(/-+/g)];
+  if (groups.length < 2) {
+    diagnostics.push({
+      severity: 'error',
+      line: headerIndex + 1,
+      message: 'The Row Source Operation header is not followed by its dashed separator line, so the columns cannot be located.',
+      fix: 'Copy the statement\'s row source block including the dashed line under its header.',
+    });
+    return { rootNode: null, allNodes: [], diagnostics };
+  }
+  const operationStart = groups[groups.length - 1].index ?? 0;
+  const countColumns = groups.length - 1;
+
+  const splitRow = (line: string) => {
+    const prefix = line.slice(0, operationStart).trim();
+    const rest = line.slice(operationStart);
+    return ROW_COUNTS.test(prefix) && rest.trim() ? { prefix, rest } : null;
+  };
+
+  const rows: TkprofRow[] = [];
+  for (let i = headerIndex + 2; i < lines.length; i++) {
+    const line = lines[i].replace(/\s+$/, '');
+    if (!line.trim()) break;
+
+    const row = splitRow(line);
+    if (!row) {
+      // A stray line (a wrapped or edited row) with more rows below it is
+      // skipped; otherwise the block simply ends here.
+      const next = lines[i + 1]?.replace(/\s+$/, '') ?? '';
+      if (rows.length === 0 || !next.trim() || !splitRow(next)) break;
+      diagnostics.push({
+        severity: 'warning',
+        line: i + 1,
+        message: 'This line sits inside the row source block but is not a row (row counts followed by an operation), so it was skipped.',
+        fix: 'Check that the row was not wrapped onto this line or merged with another one.',
+      });
+      continue;
+    }
+
+    const rowCounts = row.prefix.split(/\s+/).map(Number);
+    if (rowCounts.length < countColumns) {
+      diagnostics.push({
+        severity: 'warning',
+        line: i + 1,
+        message: `This row has ${rowCounts.length} row count${rowCounts.length === 1 ? '' : 's'} where the header has ${countColumns} columns, so its actual rows may be off.`,
+        fix: 'Check that the row\'s leading columns were not deleted or shifted.',
+      });
+    }
+
+    let text = row.rest.trim();
+    if (CUT_OFF_STATS.test(text)) {
+      diagnostics.push({
+        severity: 'warning',
+        line: i + 1,
+        message: 'The statistics in parentheses at the end of this row are cut off, so they were not read.',
+        fix: 'Copy the report with lines at full length (no editor or mail client wrapping).',
+      });
+      text = text.replace(CUT_OFF_STATS, '');
+    }
+
+    rows.push({ depth: row.rest.length - row.rest.trimStart().length, rowCounts, text });
+  }
+  if (rows.length === 0) {
+    diagnostics.push({
+      severity: 'error',
+      line: headerIndex + 1,
+      message: 'The Row Source Operation block has a header but no rows.',
+      fix: 'The report may have been cut off right after the header; copy the complete statement.',
+    });
+    return { rootNode: null, allNodes: [], diagnostics };
+  }
+
+  const baseDepth = Math.min(...rows.map((r) => r.depth));
+  const allNodes: PlanNode[] = [];
+  const stack: PlanNode[] = [];
+
+  rows.forEach((row, id) => {
+    const node = buildNode(id, row.depth - baseDepth, row);
+    while (stack.length > 0 && stack[stack.length - 1].depth >= node.depth) stack.pop();
+    const parent = stack[stack.length - 1];
+    if (parent) {
+      node.parentId = parent.id;
+      parent.children.push(node);
+    }
+    stack.push(node);
+    allNodes.push(node);
+  });
+
+  return { rootNode: allNodes[0], allNodes, diagnostics };
+}
+
+function buildNode(id: number, depth: number, row: TkprofRow): PlanNode {
+  let text = row.text.replace(/\s*\(object id \d+\)\s*$/i, '');
+
+  const stats = new Map<string, number>();
+  const statsMatch = text.match(/\s*\((cr=[^()]*)\)$/i);
+  if (statsMatch) {
+    for (const [, key, value] of statsMatch[1].matchAll(/(\w+)=(\d+)/g)) {
+      stats.set(key.toLowerCase(), parseInt(value, 10));
+    }
+    text = text.slice(0, statsMatch.index).trim();
+  }
+
+  let pstart: string | undefined;
+  let pstop: string | undefined;
+  const partition = text.match(/\s+PARTITION:\s*(\S+)\s+(\S+)$/i);
+  if (partition) {
+    pstart = partition[1];
+    pstop = partition[2];
+    text = text.slice(0, partition.index).trim();
+  }
+
+  const { operation, objectName } = splitObjectName(text);
+
+  // 11g+ prints Rows (1st) / (avg) / (max); the per-line stats are averages
+  // across the captured executions, so the average row count matches them.
+  const actualRows = row.rowCounts.length >= 3 ? row.rowCounts[1] : row.rowCounts[0];
+  const time = stats.get('time');
+
+  return {
+    id,
+    depth,
+    operation,
+    objectName,
+    rows: stats.get('card'),
+    bytes: stats.get('size'),
+    cost: stats.get('cost'),
+    pstart,
+    pstop,
+    actualRows,
+    actualTime: time !== undefined ? time / 1000 : undefined,
+    starts: stats.get('starts'),
+    logicalReads: stats.get('cr'),
+    physicalReads: stats.get('pr'),
+    children: [],
+  };
+}
+
+function splitObjectName(text: string): { operation: string; objectName?: string } {
+  const family = text.match(OBJECT_OPERATIONS);
+  if (!family) return { operation: text };
+
+  const tokens = text.split(/\s+/);
+  const familyTokens = family[0].split(/\s+/).length;
+  const last = tokens[tokens.length - 1];
+  if (tokens.length <= familyTokens || OPTION_WORDS.has(last.toUpperCase())) {
+    return { operation: text };
+  }
+  return { operation: tokens.slice(0, -1).join(' '), objectName: last };
+}
@@ -5,6 +5,29 @@ export interface BindVariable {
   type?: string;
   value: string | null;
   position?: number;
+  /** DBMS_XPLAN section the bind came from: values peeked at hard parse, or captured by V$SQL_BIND_CAPTURE. */
+  source?: 'peeked' | 'captured';
+}
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+/** Automatic fixes the input panel can offer for a diagnostic. */
+export type DiagnosticRepair = 'rejoin-wrapped-rows';
+
+/**
+ * A problem found while parsing: a line that could not be read, a table
+ * wrapped by LINESIZE, a plan that looks truncated. Line numbers are 1-based
+ * and refer to the text the user pasted.
+ */
+export interface ParseDiagnostic {
+  severity: DiagnosticSeverity;
+  message: string;
+  line?: number;
+  /** Last line of a problem spanning several lines. */
+  endLine?: number;
+  /** What to change in the export (or the paste) to avoid the problem. */
+  fix?: string;
+  repair?: DiagnosticRepair;
 }
 
 /**
@@ -20,7 +43,8 @@ export interface PlanParser {
   canParse(input: string): boolean;
 
   /**
-   * Parse the input into a ParsedPlan.
+   * Parse the input into a ParsedPlan. Problems with the input are reported
+   * in `ParsedPlan.diagnostics` rather than thrown.
    * @param input Raw input string
    * @returns Parsed plan structure
    */
@@ -30,4 +54,4 @@ export interface PlanParser {
 /**
  * Detected format of the input.
  */
-export type DetectedFormat = 'dbms_xplan' | 'sql_monitor_text' | 'sql_monitor_xml' | 'json' | 'xbi' | 'unknown';
+export type DetectedFormat = 'dbms_xplan' | 'sql_monitor_text' | 'sql_monitor_xml' | 'sql_monitor_active' | 'json' | 'csv' | 'xbi' | 'tkprof' | 'cbo_trace' | 'unknown';
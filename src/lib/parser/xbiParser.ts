@@ -1,5 +1,5 @@
 import type { PlanNode, ParsedPlan } from '../types';
-import type { PlanParser } from './types';
+import type { ParseDiagnostic, PlanParser } from './types';
 
 interface ColumnBounds {
   start: number;
@@ -26,6 +26,10 @@ interface XbiColumns {
 }
 
 interface XbiRawRow {
+  /** 1-based source line of the row. */
+  line: number;
+  /** Length of the row without trailing spaces. */
+  width: number;
   id: number;
   parentId?: number;
   depth: number;
@@ -76,10 +80,19 @@ export const xbiParser: PlanParser = {
     const columns = identifyColumns(boundaries, headerLine1, headerLine2);
 
     if (!columns) {
-      return emptyPlan();
+      return {
+        ...emptyPlan(),
+        diagnostics: [{
+          severity: 'error',
+          line: separatorIndex,
+          message: 'The plan table header was found, but its "Op ID" and "Row Source" columns could not be located.',
+          fix: 'Copy the two header lines and the dashed line under them exactly as xbi.sql printed them.',
+        }],
+      };
     }
 
-    const { rows, endIndex: dataEndIndex } = parseDataRows(lines, separatorIndex + 1, columns);
+    const { rows, unreadLines, endIndex: dataEndIndex } = parseDataRows(lines, separatorIndex + 1, columns);
+    const diagnostics = rowDiagnostics(rows, unreadLines, boundaries, columns);
 
     const predicates = parseXbiPredicates(lines, dataEndIndex);
 
@@ -107,6 +120,7 @@ export const xbiParser: PlanParser = {
       hasActualStats,
       sqlId,
       totalElapsedTime: totalElapsedMs,
+      diagnostics: diagnostics.length > 0 ? diagnostics : undefined,
     };
   },
 };
@@ -314,8 +328,9 @@ function parseDataRows(
   lines: string[],
   startIndex: number,
   columns: XbiColumns,
-): { rows: XbiRawRow[]; endIndex: number } {
+): { rows: XbiRawRow[]; unreadLines: number[]; endIndex: number } {
   const rows: XbiRawRow[] = [];
+  const unreadLines: number[] = [];
   let i = startIndex;
 
   for (; i < lines.length; i++) {
@@ -346,6 +361,7 @@ function parseDataRows(
       if (!/^\s/.test(line) && !/\d/.test(idStr)) {
         break;
       }
+      unreadLines.push(i);
       continue;
     }
 
@@ -361,7 +377,10 @@ function parseDataRows(
     const rowSourceRaw = safeSubstring(line, columns.rowSource.start, columns.rowSource.end);
     const { depth, operation, objectName } = parseRowSource(rowSourceRaw);
 
-    if (!operation) continue;
+    if (!operation) {
+      unreadLines.push(i);
+      continue;
+    }
 
     // Parse query block
     let queryBlock: string | undefined;
@@ -406,6 +425,8 @@ function parseDataRows(
       : undefined;
 
     rows.push({
+      line: i + 1,
+      width: line.trimEnd().length,
       id,
       parentId: !isNaN(parentId!) ? parentId : undefined,
       depth,
@@ -425,7 +446,45 @@ function parseDataRows(
     });
   }
 
-  return { rows, endIndex: i };
+  return { rows, unreadLines, endIndex: i };
+}
+
+/**
+ * Lines inside the plan table that were not read as rows, and rows cut off in
+ * the middle of a value (by LINESIZE or by the copy). xbi.sql output has its
+ * trailing spaces trimmed, so a row that simply ends after its last non-empty
+ * column is complete; a row is only cut when it stops inside a numeric column
+ * before that column's right-aligned end.
+ */
+function rowDiagnostics(
+  rows: XbiRawRow[],
+  unreadLines: number[],
+  boundaries: ColumnBounds[],
+  columns: XbiColumns,
+): ParseDiagnostic[] {
+  const diagnostics: ParseDiagnostic[] = unreadLines.map((index) => ({
+    severity: 'warning',
+    line: index + 1,
+    message: 'This line sits inside the plan table but has no operation id and row source, so it was skipped.',
+    fix: 'Check that the row was not wrapped onto this line or merged with another one.',
+  }));
+
+  // Pred, Row Source and Query Block are left-aligned text; the rest are right-aligned figures.
+  const textColumns = [columns.pred, columns.rowSource, columns.queryBlock];
+  const numericColumns = Object.values(columns).filter((bounds) => bounds && !textColumns.includes(bounds)) as ColumnBounds[];
+  for (const row of rows) {
+    const cut = numericColumns.find((bounds) => bounds.start < row.width && row.width < bounds.end);
+    if (!cut) continue;
+    const missing = boundaries.filter((bounds) => bounds.end > cut.end).length;
+    diagnostics.push({
+      severity: 'warning',
+      line: row.line,
+      message: `This row is cut off at character ${row.width}, in the middle of a value${missing > 0 ? `, so that value and the ${missing === 1 ? 'column' : `${missing} columns`} after it were not read` : ', so that value is incomplete'}.`,
+      fix: 'SET LINESIZE wide enough for the whole table before running xbi.sql, then copy the output again.',
+    });
+  }
+
+  return diagnostics.sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
 }
 
 /**
@@ -0,0 +1,273 @@
+/**
+ * A small, DOM-free XML reader for SQL Monitor reports.
+ *
+ * Browsers don't expose DOMParser to workers, so the pipeline worker reads
+ * XML with this instead. It builds a plain element tree and covers the part
+ * of the DOM the report parser uses: `getAttribute`, `textContent`,
+ * `closest`, and `querySelector(All)` with tag names, `*`, `[attr]` /
+ * `[attr="value"]`, the descendant and `>` combinators and a leading
+ * `:scope`. Comments, processing instructions and the DOCTYPE are skipped;
+ * CDATA sections and the predefined and numeric entities become text.
+ */
+
+/** The input is not well-formed XML; `line` is 1-based. */
+export class XmlSyntaxError extends Error {
+  readonly line: number;
+
+  constructor(message: string, line: number) {
+    super(`${message} (line ${line})`);
+    this.name = 'XmlSyntaxError';
+    this.line = line;
+  }
+}
+
+interface CompoundSelector {
+  scope: boolean;
+  tagName: string | null;
+  attributes: Array<{ name: string; value: string | null }>;
+}
+
+interface CompiledSelector {
+  compounds: CompoundSelector[];
+  /** `combinators[i]` joins `compounds[i]` to `compounds[i + 1]`. */
+  combinators: Array<' ' | '>'>;
+  /** How deep below the scope element a match can sit, for `:scope > a > b`. */
+  maxDepth: number;
+}
+
+const compiledSelectors = new Map<string, CompiledSelector>();
+
+const COMPOUND = /^(:scope|\*|[A-Za-z_][\w.:-]*)?((?:\[[^\]]+\])*)$/;
+const ATTRIBUTE = /\[\s*([\w.:-]+)\s*(?:=\s*(?:"([^"]*)"|'([^']*)'|([^\]\s]+))\s*)?\]/g;
+
+function compileSelector(selector: string): CompiledSelector {
+  const cached = compiledSelectors.get(selector);
+  if (cached) return cached;
+
+  const compounds: CompoundSelector[] = [];
+  const combinators: Array<' ' | '>'> = [];
+  const tokens = selector.trim().replace(/\s*>\s*/g, ' > ').split(/\s+/);
+  let pending: ' ' | '>' | null = null;
+  for (const token of tokens) {
+    if (token === '>') {
+      pending = '>';
+      continue;
+    }
+    const match = token.match(COMPOUND);
+    if (!match || (!match[1] && !match[2])) throw new Error(`Unsupported selector: ${selector}`);
+    if (compounds.length > 0) combinators.push(pending ?? ' ');
+    pending = null;
+    compounds.push({
+      scope: match[1] === ':scope',
+      tagName: match[1] && match[1] !== ':scope' && match[1] !== '*' ? match[1] : null,
+      attributes: [...(match[2] ?? '').matchAll(ATTRIBUTE)].map((m) => ({ name: m[1], value: m[2] ?? m[3] ?? m[4] ?? null })),
+    });
+  }
+  if (compounds.length === 0 || pending) throw new Error(`Unsupported selector: ${selector}`);
+
+  const scoped = compounds[0].scope && combinators.every((c) => c === '>');
+  const compiled = { compounds, combinators, maxDepth: scoped ? compounds.length - 1 : Infinity };
+  compiledSelectors.set(selector, compiled);
+  return compiled;
+}
+
+function matchesCompound(element: XmlElement, compound: CompoundSelector, scope: XmlElement | null): boolean {
+  if (compound.scope && element !== scope) return false;
+  if (compound.tagName !== null && element.tagName !== compound.tagName) return false;
+  return compound.attributes.every(({ name, value }) => {
+    const actual = element.getAttribute(name);
+    return value === null ? actual !== null : actual === value;
+  });
+}
+
+/** Whether `element` matches `selector` from compound `index` leftwards. */
+function matchesFrom(element: XmlElement, selector: CompiledSelector, index: number, scope: XmlElement | null): boolean {
+  if (!matchesCompound(element, selector.compounds[index], scope)) return false;
+  if (index === 0) return true;
+  if (selector.combinators[index - 1] === '>') {
+    return element.parentElement !== null && matchesFrom(element.parentElement, selector, index - 1, scope);
+  }
+  for (let ancestor = element.parentElement; ancestor; ancestor = ancestor.parentElement) {
+    if (matchesFrom(ancestor, selector, index - 1, scope)) return true;
+  }
+  return false;
+}
+
+export class XmlElement {
+  readonly tagName: string;
+  readonly parentElement: XmlElement | null;
+  readonly children: XmlElement[] = [];
+  private readonly attributes: Map<string, string>;
+  /** Text and child elements in document order. */
+  private readonly content: Array<string | XmlElement> = [];
+
+  constructor(tagName: string, attributes: Map<string, string>, parentElement: XmlElement | null) {
+    this.tagName = tagName;
+    this.attributes = attributes;
+    this.parentElement = parentElement;
+  }
+
+  getAttribute(name: string): string | null {
+    return this.attributes.get(name) ?? null;
+  }
+
+  get textContent(): string {
+    return this.content.map((part) => (typeof part === 'string' ? part : part.textContent)).join('');
+  }
+
+  matches(selector: string): boolean {
+    const compiled = compileSelector(selector);
+    return matchesFrom(this, compiled, compiled.compounds.length - 1, null);
+  }
+
+  /** The element or its nearest ancestor matching `selector`. */
+  closest(selector: string): XmlElement | null {
+    if (this.matches(selector)) return this;
+    return this.parentElement?.closest(selector) ?? null;
+  }
+
+  querySelector(selector: string): XmlElement | null {
+    return this.select(selector, true)[0] ?? null;
+  }
+
+  querySelectorAll(selector: string): XmlElement[] {
+    return this.select(selector, false);
+  }
+
+  /** @internal */
+  append(part: string | XmlElement): void {
+    this.content.push(part);
+    if (typeof part !== 'string') this.children.push(part);
+  }
+
+  private select(selector: string, first: boolean): XmlElement[] {
+    const compiled = compileSelector(selector);
+    const last = compiled.compounds.length - 1;
+    const found: XmlElement[] = [];
+    // Depth-first in document order, without recursion: reports nest deeply.
+    const stack: Array<[XmlElement, number]> = this.children.map((child): [XmlElement, number] => [child, 1]).reverse();
+    while (stack.length > 0) {
+      const [element, depth] = stack.pop()!;
+      if (matchesFrom(element, compiled, last, this)) {
+        found.push(element);
+        if (first) break;
+      }
+      if (depth < compiled.maxDepth) {
+        for (let i = element.children.length - 1; i >= 0; i--) stack.push([element.children[i], depth + 1]);
+      }
+    }
+    return found;
+  }
+}
+
+export interface XmlDocument {
+  documentElement: XmlElement;
+  querySelector(selector: string): XmlElement | null;
+  querySelectorAll(selector: string): XmlElement[];
+}
+
+const NAME = /[A-Za-z_][\w.:-]*/y;
+const ATTRIBUTE_PAIR = /\s+([A-Za-z_][\w.:-]*)\s*=\s*(?:"([^"]*)"|'([^']*)')/y;
+const TAG_END = /\s*(\/?)>/y;
+const PREDEFINED_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+function decodeEntities(text: string): string {
+  if (!text.includes('&')) return text;
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] !== '#') return PREDEFINED_ENTITIES[name] ?? entity;
+    const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+    return code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+  });
+}
+
+/** Parse `input` into an element tree; throws XmlSyntaxError on malformed input. */
+export function parseXml(input: string): XmlDocument {
+  function fail(message: string, offset: number): never {
+    throw new XmlSyntaxError(message, input.slice(0, offset).split('\n').length);
+  }
+  function skipTo(terminator: string, from: number, what: string): number {
+    const end = input.indexOf(terminator, from);
+    if (end === -1) fail(`Unterminated ${what}`, from);
+    return end + terminator.length;
+  }
+
+  let root: XmlElement | null = null;
+  let current: XmlElement | null = null;
+  const openedAt: number[] = [];
+  let pos = 0;
+
+  while (pos < input.length) {
+    const lt = input.indexOf('<', pos);
+    const text = input.slice(pos, lt === -1 ? input.length : lt);
+    if (current) current.append(decodeEntities(text));
+    else if (text.trim()) fail(root ? 'Text after the document element' : 'Text before the document element', pos);
+    if (lt === -1) break;
+    pos = lt;
+
+    if (input.startsWith('<!--', pos)) {
+      pos = skipTo('-->', pos + 4, 'comment');
+    } else if (input.startsWith('<![CDATA[', pos)) {
+      const end = skipTo(']]>', pos + 9, 'CDATA section');
+      if (!current) fail('CDATA section outside the document element', pos);
+      current.append(input.slice(pos + 9, end - 3));
+      pos = end;
+    } else if (input.startsWith('<?', pos)) {
+      pos = skipTo('?>', pos + 2, 'processing instruction');
+    } else if (input.startsWith('<!', pos)) {
+      const bracket = input.indexOf('[', pos);
+      const close = input.indexOf('>', pos);
+      pos = bracket !== -1 && bracket < close ? skipTo(']>', bracket, 'DOCTYPE') : skipTo('>', pos, 'DOCTYPE');
+    } else if (input[pos + 1] === '/') {
+      NAME.lastIndex = pos + 2;
+      const name = NAME.exec(input)?.[0];
+      if (!name) fail('Malformed closing tag', pos);
+      if (!current) fail(`Closing tag </${name}> without an open element`, pos);
+      if (current.tagName !== name) fail(`Closing tag </${name}> does not match <${current.tagName}>`, pos);
+      TAG_END.lastIndex = pos + 2 + name.length;
+      const end = TAG_END.exec(input);
+      if (!end || end[1]) fail(`Malformed closing tag </${name}>`, pos);
+      pos = TAG_END.lastIndex;
+      current = current.parentElement;
+      openedAt.pop();
+    } else {
+      NAME.lastIndex = pos + 1;
+      const name = NAME.exec(input)?.[0];
+      if (!name) fail('Malformed start tag', pos);
+      if (!current && root) fail(`Element <${name}> after the document element`, pos);
+      let cursor = pos + 1 + name.length;
+      const attributes = new Map<string, string>();
+      for (;;) {
+        ATTRIBUTE_PAIR.lastIndex = cursor;
+        const attribute = ATTRIBUTE_PAIR.exec(input);
+        if (!attribute) break;
+        if (attributes.has(attribute[1])) fail(`Duplicate attribute ${attribute[1]} on <${name}>`, pos);
+        attributes.set(attribute[1], decodeEntities(attribute[2] ?? attribute[3]));
+        cursor = ATTRIBUTE_PAIR.lastIndex;
+      }
+      TAG_END.lastIndex = cursor;
+      const end = TAG_END.exec(input);
+      if (!end) fail(`Malformed start tag <${name}>`, pos);
+      pos = TAG_END.lastIndex;
+
+      const element: XmlElement = new XmlElement(name, attributes, current);
+      if (current) current.append(element);
+      else root = element;
+      if (!end[1]) {
+        current = element;
+        openedAt.push(lt);
+      }
+    }
+  }
+
+  if (current) fail(`<${current.tagName}> is not closed`, openedAt[openedAt.length - 1]);
+  if (!root) fail('No document element', input.length);
+  const documentElement: XmlElement = root;
+  return {
+    documentElement,
+    querySelector: (selector) => (documentElement.matches(selector) ? documentElement : documentElement.querySelector(selector)),
+    querySelectorAll: (selector) => {
+      const below = documentElement.querySelectorAll(selector);
+      return documentElement.matches(selector) ? [documentElement, ...below] : below;
+    },
+  };
+}
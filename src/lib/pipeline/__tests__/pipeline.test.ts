@@ -0,0 +1,175 @@
+// @vitest-environment node
+// The worker has no DOM; running in node catches parser or advisor code that
+// reaches for one.
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { handlePipelineRequest, runParseJob } from '../jobs';
+import { parseInBackground, layoutInBackground, PipelineCancelledError } from '../client';
+import { describePipelineProgress } from '../progress';
+import { DEFAULT_PROFILE_NAME, runAdvisor, sanitizeProfiles } from '../../advisor';
+import type { PipelineRequest, PipelineResponse } from '../types';
+
+function readExample(filename: string): string {
+  return readFileSync(join(__dirname, '../../../examples', filename), 'utf-8');
+}
+
+function readFixture(filename: string): string {
+  return readFileSync(join(__dirname, '../../parser/__tests__/fixtures', filename), 'utf-8');
+}
+
+const XPLAN = readExample('02-dbms_xplan-Complex Plan.txt');
+
+/** Runs requests through `handlePipelineRequest` asynchronously, cloning messages like postMessage does. */
+class FakeWorker {
+  /** The worker that received the latest request (finished workers are reused). */
+  static lastUsed: FakeWorker | null = null;
+  onmessage: ((event: MessageEvent<PipelineResponse>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  terminated = false;
+
+  postMessage(request: PipelineRequest) {
+    FakeWorker.lastUsed = this;
+    setTimeout(() => {
+      void handlePipelineRequest(structuredClone(request), (response) => {
+        if (!this.terminated) this.onmessage?.({ data: structuredClone(response) } as MessageEvent<PipelineResponse>);
+      });
+    }, 0);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('runParseJob', () => {
+  it('parses, analyses and reports progress for each plan', async () => {
+    const stages: string[] = [];
+    const job = await runParseJob(XPLAN, {}, (progress) => stages.push(progress.stage));
+
+    expect(job.replaceAll).toBe(false);
+    expect(job.results).toHaveLength(1);
+    expect(job.results[0].plan?.allNodes.length).toBeGreaterThan(5);
+    expect(job.results[0].advisorReport).not.toBeNull();
+    expect(stages).toEqual(['detecting', 'parsing', 'analysing']);
+    // Results cross the worker boundary by structured clone.
+    expect(() => structuredClone(job)).not.toThrow();
+  });
+
+  it('splits multi-statement input into one result per plan', async () => {
+    const job = await runParseJob(readFixture('tkprof-multi-statement.txt'));
+    expect(job.replaceAll).toBe(true);
+    expect(job.results.length).toBeGreaterThan(1);
+    expect(job.results.every((result) => result.input.trim())).toBe(true);
+  });
+
+  it('keeps unparseable input as an error result', async () => {
+    const [result] = (await runParseJob('not a plan')).results;
+    expect(result.plan).toBeNull();
+    expect(result.error).toMatch(/Could not parse/);
+    expect(result.diagnostics.length).toBeGreaterThan(0);
+  });
+});
+
+describe('handlePipelineRequest', () => {
+  it('parses and analyses a SQL Monitor XML report without DOMParser', async () => {
+    const posted: PipelineResponse[] = [];
+    await handlePipelineRequest(
+      { type: 'parse', input: readFixture('sql-monitor-xml-hash-join.txt'), options: {} },
+      (response) => posted.push(response),
+    );
+
+    const done = posted[posted.length - 1];
+    expect(done.type).toBe('parsed');
+    const [result] = done.type === 'parsed' ? done.result.results : [];
+    expect(result.plan?.source).toBe('sql_monitor_xml');
+    expect(result.plan?.hasActualStats).toBe(true);
+    expect(result.advisorReport).not.toBeNull();
+  });
+
+  it('lays out a graph', async () => {
+    const posted: PipelineResponse[] = [];
+    await handlePipelineRequest({
+      type: 'layout',
+      graph: {
+        nodeIds: ['0', '1', '2'],
+        edges: [{ source: '0', target: '1' }, { source: '0', target: '2' }],
+        dimensions: new Map(),
+        defaultSize: { width: 100, height: 50 },
+      },
+    }, (response) => posted.push(response));
+
+    const done = posted[posted.length - 1];
+    expect(done.type).toBe('laid-out');
+    const layout = done.type === 'laid-out' ? done.layout : new Map();
+    expect(layout.get('1')?.y).toBe(130);
+    expect(layout.get('2')!.x - layout.get('1')!.x).toBe(180);
+  });
+});
+
+describe('pipeline client', () => {
+  it('runs on the page when workers are unavailable', async () => {
+    const job = await parseInBackground(XPLAN);
+    expect(job.results[0].plan).not.toBeNull();
+  });
+
+  it('seeds the advisor cache with the report computed in the worker', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    const progress: string[] = [];
+    const job = await parseInBackground(XPLAN, { onProgress: (p) => progress.push(describePipelineProgress(p)) });
+    const [{ plan, advisorReport }] = job.results;
+
+    expect(FakeWorker.lastUsed).toBeInstanceOf(FakeWorker);
+    expect(progress).toEqual(['Detecting format…', 'Parsing…', 'Running advisor…']);
+    expect(runAdvisor(plan!, null)).toBe(advisorReport);
+  });
+
+  it('primes the report under the active profile, so the context reuses it', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    // Settings hand the context freshly sanitised copies of the built-in profiles.
+    const profiles = sanitizeProfiles([]);
+    const { thresholds } = profiles.find((profile) => profile.name === DEFAULT_PROFILE_NAME)!;
+    const [{ plan, advisorReport }] = (await parseInBackground(XPLAN, { thresholds })).results;
+    expect(runAdvisor(plan!, null, thresholds)).toBe(advisorReport);
+    // The context passes the settings' own (empty) custom rule pack list.
+    expect(runAdvisor(plan!, null, thresholds, [])).toBe(advisorReport);
+
+    const dw = profiles.find((profile) => profile.name === 'DW')!.thresholds;
+    const [dwResult] = (await parseInBackground(XPLAN, { thresholds: dw })).results;
+    expect(runAdvisor(dwResult.plan!, null, dw)).toBe(dwResult.advisorReport);
+  });
+
+  it('completes a SQL Monitor XML report through the worker', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    const job = await parseInBackground(readFixture('sql-monitor-xml-hash-join.txt'));
+
+    expect(FakeWorker.lastUsed).toBeInstanceOf(FakeWorker);
+    expect(job.results[0].plan?.allNodes.length).toBeGreaterThan(1);
+    expect(job.results[0].error).toBeNull();
+  });
+
+  it('cancels a run by terminating its worker', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    const controller = new AbortController();
+    const run = parseInBackground(XPLAN, { signal: controller.signal });
+    controller.abort();
+
+    await expect(run).rejects.toBeInstanceOf(PipelineCancelledError);
+    expect(FakeWorker.lastUsed?.terminated).toBe(true);
+  });
+
+  it('rejects a run that was cancelled before it started', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(layoutInBackground({
+      nodeIds: [],
+      edges: [],
+      dimensions: new Map(),
+      defaultSize: { width: 1, height: 1 },
+    }, { signal: controller.signal })).rejects.toBeInstanceOf(PipelineCancelledError);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Runs parsing, advisor evaluation and tree layout off the main thread.
+ *
+ * Every run gets its own worker, so cancelling a run (a new paste into the
+ * same slot) is a `terminate()` that stops it mid-parse. One finished worker
+ * is kept warm for the next run. Where workers are unavailable (tests, very
+ * old browsers), the same job runs on the page after yielding once, so the
+ * caller's "parsing…" state still gets painted.
+ */
+import { primeAdvisorReport } from '../advisor';
+import { computeTreeLayout, type LayoutGraph, type TreeLayout } from '../treeLayout';
+import { runParseJob } from './jobs';
+import type { ParseJobOptions, ParseJobResult, PipelineProgress, PipelineRequest, PipelineResponse } from './types';
+
+/** Rejection reason of a run cancelled through its AbortSignal. */
+export class PipelineCancelledError extends Error {
+  constructor() {
+    super('Cancelled');
+    this.name = 'PipelineCancelledError';
+  }
+}
+
+export interface PipelineRunOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: PipelineProgress) => void;
+}
+
+let idleWorker: Worker | null = null;
+
+function acquireWorker(): Worker | null {
+  if (typeof Worker === 'undefined') return null;
+  const worker = idleWorker;
+  idleWorker = null;
+  try {
+    return worker ?? new Worker(new URL('./pipeline.worker.ts', import.meta.url), { type: 'module' });
+  } catch {
+    return null;
+  }
+}
+
+function releaseWorker(worker: Worker): void {
+  if (idleWorker) worker.terminate();
+  else idleWorker = worker;
+}
+
+async function runOnMainThread<T>(job: () => T | Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+  // Let React commit the pending state before the page is blocked.
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  if (signal?.aborted) throw new PipelineCancelledError();
+  return job();
+}
+
+function runInWorker<T>(
+  request: PipelineRequest,
+  pick: (response: PipelineResponse) => T | undefined,
+  fallback: () => T | Promise<T>,
+  { signal, onProgress }: PipelineRunOptions,
+): Promise<T> {
+  if (signal?.aborted) return Promise.reject(new PipelineCancelledError());
+  const worker = acquireWorker();
+  if (!worker) return runOnMainThread(fallback, signal);
+
+  return new Promise<T>((resolve, reject) => {
+    const detach = () => {
+      worker.onmessage = null;
+      worker.onerror = null;
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      detach();
+      worker.terminate();
+      reject(new PipelineCancelledError());
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = (event: MessageEvent<PipelineResponse>) => {
+      const response = event.data;
+      if (response.type === 'progress') {
+        onProgress?.(response.progress);
+        return;
+      }
+      detach();
+      releaseWorker(worker);
+      if (response.type === 'failed') {
+        reject(new Error(response.message));
+      } else {
+        const result = pick(response);
+        if (result === undefined) reject(new Error(`Unexpected pipeline response: ${response.type}`));
+        else resolve(result);
+      }
+    };
+    // The worker script failed to load or crashed: do the work here instead.
+    worker.onerror = (event) => {
+      event.preventDefault();
+      detach();
+      worker.terminate();
+      runOnMainThread(fallback, signal).then(resolve, reject);
+    };
+    worker.postMessage(request);
+  });
+}
+
+/**
+ * Detect, split, parse and analyse pasted input in the background. Advisor
+ * reports computed by the worker are seeded into the advisor cache, so
+ * `runAdvisor(plan, null, options.thresholds)` on the returned plans is free.
+ */
+export async function parseInBackground(
+  input: string,
+  options: ParseJobOptions & PipelineRunOptions = {},
+): Promise<ParseJobResult> {
+  const { signal, onProgress, ...jobOptions } = options;
+  const result = await runInWorker(
+    { type: 'parse', input, options: jobOptions },
+    (response) => (response.type === 'parsed' ? response.result : undefined),
+    () => runParseJob(input, jobOptions, onProgress),
+    { signal, onProgress },
+  );
+  for (const { plan, advisorReport } of result.results) {
+    if (plan && advisorReport) primeAdvisorReport(plan, null, advisorReport, jobOptions.thresholds);
+  }
+  return result;
+}
+
+/** Lay out a plan graph in the background. */
+export function layoutInBackground(graph: LayoutGraph, options: PipelineRunOptions = {}): Promise<TreeLayout> {
+  return runInWorker(
+    { type: 'layout', graph },
+    (response) => (response.type === 'laid-out' ? response.layout : undefined),
+    () => computeTreeLayout(graph),
+    options,
+  );
+}
@@ -0,0 +1,10 @@
+export type {
+  PipelineStage,
+  PipelineProgress,
+  PlanParseResult,
+  ParseJobOptions,
+  ParseJobResult,
+} from './types';
+export { parsePlanResult, runParseJob } from './jobs';
+export { parseInBackground, layoutInBackground, PipelineCancelledError, type PipelineRunOptions } from './client';
+export { describePipelineProgress } from './progress';
@@ -0,0 +1,115 @@
+import { parsePlan, splitPlanBatches } from '../parser/index';
+import { executionLabel, extractMonitoredExecutions } from '../parser/sqlMonitorList';
+import { extractActiveReportXml, sqlMonitorActiveParser } from '../parser/sqlMonitorActiveParser';
+import { runAdvisor } from '../advisor';
+import { computeTreeLayout } from '../treeLayout';
+import type {
+  ParseJobOptions,
+  ParseJobResult,
+  PipelineProgress,
+  PipelineRequest,
+  PipelineResponse,
+  PlanParseResult,
+} from './types';
+
+function errorResult(input: string, err: unknown): PlanParseResult {
+  return {
+    input,
+    plan: null,
+    error: `Parse error: ${err instanceof Error ? err.message : 'Unknown error'}`,
+    diagnostics: [],
+    advisorReport: null,
+  };
+}
+
+/** Parse one plan; failures become an error message rather than an exception. */
+export function parsePlanResult(input: string): PlanParseResult {
+  try {
+    const plan = parsePlan(input);
+    return {
+      input,
+      plan: plan.rootNode ? plan : null,
+      error: plan.rootNode ? null : 'Could not parse the execution plan. Please check the format.',
+      diagnostics: plan.diagnostics ?? [],
+      advisorReport: null,
+    };
+  } catch (err) {
+    return errorResult(input, err);
+  }
+}
+
+/**
+ * Detect, split, parse and analyse pasted input: everything between a paste
+ * and a drawable plan except layout. Runs in the pipeline worker, or on the
+ * page when workers are unavailable. An ACTIVE report is decompressed first
+ * and its results keep the decoded XML as their input.
+ */
+export async function runParseJob(
+  input: string,
+  options: ParseJobOptions = {},
+  onProgress: (progress: PipelineProgress) => void = () => {},
+): Promise<ParseJobResult> {
+  onProgress({ stage: 'detecting', done: 0, total: 1 });
+  if (sqlMonitorActiveParser.canParse(input)) {
+    try {
+      input = (await extractActiveReportXml(input)) ?? input;
+    } catch (err) {
+      return { replaceAll: false, results: [errorResult(input, err)] };
+    }
+  }
+  let inputs: string[];
+  let labels: Array<string | undefined> = [];
+  let replaceAll: boolean;
+
+  const executions = extractMonitoredExecutions(input);
+  if (executions.length > 0) {
+    if (!options.executions) return { replaceAll: false, results: [], executions };
+    const picked = options.executions
+      .map((index) => executions[index])
+      .filter((execution) => execution?.report !== undefined);
+    inputs = picked.map((execution) => execution.report!);
+    labels = picked.map(executionLabel);
+    replaceAll = inputs.length > 1;
+  } else {
+    const batches = splitPlanBatches(input).filter((batch) => batch.trim());
+    replaceAll = options.replaceAll ?? batches.length > 1;
+    inputs = replaceAll ? batches : [input];
+  }
+
+  const results = inputs.map((text, index) => {
+    onProgress({ stage: 'parsing', done: index, total: inputs.length });
+    const result = parsePlanResult(text);
+    if (labels[index]) result.label = labels[index];
+    return result;
+  });
+
+  results.forEach((result, index) => {
+    onProgress({ stage: 'analysing', done: index, total: results.length });
+    if (result.plan) result.advisorReport = runAdvisor(result.plan, null, options.thresholds);
+  });
+
+  return { replaceAll, results };
+}
+
+/** Answer one worker request; `post` sends progress and the final response. */
+export async function handlePipelineRequest(
+  request: PipelineRequest,
+  post: (response: PipelineResponse) => void,
+): Promise<void> {
+  try {
+    switch (request.type) {
+      case 'parse':
+        post({
+          type: 'parsed',
+          result: await runParseJob(request.input, request.options, (progress) => post({ type: 'progress', progress })),
+        });
+        return;
+      case 'layout':
+        post({ type: 'progress', progress: { stage: 'layout', done: 0, total: 1 } });
+        post({ type: 'laid-out', layout: computeTreeLayout(request.graph) });
+        return;
+    }
+  } catch (err) {
+    post({ type: 'failed', message: err instanceof Error ? err.message : 'Unknown error' });
+  }
+}
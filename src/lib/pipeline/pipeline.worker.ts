@@ -0,0 +1,11 @@
+/**
+ * Worker entry point for the parse / analyse / layout pipeline. Each worker
+ * handles one request at a time; the client cancels a run by terminating
+ * its worker.
+ */
+import { handlePipelineRequest } from './jobs';
+import type { PipelineRequest, PipelineResponse } from './types';
+
+self.addEventListener('message', (event: MessageEvent<PipelineRequest>) => {
+  void handlePipelineRequest(event.data, (response: PipelineResponse) => self.postMessage(response));
+});
@@ -0,0 +1,16 @@
+import type { PipelineProgress } from './types';
+
+/** Short status line for a pipeline run, e.g. "Parsing plan 2 of 5…". */
+export function describePipelineProgress(progress: PipelineProgress): string {
+  const of = progress.total > 1 ? ` ${progress.done + 1} of ${progress.total}` : '';
+  switch (progress.stage) {
+    case 'detecting':
+      return 'Detecting format…';
+    case 'parsing':
+      return progress.total > 1 ? `Parsing plan${of}…` : 'Parsing…';
+    case 'analysing':
+      return `Running advisor${of}…`;
+    case 'layout':
+      return 'Laying out plan…';
+  }
+}
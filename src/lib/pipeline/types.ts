@@ -0,0 +1,61 @@
+import type { ParsedPlan, ParseDiagnostic } from '../types';
+import type { AdvisorReport } from '../advisor/types';
+import type { AdvisorThresholds } from '../advisor/config';
+import type { LayoutGraph, TreeLayout } from '../treeLayout';
+import type { MonitoredExecution } from '../parser/sqlMonitorList';
+
+export type PipelineStage = 'detecting' | 'parsing' | 'analysing' | 'layout';
+
+/** How far a background run has got: `done` of `total` plans at `stage`. */
+export interface PipelineProgress {
+  stage: PipelineStage;
+  done: number;
+  total: number;
+}
+
+/** One plan out of a parse job; becomes one plan slot. */
+export interface PlanParseResult {
+  input: string;
+  /** The parsed plan, or null when no operations were found. */
+  plan: ParsedPlan | null;
+  error: string | null;
+  diagnostics: ParseDiagnostic[];
+  /** Advisor report for `plan` without a metadata bundle, under the job's thresholds. */
+  advisorReport: AdvisorReport | null;
+  /** Slot label, for plans picked out of a multi-execution SQL Monitor document. */
+  label?: string;
+}
+
+export interface ParseJobOptions {
+  /**
+   * Split the input into one plan per batch (TKPROF statements, stacked
+   * DBMS_XPLAN outputs). Defaults to splitting when there is more than one.
+   */
+  replaceAll?: boolean;
+  /**
+   * Indexes into the executions of a multi-execution SQL Monitor document to
+   * parse, one plan each. Without it such a document is not parsed; the job
+   * returns its `executions` to pick from.
+   */
+  executions?: number[];
+  /** Thresholds of the active advisor profile; the defaults when omitted. */
+  thresholds?: AdvisorThresholds;
+}
+
+export interface ParseJobResult {
+  /** True when the input was split into batches that replace every slot. */
+  replaceAll: boolean;
+  results: PlanParseResult[];
+  /** Set, with no results, when the input covers several SQL Monitor executions and none were picked. */
+  executions?: MonitoredExecution[];
+}
+
+export type PipelineRequest =
+  | { type: 'parse'; input: string; options: ParseJobOptions }
+  | { type: 'layout'; graph: LayoutGraph };
+
+export type PipelineResponse =
+  | { type: 'progress'; progress: PipelineProgress }
+  | { type: 'parsed'; result: ParseJobResult }
+  | { type: 'laid-out'; layout: TreeLayout }
+  | { type: 'failed'; message: string };
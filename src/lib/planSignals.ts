@@ -86,3 +86,26 @@ export function getDopDowngrade(
   }
   return null;
 }
+
+const STORAGE_FULL_RE = /\bSTORAGE\b.*\bFULL\b/i;
+
+/**
+ * Whether a node is an Exadata storage full scan (TABLE ACCESS STORAGE FULL,
+ * INDEX STORAGE FAST FULL SCAN, ...), the row sources smart scan can offload.
+ */
+export function isStorageFullScan(node: PlanNode): boolean {
+  return STORAGE_FULL_RE.test(node.operation);
+}
+
+/**
+ * Whether the plan carries per-line cell offload stats at all. Reports from
+ * non-Exadata systems leave them out, so a missing value only means "no
+ * smart scan" when other lines have one.
+ */
+export function planHasOffloadStats(plan: ParsedPlan): boolean {
+  return plan.allNodes.some((node) =>
+    node.cellOffloadEfficiency !== undefined ||
+    node.cellEligibleBytes !== undefined ||
+    node.cellInterconnectBytes !== undefined,
+  );
+}
@@ -0,0 +1,174 @@
+import type { ParsedPlan, PlanNode, PxServerStats } from './types';
+
+export type PxSkewSeverity = 'none' | 'info' | 'warning' | 'critical';
+
+/** How evenly one PX server set shared its elapsed time. */
+export interface ServerSetSkew {
+  serverSet: number;
+  servers: PxServerStats[];
+  /** Elapsed time of the busiest server and the per-server mean (microseconds). */
+  maxElapsed: number;
+  meanElapsed: number;
+  busiest?: string;
+  /** Servers with no recorded elapsed time. */
+  idleServers: number;
+  /** 0 = perfectly even, 100 = one server did all the work. */
+  score: number;
+  /** False when the set did too little work for the imbalance to matter. */
+  significant: boolean;
+  severity: PxSkewSeverity;
+}
+
+/** Row distribution across servers for one DFO (the lines under a PX SEND). */
+export interface DfoSkew {
+  tqName?: string;
+  sendNodeId: number;
+  serverSet?: number;
+  nodeIds: number[];
+  /** Line with the most uneven row distribution. */
+  worstNodeId?: number;
+  /** Busiest server's rows divided by the per-server average on that line. */
+  maxRowRatio?: number;
+  dop?: number;
+  score: number;
+  significant: boolean;
+  severity: PxSkewSeverity;
+}
+
+export interface PxSkewReport {
+  serverSets: ServerSetSkew[];
+  dfos: DfoSkew[];
+  /** Worst significant set / DFO score, 0-100. */
+  score: number;
+  severity: PxSkewSeverity;
+}
+
+/** Sets whose busiest server ran for less than this are not worth flagging. */
+export const PX_SKEW_MIN_ELAPSED_US = 1_000_000;
+/** DFO lines producing fewer rows than this are not worth flagging. */
+export const PX_SKEW_MIN_ROWS = 10_000;
+
+export function pxSkewSeverity(score: number): PxSkewSeverity {
+  if (score >= 60) return 'critical';
+  if (score >= 30) return 'warning';
+  if (score >= 15) return 'info';
+  return 'none';
+}
+
+/**
+ * Normalized imbalance of a work distribution: how far the busiest share sits
+ * between an even split (0) and a single worker doing everything (100).
+ */
+export function imbalanceScore(values: number[]): number {
+  const n = values.length;
+  const total = values.reduce((sum, v) => sum + v, 0);
+  if (n < 2 || total <= 0) return 0;
+  const maxShare = Math.max(...values) / total;
+  return Math.round(((maxShare - 1 / n) / (1 - 1 / n)) * 100);
+}
+
+function computeServerSets(servers: PxServerStats[]): ServerSetSkew[] {
+  const bySet = new Map<number, PxServerStats[]>();
+  for (const server of servers) {
+    if (server.isCoordinator || server.serverSet === undefined) continue;
+    const list = bySet.get(server.serverSet) ?? [];
+    list.push(server);
+    bySet.set(server.serverSet, list);
+  }
+
+  return [...bySet.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([serverSet, members]) => {
+      const elapsed = members.map((s) => s.elapsedTime ?? 0);
+      const maxElapsed = Math.max(...elapsed);
+      const busiestIndex = elapsed.indexOf(maxElapsed);
+      const score = imbalanceScore(elapsed);
+      const significant = maxElapsed >= PX_SKEW_MIN_ELAPSED_US;
+      return {
+        serverSet,
+        servers: members,
+        maxElapsed,
+        meanElapsed: elapsed.reduce((sum, v) => sum + v, 0) / members.length,
+        busiest: maxElapsed > 0 ? members[busiestIndex].name : undefined,
+        idleServers: elapsed.filter((v) => v === 0).length,
+        score,
+        significant,
+        severity: significant ? pxSkewSeverity(score) : 'none',
+      };
+    });
+}
+
+/**
+ * Group plan lines into DFOs: each PX SEND owns its subtree down to (but not
+ * including) the next PX SEND, which starts the producer DFO feeding it.
+ */
+function collectDfos(root: PlanNode): { send: PlanNode; nodes: PlanNode[] }[] {
+  const dfos: { send: PlanNode; nodes: PlanNode[] }[] = [];
+  const visit = (node: PlanNode, current: { send: PlanNode; nodes: PlanNode[] } | null) => {
+    let owner = current;
+    if (node.operation.toUpperCase().startsWith('PX SEND')) {
+      owner = { send: node, nodes: [] };
+      dfos.push(owner);
+    }
+    owner?.nodes.push(node);
+    for (const child of node.children) visit(child, owner);
+  };
+  visit(root, null);
+  return dfos;
+}
+
+function computeDfos(plan: ParsedPlan): DfoSkew[] {
+  if (!plan.rootNode) return [];
+  const result: DfoSkew[] = [];
+
+  for (const { send, nodes } of collectDfos(plan.rootNode)) {
+    // Prefer lines that moved enough rows to matter, then the most uneven one.
+    let worst: { node: PlanNode; ratio: number; score: number; significant: boolean } | undefined;
+    for (const node of nodes) {
+      const dop = node.pxDop;
+      if (!dop || dop < 2 || !node.actualRows || node.maxServerRows === undefined) continue;
+      const ratio = node.maxServerRows / (node.actualRows / dop);
+      const score = Math.round(Math.min(1, Math.max(0, (ratio - 1) / (dop - 1))) * 100);
+      const significant = node.actualRows >= PX_SKEW_MIN_ROWS;
+      if (!worst || (significant && !worst.significant) || (significant === worst.significant && score > worst.score)) {
+        worst = { node, ratio, score, significant };
+      }
+    }
+    if (!worst) continue;
+
+    const serverSets = nodes.map((n) => n.pxServerSet).filter((s): s is number => s !== undefined && s > 0);
+    result.push({
+      tqName: send.objectName,
+      sendNodeId: send.id,
+      serverSet: serverSets[0],
+      nodeIds: nodes.map((n) => n.id),
+      worstNodeId: worst.node.id,
+      maxRowRatio: worst.ratio,
+      dop: worst.node.pxDop,
+      score: worst.score,
+      significant: worst.significant,
+      severity: worst.significant ? pxSkewSeverity(worst.score) : 'none',
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Assess how evenly parallel work was spread, per server set (elapsed time per
+ * PX server) and per DFO (rows per server on each line). Returns null when the
+ * plan carries no per-server data.
+ */
+export function computePxSkew(plan: ParsedPlan): PxSkewReport | null {
+  const serverSets = computeServerSets(plan.monitorMetadata?.pxServers ?? []);
+  const dfos = computeDfos(plan);
+  if (serverSets.length === 0 && dfos.length === 0) return null;
+
+  const score = Math.max(
+    0,
+    ...serverSets.filter((set) => set.significant).map((set) => set.score),
+    ...dfos.filter((dfo) => dfo.significant).map((dfo) => dfo.score),
+  );
+
+  return { serverSets, dfos, score, severity: pxSkewSeverity(score) };
+}
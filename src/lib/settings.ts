@@ -1,6 +1,8 @@
 import type { FilterState, ViewMode, SankeyMetric, FlameMetric, ExperimentalSubView, NodeIndicatorMetric, NodeDisplayOptions, ColorScheme } from './types';
 import type { CompareMetric } from './compare';
 import type { HighlightStyle } from './annotations';
+import { BUILTIN_PROFILES, DEFAULT_PROFILE_NAME, sanitizeProfiles, type AdvisorProfile } from './advisor/profiles';
+import { sanitizeRulePacks, type CustomRulePack } from './advisor/customRules';
 
 const SETTINGS_KEY = 'ora-explain-viz-settings';
 const SETTINGS_VERSION = 1;
@@ -38,6 +40,13 @@ export interface UserSettings {
   // Advisor suggestion hints (the "consider…" recommendation lines on findings)
   showAdvisorSuggestions: boolean;
 
+  // Advisor threshold profiles (built-in and user-defined) and the one in use
+  advisorProfiles: AdvisorProfile[];
+  advisorProfileName: string;
+
+  // Imported custom advisor rule packs
+  customRulePacks: CustomRulePack[];
+
   // Comparison metrics
   compareMetrics: CompareMetric[];
 
@@ -62,6 +71,8 @@ export const defaultNodeDisplayOptions: NodeDisplayOptions = {
   showSpillBadge: true,
   showCardinalityBadge: true,
   showAdvisorBadge: true,
+  showLowImpactAdvisorBadge: false,
+  showOffloadBadge: true,
   showStaleStatsBadge: true,
   showMissingStatsBadge: true,
   showMismatchNoHistogramBadge: true,
@@ -81,6 +92,9 @@ const defaultSettings: UserSettings = {
   colorScheme: 'semantic',
   hotspotsEnabled: true,
   showAdvisorSuggestions: false,
+  advisorProfiles: BUILTIN_PROFILES,
+  advisorProfileName: DEFAULT_PROFILE_NAME,
+  customRulePacks: [],
   legendVisible: false,
   inputPanelCollapsed: false,
   filterPanelCollapsed: false,
@@ -118,6 +132,14 @@ export function loadSettings(): UserSettings {
       delete parsed.experimentalSubView;
     }
 
+    // Keep threshold profiles usable: built-ins always present, bad values replaced
+    const advisorProfiles = sanitizeProfiles(parsed.advisorProfiles);
+    parsed.advisorProfiles = advisorProfiles;
+    if (!advisorProfiles.some((profile) => profile.name === parsed.advisorProfileName)) {
+      parsed.advisorProfileName = DEFAULT_PROFILE_NAME;
+    }
+    parsed.customRulePacks = sanitizeRulePacks(parsed.customRulePacks);
+
     // Handle version migrations in the future
     if (parsed.version !== SETTINGS_VERSION) {
       // For now, just merge with defaults
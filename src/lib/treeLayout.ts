@@ -0,0 +1,219 @@
+import dagre from '@dagrejs/dagre';
+
+export interface LayoutSize {
+  width: number;
+  height: number;
+}
+
+export interface LayoutPosition {
+  x: number;
+  y: number;
+}
+
+/**
+ * The shape of a plan graph, without any node content, so it can be posted
+ * to the pipeline worker cheaply.
+ */
+export interface LayoutGraph {
+  nodeIds: string[];
+  edges: Array<{ source: string; target: string }>;
+  dimensions: Map<string, LayoutSize>;
+  /** Size used for a node missing from `dimensions`. */
+  defaultSize: LayoutSize;
+}
+
+/** Top-left position of every laid-out node, by node id. */
+export type TreeLayout = Map<string, LayoutPosition>;
+
+/**
+ * Whether two graphs lay out identically: same node ids, edges and sizes.
+ * Node content (badges, colours, annotations) changes far more often than
+ * the shape, and needs no new layout.
+ */
+export function sameLayoutGraph(a: LayoutGraph, b: LayoutGraph): boolean {
+  if (a === b) return true;
+  if (a.nodeIds.length !== b.nodeIds.length || a.edges.length !== b.edges.length) return false;
+  if (a.defaultSize.width !== b.defaultSize.width || a.defaultSize.height !== b.defaultSize.height) return false;
+  const sizeOf = (graph: LayoutGraph, id: string) => graph.dimensions.get(id) ?? graph.defaultSize;
+  return a.nodeIds.every((id, i) => {
+    if (id !== b.nodeIds[i]) return false;
+    const sizeA = sizeOf(a, id);
+    const sizeB = sizeOf(b, id);
+    return sizeA.width === sizeB.width && sizeA.height === sizeB.height;
+  }) && a.edges.every((edge, i) => edge.source === b.edges[i].source && edge.target === b.edges[i].target);
+}
+
+// Horizontal and vertical spacing between nodes
+// Extra padding to ensure query block groups don't overlap
+const NODE_H_SPACING = 80;
+const NODE_V_SPACING = 80;
+
+// Custom tree layout that ensures subtrees never overlap
+// Each subtree gets its own horizontal region based on its total width
+export function computeTreeLayout(graph: LayoutGraph): TreeLayout {
+  const { nodeIds, edges, dimensions, defaultSize } = graph;
+  if (nodeIds.length === 0) {
+    return new Map();
+  }
+
+  // Build adjacency map: parent -> children
+  const childrenMap = new Map<string, string[]>();
+  const parentMap = new Map<string, string>();
+
+  for (const edge of edges) {
+    if (!childrenMap.has(edge.source)) {
+      childrenMap.set(edge.source, []);
+    }
+    childrenMap.get(edge.source)!.push(edge.target);
+    parentMap.set(edge.target, edge.source);
+  }
+
+  // Find root node (node with no parent)
+  const rootId = nodeIds.find(id => !parentMap.has(id));
+  if (!rootId) {
+    // Fallback to dagre if we can't find root
+    return fallbackDagreLayout(graph);
+  }
+
+  // Calculate subtree width for each node (width needed to display all descendants)
+  const subtreeWidths = new Map<string, number>();
+
+  function calculateSubtreeWidth(nodeId: string): number {
+    const dims = dimensions.get(nodeId) || defaultSize;
+    const children = childrenMap.get(nodeId) || [];
+
+    if (children.length === 0) {
+      // Leaf node: width is just the node width
+      const width = dims.width;
+      subtreeWidths.set(nodeId, width);
+      return width;
+    }
+
+    // Sum of children subtree widths plus spacing between them
+    let totalChildrenWidth = 0;
+    for (const childId of children) {
+      totalChildrenWidth += calculateSubtreeWidth(childId);
+    }
+    totalChildrenWidth += (children.length - 1) * NODE_H_SPACING;
+
+    // Subtree width is max of node width and total children width
+    const width = Math.max(dims.width, totalChildrenWidth);
+    subtreeWidths.set(nodeId, width);
+    return width;
+  }
+
+  calculateSubtreeWidth(rootId);
+
+  // Assign depth and compute max node height per depth to avoid row overlaps
+  // when dynamic node content (e.g. predicate details) expands.
+  const depthByNodeId = new Map<string, number>();
+  const maxHeightByDepth = new Map<number, number>();
+
+  function assignDepth(nodeId: string, depth: number): void {
+    const existingDepth = depthByNodeId.get(nodeId);
+    if (existingDepth !== undefined && existingDepth <= depth) return;
+
+    depthByNodeId.set(nodeId, depth);
+    const dims = dimensions.get(nodeId) || defaultSize;
+    maxHeightByDepth.set(depth, Math.max(maxHeightByDepth.get(depth) || 0, dims.height));
+
+    const children = childrenMap.get(nodeId) || [];
+    for (const childId of children) {
+      assignDepth(childId, depth + 1);
+    }
+  }
+
+  assignDepth(rootId, 0);
+
+  const levelYOffsets = new Map<number, number>();
+  levelYOffsets.set(0, 0);
+  const maxDepth = Math.max(...depthByNodeId.values(), 0);
+  for (let depth = 1; depth <= maxDepth; depth++) {
+    const prevY = levelYOffsets.get(depth - 1) || 0;
+    const prevHeight = maxHeightByDepth.get(depth - 1) || defaultSize.height;
+    levelYOffsets.set(depth, prevY + prevHeight + NODE_V_SPACING);
+  }
+
+  // Position nodes: each node is centered over its subtree
+  const positions: TreeLayout = new Map();
+
+  function positionNode(nodeId: string, xStart: number): void {
+    const dims = dimensions.get(nodeId) || defaultSize;
+    const subtreeWidth = subtreeWidths.get(nodeId) || dims.width;
+    const children = childrenMap.get(nodeId) || [];
+    const depth = depthByNodeId.get(nodeId) || 0;
+    const y = levelYOffsets.get(depth) || 0;
+
+    // Center the node within its allocated subtree width
+    const nodeX = xStart + (subtreeWidth - dims.width) / 2;
+    positions.set(nodeId, { x: nodeX, y });
+
+    // Position children
+    if (children.length > 0) {
+      if (children.length === 1) {
+        // Single child: align directly under parent (same X position)
+        const childId = children[0];
+        const childDims = dimensions.get(childId) || defaultSize;
+        // Calculate xStart such that child node ends up at same X as parent
+        // childNodeX = childXStart + (childSubtreeWidth - childWidth) / 2 = nodeX
+        // childXStart = nodeX - (childSubtreeWidth - childWidth) / 2
+        const childSubtreeWidth = subtreeWidths.get(childId) || defaultSize.width;
+        const childXStart = nodeX - (childSubtreeWidth - childDims.width) / 2;
+        positionNode(childId, childXStart);
+      } else {
+        // Multiple children: center the group under the parent
+        let totalChildrenWidth = 0;
+        for (const childId of children) {
+          totalChildrenWidth += subtreeWidths.get(childId) || defaultSize.width;
+        }
+        totalChildrenWidth += (children.length - 1) * NODE_H_SPACING;
+
+        // Calculate parent's center position
+        const parentCenterX = nodeX + dims.width / 2;
+
+        // Start children such that their combined center aligns with parent's center
+        let childX = parentCenterX - totalChildrenWidth / 2;
+
+        for (const childId of children) {
+          const childSubtreeWidth = subtreeWidths.get(childId) || defaultSize.width;
+          positionNode(childId, childX);
+          childX += childSubtreeWidth + NODE_H_SPACING;
+        }
+      }
+    }
+  }
+
+  positionNode(rootId, 0);
+
+  return positions;
+}
+
+// Fallback to dagre layout for non-tree graphs
+function fallbackDagreLayout(graph: LayoutGraph): TreeLayout {
+  const { nodeIds, edges, dimensions, defaultSize } = graph;
+  const g = new dagre.graphlib.Graph();
+  g.setGraph({ rankdir: 'TB', nodesep: 120, ranksep: 120 });
+  g.setDefaultEdgeLabel(() => ({}));
+
+  nodeIds.forEach((id) => {
+    const dims = dimensions.get(id) || defaultSize;
+    g.setNode(id, { width: dims.width, height: dims.height });
+  });
+
+  edges.forEach((edge) => {
+    g.setEdge(edge.source, edge.target);
+  });
+
+  dagre.layout(g);
+
+  const positions: TreeLayout = new Map();
+  for (const id of nodeIds) {
+    const nodeWithPosition = g.node(id);
+    const dims = dimensions.get(id) || defaultSize;
+    positions.set(id, {
+      x: nodeWithPosition.x - dims.width / 2,
+      y: nodeWithPosition.y - dims.height / 2,
+    });
+  }
+  return positions;
+}
@@ -1,7 +1,24 @@
-import type { BindVariable } from './parser/types';
+import type { BindVariable, ParseDiagnostic } from './parser/types';
 import type { PlanNotes } from './parser/noteSection';
-export type { BindVariable } from './parser/types';
+import type { OutlineHint, HintReport } from './parser/hintSections';
+import type { ColumnProjection } from './parser/projection';
+import type { TkprofCallStats } from './parser/tkprofParser';
+import type { CboTrace } from './parser/cboTraceParser';
+export type { BindVariable, ParseDiagnostic, DiagnosticSeverity, DiagnosticRepair } from './parser/types';
 export type { PlanNotes } from './parser/noteSection';
+export type { OutlineHint, HintReport, HintReportEntry, HintStatus } from './parser/hintSections';
+export type { ColumnProjection, ProjectedColumn } from './parser/projection';
+export type { TkprofCall, TkprofCallStats } from './parser/tkprofParser';
+export type {
+  CboTrace,
+  CboTableStats,
+  CboIndexStats,
+  CboAccessPath,
+  CboAccessPathCandidate,
+  CboJoinOrder,
+  CboJoinStep,
+  CboQueryBlockResult,
+} from './parser/cboTraceParser';
 
 export interface PlanNode {
   id: number;
@@ -10,6 +27,10 @@ export interface PlanNode {
   objectName?: string;
   alias?: string;
 
+  // Adaptive plans: row switched off at runtime ("-" in DBMS_XPLAN +ADAPTIVE,
+  // skp="1" in OTHER_XML display_map). See resolveAdaptivePlan (adaptivePlan.ts).
+  inactive?: boolean;
+
   // Estimated statistics (from optimizer)
   rows?: number;
   bytes?: number;
@@ -25,6 +46,12 @@ export interface PlanNode {
   inOut?: string;
   pqDistrib?: string;
 
+  // Distributed queries: remote site (DBMS_XPLAN Inst / V$SQL_PLAN.OBJECT_NODE) and the
+  // SQL shipped over the database link ("Remote SQL Information" / V$SQL_PLAN.OTHER)
+  inst?: string;
+  remoteSql?: string;
+  remoteDbLink?: string;
+
   // Actual runtime statistics (from SQL Monitor)
   actualRows?: number;
   actualTime?: number;       // milliseconds, CUMULATIVE (includes children) after post-parse analysis
@@ -46,16 +73,36 @@ export interface PlanNode {
   lastActiveOffset?: number;
   firstRowOffset?: number;
 
+  // Per-line parallel execution stats (SQL Monitor XML px_type / dop / max_* stats)
+  pxServerSet?: number;      // server set that ran this line; 0 for the QC
+  pxDop?: number;            // number of PX servers that worked on this line
+  maxServerRows?: number;    // highest row count produced by a single server (max_card)
+  maxServerStarts?: number;  // highest starts by a single server (max_starts)
+
+  // Exadata smart scan and In-Memory scan stats (SQL Monitor "Cell Offload" column,
+  // XML plan_monitor io_inter_bytes / cell offload / im_scan_* stats)
+  cellOffloadEfficiency?: number;  // percent of eligible bytes not shipped to the database
+  cellEligibleBytes?: number;      // bytes eligible for predicate offload
+  cellInterconnectBytes?: number;  // bytes returned by the cells over the interconnect
+  storageIndexSavedBytes?: number; // bytes the cells skipped using storage indexes
+  imScanRows?: number;             // rows read from the In-Memory column store
+  imScanCus?: number;              // In-Memory compression units scanned
+  imScanCusPruned?: number;        // IMCUs skipped by In-Memory storage indexes
+
   // Predicates and metadata
   accessPredicates?: string;
   filterPredicates?: string;
   queryBlock?: string;
   objectAlias?: string;
+
+  // Columns passed up to the parent (DBMS_XPLAN +PROJECTION / V$SQL_PLAN.PROJECTION)
+  projection?: ColumnProjection;
+
   parentId?: number;
   children: PlanNode[];
 }
 
-export type PlanSource = 'dbms_xplan' | 'sql_monitor_text' | 'sql_monitor_xml' | 'json' | 'xbi';
+export type PlanSource = 'dbms_xplan' | 'sql_monitor_text' | 'sql_monitor_xml' | 'json' | 'csv' | 'xbi' | 'tkprof' | 'cbo_trace';
 export type NodeIndicatorMetric = 'cost' | 'actualRows' | 'actualTime' | 'starts' | 'activityPercent';
 
 export interface ParsedPlan {
@@ -86,8 +133,21 @@ export interface ParsedPlan {
   // Parsed "Note" section (dynamic sampling, adaptive plan, SQL profile, etc.)
   notes?: PlanNotes;
 
+  // Parsed "Outline Data" (+OUTLINE) and 19c "Hint Report" sections
+  outlineHints?: OutlineHint[];
+  hintReport?: HintReport;
+
   // Report-level ASH timeline (Active Session History), from <activity_detail>
   activityTimeline?: ActivityTimeline;
+
+  // Parse / Execute / Fetch call statistics of a TKPROF statement
+  tkprofCalls?: TkprofCallStats;
+
+  // Base statistics, access paths and join orders from a 10053 optimizer trace
+  cboTrace?: CboTrace;
+
+  // Problems found while parsing (unreadable or wrapped rows, truncation)
+  diagnostics?: ParseDiagnostic[];
 }
 
 /** One ASH sample from a SQL Monitor report-level <activity_detail> bucket. */
@@ -149,6 +209,31 @@ export interface SqlMonitorMetadata {
   dop?: number;
   pxServersRequested?: number;
   pxServersAllocated?: number;
+
+  // Per-process activity (from <parallel_info><sessions> / "Parallel Execution Details")
+  pxServers?: PxServerStats[];
+}
+
+/** One PX server (or the query coordinator) from a SQL Monitor report. */
+export interface PxServerStats {
+  name: string;              // "PX Coordinator", "p000", ...
+  isCoordinator: boolean;
+  instanceId?: number;
+  serverGroup?: number;
+  serverSet?: number;
+  serverNum?: number;
+
+  // Time breakdown (microseconds, like the report-level fields above)
+  elapsedTime?: number;
+  cpuTime?: number;
+  userIoWaitTime?: number;
+  otherWaitTime?: number;    // every non-CPU, non-user-I/O wait class
+
+  bufferGets?: number;
+  readReqs?: number;
+  readBytes?: number;
+  writeReqs?: number;
+  writeBytes?: number;
 }
 
 export type PredicateType = 'access' | 'filter' | 'none';
@@ -172,6 +257,8 @@ export interface NodeDisplayOptions {
   showSpillBadge: boolean;
   showCardinalityBadge: boolean;
   showAdvisorBadge: boolean;
+  showLowImpactAdvisorBadge: boolean;
+  showOffloadBadge: boolean;
   // Metadata indicators (from bundle)
   showStaleStatsBadge: boolean;
   showMissingStatsBadge: boolean;
@@ -200,7 +287,7 @@ export interface FilterState {
   minCardinalityMismatch: number;
 }
 
-export type ViewMode = 'hierarchical' | 'sankey' | 'flame' | 'tabular' | 'text' | 'sql' | 'metadata' | 'compare' | 'monitor' | 'experimental';
+export type ViewMode = 'hierarchical' | 'sankey' | 'flame' | 'tabular' | 'text' | 'sql' | 'metadata' | 'compare' | 'monitor' | 'px' | 'joinorders' | 'experimental';
 export type SankeyMetric = 'rows' | 'cost' | 'actualRows' | 'actualTime';
 export type ExperimentalSubView = 'scatter' | 'timeline' | 'waterfall' | 'morph' | 'waits';
 export type { FlameMetric } from './flameLayout';